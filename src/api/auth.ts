@@ -0,0 +1,92 @@
+import { createHash, randomBytes, randomUUID } from "node:crypto";
+import type { ApiTokenEntry, DatabaseManager } from "../database/index.js";
+
+/**
+ * Token scopes, from least to most privileged. A scope grants everything the
+ * scopes before it grant.
+ */
+export const API_TOKEN_SCOPES = ["read", "send", "admin"] as const;
+
+export type ApiTokenScope = (typeof API_TOKEN_SCOPES)[number];
+
+/**
+ * File in the data dir holding the token created by `yapyap init`;
+ * the CLI sends it when YAPYAP_API_TOKEN is not set.
+ */
+export const API_TOKEN_FILE = "api-token";
+
+const API_TOKEN_PREFIX = "yap_";
+
+export function isApiTokenScope(value: unknown): value is ApiTokenScope {
+	return API_TOKEN_SCOPES.includes(value as ApiTokenScope);
+}
+
+export function hashApiToken(token: string): string {
+	return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Create and persist a new token. Only its hash is stored, so the returned
+ * plaintext token cannot be recovered later.
+ */
+export function issueApiToken(
+	db: DatabaseManager,
+	name: string,
+	scopes: ApiTokenScope[],
+): { token: string; entry: ApiTokenEntry } {
+	const token = `${API_TOKEN_PREFIX}${randomBytes(32).toString("base64url")}`;
+	const entry = db.createApiToken(
+		randomUUID(),
+		name,
+		hashApiToken(token),
+		scopes,
+	);
+	return { token, entry };
+}
+
+export function scopeSatisfies(
+	granted: readonly string[],
+	required: ApiTokenScope,
+): boolean {
+	const requiredLevel = API_TOKEN_SCOPES.indexOf(required);
+	return granted.some(
+		(scope) =>
+			isApiTokenScope(scope) &&
+			API_TOKEN_SCOPES.indexOf(scope) >= requiredLevel,
+	);
+}
+
+/**
+ * Scope needed for an API route: database access, node control and contact
+ * verification need admin, reads need read, anything else that changes
+ * state needs send.
+ */
+export function requiredScopeFor(method: string, path: string): ApiTokenScope {
+	if (path.startsWith("/api/database") || path === "/api/node/stop") {
+		return "admin";
+	}
+	if (
+		(path.startsWith("/api/contacts") ||
+			path.startsWith("/api/blocks") ||
+			path.startsWith("/api/requests")) &&
+		method !== "GET"
+	) {
+		return "admin";
+	}
+	return method === "GET" ? "read" : "send";
+}
+
+/**
+ * Read a bearer token from the Authorization header, falling back to the
+ * access_token query parameter for WebSocket clients that cannot set headers.
+ */
+export function extractApiToken(
+	authorization: string | null | undefined,
+	url: URL,
+): string | null {
+	const match = authorization?.match(/^Bearer\s+(\S+)$/i);
+	if (match) {
+		return match[1];
+	}
+	return url.searchParams.get("access_token");
+}
@@ -4,13 +4,52 @@ import {
 	type IncomingMessage,
 	type Server,
 	type ServerResponse,
+	STATUS_CODES,
 } from "node:http";
 import type { Socket } from "node:net";
 import { WebSocket, WebSocketServer } from "ws";
+import { configJsonSchema } from "../config/index.js";
 import type { YapYapNode } from "../core/node.js";
-import type { YapYapMessage } from "../message/message.js";
+import type {
+	ConversationEntry,
+	ConversationFlags,
+	FileTransferDirection,
+	GroupEntry,
+	MessageHistoryEntry,
+	PendingMessageEntry,
+} from "../database/index.js";
+import { nextEventId } from "../events/event-types.js";
+import type { GroupMessage, YapYapMessage } from "../message/message.js";
+import { PROMETHEUS_CONTENT_TYPE } from "../metrics/index.js";
+import {
+	type ApiTokenScope,
+	extractApiToken,
+	hashApiToken,
+	requiredScopeFor,
+	scopeSatisfies,
+} from "./auth.js";
+import {
+	type EventSubscription,
+	formatSseEvent,
+	formatSseReset,
+	matchesSubscriptions,
+	parseSubscription,
+	REALTIME_EVENT_TYPES,
+	type RealtimeEvent,
+	removeSubscription,
+	toRealtimeEvent,
+} from "./realtime.js";
 
 type JsonObject = Record<string, unknown>;
+
+/**
+ * An open Server-Sent Events stream
+ */
+interface SseClient {
+	subscriptions: EventSubscription[];
+	write: (chunk: string) => void;
+	close: () => void;
+}
 type ApiSuccess<T> = { success: true; data: T };
 type ApiError = {
 	success: false;
@@ -27,8 +66,12 @@ export class ApiModule {
 	private apiServer?: Server;
 	private wss?: WebSocketServer;
 	private websocketClients = new Set<WebSocket>();
+	/** Subscriptions per WebSocket client; absent until it first subscribes */
+	private websocketSubscriptions = new Map<WebSocket, EventSubscription[]>();
+	private sseClients = new Set<SseClient>();
 	private heartbeatInterval?: NodeJS.Timeout;
 	private actualPort?: number;
+	private eventSubscriptions: Array<() => void> = [];
 
 	constructor(yapyapNode: YapYapNode) {
 		this.yapyapNode = yapyapNode;
@@ -40,6 +83,13 @@ export class ApiModule {
 
 	async init(portOverride?: number): Promise<void> {
 		await this.startApiServer(portOverride);
+		for (const eventType of REALTIME_EVENT_TYPES) {
+			this.eventSubscriptions.push(
+				this.yapyapNode.onEvent(eventType, (event) =>
+					this.broadcastEvent(toRealtimeEvent(event)),
+				),
+			);
+		}
 	}
 
 	private async startApiServer(portOverride?: number): Promise<void> {
@@ -68,6 +118,22 @@ export class ApiModule {
 					this.wss = new WebSocketServer({ noServer: true });
 
 					this.apiServer.on("upgrade", (request, socket, head) => {
+						const url = new URL(
+							request.url ?? "/",
+							`http://${request.headers.host || "localhost"}`,
+						);
+						const denied = this.authorize(
+							request.headers.authorization,
+							url,
+							"read",
+						);
+						if (denied) {
+							socket.write(
+								`HTTP/1.1 ${denied.status} ${STATUS_CODES[denied.status]}\r\n\r\n`,
+							);
+							socket.destroy();
+							return;
+						}
 						this.wss?.handleUpgrade(request, socket, head, (ws) => {
 							this.wss?.emit("connection", ws, request);
 						});
@@ -82,6 +148,7 @@ export class ApiModule {
 
 						ws.on("close", () => {
 							this.websocketClients.delete(ws);
+							this.websocketSubscriptions.delete(ws);
 						});
 					});
 
@@ -107,8 +174,13 @@ export class ApiModule {
 						if (ws.readyState !== WebSocket.OPEN) {
 							ws.close();
 							this.websocketClients.delete(ws);
+							this.websocketSubscriptions.delete(ws);
 						}
 					}
+					// SSE comment lines keep idle proxies from closing the stream
+					for (const client of this.sseClients) {
+						client.write(": keepalive\n\n");
+					}
 				}, 30000);
 
 				return; // Success
@@ -166,13 +238,27 @@ export class ApiModule {
 			res.setHeader(key, value);
 		});
 
-		if (fetchResponse.body) {
-			fetchResponse.arrayBuffer().then((buffer) => {
-				res.end(Buffer.from(buffer));
-			});
-		} else {
+		if (!fetchResponse.body) {
 			res.end();
+			return;
 		}
+
+		// Stream the body so long-lived responses (SSE) flush as they are written
+		const reader = fetchResponse.body.getReader();
+		res.on("close", () => {
+			void reader.cancel();
+		});
+		const pump = async (): Promise<void> => {
+			for (;;) {
+				const { done, value } = await reader.read();
+				if (done) {
+					res.end();
+					return;
+				}
+				res.write(value);
+			}
+		};
+		pump().catch(() => res.end());
 	}
 
 	public get apiPort(): number | undefined {
@@ -196,13 +282,40 @@ export class ApiModule {
 			return this.jsonResponse("", 200, true);
 		}
 
+		const denied = this.authorize(
+			request.headers.get("authorization"),
+			url,
+			requiredScopeFor(method, path),
+		);
+		if (denied) {
+			return this.fail(denied.status, denied.message);
+		}
+
 		try {
-			if (path.startsWith("/api/node")) {
+			if (method === "GET" && path === "/metrics") {
+				return this.getMetrics();
+			} else if (method === "GET" && path === "/api/events") {
+				return this.openEventStream(request, url);
+			} else if (method === "GET" && path === "/api/diagnostics") {
+				return this.ok(await this.yapyapNode.runDiagnostics());
+			} else if (path.startsWith("/api/node")) {
 				return await this.handleNodeRequest(path, method);
 			} else if (path.startsWith("/api/peers")) {
 				return await this.handlePeerRequest(path, method);
 			} else if (path.startsWith("/api/messages")) {
 				return await this.handleMessageRequest(request, path, method);
+			} else if (path.startsWith("/api/groups")) {
+				return await this.handleGroupRequest(request, path, method);
+			} else if (path.startsWith("/api/files")) {
+				return await this.handleFileRequest(request, path, method);
+			} else if (path.startsWith("/api/conversations")) {
+				return await this.handleConversationRequest(request, path, method);
+			} else if (path.startsWith("/api/requests")) {
+				return await this.handleMessageRequestsRequest(request, path, method);
+			} else if (path.startsWith("/api/blocks")) {
+				return await this.handleBlockRequest(request, path, method);
+			} else if (path.startsWith("/api/contacts")) {
+				return await this.handleContactRequest(request, path, method);
 			} else if (path.startsWith("/api/database")) {
 				return await this.handleDatabaseRequest(request, path, method);
 			} else if (path === "/api/database/processed_messages") {
@@ -220,12 +333,45 @@ export class ApiModule {
 		}
 	}
 
+	/**
+	 * Check the request token against the scope a route needs; returns null
+	 * when allowed. Until the first token is created the API stays open;
+	 * after that it never reopens, even with every token revoked.
+	 */
+	private authorize(
+		authorization: string | null | undefined,
+		url: URL,
+		required: ApiTokenScope,
+	): { status: 401 | 403; message: string } | null {
+		const db = this.yapyapNode.getDatabase();
+		if (!db.hasIssuedApiTokens()) {
+			return null;
+		}
+		const token = extractApiToken(authorization, url);
+		if (!token) {
+			return { status: 401, message: "Missing API token" };
+		}
+		const entry = db.getActiveApiTokenByHash(hashApiToken(token));
+		if (!entry) {
+			return { status: 401, message: "Invalid or revoked API token" };
+		}
+		if (!scopeSatisfies(entry.scopes, required)) {
+			return {
+				status: 403,
+				message: `API token lacks required scope: ${required}`,
+			};
+		}
+		db.touchApiToken(entry.token_id);
+		return null;
+	}
+
 	private jsonResponse(data: unknown, status = 200, isEmpty = false): Response {
 		const headers = new Headers({
 			"Content-Type": "application/json",
 			"Access-Control-Allow-Origin": "*",
-			"Access-Control-Allow-Methods": "GET,POST,DELETE,OPTIONS",
-			"Access-Control-Allow-Headers": "Content-Type",
+			"Access-Control-Allow-Methods": "GET,POST,PATCH,DELETE,OPTIONS",
+			"Access-Control-Allow-Headers":
+				"Content-Type, Authorization, Last-Event-ID",
 		});
 
 		return new Response(isEmpty ? "" : JSON.stringify(data), {
@@ -338,6 +484,11 @@ export class ApiModule {
 								type: "integer",
 								description: "Unix timestamp in milliseconds",
 							},
+							expireAfterMs: {
+								type: "integer",
+								description:
+									"Both ends purge the content this long after storing it",
+							},
 						},
 						required: ["id", "type", "from", "to", "payload", "timestamp"],
 					},
@@ -362,6 +513,157 @@ export class ApiModule {
 							message: { $ref: "#/components/schemas/YapYapMessage" },
 						},
 					},
+					QueuedMessage: {
+						type: "object",
+						properties: {
+							messageId: { type: "string" },
+							targetPeerId: { $ref: "#/components/schemas/PeerId" },
+							status: {
+								type: "string",
+								enum: ["scheduled", "pending", "processing"],
+							},
+							priority: { type: "integer" },
+							attempts: { type: "integer" },
+							nextRetryAt: { type: "integer" },
+							deadlineAt: { type: "integer" },
+							lastError: { type: "string", nullable: true },
+							createdAt: { type: "integer" },
+						},
+					},
+					MessageDetails: {
+						type: "object",
+						properties: {
+							messageId: { type: "string" },
+							direction: { type: "string", enum: ["inbound", "outbound"] },
+							peerId: { $ref: "#/components/schemas/PeerId" },
+							groupId: { type: "string", nullable: true },
+							status: { type: "string", nullable: true },
+							priority: { type: "integer", nullable: true },
+							attempts: { type: "integer" },
+							lastError: { type: "string", nullable: true },
+							createdAt: { type: "integer" },
+							updatedAt: { type: "integer" },
+							nextRetryAt: { type: "integer", nullable: true },
+							deadlineAt: { type: "integer", nullable: true },
+							ackedAt: {
+								type: "integer",
+								nullable: true,
+								description: "When the recipient's own ACK arrived",
+							},
+							relayAckedAt: {
+								type: "integer",
+								nullable: true,
+								description: "When a relay acknowledged a copy on its behalf",
+							},
+							readAt: { type: "integer", nullable: true },
+							relays: {
+								type: "array",
+								description: "Peers holding a relayed copy",
+								items: { $ref: "#/components/schemas/PeerId" },
+							},
+							replication: {
+								type: "object",
+								nullable: true,
+								properties: {
+									status: {
+										type: "string",
+										enum: ["pending", "delivered", "failed"],
+									},
+									sourcePeerId: { $ref: "#/components/schemas/PeerId" },
+									createdAt: { type: "integer" },
+								},
+							},
+							replicas: {
+								type: "array",
+								items: {
+									type: "object",
+									properties: {
+										peerId: { $ref: "#/components/schemas/PeerId" },
+										status: { type: "string" },
+										assignedAt: { type: "integer" },
+										ackExpected: { type: "boolean" },
+										ackReceivedAt: { type: "integer", nullable: true },
+										lastError: { type: "string", nullable: true },
+									},
+								},
+							},
+							timeline: {
+								type: "array",
+								items: {
+									type: "object",
+									properties: {
+										event: {
+											type: "string",
+											enum: [
+												"scheduled",
+												"queued",
+												"sent",
+												"send-failed",
+												"retry-scheduled",
+												"nak",
+												"replicated",
+												"replica-failed",
+												"delivered",
+												"read",
+												"failed",
+												"cancelled",
+												"expired",
+											],
+										},
+										at: { type: "integer" },
+										peerId: { type: "string", nullable: true },
+										detail: { type: "string", nullable: true },
+									},
+								},
+							},
+						},
+					},
+					Conversation: {
+						type: "object",
+						properties: {
+							conversationId: {
+								type: "string",
+								description:
+									"peer:<peerId> for direct chats, group:<groupId> for groups",
+							},
+							kind: { type: "string", enum: ["direct", "group"] },
+							peerId: { type: "string", nullable: true },
+							groupId: { type: "string", nullable: true },
+							lastMessageId: { type: "string", nullable: true },
+							lastMessagePreview: {
+								type: "string",
+								nullable: true,
+								description:
+									"Start of the last message's text, when it has any. Null when conversations.previews is disabled.",
+							},
+							lastMessageAt: { type: "integer", nullable: true },
+							lastDirection: {
+								type: "string",
+								enum: ["inbound", "outbound"],
+								nullable: true,
+							},
+							unreadCount: { type: "integer" },
+							lastReadMessageId: { type: "string", nullable: true },
+							lastReadAt: { type: "integer", nullable: true },
+							muted: { type: "boolean" },
+							archived: { type: "boolean" },
+							pinned: { type: "boolean" },
+							expireAfterMs: {
+								type: "integer",
+								nullable: true,
+								description:
+									"Disappearing messages: content is purged this long after it is sent or received",
+							},
+						},
+					},
+					BlockedPeer: {
+						type: "object",
+						properties: {
+							peerId: { $ref: "#/components/schemas/PeerId" },
+							reason: { type: "string", nullable: true },
+							blockedAt: { type: "integer" },
+						},
+					},
 					MessageHistoryEntry: {
 						type: "object",
 						properties: {
@@ -377,6 +679,30 @@ export class ApiModule {
 							processedAt: { type: "integer", nullable: true },
 							createdAt: { type: "integer" },
 							updatedAt: { type: "integer" },
+							groupId: { type: "string", nullable: true },
+							readAt: {
+								type: "integer",
+								nullable: true,
+								description:
+									"When the message was read: by us for inbound, by the peer for outbound",
+							},
+							editedAt: {
+								type: "integer",
+								nullable: true,
+								description: "When the sender last edited the message",
+							},
+							retractedAt: {
+								type: "integer",
+								nullable: true,
+								description:
+									"When the sender deleted the message for everyone; the payload is dropped",
+							},
+							expiresAt: {
+								type: "integer",
+								nullable: true,
+								description:
+									"When the content disappears; message is null once it has",
+							},
 							message: {
 								$ref: "#/components/schemas/YapYapMessage",
 								nullable: true,
@@ -384,6 +710,59 @@ export class ApiModule {
 							decryptionError: { type: "string", nullable: true },
 						},
 					},
+					Group: {
+						type: "object",
+						properties: {
+							groupId: { type: "string" },
+							name: { type: "string" },
+							ownerPeerId: { $ref: "#/components/schemas/PeerId" },
+							members: {
+								type: "array",
+								items: { $ref: "#/components/schemas/PeerId" },
+							},
+							createdAt: { type: "integer" },
+							updatedAt: { type: "integer" },
+						},
+					},
+					GroupDelivery: {
+						type: "object",
+						properties: {
+							peerId: { $ref: "#/components/schemas/PeerId" },
+							messageId: {
+								type: "string",
+								description:
+									"Per-member message ID used for queueing and ACK tracking",
+							},
+							queued: { type: "boolean" },
+							error: {
+								type: "string",
+								nullable: true,
+								description:
+									"Why the copy was not sent. With queued false the member was skipped, e.g. because it is blocked.",
+							},
+						},
+					},
+					FileTransfer: {
+						type: "object",
+						properties: {
+							fileId: { type: "string" },
+							direction: { type: "string", enum: ["inbound", "outbound"] },
+							peerId: { $ref: "#/components/schemas/PeerId" },
+							fileName: { type: "string" },
+							mimeType: { type: "string" },
+							size: { type: "integer" },
+							chunkCount: { type: "integer" },
+							chunksStored: { type: "integer" },
+							manifestHash: { type: "string" },
+							status: {
+								type: "string",
+								enum: ["in-progress", "complete", "failed"],
+							},
+							progress: { type: "number" },
+							createdAt: { type: "integer" },
+							updatedAt: { type: "integer" },
+						},
+					},
 					PeerInfo: {
 						type: "object",
 						properties: {
@@ -393,6 +772,7 @@ export class ApiModule {
 							isInbound: { type: "boolean" },
 						},
 					},
+					NodeConfig: configJsonSchema(),
 					NodeInfo: {
 						type: "object",
 						properties: {
@@ -439,6 +819,41 @@ export class ApiModule {
 							"uptime",
 						],
 					},
+					DiagnosticCheck: {
+						type: "object",
+						properties: {
+							id: {
+								type: "string",
+								description:
+									"Stable check ID, e.g. dht or bootstrap:<multiaddr>",
+							},
+							name: { type: "string" },
+							status: { type: "string", enum: ["pass", "warn", "fail"] },
+							message: { type: "string" },
+							fix: {
+								type: "string",
+								description: "Suggested fix for a warn or fail",
+							},
+							details: { type: "object" },
+						},
+						required: ["id", "name", "status", "message"],
+					},
+					DiagnosticReport: {
+						type: "object",
+						properties: {
+							status: {
+								type: "string",
+								enum: ["pass", "warn", "fail"],
+								description: "The worst status of any check",
+							},
+							checks: {
+								type: "array",
+								items: { $ref: "#/components/schemas/DiagnosticCheck" },
+							},
+							generatedAt: { type: "integer" },
+						},
+						required: ["status", "checks", "generatedAt"],
+					},
 				},
 				parameters: {
 					PeerIdParam: {
@@ -467,7 +882,16 @@ export class ApiModule {
 						},
 					},
 				},
+				securitySchemes: {
+					bearerAuth: {
+						type: "http",
+						scheme: "bearer",
+						description:
+							"API token from `yapyap init` or `yapyap token create`. Scopes: read (GET routes), send (other routes), admin (/api/database/* and node control). Enforced once at least one token exists; WebSocket clients may pass ?access_token=.",
+					},
+				},
 			},
+			security: [{ bearerAuth: [] }],
 			paths: {
 				"/health": {
 					get: {
@@ -475,6 +899,7 @@ export class ApiModule {
 						description: "Check if the API server is running",
 						operationId: "healthCheck",
 						tags: ["Health"],
+						security: [],
 						responses: {
 							"200": {
 								description: "API is healthy",
@@ -493,6 +918,25 @@ export class ApiModule {
 						},
 					},
 				},
+				"/metrics": {
+					get: {
+						summary: "Prometheus metrics",
+						description:
+							"Router, network and database metrics in the Prometheus text exposition format",
+						operationId: "getMetrics",
+						tags: ["Node"],
+						responses: {
+							"200": {
+								description: "Metrics in Prometheus text format",
+								content: {
+									"text/plain": {
+										schema: { type: "string" },
+									},
+								},
+							},
+						},
+					},
+				},
 				"/api/node/info": {
 					get: {
 						summary: "Get node information",
@@ -566,10 +1010,41 @@ export class ApiModule {
 						},
 					},
 				},
+				"/api/diagnostics": {
+					get: {
+						summary: "Run health diagnostics",
+						description:
+							"Check listen addresses, public IP addresses, bootstrap dials, the DHT routing table, relay reservations, SQLite integrity, clock skew against connected peers and the pending message backlog. Each check reports pass, warn or fail with a suggested fix.",
+						operationId: "getDiagnostics",
+						tags: ["Node"],
+						responses: {
+							"200": {
+								description: "Diagnostic report",
+								content: {
+									"application/json": {
+										schema: {
+											allOf: [
+												{ $ref: "#/components/schemas/ApiResponse" },
+												{
+													properties: {
+														data: {
+															$ref: "#/components/schemas/DiagnosticReport",
+														},
+													},
+												},
+											],
+										},
+									},
+								},
+							},
+						},
+					},
+				},
 				"/api/node/config": {
 					get: {
 						summary: "Get node configuration",
-						description: "Retrieve the current node configuration",
+						description:
+							"Retrieve the effective node configuration (defaults < yapyap.config.json < environment < CLI flags)",
 						operationId: "getNodeConfig",
 						tags: ["Node"],
 						responses: {
@@ -583,11 +1058,7 @@ export class ApiModule {
 												{
 													properties: {
 														data: {
-															type: "object",
-															properties: {
-																dataDir: { type: "string", nullable: true },
-																network: { type: "string", nullable: true },
-															},
+															$ref: "#/components/schemas/NodeConfig",
 														},
 													},
 												},
@@ -675,6 +1146,61 @@ export class ApiModule {
 						},
 					},
 				},
+				"/api/peers/{peerId}/reputation": {
+					get: {
+						summary: "Get a peer's reputation",
+						description:
+							"The peer's current score (-100 to 100, decaying toward zero over router.reputationHalfLifeMs) and its most recent adjustments with their reasons, newest first.",
+						operationId: "getPeerReputation",
+						tags: ["Peers"],
+						parameters: [
+							{
+								name: "peerId",
+								in: "path",
+								required: true,
+								schema: { $ref: "#/components/schemas/PeerId" },
+							},
+						],
+						responses: {
+							"200": {
+								description: "Reputation score and adjustment log",
+								content: {
+									"application/json": {
+										schema: {
+											allOf: [
+												{ $ref: "#/components/schemas/ApiResponse" },
+												{
+													properties: {
+														data: {
+															type: "object",
+															properties: {
+																peerId: { $ref: "#/components/schemas/PeerId" },
+																score: { type: "number" },
+																updatedAt: { type: "integer", nullable: true },
+																history: {
+																	type: "array",
+																	items: {
+																		type: "object",
+																		properties: {
+																			delta: { type: "number" },
+																			score: { type: "number" },
+																			reason: { type: "string" },
+																			at: { type: "integer" },
+																		},
+																	},
+																},
+															},
+														},
+													},
+												},
+											],
+										},
+									},
+								},
+							},
+						},
+					},
+				},
 				"/api/peers/{peerId}": {
 					get: {
 						summary: "Get peer information",
@@ -824,6 +1350,23 @@ export class ApiModule {
 												type: "object",
 												description: "Message payload to send",
 											},
+											priority: {
+												type: "integer",
+												default: 0,
+												description:
+													"Retry order while queued; higher values are retried first",
+											},
+											sendAt: {
+												type: "integer",
+												description:
+													"Epoch ms to send at. A future time holds the message in the queue as scheduled until then; it is encrypted and sent when due.",
+											},
+											expireAfterMs: {
+												type: "integer",
+												minimum: 1,
+												description:
+													"Purge the content this long after sending; the recipient honors it too. Defaults to the conversation's setting.",
+											},
 										},
 									},
 								},
@@ -859,7 +1402,8 @@ export class ApiModule {
 								},
 							},
 							"202": {
-								description: "Message queued for retry",
+								description:
+									"Message queued for retry, or scheduled when sendAt is in the future",
 								content: {
 									"application/json": {
 										schema: {
@@ -876,6 +1420,8 @@ export class ApiModule {
 																	$ref: "#/components/schemas/PeerId",
 																},
 																queued: { type: "boolean", example: true },
+																scheduled: { type: "boolean" },
+																sendAt: { type: "integer" },
 																details: { type: "string" },
 																timestamp: { type: "integer" },
 															},
@@ -888,6 +1434,10 @@ export class ApiModule {
 								},
 							},
 							"400": { $ref: "#/components/responses/ErrorResponse" },
+							"409": {
+								description:
+									"Sends to this peer are blocked until its changed key is verified",
+							},
 						},
 					},
 				},
@@ -991,6 +1541,13 @@ export class ApiModule {
 								schema: { $ref: "#/components/schemas/PeerId" },
 								description: "Return messages exchanged with a specific peer",
 							},
+							{
+								name: "groupId",
+								in: "query",
+								schema: { type: "string" },
+								description:
+									"Return messages of a group conversation (one outbound entry per member)",
+							},
 							{
 								name: "limit",
 								in: "query",
@@ -1038,6 +1595,7 @@ export class ApiModule {
 																	$ref: "#/components/schemas/PeerId",
 																	nullable: true,
 																},
+																groupId: { type: "string", nullable: true },
 																limit: { type: "integer" },
 																offset: { type: "integer" },
 															},
@@ -1053,13 +1611,1534 @@ export class ApiModule {
 						},
 					},
 				},
-				"/api/database/contacts": {
+				"/api/messages/search": {
 					get: {
-						summary: "List contacts",
-						description: "Retrieve all stored contacts",
-						operationId: "getContacts",
-						tags: ["Contacts"],
-						responses: {
+						summary: "Search message history",
+						description:
+							"Full-text search over decrypted message bodies, best match first. Requires the opt-in search.indexMessages config; only messages sent or received while it is enabled are indexed. Matches in snippets are wrapped in <mark></mark>.",
+						operationId: "searchMessages",
+						tags: ["Messages"],
+						parameters: [
+							{
+								name: "q",
+								in: "query",
+								required: true,
+								schema: { type: "string" },
+							},
+							{
+								name: "peerId",
+								in: "query",
+								schema: { $ref: "#/components/schemas/PeerId" },
+							},
+							{
+								name: "since",
+								in: "query",
+								description: "Only messages created at or after this time (ms)",
+								schema: { type: "integer", minimum: 0 },
+							},
+							{
+								name: "limit",
+								in: "query",
+								schema: {
+									type: "integer",
+									minimum: 1,
+									maximum: 500,
+									default: 50,
+								},
+							},
+						],
+						responses: {
+							"200": {
+								description: "Matching messages",
+								content: {
+									"application/json": {
+										schema: {
+											allOf: [
+												{ $ref: "#/components/schemas/ApiResponse" },
+												{
+													properties: {
+														data: {
+															type: "object",
+															properties: {
+																results: {
+																	type: "array",
+																	items: {
+																		type: "object",
+																		properties: {
+																			messageId: { type: "string" },
+																			direction: {
+																				type: "string",
+																				enum: ["inbound", "outbound"],
+																			},
+																			peerId: {
+																				$ref: "#/components/schemas/PeerId",
+																			},
+																			createdAt: { type: "integer" },
+																			snippet: { type: "string" },
+																		},
+																	},
+																},
+																count: { type: "integer" },
+																query: { type: "string" },
+															},
+														},
+													},
+												},
+											],
+										},
+									},
+								},
+							},
+							"400": { $ref: "#/components/responses/ErrorResponse" },
+							"409": { $ref: "#/components/responses/ErrorResponse" },
+						},
+					},
+				},
+				"/api/messages/queue": {
+					get: {
+						summary: "List queued messages",
+						description:
+							"Messages waiting for delivery, in the order the retry scheduler sends them: highest priority first, then soonest retry.",
+						operationId: "getQueuedMessages",
+						tags: ["Messages"],
+						parameters: [
+							{
+								name: "limit",
+								in: "query",
+								schema: { type: "integer", default: 200 },
+							},
+						],
+						responses: {
+							"200": {
+								description: "Queued messages",
+								content: {
+									"application/json": {
+										schema: {
+											allOf: [
+												{ $ref: "#/components/schemas/ApiResponse" },
+												{
+													properties: {
+														data: {
+															type: "object",
+															properties: {
+																messages: {
+																	type: "array",
+																	items: {
+																		$ref: "#/components/schemas/QueuedMessage",
+																	},
+																},
+																count: { type: "integer" },
+															},
+														},
+													},
+												},
+											],
+										},
+									},
+								},
+							},
+						},
+					},
+				},
+				"/api/messages/scheduled": {
+					get: {
+						summary: "List scheduled messages",
+						description:
+							"Messages sent with a future sendAt that are waiting for their send time, soonest first. Cancel one with DELETE /api/messages/{messageId}/queue.",
+						operationId: "getScheduledMessages",
+						tags: ["Messages"],
+						parameters: [
+							{
+								name: "limit",
+								in: "query",
+								schema: { type: "integer", default: 200 },
+							},
+						],
+						responses: {
+							"200": {
+								description: "Scheduled messages",
+								content: {
+									"application/json": {
+										schema: {
+											allOf: [
+												{ $ref: "#/components/schemas/ApiResponse" },
+												{
+													properties: {
+														data: {
+															type: "object",
+															properties: {
+																messages: {
+																	type: "array",
+																	items: {
+																		allOf: [
+																			{
+																				$ref: "#/components/schemas/QueuedMessage",
+																			},
+																			{
+																				properties: {
+																					sendAt: { type: "integer" },
+																				},
+																			},
+																		],
+																	},
+																},
+																count: { type: "integer" },
+															},
+														},
+													},
+												},
+											],
+										},
+									},
+								},
+							},
+						},
+					},
+				},
+				"/api/messages/{messageId}/retry": {
+					post: {
+						summary: "Retry a message now",
+						description:
+							"Clear the backoff and attempt count of a queued, failed or cancelled message and send it immediately. If the send fails the message stays queued and the response is 202. Scheduled messages are refused with 409.",
+						operationId: "retryMessage",
+						tags: ["Messages"],
+						parameters: [
+							{
+								name: "messageId",
+								in: "path",
+								required: true,
+								schema: { type: "string" },
+							},
+						],
+						responses: {
+							"200": {
+								description: "Message sent",
+								content: {
+									"application/json": {
+										schema: {
+											allOf: [
+												{ $ref: "#/components/schemas/ApiResponse" },
+												{
+													properties: {
+														data: {
+															type: "object",
+															properties: {
+																messageId: { type: "string" },
+																queued: { type: "boolean" },
+															},
+														},
+													},
+												},
+											],
+										},
+									},
+								},
+							},
+							"202": {
+								description: "Send failed; message queued for retry",
+							},
+							"404": { $ref: "#/components/responses/ErrorResponse" },
+							"409": { $ref: "#/components/responses/ErrorResponse" },
+						},
+					},
+				},
+				"/api/messages/{messageId}/queue": {
+					delete: {
+						summary: "Cancel a queued message",
+						description:
+							"Stop retrying a message that has not been delivered yet, or drop a scheduled one before its send time. Unlike DELETE /api/messages/{messageId}, this never sends a retraction. Copies already stored on relays are not recalled.",
+						operationId: "cancelQueuedMessage",
+						tags: ["Messages"],
+						parameters: [
+							{
+								name: "messageId",
+								in: "path",
+								required: true,
+								schema: { type: "string" },
+							},
+						],
+						responses: {
+							"200": {
+								description: "Message cancelled",
+								content: {
+									"application/json": {
+										schema: {
+											allOf: [
+												{ $ref: "#/components/schemas/ApiResponse" },
+												{
+													properties: {
+														data: {
+															type: "object",
+															properties: {
+																messageId: { type: "string" },
+																cancelled: { type: "boolean" },
+															},
+														},
+													},
+												},
+											],
+										},
+									},
+								},
+							},
+							"404": { $ref: "#/components/responses/ErrorResponse" },
+						},
+					},
+				},
+				"/api/messages/{messageId}/priority": {
+					post: {
+						summary: "Reprioritize a queued message",
+						operationId: "setMessagePriority",
+						tags: ["Messages"],
+						parameters: [
+							{
+								name: "messageId",
+								in: "path",
+								required: true,
+								schema: { type: "string" },
+							},
+						],
+						requestBody: {
+							required: true,
+							content: {
+								"application/json": {
+									schema: {
+										type: "object",
+										required: ["priority"],
+										properties: {
+											priority: {
+												type: "integer",
+												description: "Higher values are retried first",
+											},
+										},
+									},
+								},
+							},
+						},
+						responses: {
+							"200": {
+								description: "Priority updated",
+								content: {
+									"application/json": {
+										schema: {
+											allOf: [
+												{ $ref: "#/components/schemas/ApiResponse" },
+												{
+													properties: {
+														data: {
+															type: "object",
+															properties: {
+																messageId: { type: "string" },
+																priority: { type: "integer" },
+															},
+														},
+													},
+												},
+											],
+										},
+									},
+								},
+							},
+							"400": { $ref: "#/components/responses/ErrorResponse" },
+							"404": { $ref: "#/components/responses/ErrorResponse" },
+						},
+					},
+				},
+				"/api/messages/{messageId}/read": {
+					post: {
+						summary: "Mark a message as read",
+						description:
+							"Set read_at on a received message and send the sender a read receipt. Receipts are queued and retried like messages. Message requests are marked read locally without a receipt.",
+						operationId: "markMessageRead",
+						tags: ["Messages"],
+						parameters: [
+							{
+								name: "messageId",
+								in: "path",
+								required: true,
+								schema: { type: "string" },
+							},
+						],
+						responses: {
+							"200": {
+								description: "Message marked as read and receipt sent",
+								content: {
+									"application/json": {
+										schema: {
+											allOf: [
+												{ $ref: "#/components/schemas/ApiResponse" },
+												{
+													properties: {
+														data: {
+															type: "object",
+															properties: {
+																messageId: { type: "string" },
+																readAt: { type: "integer" },
+																queued: { type: "boolean" },
+																receiptSent: {
+																	type: "boolean",
+																	description:
+																		"false when the message is a request from an unknown sender",
+																},
+															},
+														},
+													},
+												},
+											],
+										},
+									},
+								},
+							},
+							"202": {
+								description: "Message marked as read; receipt queued for retry",
+							},
+							"404": { $ref: "#/components/responses/ErrorResponse" },
+						},
+					},
+				},
+				"/api/messages/{messageId}": {
+					get: {
+						summary: "Get a message's delivery details",
+						description:
+							"Status, attempts, last transport error, relays and replicas used, ACK time and a timeline of recorded delivery events (queued, sent, retried, NAKed, replicated, delivered, read).",
+						operationId: "getMessageDetails",
+						tags: ["Messages"],
+						parameters: [
+							{
+								name: "messageId",
+								in: "path",
+								required: true,
+								schema: { type: "string" },
+							},
+						],
+						responses: {
+							"200": {
+								description: "Message delivery details",
+								content: {
+									"application/json": {
+										schema: {
+											allOf: [
+												{ $ref: "#/components/schemas/ApiResponse" },
+												{
+													properties: {
+														data: {
+															$ref: "#/components/schemas/MessageDetails",
+														},
+													},
+												},
+											],
+										},
+									},
+								},
+							},
+							"404": { $ref: "#/components/responses/ErrorResponse" },
+						},
+					},
+					patch: {
+						summary: "Edit a sent message",
+						description:
+							"Replace the payload of a message we sent and send the recipient an edit signed with our peer key. Edits are queued and retried like messages; the latest edit wins.",
+						operationId: "editMessage",
+						tags: ["Messages"],
+						parameters: [
+							{
+								name: "messageId",
+								in: "path",
+								required: true,
+								schema: { type: "string" },
+							},
+						],
+						requestBody: {
+							required: true,
+							content: {
+								"application/json": {
+									schema: {
+										type: "object",
+										required: ["payload"],
+										properties: { payload: {} },
+									},
+								},
+							},
+						},
+						responses: {
+							"200": {
+								description: "Message edited and edit sent",
+								content: {
+									"application/json": {
+										schema: {
+											allOf: [
+												{ $ref: "#/components/schemas/ApiResponse" },
+												{
+													properties: {
+														data: {
+															type: "object",
+															properties: {
+																messageId: { type: "string" },
+																editedAt: { type: "integer" },
+																queued: { type: "boolean" },
+															},
+														},
+													},
+												},
+											],
+										},
+									},
+								},
+							},
+							"202": { description: "Message edited; edit queued for retry" },
+							"400": { $ref: "#/components/responses/ErrorResponse" },
+							"404": { $ref: "#/components/responses/ErrorResponse" },
+							"409": { $ref: "#/components/responses/ErrorResponse" },
+						},
+					},
+					delete: {
+						summary:
+							"Cancel a queued message or delete a sent one for everyone",
+						description:
+							"While the message is still queued and has never been transmitted this cancels it: retries stop and the response carries cancelled: true. Otherwise, including sent messages still waiting for an ACK, retries stop and it tombstones a message we sent and sends the recipient a signed retraction, which drops the payload on their side too.",
+						operationId: "retractMessage",
+						tags: ["Messages"],
+						parameters: [
+							{
+								name: "messageId",
+								in: "path",
+								required: true,
+								schema: { type: "string" },
+							},
+						],
+						responses: {
+							"200": {
+								description: "Message deleted and retraction sent",
+								content: {
+									"application/json": {
+										schema: {
+											allOf: [
+												{ $ref: "#/components/schemas/ApiResponse" },
+												{
+													properties: {
+														data: {
+															type: "object",
+															properties: {
+																messageId: { type: "string" },
+																cancelled: { type: "boolean" },
+																retractedAt: { type: "integer" },
+																queued: { type: "boolean" },
+															},
+														},
+													},
+												},
+											],
+										},
+									},
+								},
+							},
+							"202": {
+								description: "Message deleted; retraction queued for retry",
+							},
+							"404": { $ref: "#/components/responses/ErrorResponse" },
+							"409": { $ref: "#/components/responses/ErrorResponse" },
+						},
+					},
+				},
+				"/api/messages/typing": {
+					post: {
+						summary: "Send a typing indicator",
+						description:
+							"Tell a peer we started or stopped typing. Indicators are not queued; they are dropped if the peer is unreachable.",
+						operationId: "sendTypingIndicator",
+						tags: ["Messages"],
+						requestBody: {
+							required: true,
+							content: {
+								"application/json": {
+									schema: {
+										type: "object",
+										required: ["to"],
+										properties: {
+											to: { $ref: "#/components/schemas/PeerId" },
+											isTyping: { type: "boolean", default: true },
+										},
+									},
+								},
+							},
+						},
+						responses: {
+							"200": {
+								description: "Indicator sent (or dropped if sent is false)",
+								content: {
+									"application/json": {
+										schema: {
+											allOf: [
+												{ $ref: "#/components/schemas/ApiResponse" },
+												{
+													properties: {
+														data: {
+															type: "object",
+															properties: {
+																to: { $ref: "#/components/schemas/PeerId" },
+																isTyping: { type: "boolean" },
+																sent: { type: "boolean" },
+															},
+														},
+													},
+												},
+											],
+										},
+									},
+								},
+							},
+							"400": { $ref: "#/components/responses/ErrorResponse" },
+						},
+					},
+				},
+				"/api/events": {
+					get: {
+						summary: "Stream node events",
+						description:
+							"Server-Sent Events stream of node events. Send Last-Event-ID to replay buffered events emitted after that event; if that event is no longer buffered the stream starts with a `reset` event and the client should reload its state. WebSocket clients get the same events and can filter them with {type: 'subscribe' | 'unsubscribe', events?, peerId?} messages.",
+						operationId: "streamEvents",
+						tags: ["Events"],
+						parameters: [
+							{
+								name: "events",
+								in: "query",
+								schema: { type: "string" },
+								description:
+									"Comma-separated event types (e.g. message.received,message.read); all types when omitted",
+							},
+							{
+								name: "peerId",
+								in: "query",
+								schema: { $ref: "#/components/schemas/PeerId" },
+								description: "Only events about this peer",
+							},
+							{
+								name: "Last-Event-ID",
+								in: "header",
+								schema: { type: "string" },
+								description: "Resume after this event ID",
+							},
+						],
+						responses: {
+							"200": {
+								description: "Event stream",
+								content: {
+									"text/event-stream": {
+										schema: { type: "string" },
+									},
+								},
+							},
+							"400": { $ref: "#/components/responses/ErrorResponse" },
+						},
+					},
+				},
+				"/api/groups": {
+					get: {
+						summary: "List groups",
+						description: "Retrieve all groups with their members",
+						operationId: "getGroups",
+						tags: ["Groups"],
+						responses: {
+							"200": {
+								description: "List of groups",
+								content: {
+									"application/json": {
+										schema: {
+											allOf: [
+												{ $ref: "#/components/schemas/ApiResponse" },
+												{
+													properties: {
+														data: {
+															type: "object",
+															properties: {
+																groups: {
+																	type: "array",
+																	items: { $ref: "#/components/schemas/Group" },
+																},
+															},
+														},
+													},
+												},
+											],
+										},
+									},
+								},
+							},
+						},
+					},
+					post: {
+						summary: "Create a group",
+						description:
+							"Create a group owned by the local node, optionally with initial members",
+						operationId: "createGroup",
+						tags: ["Groups"],
+						requestBody: {
+							required: true,
+							content: {
+								"application/json": {
+									schema: {
+										type: "object",
+										required: ["name"],
+										properties: {
+											name: { type: "string" },
+											groupId: {
+												type: "string",
+												description: "Optional group ID (generated if omitted)",
+											},
+											members: {
+												type: "array",
+												items: { $ref: "#/components/schemas/PeerId" },
+											},
+										},
+									},
+								},
+							},
+						},
+						responses: {
+							"200": {
+								description: "Group created",
+								content: {
+									"application/json": {
+										schema: {
+											allOf: [
+												{ $ref: "#/components/schemas/ApiResponse" },
+												{
+													properties: {
+														data: { $ref: "#/components/schemas/Group" },
+													},
+												},
+											],
+										},
+									},
+								},
+							},
+							"400": { $ref: "#/components/responses/ErrorResponse" },
+							"409": { $ref: "#/components/responses/ErrorResponse" },
+						},
+					},
+				},
+				"/api/groups/{groupId}": {
+					get: {
+						summary: "Get group details",
+						description: "Retrieve a group and its members",
+						operationId: "getGroupDetails",
+						tags: ["Groups"],
+						parameters: [
+							{
+								name: "groupId",
+								in: "path",
+								required: true,
+								schema: { type: "string" },
+							},
+						],
+						responses: {
+							"200": {
+								description: "Group details",
+								content: {
+									"application/json": {
+										schema: {
+											allOf: [
+												{ $ref: "#/components/schemas/ApiResponse" },
+												{
+													properties: {
+														data: { $ref: "#/components/schemas/Group" },
+													},
+												},
+											],
+										},
+									},
+								},
+							},
+							"404": { $ref: "#/components/responses/ErrorResponse" },
+						},
+					},
+					delete: {
+						summary: "Delete a group",
+						description: "Delete a group and its membership list",
+						operationId: "deleteGroup",
+						tags: ["Groups"],
+						parameters: [
+							{
+								name: "groupId",
+								in: "path",
+								required: true,
+								schema: { type: "string" },
+							},
+						],
+						responses: {
+							"200": { $ref: "#/components/responses/SuccessResponse" },
+							"404": { $ref: "#/components/responses/ErrorResponse" },
+						},
+					},
+				},
+				"/api/groups/{groupId}/members": {
+					post: {
+						summary: "Add a group member",
+						operationId: "addGroupMember",
+						tags: ["Groups"],
+						parameters: [
+							{
+								name: "groupId",
+								in: "path",
+								required: true,
+								schema: { type: "string" },
+							},
+						],
+						requestBody: {
+							required: true,
+							content: {
+								"application/json": {
+									schema: {
+										type: "object",
+										required: ["peerId"],
+										properties: {
+											peerId: { $ref: "#/components/schemas/PeerId" },
+										},
+									},
+								},
+							},
+						},
+						responses: {
+							"200": {
+								description: "Updated group",
+								content: {
+									"application/json": {
+										schema: {
+											allOf: [
+												{ $ref: "#/components/schemas/ApiResponse" },
+												{
+													properties: {
+														data: { $ref: "#/components/schemas/Group" },
+													},
+												},
+											],
+										},
+									},
+								},
+							},
+							"400": { $ref: "#/components/responses/ErrorResponse" },
+							"404": { $ref: "#/components/responses/ErrorResponse" },
+						},
+					},
+				},
+				"/api/groups/{groupId}/members/{peerId}": {
+					delete: {
+						summary: "Remove a group member",
+						operationId: "removeGroupMember",
+						tags: ["Groups"],
+						parameters: [
+							{
+								name: "groupId",
+								in: "path",
+								required: true,
+								schema: { type: "string" },
+							},
+							{ $ref: "#/components/parameters/PeerIdParam" },
+						],
+						responses: {
+							"200": {
+								description: "Updated group",
+								content: {
+									"application/json": {
+										schema: {
+											allOf: [
+												{ $ref: "#/components/schemas/ApiResponse" },
+												{
+													properties: {
+														data: { $ref: "#/components/schemas/Group" },
+													},
+												},
+											],
+										},
+									},
+								},
+							},
+							"404": { $ref: "#/components/responses/ErrorResponse" },
+						},
+					},
+				},
+				"/api/groups/{groupId}/send": {
+					post: {
+						summary: "Send a group message",
+						description:
+							"Fan out a message to every group member. Each member copy is queued, retried and ACKed independently; per-member status is available from /api/messages/history?groupId=...",
+						operationId: "sendGroupMessage",
+						tags: ["Groups"],
+						parameters: [
+							{
+								name: "groupId",
+								in: "path",
+								required: true,
+								schema: { type: "string" },
+							},
+						],
+						requestBody: {
+							required: true,
+							content: {
+								"application/json": {
+									schema: {
+										type: "object",
+										required: ["payload"],
+										properties: {
+											payload: { type: "object" },
+										},
+									},
+								},
+							},
+						},
+						responses: {
+							"200": {
+								description: "Delivered to all members",
+								content: {
+									"application/json": {
+										schema: {
+											allOf: [
+												{ $ref: "#/components/schemas/ApiResponse" },
+												{
+													properties: {
+														data: {
+															type: "object",
+															properties: {
+																message: { type: "string" },
+																messageId: { type: "string" },
+																groupId: { type: "string" },
+																queued: { type: "boolean" },
+																deliveries: {
+																	type: "array",
+																	items: {
+																		$ref: "#/components/schemas/GroupDelivery",
+																	},
+																},
+																timestamp: { type: "integer" },
+															},
+														},
+													},
+												},
+											],
+										},
+									},
+								},
+							},
+							"202": {
+								description:
+									"Sent to reachable members, queued for retry for the rest",
+							},
+							"400": { $ref: "#/components/responses/ErrorResponse" },
+							"404": { $ref: "#/components/responses/ErrorResponse" },
+						},
+					},
+				},
+				"/api/files/send": {
+					post: {
+						summary: "Send a file",
+						description:
+							"Split a file into encrypted, content-addressed chunks and send them to a peer. Chunks are queued and retried like messages; interrupted transfers resume when the peers reconnect.",
+						operationId: "sendFile",
+						tags: ["Files"],
+						requestBody: {
+							required: true,
+							content: {
+								"application/json": {
+									schema: {
+										type: "object",
+										required: ["to", "fileName", "data"],
+										properties: {
+											to: { $ref: "#/components/schemas/PeerId" },
+											fileName: { type: "string" },
+											mimeType: { type: "string" },
+											data: {
+												type: "string",
+												format: "byte",
+												description: "Base64-encoded file contents",
+											},
+										},
+									},
+								},
+							},
+						},
+						responses: {
+							"200": {
+								description: "Manifest and all chunks sent",
+								content: {
+									"application/json": {
+										schema: {
+											allOf: [
+												{ $ref: "#/components/schemas/ApiResponse" },
+												{
+													properties: {
+														data: {
+															type: "object",
+															properties: {
+																message: { type: "string" },
+																fileId: { type: "string" },
+																manifestHash: { type: "string" },
+																size: { type: "integer" },
+																chunkCount: { type: "integer" },
+																queuedChunks: { type: "integer" },
+																targetId: { type: "string" },
+																queued: { type: "boolean" },
+																timestamp: { type: "integer" },
+															},
+														},
+													},
+												},
+											],
+										},
+									},
+								},
+							},
+							"202": {
+								description: "Some chunks queued for retry",
+							},
+							"400": { $ref: "#/components/responses/ErrorResponse" },
+						},
+					},
+				},
+				"/api/files/{fileId}": {
+					get: {
+						summary: "Get file transfer",
+						description:
+							"Transfer metadata and progress. With download=true, returns the reassembled file once it is complete.",
+						operationId: "getFile",
+						tags: ["Files"],
+						parameters: [
+							{
+								name: "fileId",
+								in: "path",
+								required: true,
+								schema: { type: "string" },
+							},
+							{
+								name: "direction",
+								in: "query",
+								required: false,
+								schema: { type: "string", enum: ["inbound", "outbound"] },
+							},
+							{
+								name: "download",
+								in: "query",
+								required: false,
+								schema: { type: "boolean" },
+							},
+						],
+						responses: {
+							"200": {
+								description: "File transfer details, or file contents",
+								content: {
+									"application/json": {
+										schema: {
+											allOf: [
+												{ $ref: "#/components/schemas/ApiResponse" },
+												{
+													properties: {
+														data: { $ref: "#/components/schemas/FileTransfer" },
+													},
+												},
+											],
+										},
+									},
+									"application/octet-stream": {
+										schema: { type: "string", format: "binary" },
+									},
+								},
+							},
+							"400": { $ref: "#/components/responses/ErrorResponse" },
+							"404": { $ref: "#/components/responses/ErrorResponse" },
+							"409": { $ref: "#/components/responses/ErrorResponse" },
+						},
+					},
+				},
+				"/api/database/contacts": {
+					get: {
+						summary: "List contacts",
+						description: "Retrieve all stored contacts",
+						operationId: "getContacts",
+						tags: ["Contacts"],
+						responses: {
+							"200": {
+								description: "List of contacts",
+								content: {
+									"application/json": {
+										schema: {
+											allOf: [
+												{ $ref: "#/components/schemas/ApiResponse" },
+												{
+													properties: {
+														data: {
+															type: "object",
+															properties: {
+																contacts: {
+																	type: "array",
+																	items: {
+																		$ref: "#/components/schemas/Contact",
+																	},
+																},
+															},
+														},
+													},
+												},
+											],
+										},
+									},
+								},
+							},
+						},
+					},
+					post: {
+						summary: "Add or update a contact",
+						description:
+							"Add a new contact or update an existing one. Supports storing metadata and routing information.",
+						operationId: "addOrUpdateContact",
+						tags: ["Contacts"],
+						requestBody: {
+							required: true,
+							content: {
+								"application/json": {
+									schema: {
+										type: "object",
+										required: ["peerId"],
+										properties: {
+											peerId: { $ref: "#/components/schemas/PeerId" },
+											alias: {
+												type: "string",
+												description: "Human-readable alias for the contact",
+											},
+											metadata: {
+												type: "object",
+												description: "Additional metadata as key-value pairs",
+											},
+											isTrusted: {
+												type: "boolean",
+												description: "Mark contact as trusted",
+											},
+											publicKey: {
+												type: "string",
+												description:
+													"Peer's public key in hex format (for encryption)",
+											},
+											multiaddrs: {
+												type: "array",
+												items: { type: "string" },
+												description: "Known multiaddrs for routing",
+											},
+										},
+									},
+								},
+							},
+						},
+						responses: {
+							"200": {
+								description: "Contact saved successfully",
+								content: {
+									"application/json": {
+										schema: {
+											allOf: [
+												{ $ref: "#/components/schemas/ApiResponse" },
+												{
+													properties: {
+														data: {
+															type: "object",
+															properties: {
+																message: { type: "string" },
+																contact: {
+																	$ref: "#/components/schemas/Contact",
+																},
+															},
+														},
+													},
+												},
+											],
+										},
+									},
+								},
+							},
+							"400": { $ref: "#/components/responses/ErrorResponse" },
+							"500": { $ref: "#/components/responses/ErrorResponse" },
+						},
+					},
+				},
+				"/api/conversations": {
+					get: {
+						summary: "List conversations",
+						description:
+							"One entry per peer or group messaged, with the last message and unread count. Pinned conversations come first, then the most recently active.",
+						operationId: "listConversations",
+						tags: ["Conversations"],
+						parameters: [
+							{
+								name: "archived",
+								in: "query",
+								description: "List archived conversations instead",
+								schema: { type: "boolean", default: false },
+							},
+							{
+								name: "limit",
+								in: "query",
+								schema: { type: "integer", minimum: 1, maximum: 500 },
+							},
+							{
+								name: "offset",
+								in: "query",
+								schema: { type: "integer", minimum: 0 },
+							},
+						],
+						responses: {
+							"200": {
+								description: "Conversations",
+								content: {
+									"application/json": {
+										schema: {
+											allOf: [
+												{ $ref: "#/components/schemas/ApiResponse" },
+												{
+													properties: {
+														data: {
+															type: "object",
+															properties: {
+																conversations: {
+																	type: "array",
+																	items: {
+																		$ref: "#/components/schemas/Conversation",
+																	},
+																},
+																count: { type: "integer" },
+															},
+														},
+													},
+												},
+											],
+										},
+									},
+								},
+							},
+						},
+					},
+				},
+				"/api/conversations/{id}": {
+					patch: {
+						summary: "Mute, archive or pin a conversation",
+						operationId: "updateConversation",
+						tags: ["Conversations"],
+						parameters: [
+							{
+								name: "id",
+								in: "path",
+								required: true,
+								description:
+									"Conversation ID: peer:<peerId> or group:<groupId>",
+								schema: { type: "string" },
+							},
+						],
+						requestBody: {
+							required: true,
+							content: {
+								"application/json": {
+									schema: {
+										type: "object",
+										properties: {
+											muted: { type: "boolean" },
+											archived: { type: "boolean" },
+											pinned: { type: "boolean" },
+											expireAfterMs: {
+												type: "integer",
+												minimum: 1,
+												nullable: true,
+												description:
+													"Make new messages disappear this long after they are sent or received; null turns it off",
+											},
+										},
+									},
+								},
+							},
+						},
+						responses: {
+							"200": { description: "Updated conversation" },
+							"400": { $ref: "#/components/responses/ErrorResponse" },
+							"404": { $ref: "#/components/responses/ErrorResponse" },
+						},
+					},
+				},
+				"/api/conversations/{id}/read": {
+					post: {
+						summary: "Mark a conversation read",
+						description:
+							"Move the read marker to the last message, clear the unread count and send read receipts for the unread messages. Returns 202 if a receipt could not be delivered yet and was queued.",
+						operationId: "markConversationRead",
+						tags: ["Conversations"],
+						parameters: [
+							{
+								name: "id",
+								in: "path",
+								required: true,
+								description:
+									"Conversation ID: peer:<peerId> or group:<groupId>",
+								schema: { type: "string" },
+							},
+						],
+						responses: {
+							"200": { description: "Conversation marked read" },
+							"202": { description: "Marked read; receipts queued" },
+							"404": { $ref: "#/components/responses/ErrorResponse" },
+						},
+					},
+				},
+				"/api/requests": {
+					get: {
+						summary: "List message requests",
+						description:
+							"Peers outside the contact list that have sent direct messages, with pending messages grouped per sender. These messages are left out of the inbox until accepted.",
+						operationId: "listMessageRequests",
+						tags: ["Contacts"],
+						responses: {
+							"200": {
+								description: "Pending requests, most recent first",
+								content: {
+									"application/json": {
+										schema: {
+											allOf: [
+												{ $ref: "#/components/schemas/ApiResponse" },
+												{
+													properties: {
+														data: {
+															type: "object",
+															properties: {
+																requests: {
+																	type: "array",
+																	items: {
+																		type: "object",
+																		properties: {
+																			peerId: {
+																				$ref: "#/components/schemas/PeerId",
+																			},
+																			messageCount: { type: "integer" },
+																			firstReceivedAt: { type: "integer" },
+																			lastReceivedAt: { type: "integer" },
+																		},
+																	},
+																},
+																count: { type: "integer" },
+															},
+														},
+													},
+												},
+											],
+										},
+									},
+								},
+							},
+						},
+					},
+				},
+				"/api/requests/{peerId}": {
+					get: {
+						summary: "Read a peer's pending request messages",
+						operationId: "getMessageRequest",
+						tags: ["Contacts"],
+						parameters: [
+							{
+								name: "peerId",
+								in: "path",
+								required: true,
+								schema: { $ref: "#/components/schemas/PeerId" },
+							},
+						],
+						responses: {
+							"200": { description: "Pending messages, in history format" },
+							"404": { $ref: "#/components/responses/ErrorResponse" },
+						},
+					},
+				},
+				"/api/requests/{peerId}/accept": {
+					post: {
+						summary: "Accept a message request",
+						description:
+							"Add the sender as a contact and move its messages into the inbox.",
+						operationId: "acceptMessageRequest",
+						tags: ["Contacts"],
+						parameters: [
+							{
+								name: "peerId",
+								in: "path",
+								required: true,
+								schema: { $ref: "#/components/schemas/PeerId" },
+							},
+						],
+						requestBody: {
+							content: {
+								"application/json": {
+									schema: {
+										type: "object",
+										properties: { alias: { type: "string" } },
+									},
+								},
+							},
+						},
+						responses: {
+							"200": { description: "Sender added as a contact" },
+							"404": { $ref: "#/components/responses/ErrorResponse" },
+						},
+					},
+				},
+				"/api/requests/{peerId}/ignore": {
+					post: {
+						summary: "Ignore a message request",
+						description:
+							"Hide the sender's requests; its later messages are ignored too until accepted.",
+						operationId: "ignoreMessageRequest",
+						tags: ["Contacts"],
+						parameters: [
+							{
+								name: "peerId",
+								in: "path",
+								required: true,
+								schema: { $ref: "#/components/schemas/PeerId" },
+							},
+						],
+						responses: {
+							"200": { description: "Requests ignored" },
+							"404": { $ref: "#/components/responses/ErrorResponse" },
+						},
+					},
+				},
+				"/api/requests/{peerId}/block": {
+					post: {
+						summary: "Block a message request",
+						description:
+							"Ignore the sender's requests and add it to the block list.",
+						operationId: "blockMessageRequest",
+						tags: ["Contacts"],
+						parameters: [
+							{
+								name: "peerId",
+								in: "path",
+								required: true,
+								schema: { $ref: "#/components/schemas/PeerId" },
+							},
+						],
+						requestBody: {
+							content: {
+								"application/json": {
+									schema: {
+										type: "object",
+										properties: { reason: { type: "string" } },
+									},
+								},
+							},
+						},
+						responses: {
+							"200": { description: "Sender blocked" },
+							"404": { $ref: "#/components/responses/ErrorResponse" },
+						},
+					},
+				},
+				"/api/blocks": {
+					get: {
+						summary: "List blocked peers",
+						operationId: "listBlockedPeers",
+						tags: ["Contacts"],
+						responses: {
+							"200": {
+								description: "Blocked peers, most recent first",
+								content: {
+									"application/json": {
+										schema: {
+											allOf: [
+												{ $ref: "#/components/schemas/ApiResponse" },
+												{
+													properties: {
+														data: {
+															type: "object",
+															properties: {
+																blocks: {
+																	type: "array",
+																	items: {
+																		$ref: "#/components/schemas/BlockedPeer",
+																	},
+																},
+																count: { type: "integer" },
+															},
+														},
+													},
+												},
+											],
+										},
+									},
+								},
+							},
+						},
+					},
+					post: {
+						summary: "Block a peer",
+						description:
+							"Persistently block a peer: its handshakes and messages are refused, sends to it fail, and this node stops relaying or holding replicas for it. Open connections to it are closed.",
+						operationId: "blockPeer",
+						tags: ["Contacts"],
+						requestBody: {
+							required: true,
+							content: {
+								"application/json": {
+									schema: {
+										type: "object",
+										required: ["peerId"],
+										properties: {
+											peerId: { $ref: "#/components/schemas/PeerId" },
+											reason: { type: "string" },
+										},
+									},
+								},
+							},
+						},
+						responses: {
+							"201": {
+								description: "Peer blocked",
+								content: {
+									"application/json": {
+										schema: {
+											allOf: [
+												{ $ref: "#/components/schemas/ApiResponse" },
+												{
+													properties: {
+														data: {
+															$ref: "#/components/schemas/BlockedPeer",
+														},
+													},
+												},
+											],
+										},
+									},
+								},
+							},
+							"400": { $ref: "#/components/responses/ErrorResponse" },
+						},
+					},
+				},
+				"/api/blocks/{peerId}": {
+					delete: {
+						summary: "Unblock a peer",
+						operationId: "unblockPeer",
+						tags: ["Contacts"],
+						parameters: [
+							{
+								name: "peerId",
+								in: "path",
+								required: true,
+								schema: { $ref: "#/components/schemas/PeerId" },
+							},
+						],
+						responses: {
+							"200": { description: "Peer unblocked" },
+							"404": { $ref: "#/components/responses/ErrorResponse" },
+						},
+					},
+				},
+				"/api/contacts": {
+					get: {
+						summary: "List contacts (read scope)",
+						description:
+							"The same contact list as GET /api/database/contacts, available to read-scoped tokens so clients can show aliases.",
+						operationId: "listContacts",
+						tags: ["Contacts"],
+						responses: {
 							"200": {
 								description: "List of contacts",
 								content: {
@@ -1089,51 +3168,104 @@ export class ApiModule {
 							},
 						},
 					},
+				},
+				"/api/contacts/invite": {
 					post: {
-						summary: "Add or update a contact",
+						summary: "Create a contact invite",
 						description:
-							"Add a new contact or update an existing one. Supports storing metadata and routing information.",
-						operationId: "addOrUpdateContact",
+							"Return a signed yapyap://invite/ URI with this node's peer ID, current multiaddrs and encryption key, for another node to import.",
+						operationId: "createInvite",
 						tags: ["Contacts"],
 						requestBody: {
-							required: true,
 							content: {
 								"application/json": {
 									schema: {
 										type: "object",
-										required: ["peerId"],
 										properties: {
-											peerId: { $ref: "#/components/schemas/PeerId" },
 											alias: {
 												type: "string",
-												description: "Human-readable alias for the contact",
-											},
-											metadata: {
-												type: "object",
-												description: "Additional metadata as key-value pairs",
-											},
-											isTrusted: {
-												type: "boolean",
-												description: "Mark contact as trusted",
+												description: "Suggested alias for this node",
 											},
-											publicKey: {
+											expiresInMs: { type: "integer", minimum: 1 },
+										},
+									},
+								},
+							},
+						},
+						responses: {
+							"200": {
+								description: "Invite URI",
+								content: {
+									"application/json": {
+										schema: {
+											allOf: [
+												{ $ref: "#/components/schemas/ApiResponse" },
+												{
+													properties: {
+														data: {
+															type: "object",
+															properties: { invite: { type: "string" } },
+														},
+													},
+												},
+											],
+										},
+									},
+								},
+							},
+							"503": { $ref: "#/components/responses/ErrorResponse" },
+						},
+					},
+				},
+				"/api/contacts/import-invite": {
+					post: {
+						summary: "Import a contact invite",
+						description:
+							"Verify an invite's signature and expiry, then save the contact, its multiaddrs in the routing cache and its encryption key, so it can be messaged before the first handshake.",
+						operationId: "importInvite",
+						tags: ["Contacts"],
+						requestBody: {
+							required: true,
+							content: {
+								"application/json": {
+									schema: {
+										type: "object",
+										required: ["invite"],
+										properties: {
+											invite: { type: "string" },
+											alias: {
 												type: "string",
-												description:
-													"Peer's public key in hex format (for encryption)",
-											},
-											multiaddrs: {
-												type: "array",
-												items: { type: "string" },
-												description: "Known multiaddrs for routing",
+												description: "Overrides the alias in the invite",
 											},
 										},
 									},
 								},
 							},
 						},
+						responses: {
+							"200": { description: "Contact imported" },
+							"400": { $ref: "#/components/responses/ErrorResponse" },
+						},
+					},
+				},
+				"/api/contacts/{peerId}/fingerprint": {
+					get: {
+						summary: "Get a peer's safety number",
+						description:
+							"Safety number derived from both nodes' encryption keys, to compare with the peer out of band, plus the contact's verification state. keyChangedAt is set when a verified contact's key changed.",
+						operationId: "getContactFingerprint",
+						tags: ["Contacts"],
+						parameters: [
+							{
+								name: "peerId",
+								in: "path",
+								required: true,
+								schema: { $ref: "#/components/schemas/PeerId" },
+							},
+						],
 						responses: {
 							"200": {
-								description: "Contact saved successfully",
+								description: "Safety number and verification state",
 								content: {
 									"application/json": {
 										schema: {
@@ -1144,9 +3276,16 @@ export class ApiModule {
 														data: {
 															type: "object",
 															properties: {
-																message: { type: "string" },
-																contact: {
-																	$ref: "#/components/schemas/Contact",
+																peerId: { $ref: "#/components/schemas/PeerId" },
+																safetyNumber: { type: "string" },
+																localFingerprint: { type: "string" },
+																peerFingerprint: { type: "string" },
+																peerPublicKey: { type: "string" },
+																verified: { type: "boolean" },
+																verifiedAt: { type: "integer", nullable: true },
+																keyChangedAt: {
+																	type: "integer",
+																	nullable: true,
 																},
 															},
 														},
@@ -1158,7 +3297,40 @@ export class ApiModule {
 								},
 							},
 							"400": { $ref: "#/components/responses/ErrorResponse" },
-							"500": { $ref: "#/components/responses/ErrorResponse" },
+							"404": { $ref: "#/components/responses/ErrorResponse" },
+						},
+					},
+				},
+				"/api/contacts/{peerId}/verify": {
+					post: {
+						summary: "Mark a peer's key as verified",
+						description:
+							"Record the peer's current key as verified after comparing safety numbers; the contact is created if needed and marked trusted. Pass safetyNumber to make sure the key has not changed since it was displayed.",
+						operationId: "verifyContact",
+						tags: ["Contacts"],
+						parameters: [
+							{
+								name: "peerId",
+								in: "path",
+								required: true,
+								schema: { $ref: "#/components/schemas/PeerId" },
+							},
+						],
+						requestBody: {
+							content: {
+								"application/json": {
+									schema: {
+										type: "object",
+										properties: { safetyNumber: { type: "string" } },
+									},
+								},
+							},
+						},
+						responses: {
+							"200": { description: "Contact verified" },
+							"400": { $ref: "#/components/responses/ErrorResponse" },
+							"404": { $ref: "#/components/responses/ErrorResponse" },
+							"409": { $ref: "#/components/responses/ErrorResponse" },
 						},
 					},
 				},
@@ -1351,86 +3523,451 @@ export class ApiModule {
 					name: "Messages",
 					description: "Sending and receiving messages",
 				},
+				{
+					name: "Conversations",
+					description: "Per-peer and per-group chats with unread counts",
+				},
+				{
+					name: "Groups",
+					description: "Group conversations and membership",
+				},
+				{
+					name: "Files",
+					description: "Chunked, resumable file transfer",
+				},
+				{
+					name: "Events",
+					description: "Real-time node events (SSE and WebSocket)",
+				},
 				{
 					name: "Contacts",
 					description: "Contact management (peers database)",
 				},
 				{
-					name: "Database",
-					description: "Direct database access for messages and routing",
+					name: "Database",
+					description: "Direct database access for messages and routing",
+				},
+			],
+		};
+	}
+
+	private async handleNodeRequest(
+		path: string,
+		method: string,
+	): Promise<Response> {
+		if (method === "GET") {
+			if (path === "/api/node/info") return this.getNodeInfo();
+			if (path === "/api/node/stats") return this.getNodeStats();
+			if (path === "/api/node/config") return this.getNodeConfig();
+		} else if (method === "POST" && path === "/api/node/stop") {
+			if (process.env.NODE_ENV !== "development")
+				return this.fail(403, "Forbidden");
+			// Start shutdown process asynchronously after sending response
+			setImmediate(async () => {
+				try {
+					// Stop API module first
+					await this.stop();
+					// Stop the YapYap node (libp2p, message router, database)
+					await this.yapyapNode.stop();
+					// Exit process
+					process.exit(0);
+				} catch (error) {
+					console.error("Error during stop:", error);
+					process.exit(1);
+				}
+			});
+			return this.ok({ message: "Node shutdown initiated" });
+		}
+		return this.fail(404, "Endpoint not found");
+	}
+
+	private async handlePeerRequest(
+		path: string,
+		method: string,
+	): Promise<Response> {
+		if (method === "GET") {
+			if (path === "/api/peers") return this.getPeers();
+			if (path === "/api/peers/discovered") return this.getDiscoveredPeers();
+			const peerId = this.getPathParam(path, 2);
+			const action = this.getPathParam(path, 3);
+			if (peerId && action === "reputation")
+				return this.getPeerReputation(peerId);
+			if (peerId && !action) return this.getPeerInfo(peerId);
+		} else if (method === "POST") {
+			const peerId = this.getPathParam(path, 2);
+			if (peerId) return this.dialPeer(peerId);
+			if (path === "/api/peers/discover") return this.triggerDiscovery();
+			if (path === "/api/peers/dial-cached") return this.dialCachedPeers();
+		} else if (method === "DELETE") {
+			const peerId = this.getPathParam(path, 2);
+			if (peerId) return this.disconnectPeer(peerId);
+		}
+		return this.fail(404, "Endpoint not found");
+	}
+
+	private async handleMessageRequest(
+		request: Request,
+		path: string,
+		method: string,
+	): Promise<Response> {
+		if (method === "POST" && path === "/api/messages/send") {
+			const body = await this.parseJsonBody(request);
+			if (!body) {
+				return this.fail(400, "Invalid JSON body");
+			}
+			return this.sendMessage(body);
+		} else if (method === "POST" && path === "/api/messages/typing") {
+			const body = await this.parseJsonBody(request);
+			if (!body) {
+				return this.fail(400, "Invalid JSON body");
+			}
+			return this.sendTypingIndicator(body);
+		} else if (method === "POST" && this.getPathParam(path, 3) === "read") {
+			return this.markMessageRead(this.getPathParam(path, 2) ?? "");
+		} else if (method === "POST" && this.getPathParam(path, 3) === "retry") {
+			return this.retryMessage(this.getPathParam(path, 2) ?? "");
+		} else if (method === "POST" && this.getPathParam(path, 3) === "priority") {
+			const body = await this.parseJsonBody(request);
+			if (!body) {
+				return this.fail(400, "Invalid JSON body");
+			}
+			return this.setMessagePriority(this.getPathParam(path, 2) ?? "", body);
+		} else if (method === "PATCH" && !this.getPathParam(path, 3)) {
+			const body = await this.parseJsonBody(request);
+			if (!body) {
+				return this.fail(400, "Invalid JSON body");
+			}
+			return this.editMessage(this.getPathParam(path, 2) ?? "", body);
+		} else if (method === "DELETE" && this.getPathParam(path, 3) === "queue") {
+			return this.cancelQueuedMessage(this.getPathParam(path, 2) ?? "");
+		} else if (method === "DELETE" && !this.getPathParam(path, 3)) {
+			return this.deleteMessage(this.getPathParam(path, 2) ?? "");
+		} else if (method === "GET") {
+			if (path === "/api/messages/inbox") return this.getInboxMessages();
+			if (path === "/api/messages/queue")
+				return this.getQueuedMessages(request);
+			if (path === "/api/messages/scheduled")
+				return this.getScheduledMessages(request);
+			if (path === "/api/messages/outbox") return this.getOutboxMessages();
+			if (path === "/api/messages/history")
+				return this.getMessageHistory(request);
+			if (path === "/api/messages/search") return this.searchMessages(request);
+			if (this.getPathParam(path, 2) && !this.getPathParam(path, 3))
+				return this.getMessageDetails(this.getPathParam(path, 2) ?? "");
+		}
+		return this.fail(404, "Endpoint not found");
+	}
+
+	private async handleGroupRequest(
+		request: Request,
+		path: string,
+		method: string,
+	): Promise<Response> {
+		const groupId = this.getPathParam(path, 2);
+		const action = this.getPathParam(path, 3);
+		if (method === "GET") {
+			if (path === "/api/groups") return this.getGroups();
+			if (groupId && !action) return this.getGroupDetails(groupId);
+		} else if (method === "POST") {
+			if (path === "/api/groups" || action === "members" || action === "send") {
+				const body = await this.parseJsonBody(request);
+				if (!body) {
+					return this.fail(400, "Invalid JSON body");
+				}
+				if (path === "/api/groups") return this.createGroup(body);
+				if (groupId && action === "members")
+					return this.addGroupMember(groupId, body);
+				if (groupId && action === "send")
+					return this.sendGroupMessage(groupId, body);
+			}
+		} else if (method === "DELETE") {
+			const peerId = this.getPathParam(path, 4);
+			if (groupId && action === "members" && peerId)
+				return this.removeGroupMember(groupId, peerId);
+			if (groupId && !action) return this.deleteGroup(groupId);
+		}
+		return this.fail(404, "Endpoint not found");
+	}
+
+	private async handleFileRequest(
+		request: Request,
+		path: string,
+		method: string,
+	): Promise<Response> {
+		if (method === "POST" && path === "/api/files/send") {
+			const body = await this.parseJsonBody(request);
+			if (!body) {
+				return this.fail(400, "Invalid JSON body");
+			}
+			return this.sendFile(body);
+		} else if (method === "GET") {
+			const fileId = this.getPathParam(path, 2);
+			if (fileId && !this.getPathParam(path, 3))
+				return this.getFileDetails(request, fileId);
+		}
+		return this.fail(404, "Endpoint not found");
+	}
+
+	private async handleConversationRequest(
+		request: Request,
+		path: string,
+		method: string,
+	): Promise<Response> {
+		const db = this.yapyapNode.getDatabase();
+		const conversationId = this.getPathParam(path, 2);
+		const action = this.getPathParam(path, 3);
+		if (method === "GET" && !conversationId) {
+			const url = new URL(request.url);
+			const limit = Number(url.searchParams.get("limit") ?? 100);
+			const offset = Number(url.searchParams.get("offset") ?? 0);
+			if (!Number.isInteger(limit) || !Number.isInteger(offset)) {
+				return this.fail(400, "limit and offset must be integers");
+			}
+			const conversations = db
+				.getConversations({
+					archived: url.searchParams.get("archived") === "true",
+					limit,
+					offset,
+				})
+				.map((entry) => this.formatConversation(entry));
+			return this.ok({ conversations, count: conversations.length });
+		}
+		if (!conversationId) {
+			return this.fail(404, "Endpoint not found");
+		}
+		const conversation = db.getConversation(conversationId);
+		if (!conversation) {
+			return this.fail(404, "Conversation not found");
+		}
+		if (method === "PATCH" && !action) {
+			const body = await this.parseJsonBody(request);
+			if (!body) {
+				return this.fail(400, "Invalid JSON body");
+			}
+			const flags: ConversationFlags = {};
+			for (const flag of ["muted", "archived", "pinned"] as const) {
+				if (body[flag] === undefined) {
+					continue;
+				}
+				if (typeof body[flag] !== "boolean") {
+					return this.fail(400, `${flag} must be a boolean`);
+				}
+				flags[flag] = body[flag];
+			}
+			if (body.expireAfterMs !== undefined) {
+				if (!this.isExpiryDuration(body.expireAfterMs, true)) {
+					return this.fail(
+						400,
+						"expireAfterMs must be a positive integer or null",
+					);
+				}
+				flags.expire_after_ms = body.expireAfterMs as number | null;
+			}
+			const updated = db.updateConversationFlags(conversationId, flags);
+			return this.ok({
+				conversation: updated ? this.formatConversation(updated) : null,
+			});
+		}
+		if (method === "POST" && action === "read") {
+			const readAt = Date.now();
+			const unreadByPeer = new Map<string, string[]>();
+			for (const entry of db.getUnreadConversationMessages(conversationId)) {
+				const ids = unreadByPeer.get(entry.peer_id) ?? [];
+				ids.push(entry.message_id);
+				unreadByPeer.set(entry.peer_id, ids);
+			}
+			const queuedFor: string[] = [];
+			for (const [peerId, messageIds] of unreadByPeer) {
+				try {
+					await this.yapyapNode.messageRouter.sendReadReceipt(
+						peerId,
+						messageIds,
+						readAt,
+					);
+				} catch {
+					queuedFor.push(peerId);
+				}
+			}
+			const updated = db.markConversationRead(conversationId, readAt);
+			return this.ok(
+				{
+					conversation: updated ? this.formatConversation(updated) : null,
+					readAt,
+					queued: queuedFor.length > 0,
 				},
-			],
+				queuedFor.length > 0 ? 202 : 200,
+			);
+		}
+		return this.fail(404, "Endpoint not found");
+	}
+
+	private formatConversation(entry: ConversationEntry) {
+		return {
+			conversationId: entry.conversation_id,
+			kind: entry.kind,
+			peerId: entry.peer_id,
+			groupId: entry.group_id,
+			lastMessageId: entry.last_message_id,
+			lastMessagePreview: entry.last_message_preview,
+			lastMessageAt: entry.last_message_at,
+			lastDirection: entry.last_direction,
+			unreadCount: entry.unread_count,
+			lastReadMessageId: entry.last_read_message_id,
+			lastReadAt: entry.last_read_at,
+			muted: entry.muted,
+			archived: entry.archived,
+			pinned: entry.pinned,
+			expireAfterMs: entry.expire_after_ms,
 		};
 	}
 
-	private async handleNodeRequest(
+	private isExpiryDuration(value: unknown, nullable = false): boolean {
+		if (value === null) {
+			return nullable;
+		}
+		return Number.isInteger(value) && (value as number) > 0;
+	}
+
+	private async handleMessageRequestsRequest(
+		request: Request,
 		path: string,
 		method: string,
 	): Promise<Response> {
-		if (method === "GET") {
-			if (path === "/api/node/info") return this.getNodeInfo();
-			if (path === "/api/node/stats") return this.getNodeStats();
-			if (path === "/api/node/config") return this.getNodeConfig();
-		} else if (method === "POST" && path === "/api/node/stop") {
-			if (process.env.NODE_ENV !== "development")
-				return this.fail(403, "Forbidden");
-			// Start shutdown process asynchronously after sending response
-			setImmediate(async () => {
-				try {
-					// Stop API module first
-					await this.stop();
-					// Stop the YapYap node (libp2p, message router, database)
-					await this.yapyapNode.stop();
-					// Exit process
-					process.exit(0);
-				} catch (error) {
-					console.error("Error during stop:", error);
-					process.exit(1);
-				}
+		const db = this.yapyapNode.getDatabase();
+		const peerId = this.getPathParam(path, 2);
+		const action = this.getPathParam(path, 3);
+		if (method === "GET" && !peerId) {
+			const requests = db.getMessageRequests().map((summary) => ({
+				peerId: summary.peer_id,
+				messageCount: summary.message_count,
+				firstReceivedAt: summary.first_received_at,
+				lastReceivedAt: summary.last_received_at,
+			}));
+			return this.ok({ requests, count: requests.length });
+		} else if (method === "GET" && peerId && !action) {
+			const entries = db.getMessageHistory({
+				direction: "inbound",
+				peerId,
+				status: "request",
+				limit: 500,
 			});
-			return this.ok({ message: "Node shutdown initiated" });
+			if (entries.length === 0) {
+				return this.fail(404, "No message request from this peer");
+			}
+			const messages = await this.formatHistoryEntries(entries);
+			return this.ok({ peerId, messages, count: messages.length });
+		} else if (method === "POST" && peerId && action) {
+			const body = (await this.parseJsonBody(request)) ?? {};
+			if (action === "accept") {
+				const accepted = db.acceptMessageRequests(peerId);
+				if (accepted === 0) {
+					return this.fail(404, "No message request from this peer");
+				}
+				if (!db.getContact(peerId)) {
+					db.saveContactLww({
+						peer_id: peerId,
+						alias: typeof body.alias === "string" ? body.alias : "",
+						last_seen: Date.now(),
+						metadata: "{}",
+						is_trusted: false,
+					});
+				}
+				return this.ok({ peerId, accepted });
+			} else if (action === "ignore") {
+				const ignored = db.ignoreMessageRequests(peerId);
+				if (ignored === 0) {
+					return this.fail(404, "No message request from this peer");
+				}
+				return this.ok({ peerId, ignored });
+			} else if (action === "block") {
+				if (!(await this.isValidPeerId(peerId))) {
+					return this.fail(400, "Invalid peerId");
+				}
+				const reason =
+					typeof body.reason === "string" ? body.reason : "message request";
+				const ignored = db.ignoreMessageRequests(peerId);
+				const entry = await this.yapyapNode.blockPeer(peerId, reason);
+				return this.ok({ peerId, ignored, blockedAt: entry.blocked_at });
+			}
 		}
 		return this.fail(404, "Endpoint not found");
 	}
 
-	private async handlePeerRequest(
+	private async handleBlockRequest(
+		request: Request,
 		path: string,
 		method: string,
 	): Promise<Response> {
-		if (method === "GET") {
-			if (path === "/api/peers") return this.getPeers();
-			if (path === "/api/peers/discovered") return this.getDiscoveredPeers();
-			const peerId = this.getPathParam(path, 2);
-			if (peerId) return this.getPeerInfo(peerId);
-		} else if (method === "POST") {
-			const peerId = this.getPathParam(path, 2);
-			if (peerId) return this.dialPeer(peerId);
-			if (path === "/api/peers/discover") return this.triggerDiscovery();
-			if (path === "/api/peers/dial-cached") return this.dialCachedPeers();
-		} else if (method === "DELETE") {
-			const peerId = this.getPathParam(path, 2);
-			if (peerId) return this.disconnectPeer(peerId);
+		const db = this.yapyapNode.getDatabase();
+		const peerId = this.getPathParam(path, 2);
+		if (method === "GET" && !peerId) {
+			const blocks = db.getBlockedPeers().map((entry) => ({
+				peerId: entry.peer_id,
+				reason: entry.reason,
+				blockedAt: entry.blocked_at,
+			}));
+			return this.ok({ blocks, count: blocks.length });
+		} else if (method === "POST" && !peerId) {
+			const body = await this.parseJsonBody(request);
+			if (!body) {
+				return this.fail(400, "Invalid JSON body");
+			}
+			const target = typeof body.peerId === "string" ? body.peerId : "";
+			if (!(await this.isValidPeerId(target))) {
+				return this.fail(400, "Missing or invalid peerId");
+			}
+			if (body.reason !== undefined && typeof body.reason !== "string") {
+				return this.fail(400, "'reason' must be a string");
+			}
+			const entry = await this.yapyapNode.blockPeer(target, body.reason);
+			return this.ok(
+				{
+					peerId: entry.peer_id,
+					reason: entry.reason,
+					blockedAt: entry.blocked_at,
+				},
+				201,
+			);
+		} else if (method === "DELETE" && peerId) {
+			if (!db.unblockPeer(peerId)) {
+				return this.fail(404, "Peer is not blocked");
+			}
+			return this.ok({ peerId, blocked: false });
 		}
 		return this.fail(404, "Endpoint not found");
 	}
 
-	private async handleMessageRequest(
+	private async handleContactRequest(
 		request: Request,
 		path: string,
 		method: string,
 	): Promise<Response> {
-		if (method === "POST" && path === "/api/messages/send") {
+		if (
+			method === "POST" &&
+			(path === "/api/contacts/invite" ||
+				path === "/api/contacts/import-invite")
+		) {
+			const body = (await this.parseJsonBody(request)) ?? {};
+			return path === "/api/contacts/invite"
+				? this.createInvite(body)
+				: this.importInvite(body);
+		}
+		if (method === "GET" && path === "/api/contacts") {
+			return this.getContacts();
+		}
+		const peerId = this.getPathParam(path, 2);
+		const action = this.getPathParam(path, 3);
+		if (!peerId || !(await this.isValidPeerId(peerId))) {
+			return this.fail(400, "Invalid peer ID");
+		}
+		if (method === "GET" && action === "fingerprint") {
+			return this.getContactFingerprint(peerId);
+		} else if (method === "POST" && action === "verify") {
 			const body = await this.parseJsonBody(request);
 			if (!body) {
 				return this.fail(400, "Invalid JSON body");
 			}
-			return this.sendMessage(body);
-		} else if (method === "GET") {
-			if (path === "/api/messages/inbox") return this.getInboxMessages();
-			if (path === "/api/messages/outbox") return this.getOutboxMessages();
-			if (path === "/api/messages/history")
-				return this.getMessageHistory(request);
-			if (this.getPathParam(path, 2)) return this.getMessageDetails();
+			return this.verifyContact(peerId, body);
 		}
 		return this.fail(404, "Endpoint not found");
 	}
@@ -1594,9 +4131,18 @@ export class ApiModule {
 		});
 	}
 
+	private getMetrics(): Response {
+		return new Response(this.yapyapNode.metrics.render(), {
+			status: 200,
+			headers: {
+				"Content-Type": PROMETHEUS_CONTENT_TYPE,
+				"Access-Control-Allow-Origin": "*",
+			},
+		});
+	}
+
 	private async getNodeConfig(): Promise<Response> {
-		const config = { dataDir: undefined, network: undefined };
-		return this.ok(config);
+		return this.ok(this.yapyapNode.getConfig());
 	}
 
 	private async getPeers(): Promise<Response> {
@@ -1610,6 +4156,23 @@ export class ApiModule {
 		return this.ok(peers);
 	}
 
+	private async getPeerReputation(peerId: string): Promise<Response> {
+		const db = this.yapyapNode.getDatabase();
+		const stored = db.getPeerReputation(peerId);
+		const history = db.getPeerReputationLog(peerId).map((entry) => ({
+			delta: entry.delta,
+			score: entry.score,
+			reason: entry.reason,
+			at: entry.created_at,
+		}));
+		return this.ok({
+			peerId,
+			score: this.yapyapNode.messageRouter.getPeerScore(peerId),
+			updatedAt: stored?.updated_at ?? null,
+			history,
+		});
+	}
+
 	private async getPeerInfo(peerId: string): Promise<Response> {
 		const libp2p = this.yapyapNode.getLibp2p();
 		const connections = libp2p ? libp2p.getConnections() : [];
@@ -1758,6 +4321,24 @@ export class ApiModule {
 			return this.fail(400, "Invalid target peerId");
 		}
 
+		const blockReason = this.yapyapNode.getSendBlockReason(targetId);
+		if (blockReason) {
+			return this.fail(409, blockReason);
+		}
+
+		if (body.priority !== undefined && !Number.isInteger(body.priority)) {
+			return this.fail(400, "priority must be an integer");
+		}
+		if (body.sendAt !== undefined && !Number.isInteger(body.sendAt)) {
+			return this.fail(400, "sendAt must be a timestamp in epoch milliseconds");
+		}
+		if (
+			body.expireAfterMs !== undefined &&
+			!this.isExpiryDuration(body.expireAfterMs)
+		) {
+			return this.fail(400, "expireAfterMs must be a positive integer");
+		}
+
 		const requestedMessageId =
 			typeof body.messageId === "string" && body.messageId.trim().length > 0
 				? body.messageId.trim()
@@ -1770,29 +4351,314 @@ export class ApiModule {
 			to: targetId,
 			payload,
 			timestamp: Date.now(),
+			...(body.expireAfterMs !== undefined
+				? { expireAfterMs: body.expireAfterMs as number }
+				: {}),
+		};
+
+		const sendAt = body.sendAt as number | undefined;
+		if (sendAt !== undefined && sendAt > Date.now()) {
+			try {
+				await this.yapyapNode.messageRouter.schedule(message, sendAt, {
+					priority: body.priority as number | undefined,
+				});
+			} catch (error) {
+				return this.fail(
+					409,
+					error instanceof Error ? error.message : String(error),
+				);
+			}
+			return this.ok(
+				{
+					message: "Message scheduled",
+					messageId: message.id,
+					targetId,
+					queued: true,
+					scheduled: true,
+					sendAt,
+					timestamp: Date.now(),
+				},
+				202,
+			);
+		}
+
+		try {
+			await this.yapyapNode.messageRouter.send(message, {
+				priority: body.priority as number | undefined,
+			});
+			return this.ok({
+				message: "Message sent successfully",
+				messageId: message.id,
+				targetId,
+				queued: false,
+				timestamp: Date.now(),
+			});
+		} catch (error) {
+			return this.ok(
+				{
+					message: "Message queued for retry",
+					messageId: message.id,
+					targetId,
+					queued: true,
+					details: error instanceof Error ? error.message : String(error),
+					timestamp: Date.now(),
+				},
+				202,
+			);
+		}
+	}
+
+	private async markMessageRead(messageId: string): Promise<Response> {
+		const entry = this.yapyapNode
+			.getDatabase()
+			.getMessageHistoryEntry(messageId, "inbound");
+		if (!entry) {
+			return this.fail(404, "Message not found");
+		}
+		if (entry.read_at !== null) {
+			return this.ok({ messageId, readAt: entry.read_at, queued: false });
+		}
+
+		const readAt = Date.now();
+		if (entry.status === "request" || entry.status === "ignored") {
+			// Don't confirm to an unknown sender that the message was seen
+			this.yapyapNode
+				.getDatabase()
+				.markMessageRead(messageId, "inbound", entry.peer_id, readAt);
+			return this.ok({ messageId, readAt, queued: false, receiptSent: false });
+		}
+		try {
+			await this.yapyapNode.messageRouter.sendReadReceipt(
+				entry.peer_id,
+				[messageId],
+				readAt,
+			);
+			return this.ok({ messageId, readAt, queued: false });
+		} catch (error) {
+			return this.ok(
+				{
+					messageId,
+					readAt,
+					queued: true,
+					details: error instanceof Error ? error.message : String(error),
+				},
+				202,
+			);
+		}
+	}
+
+	private async editMessage(
+		messageId: string,
+		body: JsonObject,
+	): Promise<Response> {
+		if (body.payload === undefined) {
+			return this.fail(400, "Missing payload");
+		}
+		const db = this.yapyapNode.getDatabase();
+		const entry = db.getMessageHistoryEntry(messageId, "outbound");
+		if (!entry) {
+			return this.fail(404, "Message not found");
+		}
+		if (entry.deleted_at !== null) {
+			return this.fail(409, "Message has been deleted");
+		}
+
+		try {
+			const edit = await this.yapyapNode.messageRouter.sendEdit(
+				entry.peer_id,
+				messageId,
+				body.payload,
+			);
+			return this.ok({ messageId, editedAt: edit.timestamp, queued: false });
+		} catch (error) {
+			return this.amendmentQueuedOrFailed(messageId, "editedAt", error);
+		}
+	}
+
+	/**
+	 * DELETE /api/messages/:id cancels a message that is still queued. Once
+	 * it has been transmitted, even without an ACK yet, the same call also
+	 * deletes it for everyone.
+	 */
+	private async deleteMessage(messageId: string): Promise<Response> {
+		const transmitted = this.yapyapNode
+			.getDatabase()
+			.getMessageEvents(messageId)
+			.some((event) => event.event === "sent" || event.event === "replicated");
+		const cancelled = await this.yapyapNode.messageRouter.cancel(messageId);
+		if (cancelled && !transmitted) {
+			return this.ok({ messageId, cancelled: true, queued: false });
+		}
+		return this.retractMessage(messageId);
+	}
+
+	private async cancelQueuedMessage(messageId: string): Promise<Response> {
+		if (!(await this.yapyapNode.messageRouter.cancel(messageId))) {
+			return this.fail(404, "Message is not queued");
+		}
+		return this.ok({ messageId, cancelled: true });
+	}
+
+	private async retryMessage(messageId: string): Promise<Response> {
+		const db = this.yapyapNode.getDatabase();
+		const pending = db.getPendingMessage(messageId);
+		const entry = db.getMessageHistoryEntry(messageId, "outbound");
+		if (!pending && !entry?.message_data) {
+			return this.fail(404, "Message not found");
+		}
+		if ((pending?.status ?? entry?.status) === "delivered") {
+			return this.fail(409, "Message has already been delivered");
+		}
+		if ((pending?.status ?? entry?.status) === "scheduled") {
+			return this.fail(
+				409,
+				"Message is scheduled; cancel it or wait for its send time",
+			);
+		}
+
+		try {
+			await this.yapyapNode.messageRouter.forceRetry(messageId);
+			return this.ok({ messageId, queued: false });
+		} catch (error) {
+			return this.ok(
+				{
+					messageId,
+					queued: true,
+					details: error instanceof Error ? error.message : String(error),
+				},
+				202,
+			);
+		}
+	}
+
+	private async setMessagePriority(
+		messageId: string,
+		body: JsonObject,
+	): Promise<Response> {
+		if (!Number.isInteger(body.priority)) {
+			return this.fail(400, "priority must be an integer");
+		}
+		const priority = body.priority as number;
+		if (
+			!this.yapyapNode
+				.getDatabase()
+				.setPendingMessagePriority(messageId, priority)
+		) {
+			return this.fail(404, "Message is not queued");
+		}
+		return this.ok({ messageId, priority });
+	}
+
+	private async getQueuedMessages(request: Request): Promise<Response> {
+		const limit = Number(new URL(request.url).searchParams.get("limit") ?? 200);
+		if (!Number.isInteger(limit) || limit < 1) {
+			return this.fail(400, "limit must be a positive integer");
+		}
+		const entries = this.yapyapNode.getDatabase().getQueuedMessages(limit);
+		return this.ok({
+			messages: entries.map((entry) => this.formatQueuedMessage(entry)),
+			count: entries.length,
+		});
+	}
+
+	private async getScheduledMessages(request: Request): Promise<Response> {
+		const limit = Number(new URL(request.url).searchParams.get("limit") ?? 200);
+		if (!Number.isInteger(limit) || limit < 1) {
+			return this.fail(400, "limit must be a positive integer");
+		}
+		const entries = this.yapyapNode.getDatabase().getScheduledMessages(limit);
+		return this.ok({
+			messages: entries.map((entry) => ({
+				...this.formatQueuedMessage(entry),
+				sendAt: entry.next_retry_at,
+			})),
+			count: entries.length,
+		});
+	}
+
+	private formatQueuedMessage(entry: PendingMessageEntry) {
+		return {
+			messageId: entry.message_id,
+			targetPeerId: entry.target_peer_id,
+			status: entry.status,
+			priority: entry.priority,
+			attempts: entry.attempts,
+			nextRetryAt: entry.next_retry_at,
+			deadlineAt: entry.deadline_at,
+			lastError: entry.last_error ?? null,
+			createdAt: entry.created_at,
 		};
+	}
+
+	private async retractMessage(messageId: string): Promise<Response> {
+		const db = this.yapyapNode.getDatabase();
+		const entry = db.getMessageHistoryEntry(messageId, "outbound");
+		if (!entry) {
+			return this.fail(404, "Message not found");
+		}
+		if (entry.deleted_at !== null) {
+			return this.fail(409, "Message has already been deleted");
+		}
 
 		try {
-			await this.yapyapNode.messageRouter.send(message);
+			const retract = await this.yapyapNode.messageRouter.sendRetract(
+				entry.peer_id,
+				messageId,
+			);
 			return this.ok({
-				message: "Message sent successfully",
-				messageId: message.id,
-				targetId,
+				messageId,
+				retractedAt: retract.timestamp,
 				queued: false,
-				timestamp: Date.now(),
 			});
 		} catch (error) {
-			return this.ok(
-				{
-					message: "Message queued for retry",
-					messageId: message.id,
-					targetId,
-					queued: true,
-					details: error instanceof Error ? error.message : String(error),
-					timestamp: Date.now(),
-				},
-				202,
-			);
+			return this.amendmentQueuedOrFailed(messageId, "retractedAt", error);
+		}
+	}
+
+	/**
+	 * An edit or retraction that failed to transmit is still applied locally
+	 * and queued for retry; one that failed before that (e.g. signing) is not.
+	 */
+	private amendmentQueuedOrFailed(
+		messageId: string,
+		field: "editedAt" | "retractedAt",
+		error: unknown,
+	): Response {
+		const details = error instanceof Error ? error.message : String(error);
+		const entry = this.yapyapNode
+			.getDatabase()
+			.getMessageHistoryEntry(messageId, "outbound");
+		const appliedAt =
+			field === "editedAt" ? entry?.edited_at : entry?.deleted_at;
+		if (appliedAt === null || appliedAt === undefined) {
+			return this.fail(500, details);
+		}
+		return this.ok(
+			{ messageId, [field]: appliedAt, queued: true, details },
+			202,
+		);
+	}
+
+	private async sendTypingIndicator(body: JsonObject): Promise<Response> {
+		const to = typeof body.to === "string" ? body.to : undefined;
+		if (!to || !(await this.isValidPeerId(to))) {
+			return this.fail(400, "Missing or invalid 'to' peer ID");
+		}
+		if (body.isTyping !== undefined && typeof body.isTyping !== "boolean") {
+			return this.fail(400, "'isTyping' must be a boolean");
+		}
+		const isTyping = body.isTyping !== false;
+
+		try {
+			await this.yapyapNode.messageRouter.sendTyping(to, isTyping);
+			return this.ok({ to, isTyping, sent: true });
+		} catch (error) {
+			return this.ok({
+				to,
+				isTyping,
+				sent: false,
+				details: error instanceof Error ? error.message : String(error),
+			});
 		}
 	}
 
@@ -1807,13 +4673,21 @@ export class ApiModule {
 
 	private async getInboxMessages(): Promise<Response> {
 		const selfPeerId = this.yapyapNode.getPeerId();
-		const entries = this.yapyapNode
-			.getDatabase()
+		const db = this.yapyapNode.getDatabase();
+		const entries = db
 			.getRecentProcessedMessages(200)
 			.filter(
 				(entry: unknown) =>
 					(entry as { to_peer_id: string }).to_peer_id === selfPeerId,
-			);
+			)
+			.filter((entry: unknown) => {
+				// Messages from unknown senders are listed under /api/requests
+				const status = db.getMessageHistoryEntry(
+					(entry as { message_id: string }).message_id,
+					"inbound",
+				)?.status;
+				return status !== "request" && status !== "ignored";
+			});
 		const inbox = [];
 		for (const entry of entries) {
 			let message: YapYapMessage | null = null;
@@ -1894,6 +4768,10 @@ export class ApiModule {
 			params.has("peerId") && params.get("peerId") !== ""
 				? (params.get("peerId") ?? undefined)
 				: undefined;
+		const groupId =
+			params.has("groupId") && params.get("groupId") !== ""
+				? (params.get("groupId") ?? undefined)
+				: undefined;
 
 		const parseIntegerParam = (
 			raw: string | null,
@@ -1931,10 +4809,24 @@ export class ApiModule {
 
 		const history = this.yapyapNode
 			.getDatabase()
-			.getMessageHistory({ direction, peerId, limit, offset });
+			.getMessageHistory({ direction, peerId, groupId, limit, offset });
+
+		const results = await this.formatHistoryEntries(history);
+
+		return this.ok({
+			messages: results,
+			count: results.length,
+			direction: directionParam ?? "all",
+			peerId: peerId ?? null,
+			groupId: groupId ?? null,
+			limit,
+			offset,
+		});
+	}
 
+	private async formatHistoryEntries(entries: MessageHistoryEntry[]) {
 		const results = [];
-		for (const entry of history) {
+		for (const entry of entries) {
 			let message: YapYapMessage | null = null;
 			if (entry.message_data) {
 				try {
@@ -1968,23 +4860,118 @@ export class ApiModule {
 				processedAt: entry.processed_at,
 				createdAt: entry.created_at,
 				updatedAt: entry.updated_at,
+				groupId: entry.group_id ?? null,
+				readAt: entry.read_at ?? null,
+				editedAt: entry.edited_at ?? null,
+				retractedAt: entry.deleted_at ?? null,
+				expiresAt: entry.expires_at ?? null,
 				message,
 				decryptionError,
 			});
 		}
+		return results;
+	}
 
-		return this.ok({
-			messages: results,
-			count: results.length,
-			direction: directionParam ?? "all",
-			peerId: peerId ?? null,
-			limit,
-			offset,
-		});
+	private async searchMessages(request: Request): Promise<Response> {
+		const db = this.yapyapNode.getDatabase();
+		if (!db.isMessageSearchEnabled()) {
+			return this.fail(
+				409,
+				"Message search is disabled; set search.indexMessages to true",
+			);
+		}
+		const params = new URL(request.url).searchParams;
+		const query = params.get("q")?.trim();
+		if (!query) {
+			return this.fail(400, "Missing search query 'q'");
+		}
+		const peerId = params.get("peerId") || undefined;
+		const sinceParam = params.get("since");
+		const since = sinceParam === null ? undefined : Number(sinceParam);
+		if (since !== undefined && (!Number.isInteger(since) || since < 0)) {
+			return this.fail(400, "Invalid since parameter");
+		}
+		const limitParam = params.get("limit");
+		const limit = limitParam === null ? 50 : Number(limitParam);
+		if (!Number.isInteger(limit) || limit < 1 || limit > 500) {
+			return this.fail(400, "Invalid limit parameter");
+		}
+
+		const results = db
+			.searchMessages({ query, peerId, since, limit })
+			.map((result) => ({
+				messageId: result.message_id,
+				direction: result.direction,
+				peerId: result.peer_id,
+				createdAt: result.created_at,
+				snippet: result.snippet,
+			}));
+		return this.ok({ results, count: results.length, query });
 	}
 
-	private async getMessageDetails(): Promise<Response> {
-		return this.fail(404, "Message not found");
+	/**
+	 * Delivery state of a message joined from the queue, history and
+	 * replication tables, with its recorded timeline
+	 */
+	private async getMessageDetails(messageId: string): Promise<Response> {
+		const db = this.yapyapNode.getDatabase();
+		const pending = db.getPendingMessage(messageId);
+		const entry =
+			db.getMessageHistoryEntry(messageId, "outbound") ??
+			db.getMessageHistoryEntry(messageId, "inbound");
+		if (!pending && !entry) {
+			return this.fail(404, "Message not found");
+		}
+		const replication = db.getReplicatedMessage(messageId);
+		const replicas = db.getMessageReplicas(messageId);
+		const timeline = db.getMessageEvents(messageId).map((event) => ({
+			event: event.event,
+			at: event.created_at,
+			peerId: event.peer_id,
+			detail: event.detail,
+		}));
+		// A relay ACKs a copy it stored, which says nothing about the recipient
+		const delivered = timeline.filter((event) => event.event === "delivered");
+		const isRelayAck = (event: { detail: string | null }) =>
+			event.detail === "acknowledged by relay";
+		const ackedAt = delivered.find((event) => !isRelayAck(event))?.at ?? null;
+		const relayAckedAt = delivered.find(isRelayAck)?.at ?? null;
+		return this.ok({
+			messageId,
+			direction: entry?.direction ?? "outbound",
+			peerId: entry?.peer_id ?? pending?.target_peer_id,
+			groupId: entry?.group_id ?? null,
+			status: pending?.status ?? entry?.status ?? null,
+			priority: pending?.priority ?? null,
+			attempts: pending?.attempts ?? entry?.attempts ?? 0,
+			lastError: pending?.last_error ?? null,
+			createdAt: pending?.created_at ?? entry?.created_at,
+			updatedAt: Math.max(pending?.updated_at ?? 0, entry?.updated_at ?? 0),
+			nextRetryAt: pending?.next_retry_at ?? entry?.next_retry_at ?? null,
+			deadlineAt: pending?.deadline_at ?? replication?.deadline_at ?? null,
+			ackedAt,
+			relayAckedAt,
+			readAt: entry?.read_at ?? null,
+			relays: replicas
+				.filter((replica) => replica.status === "stored")
+				.map((replica) => replica.replica_peer_id),
+			replication: replication
+				? {
+						status: replication.status,
+						sourcePeerId: replication.source_peer_id,
+						createdAt: replication.created_at,
+					}
+				: null,
+			replicas: replicas.map((replica) => ({
+				peerId: replica.replica_peer_id,
+				status: replica.status,
+				assignedAt: replica.assigned_at,
+				ackExpected: replica.ack_expected === 1,
+				ackReceivedAt: replica.ack_received_at,
+				lastError: replica.last_error ?? null,
+			})),
+			timeline,
+		});
 	}
 
 	private async getContacts(): Promise<Response> {
@@ -2000,6 +4987,106 @@ export class ApiModule {
 		return this.ok(contact);
 	}
 
+	private async getContactFingerprint(peerId: string): Promise<Response> {
+		const fingerprint = await this.yapyapNode.getSafetyNumber(peerId);
+		if (!fingerprint) {
+			return this.fail(404, "No encryption key known for this peer");
+		}
+		const verification = this.yapyapNode
+			.getDatabase()
+			.getContactVerification(peerId);
+		return this.ok({
+			peerId,
+			...fingerprint,
+			verified: verification?.verified_key === fingerprint.peerPublicKey,
+			verifiedAt: verification?.verified_at ?? null,
+			keyChangedAt: verification?.key_changed_at ?? null,
+		});
+	}
+
+	private async verifyContact(
+		peerId: string,
+		body: JsonObject,
+	): Promise<Response> {
+		const fingerprint = await this.yapyapNode.getSafetyNumber(peerId);
+		if (!fingerprint) {
+			return this.fail(404, "No encryption key known for this peer");
+		}
+		if (
+			typeof body.safetyNumber === "string" &&
+			body.safetyNumber.replace(/\s/g, "") !==
+				fingerprint.safetyNumber.replace(/\s/g, "")
+		) {
+			return this.fail(
+				409,
+				"Safety number does not match the peer's current key",
+			);
+		}
+		const verifiedAt = Date.now();
+		this.yapyapNode
+			.getDatabase()
+			.verifyContact(peerId, fingerprint.peerPublicKey, verifiedAt);
+		return this.ok({
+			peerId,
+			safetyNumber: fingerprint.safetyNumber,
+			verified: true,
+			verifiedAt,
+		});
+	}
+
+	private async createInvite(body: JsonObject): Promise<Response> {
+		if (body.alias !== undefined && typeof body.alias !== "string") {
+			return this.fail(400, "'alias' must be a string");
+		}
+		if (
+			body.expiresInMs !== undefined &&
+			(typeof body.expiresInMs !== "number" ||
+				!Number.isInteger(body.expiresInMs) ||
+				body.expiresInMs <= 0)
+		) {
+			return this.fail(400, "'expiresInMs' must be a positive integer");
+		}
+		try {
+			const invite = await this.yapyapNode.createInvite({
+				alias: body.alias,
+				expiresInMs: body.expiresInMs,
+			});
+			return this.ok({ invite });
+		} catch (error) {
+			return this.fail(
+				503,
+				error instanceof Error ? error.message : String(error),
+			);
+		}
+	}
+
+	private async importInvite(body: JsonObject): Promise<Response> {
+		if (typeof body.invite !== "string") {
+			return this.fail(400, "Missing invite");
+		}
+		if (body.alias !== undefined && typeof body.alias !== "string") {
+			return this.fail(400, "'alias' must be a string");
+		}
+		try {
+			const { invite, alias } = await this.yapyapNode.importInvite(
+				body.invite,
+				body.alias,
+			);
+			return this.ok({
+				peerId: invite.peerId,
+				alias,
+				multiaddrs: invite.multiaddrs,
+				publicKey: invite.publicKey,
+				expiresAt: invite.expiresAt ?? null,
+			});
+		} catch (error) {
+			return this.fail(
+				400,
+				error instanceof Error ? error.message : String(error),
+			);
+		}
+	}
+
 	private async addOrUpdateContact(body: JsonObject): Promise<Response> {
 		try {
 			const peerId = typeof body.peerId === "string" ? body.peerId : undefined;
@@ -2033,9 +5120,7 @@ export class ApiModule {
 						"Invalid publicKey format (expected hex-encoded DER SPKI Ed25519/X25519 key)",
 					);
 				}
-				this.yapyapNode
-					.getDatabase()
-					.savePeerMetadata(peerId, "public_key", publicKey);
+				await this.yapyapNode.updatePeerPublicKey(peerId, publicKey);
 			}
 
 			if (multiaddrs.length > 0) {
@@ -2069,6 +5154,249 @@ export class ApiModule {
 		});
 	}
 
+	private formatGroup(group: GroupEntry) {
+		const members = this.yapyapNode
+			.getDatabase()
+			.getGroupMembers(group.group_id)
+			.map((member) => member.peer_id);
+		return {
+			groupId: group.group_id,
+			name: group.name,
+			ownerPeerId: group.owner_peer_id,
+			members,
+			createdAt: group.created_at,
+			updatedAt: group.updated_at,
+		};
+	}
+
+	private async isValidPeerId(peerId: string): Promise<boolean> {
+		try {
+			const { peerIdFromString } = await import("@libp2p/peer-id");
+			peerIdFromString(peerId);
+			return true;
+		} catch {
+			return false;
+		}
+	}
+
+	private async getGroups(): Promise<Response> {
+		const groups = this.yapyapNode
+			.getDatabase()
+			.getAllGroups()
+			.map((group) => this.formatGroup(group));
+		return this.ok({ groups });
+	}
+
+	private async getGroupDetails(groupId: string): Promise<Response> {
+		const group = this.yapyapNode.getDatabase().getGroup(groupId);
+		if (!group) {
+			return this.fail(404, "Group not found");
+		}
+		return this.ok(this.formatGroup(group));
+	}
+
+	private async createGroup(body: JsonObject): Promise<Response> {
+		const name = typeof body.name === "string" ? body.name.trim() : "";
+		if (!name) {
+			return this.fail(400, "Missing group name");
+		}
+		const groupId =
+			typeof body.groupId === "string" && body.groupId.trim().length > 0
+				? body.groupId.trim()
+				: crypto.randomUUID();
+		const members = Array.isArray(body.members) ? body.members : [];
+		for (const member of members) {
+			if (typeof member !== "string" || !(await this.isValidPeerId(member))) {
+				return this.fail(400, "Invalid member peerId", member);
+			}
+		}
+
+		const db = this.yapyapNode.getDatabase();
+		if (db.getGroup(groupId)) {
+			return this.fail(409, "Group already exists");
+		}
+		const group = db.createGroup(groupId, name, this.yapyapNode.getPeerId());
+		for (const member of members as string[]) {
+			db.addGroupMember(groupId, member);
+		}
+		return this.ok(this.formatGroup(db.getGroup(groupId) ?? group));
+	}
+
+	private async deleteGroup(groupId: string): Promise<Response> {
+		if (this.yapyapNode.getDatabase().deleteGroup(groupId) === 0) {
+			return this.fail(404, "Group not found");
+		}
+		return this.ok({ message: "Group deleted successfully", groupId });
+	}
+
+	private async addGroupMember(
+		groupId: string,
+		body: JsonObject,
+	): Promise<Response> {
+		const peerId = typeof body.peerId === "string" ? body.peerId : undefined;
+		if (!peerId) {
+			return this.fail(400, "Missing peerId");
+		}
+		if (!(await this.isValidPeerId(peerId))) {
+			return this.fail(400, "Invalid peerId");
+		}
+		const db = this.yapyapNode.getDatabase();
+		const group = db.getGroup(groupId);
+		if (!group) {
+			return this.fail(404, "Group not found");
+		}
+		db.addGroupMember(groupId, peerId);
+		return this.ok(this.formatGroup(db.getGroup(groupId) ?? group));
+	}
+
+	private async removeGroupMember(
+		groupId: string,
+		peerId: string,
+	): Promise<Response> {
+		const db = this.yapyapNode.getDatabase();
+		const group = db.getGroup(groupId);
+		if (!group) {
+			return this.fail(404, "Group not found");
+		}
+		if (db.removeGroupMember(groupId, peerId) === 0) {
+			return this.fail(404, "Peer is not a member of this group");
+		}
+		return this.ok(this.formatGroup(db.getGroup(groupId) ?? group));
+	}
+
+	private async sendGroupMessage(
+		groupId: string,
+		body: JsonObject,
+	): Promise<Response> {
+		const payload = body.payload;
+		if (payload === undefined) {
+			return this.fail(400, "Missing payload");
+		}
+		const db = this.yapyapNode.getDatabase();
+		if (!db.getGroup(groupId)) {
+			return this.fail(404, "Group not found");
+		}
+		if (db.getGroupMembers(groupId).length === 0) {
+			return this.fail(400, "Group has no members");
+		}
+
+		const requestedMessageId =
+			typeof body.messageId === "string" && body.messageId.trim().length > 0
+				? body.messageId.trim()
+				: undefined;
+
+		const message: GroupMessage = {
+			id: requestedMessageId ?? crypto.randomUUID(),
+			type: "data",
+			from: this.yapyapNode.getPeerId(),
+			to: groupId,
+			groupId,
+			payload,
+			timestamp: Date.now(),
+		};
+
+		const deliveries = await this.yapyapNode.messageRouter.sendToGroup(message);
+		const queued = deliveries.some((delivery) => delivery.queued);
+		return this.ok(
+			{
+				message: queued
+					? "Group message queued for retry"
+					: "Group message sent successfully",
+				messageId: message.id,
+				groupId,
+				queued,
+				deliveries,
+				timestamp: Date.now(),
+			},
+			queued ? 202 : 200,
+		);
+	}
+
+	private async sendFile(body: JsonObject): Promise<Response> {
+		const targetId =
+			typeof body.targetId === "string"
+				? body.targetId
+				: typeof body.to === "string"
+					? body.to
+					: undefined;
+		const fileName =
+			typeof body.fileName === "string" ? body.fileName.trim() : "";
+		if (!targetId || !fileName || typeof body.data !== "string") {
+			return this.fail(400, "Missing targetId/to, fileName or data");
+		}
+		if (!(await this.isValidPeerId(targetId))) {
+			return this.fail(400, "Invalid target peerId");
+		}
+
+		const data = Buffer.from(body.data, "base64");
+		const result = await this.yapyapNode.fileTransfers.sendFile(
+			targetId,
+			data,
+			{
+				fileName,
+				mimeType: typeof body.mimeType === "string" ? body.mimeType : undefined,
+			},
+		);
+		const queued = result.queuedChunks > 0;
+		return this.ok(
+			{
+				message: queued ? "File queued for retry" : "File sent successfully",
+				...result,
+				targetId,
+				queued,
+				timestamp: Date.now(),
+			},
+			queued ? 202 : 200,
+		);
+	}
+
+	private async getFileDetails(
+		request: Request,
+		fileId: string,
+	): Promise<Response> {
+		const url = new URL(request.url);
+		const directionParam = url.searchParams.get("direction");
+		if (
+			directionParam &&
+			directionParam !== "inbound" &&
+			directionParam !== "outbound"
+		) {
+			return this.fail(400, "Invalid direction");
+		}
+		const direction = (directionParam ?? undefined) as
+			| FileTransferDirection
+			| undefined;
+		const fileTransfers = this.yapyapNode.fileTransfers;
+		const status = fileTransfers.getTransferStatus(fileId, direction);
+		if (!status) {
+			return this.fail(404, "File not found");
+		}
+
+		if (url.searchParams.get("download") === "true") {
+			const data =
+				status.status === "complete" || status.direction === "outbound"
+					? fileTransfers.readFile(fileId, status.direction)
+					: null;
+			if (!data) {
+				return this.fail(409, "File is not complete");
+			}
+			return new Response(new Uint8Array(data), {
+				status: 200,
+				headers: {
+					"Content-Type": status.mimeType,
+					"Content-Disposition": `attachment; filename="${encodeURIComponent(status.fileName)}"`,
+					"Access-Control-Allow-Origin": "*",
+				},
+			});
+		}
+
+		return this.ok({
+			...status,
+			progress:
+				status.chunkCount > 0 ? status.chunksStored / status.chunkCount : 0,
+		});
+	}
+
 	private async getMessageQueueEntries(): Promise<Response> {
 		return this.ok({ messages: [] });
 	}
@@ -2125,6 +5453,27 @@ export class ApiModule {
 				case "ping":
 					ws.send(JSON.stringify({ type: "pong", timestamp: Date.now() }));
 					break;
+				case "subscribe":
+				case "unsubscribe": {
+					const parsed = parseSubscription(data.events, data.peerId);
+					if ("error" in parsed) {
+						ws.send(JSON.stringify({ type: "error", message: parsed.error }));
+						break;
+					}
+					const current = this.websocketSubscriptions.get(ws) ?? null;
+					const subscriptions =
+						eventType === "subscribe"
+							? [...(current ?? []), parsed]
+							: removeSubscription(current, parsed);
+					this.websocketSubscriptions.set(ws, subscriptions);
+					ws.send(
+						JSON.stringify({
+							type: eventType === "subscribe" ? "subscribed" : "unsubscribed",
+							subscriptions,
+						}),
+					);
+					break;
+				}
 				default:
 					console.log("Received WebSocket message:", data);
 			}
@@ -2134,22 +5483,132 @@ export class ApiModule {
 	}
 
 	async sendRealTimeEvent(eventType: string, data: JsonObject): Promise<void> {
-		const event = JSON.stringify({
+		this.broadcastEvent({
+			id: typeof data.id === "string" ? data.id : nextEventId(),
 			type: eventType,
 			data,
 			timestamp: Date.now(),
 		});
-		this.websocketClients.forEach((client) => {
-			if (client.readyState === WebSocket.OPEN) client.send(event);
+	}
+
+	/**
+	 * Deliver an event to every WebSocket and SSE client whose subscriptions
+	 * match it
+	 */
+	private broadcastEvent(event: RealtimeEvent): void {
+		const payload = JSON.stringify(event);
+		for (const client of this.websocketClients) {
+			if (
+				client.readyState === WebSocket.OPEN &&
+				matchesSubscriptions(
+					this.websocketSubscriptions.get(client) ?? null,
+					event,
+				)
+			) {
+				client.send(payload);
+			}
+		}
+		for (const client of this.sseClients) {
+			if (matchesSubscriptions(client.subscriptions, event)) {
+				client.write(formatSseEvent(event));
+			}
+		}
+	}
+
+	/**
+	 * Server-Sent Events stream of node events, filtered by the `events`
+	 * (comma-separated) and `peerId` query parameters. A Last-Event-ID header
+	 * replays buffered events emitted after that event; an ID no longer in
+	 * the buffer gets a `reset` event instead, as events may have been lost.
+	 */
+	private openEventStream(request: Request, url: URL): Response {
+		const eventsParam = url.searchParams.get("events");
+		const subscription = parseSubscription(
+			eventsParam ? eventsParam.split(",").filter(Boolean) : undefined,
+			url.searchParams.get("peerId") ?? undefined,
+		);
+		if ("error" in subscription) {
+			return this.fail(400, subscription.error);
+		}
+		const lastEventId =
+			request.headers.get("last-event-id") ??
+			url.searchParams.get("lastEventId");
+
+		const encoder = new TextEncoder();
+		let client: SseClient | undefined;
+		const stream = new ReadableStream<Uint8Array>({
+			start: (controller) => {
+				client = {
+					subscriptions: [subscription],
+					write: (chunk) => {
+						try {
+							controller.enqueue(encoder.encode(chunk));
+						} catch {
+							// Stream already closed by the client
+							if (client) this.sseClients.delete(client);
+						}
+					},
+					close: () => {
+						try {
+							controller.close();
+						} catch {
+							// Already closed or cancelled
+						}
+					},
+				};
+				client.write(": connected\n\n");
+
+				if (lastEventId) {
+					const history = this.yapyapNode
+						.getEventHistory(REALTIME_EVENT_TYPES)
+						.map(toRealtimeEvent);
+					const lastIndex = history.findIndex(
+						(event) => event.id === lastEventId,
+					);
+					if (lastIndex === -1) {
+						client.write(formatSseReset(lastEventId));
+					} else {
+						for (const event of history.slice(lastIndex + 1)) {
+							if (matchesSubscriptions(client.subscriptions, event)) {
+								client.write(formatSseEvent(event));
+							}
+						}
+					}
+				}
+				this.sseClients.add(client);
+			},
+			cancel: () => {
+				if (client) {
+					this.sseClients.delete(client);
+				}
+			},
+		});
+
+		return new Response(stream, {
+			status: 200,
+			headers: {
+				"Content-Type": "text/event-stream",
+				"Cache-Control": "no-cache",
+				Connection: "keep-alive",
+				"Access-Control-Allow-Origin": "*",
+			},
 		});
 	}
 
 	async stop(): Promise<void> {
 		if (this.heartbeatInterval) clearInterval(this.heartbeatInterval);
+		for (const unsubscribe of this.eventSubscriptions) {
+			unsubscribe();
+		}
+		this.eventSubscriptions = [];
 
 		this.websocketClients.forEach((client) => {
 			client.close();
 		});
+		for (const client of this.sseClients) {
+			client.close();
+		}
+		this.sseClients.clear();
 
 		if (this.wss) {
 			this.wss.close();
@@ -0,0 +1,146 @@
+import { Events, type YapYapEvent } from "../events/event-types.js";
+
+/**
+ * Every node event type that can be streamed over WebSocket or SSE
+ */
+export const REALTIME_EVENT_TYPES: string[] = [
+	...new Set(Object.values(Events).flatMap((group) => Object.values(group))),
+];
+
+/**
+ * A client's interest in events: `events` null means every type, `peerId`
+ * null means events about any peer.
+ */
+export interface EventSubscription {
+	events: string[] | null;
+	peerId: string | null;
+}
+
+export interface RealtimeEvent {
+	id: string;
+	type: string;
+	data: Record<string, unknown>;
+	timestamp: number;
+}
+
+export function isRealtimeEventType(value: unknown): value is string {
+	return typeof value === "string" && REALTIME_EVENT_TYPES.includes(value);
+}
+
+export function toRealtimeEvent(event: YapYapEvent): RealtimeEvent {
+	return {
+		id: event.id,
+		type: event.type,
+		data: { ...event },
+		timestamp: event.timestamp,
+	};
+}
+
+/**
+ * Peers an event is about, taken from the peer fields used across the
+ * event payloads (top level and the nested message/file/contact/routing).
+ */
+export function eventPeerIds(data: Record<string, unknown>): string[] {
+	const peerIds = new Set<string>();
+	const sources = [data, data.message, data.file, data.contact, data.routing];
+	for (const source of sources) {
+		if (typeof source !== "object" || source === null) {
+			continue;
+		}
+		for (const key of ["peer", "from", "to", "peerId"]) {
+			const value = (source as Record<string, unknown>)[key];
+			if (typeof value === "string") {
+				peerIds.add(value);
+			}
+		}
+	}
+	return [...peerIds];
+}
+
+/**
+ * Whether an event passes a client's subscriptions; null subscriptions
+ * (a client that never subscribed) receive everything.
+ */
+export function matchesSubscriptions(
+	subscriptions: EventSubscription[] | null,
+	event: RealtimeEvent,
+): boolean {
+	if (subscriptions === null) {
+		return true;
+	}
+	return subscriptions.some(
+		(subscription) =>
+			(subscription.events === null ||
+				subscription.events.includes(event.type)) &&
+			(subscription.peerId === null ||
+				eventPeerIds(event.data).includes(subscription.peerId)),
+	);
+}
+
+/**
+ * Validate the `events` and `peerId` of a subscribe/unsubscribe request
+ */
+export function parseSubscription(
+	events: unknown,
+	peerId: unknown,
+): EventSubscription | { error: string } {
+	if (peerId !== undefined && peerId !== null && typeof peerId !== "string") {
+		return { error: "peerId must be a string" };
+	}
+	if (events === undefined || events === null) {
+		return { events: null, peerId: peerId ?? null };
+	}
+	if (!Array.isArray(events) || events.length === 0) {
+		return { error: "events must be a non-empty array of event types" };
+	}
+	const unknown = events.filter((type) => !isRealtimeEventType(type));
+	if (unknown.length > 0) {
+		return { error: `Unknown event type: ${unknown.join(", ")}` };
+	}
+	return { events: [...new Set(events as string[])], peerId: peerId ?? null };
+}
+
+/**
+ * Remove event types (or whole subscriptions when `events` is null) for the
+ * given peer filter; a null peerId applies to every subscription.
+ */
+export function removeSubscription(
+	subscriptions: EventSubscription[] | null,
+	removal: EventSubscription,
+): EventSubscription[] {
+	const current = subscriptions ?? [{ events: null, peerId: null }];
+	const remaining: EventSubscription[] = [];
+	for (const subscription of current) {
+		if (removal.peerId !== null && subscription.peerId !== removal.peerId) {
+			remaining.push(subscription);
+			continue;
+		}
+		if (removal.events === null) {
+			continue;
+		}
+		const removed = removal.events;
+		const events = (subscription.events ?? REALTIME_EVENT_TYPES).filter(
+			(type) => !removed.includes(type),
+		);
+		if (events.length > 0) {
+			remaining.push({ ...subscription, events });
+		}
+	}
+	return remaining;
+}
+
+export function formatSseEvent(event: RealtimeEvent): string {
+	return `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * SSE event telling a resuming client that the events after its
+ * Last-Event-ID are no longer buffered, so it has to reload its state
+ */
+export function formatSseReset(lastEventId: string): string {
+	return `event: reset\ndata: ${JSON.stringify({
+		type: "reset",
+		lastEventId,
+		timestamp: Date.now(),
+	})}\n\n`;
+}
@@ -0,0 +1,1086 @@
+import { emitKeypressEvents } from "node:readline";
+import { WebSocket } from "ws";
+
+/**
+ * Terminal chat client for `yapyap chat`. It talks to the running node only
+ * through its HTTP API and WebSocket event stream, so it never opens the
+ * database itself.
+ */
+
+export type ChatApiResponse<T> =
+	| { success: true; data: T }
+	| { success: false; error: { message: string } };
+
+export type ChatApiRequest = <T>(
+	path: string,
+	method?: "GET" | "POST",
+	body?: Record<string, unknown>,
+) => Promise<ChatApiResponse<T>>;
+
+/** Delivery state of a sent message, advanced by ACK/NAK/read events */
+export type DeliveryStatus =
+	| "queued"
+	| "sent"
+	| "retrying"
+	| "failed"
+	| "delivered"
+	| "read";
+
+export const STATUS_ICONS: Record<DeliveryStatus, string> = {
+	queued: "○",
+	sent: "✓",
+	retrying: "↻",
+	failed: "✗",
+	delivered: "✓✓",
+	read: "◉",
+};
+
+// A later event only replaces a status of the same or lower rank, so a late
+// queued/sent event never hides an ACK and nothing overrides a read receipt.
+const STATUS_RANK: Record<DeliveryStatus, number> = {
+	queued: 0,
+	sent: 1,
+	retrying: 1,
+	failed: 1,
+	delivered: 2,
+	read: 3,
+};
+
+// Weakest first; a group message shows its least-delivered copy
+const STATUS_WEAKNESS: DeliveryStatus[] = [
+	"failed",
+	"retrying",
+	"queued",
+	"sent",
+	"delivered",
+	"read",
+];
+
+/** Events the client subscribes to on the node's WebSocket */
+export const CHAT_EVENT_TYPES = [
+	"message.received",
+	"database.message.queued",
+	"message.sent",
+	"message.delivered",
+	"message.failed",
+	"ack.received",
+	"nak.received",
+	"message.read",
+	"message.typing",
+	"message.edited",
+	"message.retracted",
+	"message.expired",
+];
+
+const TYPING_DISPLAY_MS = 6_000;
+const TYPING_SEND_INTERVAL_MS = 3_000;
+const RECONNECT_DELAY_MS = 2_000;
+const HISTORY_LIMIT = 200;
+
+export interface ChatConversation {
+	id: string;
+	kind: "direct" | "group";
+	unreadCount: number;
+	lastMessageAt: number | null;
+}
+
+export interface ChatMessage {
+	id: string;
+	direction: "inbound" | "outbound";
+	peerId: string;
+	text: string;
+	timestamp: number;
+	/** Message IDs whose delivery makes up this message's status */
+	statusIds: string[];
+}
+
+export interface ChatState {
+	selfPeerId: string;
+	conversations: ChatConversation[];
+	activeId: string | null;
+	/** Messages of the active conversation, oldest first */
+	messages: ChatMessage[];
+	statuses: Map<string, DeliveryStatus>;
+	/** Contact aliases by peer ID, and group names by group ID */
+	names: Map<string, string>;
+	/** When each peer's typing indicator stops showing */
+	typing: Map<string, number>;
+	input: string;
+	/** Lines scrolled up from the newest message */
+	scroll: number;
+	notice: string | null;
+	connected: boolean;
+}
+
+export type ChatInput =
+	| { type: "message"; text: string }
+	| { type: "command"; command: string; args: string[] }
+	| { type: "empty" };
+
+export interface ChatEvent {
+	type: string;
+	data: Record<string, unknown>;
+}
+
+/** A `GET /api/messages/history` entry, as far as the client uses it */
+export interface ChatHistoryEntry {
+	messageId: string;
+	direction: "inbound" | "outbound";
+	peerId: string;
+	status: string | null;
+	createdAt: number;
+	groupId: string | null;
+	readAt: number | null;
+	retractedAt: number | null;
+	message: { payload?: unknown; timestamp?: number } | null;
+	decryptionError?: string;
+}
+
+export function createChatState(selfPeerId: string): ChatState {
+	return {
+		selfPeerId,
+		conversations: [],
+		activeId: null,
+		messages: [],
+		statuses: new Map(),
+		names: new Map(),
+		typing: new Map(),
+		input: "",
+		scroll: 0,
+		notice: null,
+		connected: false,
+	};
+}
+
+export function shortPeerId(peerId: string): string {
+	return peerId.length > 16
+		? `${peerId.slice(0, 8)}…${peerId.slice(-4)}`
+		: peerId;
+}
+
+/**
+ * Drop C0 and C1 control characters from text that came from peers, so it
+ * cannot move the cursor, recolor or retitle the terminal. Newlines are
+ * kept unless singleLine is set; tabs become spaces.
+ */
+export function stripControlChars(text: string, singleLine = false): string {
+	let clean = "";
+	for (const char of text) {
+		const code = char.codePointAt(0) ?? 0;
+		if (char === "\n") {
+			clean += singleLine ? " " : char;
+		} else if (char === "\t") {
+			clean += " ";
+		} else if (code >= 0x20 && (code < 0x7f || code > 0x9f)) {
+			clean += char;
+		}
+	}
+	return clean;
+}
+
+export function displayName(state: ChatState, id: string): string {
+	if (id === state.selfPeerId) {
+		return "you";
+	}
+	return stripControlChars(state.names.get(id) ?? shortPeerId(id), true);
+}
+
+/**
+ * Split a line into a message or a slash command; `//` sends a message
+ * that starts with a slash.
+ */
+export function parseChatInput(line: string): ChatInput {
+	const text = line.trim();
+	if (text.length === 0) {
+		return { type: "empty" };
+	}
+	if (text.startsWith("//")) {
+		return { type: "message", text: text.slice(1) };
+	}
+	if (text.startsWith("/")) {
+		const [command, ...args] = text.slice(1).split(/\s+/);
+		return { type: "command", command: command.toLowerCase(), args };
+	}
+	return { type: "message", text };
+}
+
+export function mergeStatus(
+	current: DeliveryStatus | undefined,
+	next: DeliveryStatus,
+): DeliveryStatus {
+	if (current && STATUS_RANK[next] < STATUS_RANK[current]) {
+		return current;
+	}
+	return next;
+}
+
+export function messageStatus(
+	state: ChatState,
+	message: ChatMessage,
+): DeliveryStatus | null {
+	if (message.direction === "inbound") {
+		return null;
+	}
+	let weakest: DeliveryStatus | null = null;
+	for (const id of message.statusIds) {
+		const status = state.statuses.get(id) ?? "queued";
+		if (
+			weakest === null ||
+			STATUS_WEAKNESS.indexOf(status) < STATUS_WEAKNESS.indexOf(weakest)
+		) {
+			weakest = status;
+		}
+	}
+	return weakest;
+}
+
+export function statusFromHistory(entry: ChatHistoryEntry): DeliveryStatus {
+	if (entry.readAt !== null) {
+		return "read";
+	}
+	switch (entry.status) {
+		case "delivered":
+			return "delivered";
+		case "failed":
+		case "cancelled":
+			return "failed";
+		default:
+			return "queued";
+	}
+}
+
+export function payloadText(payload: unknown): string {
+	if (typeof payload === "string") {
+		return stripControlChars(payload);
+	}
+	if (
+		typeof payload === "object" &&
+		payload !== null &&
+		typeof (payload as { content?: unknown }).content === "string"
+	) {
+		return stripControlChars((payload as { content: string }).content);
+	}
+	return stripControlChars(JSON.stringify(payload) ?? "");
+}
+
+/**
+ * Turn history entries into chat lines, oldest first. Group messages are
+ * stored once per member as `<id>:<peerId>`, so those copies are folded
+ * back into one line.
+ */
+export function buildChatMessages(
+	state: ChatState,
+	conversation: ChatConversation,
+	entries: ChatHistoryEntry[],
+): ChatMessage[] {
+	const messages: ChatMessage[] = [];
+	const byGroupId = new Map<string, ChatMessage>();
+	for (const entry of entries) {
+		if (
+			(entry.groupId ?? null) !==
+			(conversation.kind === "group" ? conversation.id : null)
+		) {
+			continue;
+		}
+		if (entry.direction === "outbound") {
+			state.statuses.set(
+				entry.messageId,
+				mergeStatus(
+					state.statuses.get(entry.messageId),
+					statusFromHistory(entry),
+				),
+			);
+		}
+		let text: string;
+		if (entry.retractedAt !== null) {
+			text = "(deleted)";
+		} else if (entry.message === null) {
+			text = "(expired)";
+		} else if (entry.decryptionError) {
+			text = "(could not decrypt)";
+		} else {
+			text = payloadText(entry.message.payload);
+		}
+		const groupMessageId =
+			conversation.kind === "group" && entry.direction === "outbound"
+				? entry.messageId.split(":")[0]
+				: null;
+		const existing = groupMessageId ? byGroupId.get(groupMessageId) : undefined;
+		if (existing) {
+			existing.statusIds.push(entry.messageId);
+			continue;
+		}
+		const message: ChatMessage = {
+			id: groupMessageId ?? entry.messageId,
+			direction: entry.direction,
+			peerId: entry.direction === "outbound" ? state.selfPeerId : entry.peerId,
+			text,
+			timestamp: entry.createdAt,
+			statusIds: [entry.messageId],
+		};
+		if (groupMessageId) {
+			byGroupId.set(groupMessageId, message);
+		}
+		messages.push(message);
+	}
+	return messages.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Apply a node event to the state. Returns true when the conversation list
+ * and the open conversation should be reloaded from the API.
+ */
+export function applyChatEvent(
+	state: ChatState,
+	event: ChatEvent,
+	now = Date.now(),
+): boolean {
+	const data = event.data;
+	const nested = (data.message ?? {}) as Record<string, unknown>;
+	const messageId =
+		typeof data.messageId === "string"
+			? data.messageId
+			: typeof nested.id === "string"
+				? nested.id
+				: null;
+	const setStatus = (status: DeliveryStatus) => {
+		if (messageId) {
+			state.statuses.set(
+				messageId,
+				mergeStatus(state.statuses.get(messageId), status),
+			);
+		}
+	};
+	switch (event.type) {
+		case "database.message.queued":
+			setStatus("queued");
+			return false;
+		case "message.sent":
+			setStatus("sent");
+			return false;
+		case "message.delivered":
+		case "ack.received":
+			setStatus("delivered");
+			return false;
+		case "nak.received":
+			setStatus("retrying");
+			return false;
+		case "message.failed":
+			setStatus("failed");
+			return false;
+		case "message.read":
+			setStatus("read");
+			return false;
+		case "message.typing":
+			if (typeof data.peer === "string") {
+				if (data.isTyping === true) {
+					state.typing.set(data.peer, now + TYPING_DISPLAY_MS);
+				} else {
+					state.typing.delete(data.peer);
+				}
+			}
+			return false;
+		case "message.received":
+			if (typeof nested.from === "string") {
+				state.typing.delete(nested.from);
+			}
+			return true;
+		case "message.edited":
+		case "message.retracted":
+		case "message.expired":
+			return true;
+		default:
+			return false;
+	}
+}
+
+/**
+ * Find a conversation by its number in the list, peer or group ID, or
+ * contact alias / group name (case-insensitive).
+ */
+export function findConversation(
+	state: ChatState,
+	query: string,
+): ChatConversation | null {
+	const index = Number(query);
+	if (Number.isInteger(index) && index >= 1) {
+		return state.conversations[index - 1] ?? null;
+	}
+	const lowered = query.toLowerCase();
+	return (
+		state.conversations.find(
+			(conversation) =>
+				conversation.id === query ||
+				state.names.get(conversation.id)?.toLowerCase() === lowered,
+		) ?? null
+	);
+}
+
+function fit(text: string, width: number): string {
+	if (width <= 0) {
+		return "";
+	}
+	if (text.length > width) {
+		return `${text.slice(0, width - 1)}…`;
+	}
+	return text.padEnd(width);
+}
+
+export function wrapText(text: string, width: number): string[] {
+	const lines: string[] = [];
+	for (const paragraph of text.split("\n")) {
+		let line = "";
+		for (const word of paragraph.split(" ")) {
+			let rest = word;
+			while (rest.length > width) {
+				if (line) {
+					lines.push(line);
+					line = "";
+				}
+				lines.push(rest.slice(0, width));
+				rest = rest.slice(width);
+			}
+			if (!line) {
+				line = rest;
+			} else if (line.length + 1 + rest.length <= width) {
+				line = `${line} ${rest}`;
+			} else {
+				lines.push(line);
+				line = rest;
+			}
+		}
+		lines.push(line);
+	}
+	return lines;
+}
+
+function formatTime(timestamp: number): string {
+	const date = new Date(timestamp);
+	return `${String(date.getHours()).padStart(2, "0")}:${String(date.getMinutes()).padStart(2, "0")}`;
+}
+
+/**
+ * Lay out the whole screen as plain text: a header, the conversation list
+ * beside the message pane, a status line and the input line.
+ */
+export function renderChat(
+	state: ChatState,
+	size: { columns: number; rows: number },
+	now = Date.now(),
+): string[] {
+	const { columns, rows } = size;
+	const sidebarWidth = Math.min(28, Math.floor(columns / 3));
+	const paneWidth = columns - sidebarWidth - 1;
+	const bodyRows = Math.max(rows - 3, 1);
+
+	const header = ` yapyap chat · ${shortPeerId(state.selfPeerId)} · ${state.connected ? "live" : "reconnecting…"}`;
+
+	const sidebar = state.conversations.map((conversation, index) => {
+		const marker = conversation.id === state.activeId ? ">" : " ";
+		const unread =
+			conversation.unreadCount > 0 ? ` (${conversation.unreadCount})` : "";
+		const name = `${conversation.kind === "group" ? "#" : ""}${displayName(state, conversation.id)}`;
+		const label = `${marker}${index + 1} ${name}`;
+		return `${fit(label, sidebarWidth - unread.length)}${unread}`;
+	});
+
+	const paneLines: string[] = [];
+	for (const message of state.messages) {
+		const status = messageStatus(state, message);
+		const icon = status ? ` ${STATUS_ICONS[status]}` : "";
+		const prefix = `${formatTime(message.timestamp)} ${displayName(state, message.peerId)}: `;
+		const wrapped = wrapText(
+			`${prefix}${message.text}`,
+			Math.max(paneWidth - 3, 10),
+		);
+		wrapped[wrapped.length - 1] += icon;
+		paneLines.push(...wrapped);
+	}
+	if (state.activeId === null) {
+		paneLines.push(
+			"No conversation open. /open <name|number> or Tab to pick one.",
+		);
+	} else if (state.messages.length === 0) {
+		paneLines.push("No messages yet.");
+	}
+	const maxScroll = Math.max(paneLines.length - bodyRows, 0);
+	const scroll = Math.min(state.scroll, maxScroll);
+	const visible = paneLines.slice(
+		Math.max(paneLines.length - bodyRows - scroll, 0),
+		paneLines.length - scroll,
+	);
+
+	const lines = [fit(header, columns)];
+	for (let row = 0; row < bodyRows; row++) {
+		lines.push(
+			`${fit(sidebar[row] ?? "", sidebarWidth)}│${fit(visible[row] ?? "", paneWidth)}`,
+		);
+	}
+
+	const typing = [...state.typing]
+		.filter(([peerId, until]) => until > now && peerId === state.activeId)
+		.map(([peerId]) => `${displayName(state, peerId)} is typing…`);
+	lines.push(
+		fit(stripControlChars(state.notice ?? typing[0] ?? "", true), columns),
+	);
+
+	const prompt = "> ";
+	const inputWidth = columns - prompt.length;
+	lines.push(
+		`${prompt}${state.input.length > inputWidth ? state.input.slice(-inputWidth) : state.input}`,
+	);
+	return lines;
+}
+
+const HELP_TEXT =
+	"/open <name|#>  /next  /prev  /retry  /read  /quit · Tab switches chats, PgUp/PgDn scroll, // sends a leading slash";
+
+export interface ChatOptions {
+	request: ChatApiRequest;
+	/** WebSocket URL of the node's event stream */
+	eventsUrl: string;
+	apiToken?: string;
+	/** Conversation to open first: peer ID, group ID or alias */
+	peer?: string;
+	input?: NodeJS.ReadStream;
+	output?: NodeJS.WriteStream;
+}
+
+/**
+ * Full-screen chat session. Resolves once the user quits.
+ */
+export class ChatClient {
+	private readonly state: ChatState;
+	private readonly input: NodeJS.ReadStream;
+	private readonly output: NodeJS.WriteStream;
+	private socket: WebSocket | null = null;
+	private reconnectTimer: NodeJS.Timeout | null = null;
+	private typingTimer: NodeJS.Timeout | null = null;
+	private lastTypingSentAt = 0;
+	private closed = false;
+	private finish: () => void = () => {};
+
+	constructor(
+		private readonly options: ChatOptions,
+		selfPeerId: string,
+	) {
+		this.state = createChatState(selfPeerId);
+		this.input = options.input ?? process.stdin;
+		this.output = options.output ?? process.stdout;
+	}
+
+	async run(): Promise<void> {
+		await this.loadNames();
+		await this.loadConversations();
+		if (this.options.peer) {
+			const conversation =
+				findConversation(this.state, this.options.peer) ??
+				this.addDirectConversation(this.options.peer);
+			await this.openConversation(conversation);
+		} else if (this.state.conversations.length > 0) {
+			await this.openConversation(this.state.conversations[0]);
+		}
+
+		const done = new Promise<void>((resolve) => {
+			this.finish = resolve;
+		});
+		this.output.write("\x1b[?1049h");
+		emitKeypressEvents(this.input);
+		this.input.setRawMode?.(true);
+		this.input.on("keypress", this.onKeypress);
+		this.output.on("resize", this.render);
+		this.connect();
+		this.render();
+		await done;
+	}
+
+	private close(): void {
+		if (this.closed) {
+			return;
+		}
+		this.closed = true;
+		if (this.reconnectTimer) {
+			clearTimeout(this.reconnectTimer);
+		}
+		if (this.typingTimer) {
+			clearTimeout(this.typingTimer);
+		}
+		this.socket?.close();
+		this.input.off("keypress", this.onKeypress);
+		this.output.off("resize", this.render);
+		this.input.setRawMode?.(false);
+		this.input.pause();
+		this.output.write("\x1b[?1049l");
+		this.finish();
+	}
+
+	/** Run a task from an event handler, showing a failure on the status line */
+	private background(task: Promise<void>): void {
+		task.catch((error: unknown) => {
+			this.state.notice =
+				error instanceof Error ? error.message : String(error);
+			this.render();
+		});
+	}
+
+	private connect(): void {
+		const headers: Record<string, string> = {};
+		if (this.options.apiToken) {
+			headers.Authorization = `Bearer ${this.options.apiToken}`;
+		}
+		const socket = new WebSocket(this.options.eventsUrl, { headers });
+		this.socket = socket;
+		socket.on("open", () => {
+			this.state.connected = true;
+			socket.send(
+				JSON.stringify({ type: "subscribe", events: CHAT_EVENT_TYPES }),
+			);
+			// Catch up on anything missed while disconnected
+			this.background(this.refresh());
+		});
+		socket.on("message", (raw) => {
+			let event: ChatEvent;
+			try {
+				event = JSON.parse(raw.toString()) as ChatEvent;
+			} catch {
+				return;
+			}
+			if (typeof event.data !== "object" || event.data === null) {
+				return;
+			}
+			if (applyChatEvent(this.state, event)) {
+				this.background(this.refresh());
+			} else {
+				this.scheduleTypingExpiry();
+				this.render();
+			}
+		});
+		socket.on("error", () => {
+			// Reported through "close"; the client keeps reconnecting
+		});
+		socket.on("close", () => {
+			this.state.connected = false;
+			if (this.closed) {
+				return;
+			}
+			this.render();
+			this.reconnectTimer = setTimeout(
+				() => this.connect(),
+				RECONNECT_DELAY_MS,
+			);
+		});
+	}
+
+	private scheduleTypingExpiry(): void {
+		if (this.typingTimer) {
+			clearTimeout(this.typingTimer);
+			this.typingTimer = null;
+		}
+		const next = Math.min(...this.state.typing.values());
+		if (Number.isFinite(next)) {
+			this.typingTimer = setTimeout(
+				() => {
+					const now = Date.now();
+					for (const [peerId, until] of this.state.typing) {
+						if (until <= now) {
+							this.state.typing.delete(peerId);
+						}
+					}
+					this.scheduleTypingExpiry();
+					this.render();
+				},
+				Math.max(next - Date.now(), 0) + 50,
+			);
+		}
+	}
+
+	private async loadNames(): Promise<void> {
+		const [contacts, groups] = await Promise.all([
+			this.options.request<{
+				contacts: Array<{ peer_id: string; alias: string | null }>;
+			}>("/api/contacts"),
+			this.options.request<{
+				groups: Array<{ groupId: string; name: string }>;
+			}>("/api/groups"),
+		]);
+		if (contacts.success) {
+			for (const contact of contacts.data.contacts) {
+				if (contact.alias) {
+					this.state.names.set(contact.peer_id, contact.alias);
+				}
+			}
+		}
+		if (groups.success) {
+			for (const group of groups.data.groups) {
+				this.state.names.set(group.groupId, group.name);
+			}
+		}
+	}
+
+	private async loadConversations(): Promise<void> {
+		const response = await this.options.request<{
+			conversations: Array<{
+				conversationId: string;
+				kind: "direct" | "group";
+				peerId: string | null;
+				groupId: string | null;
+				unreadCount: number;
+				lastMessageAt: number | null;
+			}>;
+		}>("/api/conversations?limit=100");
+		if (!response.success) {
+			throw new Error(response.error.message);
+		}
+		const loaded = response.data.conversations.map((conversation) => ({
+			// Chats are addressed by peer or group ID; the prefixed
+			// conversation ID is only needed to mark them read
+			id:
+				conversation.groupId ??
+				conversation.peerId ??
+				conversation.conversationId,
+			kind: conversation.kind,
+			unreadCount: conversation.unreadCount,
+			lastMessageAt: conversation.lastMessageAt,
+		}));
+		// Keep a chat opened with a new peer until its first message lands
+		const active = this.state.conversations.find(
+			(conversation) => conversation.id === this.state.activeId,
+		);
+		if (
+			active &&
+			!loaded.some((conversation) => conversation.id === active.id)
+		) {
+			loaded.push(active);
+		}
+		this.state.conversations = loaded;
+	}
+
+	private addDirectConversation(peerId: string): ChatConversation {
+		const conversation: ChatConversation = {
+			id: peerId,
+			kind: "direct",
+			unreadCount: 0,
+			lastMessageAt: null,
+		};
+		this.state.conversations.push(conversation);
+		return conversation;
+	}
+
+	private async loadMessages(conversation: ChatConversation): Promise<void> {
+		const params = new URLSearchParams({ limit: String(HISTORY_LIMIT) });
+		params.set(
+			conversation.kind === "group" ? "groupId" : "peerId",
+			conversation.id,
+		);
+		const response = await this.options.request<{
+			messages: ChatHistoryEntry[];
+		}>(`/api/messages/history?${params.toString()}`);
+		if (!response.success) {
+			this.state.notice = response.error.message;
+			return;
+		}
+		if (this.state.activeId === conversation.id) {
+			this.state.messages = buildChatMessages(
+				this.state,
+				conversation,
+				response.data.messages,
+			);
+		}
+	}
+
+	private async openConversation(
+		conversation: ChatConversation,
+	): Promise<void> {
+		this.state.activeId = conversation.id;
+		this.state.messages = [];
+		this.state.scroll = 0;
+		this.state.notice = null;
+		await this.loadMessages(conversation);
+		await this.markRead(conversation);
+		this.render();
+	}
+
+	private async markRead(
+		conversation: ChatConversation,
+		force = false,
+	): Promise<void> {
+		if (!force && conversation.unreadCount === 0) {
+			return;
+		}
+		const response = await this.options.request(
+			`/api/conversations/${encodeURIComponent(`${conversation.kind === "group" ? "group" : "peer"}:${conversation.id}`)}/read`,
+			"POST",
+		);
+		if (response.success) {
+			conversation.unreadCount = 0;
+		}
+	}
+
+	private async refresh(): Promise<void> {
+		await this.loadConversations();
+		const active = this.activeConversation();
+		if (active) {
+			await this.loadMessages(active);
+			await this.markRead(active);
+		}
+		this.render();
+	}
+
+	private activeConversation(): ChatConversation | null {
+		return (
+			this.state.conversations.find(
+				(conversation) => conversation.id === this.state.activeId,
+			) ?? null
+		);
+	}
+
+	private readonly render = (): void => {
+		if (this.closed) {
+			return;
+		}
+		const size = {
+			columns: this.output.columns ?? 80,
+			rows: this.output.rows ?? 24,
+		};
+		const lines = renderChat(this.state, size);
+		const cursorColumn = Math.min(this.state.input.length + 3, size.columns);
+		this.output.write(
+			`\x1b[H${lines.map((line) => `${line}\x1b[K`).join("\r\n")}\x1b[${lines.length};${cursorColumn}H`,
+		);
+	};
+
+	private readonly onKeypress = (
+		text: string | undefined,
+		key: { name?: string; ctrl?: boolean; shift?: boolean } = {},
+	): void => {
+		if (key.ctrl && (key.name === "c" || key.name === "d")) {
+			this.close();
+			return;
+		}
+		switch (key.name) {
+			case "return":
+			case "enter": {
+				const line = this.state.input;
+				this.state.input = "";
+				this.background(this.submit(line));
+				break;
+			}
+			case "backspace":
+				this.state.input = this.state.input.slice(0, -1);
+				break;
+			case "tab":
+				this.background(this.switchConversation(key.shift ? -1 : 1));
+				return;
+			case "pageup":
+				this.state.scroll += Math.max((this.output.rows ?? 24) - 4, 1);
+				break;
+			case "pagedown":
+				this.state.scroll = Math.max(
+					this.state.scroll - Math.max((this.output.rows ?? 24) - 4, 1),
+					0,
+				);
+				break;
+			default:
+				if (key.ctrl && key.name === "u") {
+					this.state.input = "";
+				} else if (key.ctrl && (key.name === "n" || key.name === "p")) {
+					this.background(this.switchConversation(key.name === "n" ? 1 : -1));
+					return;
+				} else if (text && !key.ctrl && text >= " ") {
+					this.state.input += text;
+					this.background(this.sendTyping());
+				}
+		}
+		this.render();
+	};
+
+	private async switchConversation(step: number): Promise<void> {
+		const { conversations } = this.state;
+		if (conversations.length === 0) {
+			return;
+		}
+		const current = conversations.findIndex(
+			(conversation) => conversation.id === this.state.activeId,
+		);
+		const next = (current + step + conversations.length) % conversations.length;
+		await this.openConversation(conversations[next]);
+	}
+
+	private async sendTyping(): Promise<void> {
+		const active = this.activeConversation();
+		const now = Date.now();
+		if (
+			active?.kind !== "direct" ||
+			this.state.input.startsWith("/") ||
+			now - this.lastTypingSentAt < TYPING_SEND_INTERVAL_MS
+		) {
+			return;
+		}
+		this.lastTypingSentAt = now;
+		await this.options.request("/api/messages/typing", "POST", {
+			to: active.id,
+			isTyping: true,
+		});
+	}
+
+	private async submit(line: string): Promise<void> {
+		const input = parseChatInput(line);
+		this.state.notice = null;
+		if (input.type === "command") {
+			await this.runCommand(input.command, input.args);
+		} else if (input.type === "message") {
+			await this.sendMessage(input.text);
+		}
+		this.render();
+	}
+
+	private async runCommand(command: string, args: string[]): Promise<void> {
+		switch (command) {
+			case "help":
+				this.state.notice = HELP_TEXT;
+				return;
+			case "quit":
+			case "exit":
+				this.close();
+				return;
+			case "next":
+				await this.switchConversation(1);
+				return;
+			case "prev":
+				await this.switchConversation(-1);
+				return;
+			case "open": {
+				const query = args.join(" ");
+				if (!query) {
+					this.state.notice = "Usage: /open <name|number|peer-id>";
+					return;
+				}
+				const conversation =
+					findConversation(this.state, query) ??
+					(query.startsWith("12D3") || query.startsWith("Qm")
+						? this.addDirectConversation(query)
+						: null);
+				if (!conversation) {
+					this.state.notice = `No conversation matches "${query}"`;
+					return;
+				}
+				await this.openConversation(conversation);
+				return;
+			}
+			case "read": {
+				const active = this.activeConversation();
+				if (active) {
+					await this.markRead(active, true);
+				}
+				return;
+			}
+			case "retry":
+				await this.retryLastUndelivered();
+				return;
+			default:
+				this.state.notice = `Unknown command /${command}. ${HELP_TEXT}`;
+		}
+	}
+
+	private async retryLastUndelivered(): Promise<void> {
+		const message = [...this.state.messages].reverse().find((candidate) => {
+			const status = messageStatus(this.state, candidate);
+			return (
+				status === "queued" || status === "retrying" || status === "failed"
+			);
+		});
+		if (!message) {
+			this.state.notice = "Nothing to retry";
+			return;
+		}
+		for (const id of message.statusIds) {
+			const status = this.state.statuses.get(id);
+			if (status === "delivered" || status === "read") {
+				continue;
+			}
+			const response = await this.options.request<{ queued?: boolean }>(
+				`/api/messages/${encodeURIComponent(id)}/retry`,
+				"POST",
+			);
+			if (!response.success) {
+				this.state.notice = response.error.message;
+				return;
+			}
+			this.state.statuses.set(id, response.data.queued ? "queued" : "sent");
+		}
+		this.state.notice = "Retrying";
+	}
+
+	private async sendMessage(text: string): Promise<void> {
+		const active = this.activeConversation();
+		if (!active) {
+			this.state.notice = "Open a conversation first: /open <name|number>";
+			return;
+		}
+		const payload = { content: text };
+		let messageId: string;
+		let statusIds: string[];
+		if (active.kind === "group") {
+			const response = await this.options.request<{
+				messageId: string;
+				deliveries: Array<{ messageId: string; queued: boolean }>;
+			}>(`/api/groups/${encodeURIComponent(active.id)}/send`, "POST", {
+				payload,
+			});
+			if (!response.success) {
+				this.state.notice = response.error.message;
+				return;
+			}
+			messageId = response.data.messageId;
+			statusIds = response.data.deliveries.map((delivery) => {
+				this.state.statuses.set(
+					delivery.messageId,
+					mergeStatus(
+						this.state.statuses.get(delivery.messageId),
+						delivery.queued ? "queued" : "sent",
+					),
+				);
+				return delivery.messageId;
+			});
+		} else {
+			const response = await this.options.request<{
+				messageId: string;
+				queued: boolean;
+			}>("/api/messages/send", "POST", { to: active.id, payload });
+			if (!response.success) {
+				this.state.notice = response.error.message;
+				return;
+			}
+			messageId = response.data.messageId;
+			statusIds = [messageId];
+			this.state.statuses.set(
+				messageId,
+				mergeStatus(
+					this.state.statuses.get(messageId),
+					response.data.queued ? "queued" : "sent",
+				),
+			);
+		}
+		this.lastTypingSentAt = 0;
+		this.state.scroll = 0;
+		this.state.messages.push({
+			id: messageId,
+			direction: "outbound",
+			peerId: this.state.selfPeerId,
+			text,
+			timestamp: Date.now(),
+			statusIds,
+		});
+	}
+}
+
+/**
+ * Open the chat UI against a running node and return when the user quits
+ */
+export async function runChat(options: ChatOptions): Promise<void> {
+	const info = await options.request<{ peerId: string }>("/api/node/info");
+	if (!info.success) {
+		throw new Error(info.error.message);
+	}
+	await new ChatClient(options, info.data.peerId).run();
+}
@@ -0,0 +1,73 @@
+import { existsSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+
+/** Written to the data dir by `yapyap start` so other commands can find it */
+export const DAEMON_FILE = "daemon.json";
+
+export interface DaemonInfo {
+	pid: number;
+	apiPort: number;
+	peerId: string;
+	startedAt: number;
+}
+
+function isProcessAlive(pid: number): boolean {
+	try {
+		process.kill(pid, 0);
+		return true;
+	} catch (error) {
+		// EPERM means the process exists but belongs to another user.
+		return (error as NodeJS.ErrnoException).code === "EPERM";
+	}
+}
+
+export function writeDaemonInfo(dataDir: string, info: DaemonInfo): void {
+	writeFileSync(
+		join(dataDir, DAEMON_FILE),
+		`${JSON.stringify(info, null, 2)}\n`,
+		{
+			mode: 0o600,
+		},
+	);
+}
+
+/**
+ * The daemon recorded in the data dir, or null when there is none or its
+ * process has exited (a stale file left by a crash is removed).
+ */
+export function readDaemonInfo(dataDir: string): DaemonInfo | null {
+	const file = join(dataDir, DAEMON_FILE);
+	if (!existsSync(file)) {
+		return null;
+	}
+	let info: DaemonInfo;
+	try {
+		info = JSON.parse(readFileSync(file, "utf-8"));
+	} catch {
+		return null;
+	}
+	if (
+		!Number.isInteger(info.pid) ||
+		!Number.isInteger(info.apiPort) ||
+		!isProcessAlive(info.pid)
+	) {
+		rmSync(file, { force: true });
+		return null;
+	}
+	return info;
+}
+
+/**
+ * Remove the daemon file if it still belongs to this process
+ */
+export function removeDaemonInfo(dataDir: string, pid = process.pid): void {
+	const file = join(dataDir, DAEMON_FILE);
+	try {
+		const info = JSON.parse(readFileSync(file, "utf-8")) as DaemonInfo;
+		if (info.pid === pid) {
+			rmSync(file, { force: true });
+		}
+	} catch {
+		// Missing or unreadable file: nothing to clean up.
+	}
+}
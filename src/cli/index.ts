@@ -1,6 +1,6 @@
 import { randomUUID } from "node:crypto";
-import { existsSync, mkdirSync, readFileSync } from "node:fs";
-import { dirname, join } from "node:path";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { basename, dirname, join } from "node:path";
 import { fileURLToPath } from "node:url";
 import { noise } from "@chainsafe/libp2p-noise";
 
@@ -22,11 +22,38 @@ import { multiaddr } from "@multiformats/multiaddr";
 import { Command } from "commander";
 import { createLibp2p } from "libp2p";
 import pino from "pino";
+import {
+	API_TOKEN_FILE,
+	API_TOKEN_SCOPES,
+	type ApiTokenScope,
+	isApiTokenScope,
+	issueApiToken,
+} from "../api/auth.js";
 import { ApiModule } from "../api/index.js";
-import { getBootstrapAddrs } from "../config/index.js";
+import {
+	getConfigFilePath,
+	getConfigValue,
+	parseConfigValue,
+	readConfigFile,
+	resolveConfig,
+	setConfigFileValue,
+	validateConfig,
+	type YapYapConfig,
+	type YapYapConfigOverrides,
+} from "../config/index.js";
+import {
+	checkDatabaseIntegrity,
+	checkPendingBacklog,
+	type DiagnosticCheck,
+	type DiagnosticReport,
+	summarizeDiagnostics,
+} from "../core/diagnostics.js";
 import { YapYapNode } from "../core/node.js";
 import { DatabaseManager } from "../database/index.js";
+import { LATEST_SCHEMA_VERSION } from "../database/migrations/index.js";
 import type { YapYapMessage } from "../message/message.js";
+import { runChat } from "./chat.js";
+import { readDaemonInfo, removeDaemonInfo, writeDaemonInfo } from "./daemon.js";
 
 const DEFAULT_DATA_DIR = join(process.cwd(), "data");
 
@@ -98,49 +125,73 @@ function extractPeerIdFromMultiaddr(addr: string): string | null {
 	return null;
 }
 
-function parseBootstrapAddrs(raw?: string): string[] {
-	if (!raw) return [];
-	return raw
-		.split(",")
-		.map((s) => s.trim())
-		.filter(Boolean);
-}
-
-function resolveBootstrapAddrs(options: { cliNetwork?: string }): {
-	addrs: string[];
-	source: string;
-} {
-	if (options.cliNetwork) {
-		return { addrs: parseBootstrapAddrs(options.cliNetwork), source: "cli" };
+/**
+ * Effective config for a data dir, with `start` flags as the top layer
+ */
+function loadConfig(
+	dataDir: string,
+	flags: { apiPort?: string; network?: string; listen?: string } = {},
+): YapYapConfig {
+	const overrides: YapYapConfigOverrides = {};
+	if (flags.network) {
+		overrides.network = {
+			bootstrap: parseConfigValue(
+				"network.bootstrap",
+				flags.network,
+			) as string[],
+		};
 	}
-
-	const envAddrs = getBootstrapAddrs(process.env.YAPYAP_BOOTSTRAP_ADDRS);
-	if (envAddrs.length > 0) {
-		return {
-			addrs: envAddrs,
-			source: process.env.YAPYAP_BOOTSTRAP_ADDRS ? "env" : "default",
+	if (flags.listen) {
+		overrides.network = { ...overrides.network, listen: [flags.listen] };
+	}
+	if (flags.apiPort) {
+		overrides.api = {
+			port: parseConfigValue("api.port", flags.apiPort) as number,
 		};
 	}
-
-	return { addrs: [], source: "none" };
+	return resolveConfig({ dataDir, overrides });
 }
 
-function resolveApiBaseUrl(options: { apiUrl?: string; apiPort?: string }) {
+/**
+ * API base URL: --api-url, --api-port or YAPYAP_API_PORT, else the port of
+ * the node recorded in the data dir, else the default port.
+ */
+function resolveApiBaseUrl(options: {
+	apiUrl?: string;
+	apiPort?: string;
+	dataDir?: string;
+}) {
 	if (options.apiUrl) return options.apiUrl.replace(/\/$/, "");
 	const port = options.apiPort
 		? Number(options.apiPort)
 		: process.env.YAPYAP_API_PORT
 			? Number(process.env.YAPYAP_API_PORT)
-			: 3000;
+			: (readDaemonInfo(resolveDataDir(options.dataDir))?.apiPort ?? 3000);
 	return `http://127.0.0.1:${port}`;
 }
 
+/**
+ * API token for CLI requests: YAPYAP_API_TOKEN, else the token file written
+ * by `yapyap init` in the data dir.
+ */
+function resolveApiToken(dataDir?: string): string | undefined {
+	if (process.env.YAPYAP_API_TOKEN) return process.env.YAPYAP_API_TOKEN;
+	const tokenFile = join(resolveDataDir(dataDir), API_TOKEN_FILE);
+	if (!existsSync(tokenFile)) return undefined;
+	return readFileSync(tokenFile, "utf-8").trim() || undefined;
+}
+
 /**
  * Makes an API request with retry logic for handling node startup delays.
  * Retries on connection errors and 503 Service Unavailable responses.
  */
 async function apiRequest<T>(
-	options: { apiUrl?: string; apiPort?: string; verbose?: boolean },
+	options: {
+		apiUrl?: string;
+		apiPort?: string;
+		dataDir?: string;
+		verbose?: boolean;
+	},
 	path: string,
 	method: "GET" | "POST" | "DELETE" = "GET",
 	body?: Record<string, unknown>,
@@ -150,6 +201,10 @@ async function apiRequest<T>(
 	const baseUrl = resolveApiBaseUrl(options);
 	const url = `${baseUrl}${path}`;
 	const verbose = options.verbose === true;
+	const apiToken = resolveApiToken(options.dataDir);
+	const headers: Record<string, string> = {};
+	if (body) headers["Content-Type"] = "application/json";
+	if (apiToken) headers.Authorization = `Bearer ${apiToken}`;
 
 	if (verbose) {
 		console.error(`[verbose] API request: ${method} ${url}`);
@@ -166,7 +221,7 @@ async function apiRequest<T>(
 			const startTime = Date.now();
 			const response = await fetch(url, {
 				method,
-				headers: body ? { "Content-Type": "application/json" } : undefined,
+				headers,
 				body: body ? JSON.stringify(body) : undefined,
 				signal: AbortSignal.timeout(5000), // 5 second timeout per request
 			});
@@ -513,6 +568,74 @@ async function getOrCreateNodeKey(db: DatabaseManager): Promise<PrivateKey> {
 	return generated;
 }
 
+/**
+ * Read a line from the terminal without echoing it
+ */
+function promptHidden(question: string): Promise<string> {
+	return new Promise((resolve, reject) => {
+		const stdin = process.stdin;
+		let value = "";
+		process.stdout.write(question);
+		stdin.setRawMode(true);
+		stdin.resume();
+		stdin.setEncoding("utf8");
+
+		const finish = (error?: Error) => {
+			stdin.setRawMode(false);
+			stdin.pause();
+			stdin.off("data", onData);
+			process.stdout.write("\n");
+			if (error) {
+				reject(error);
+			} else {
+				resolve(value);
+			}
+		};
+		const onData = (chunk: string) => {
+			for (const char of chunk) {
+				if (char === "\r" || char === "\n") {
+					finish();
+					return;
+				}
+				if (char === "\u0003") {
+					finish(new Error("Passphrase prompt cancelled"));
+					return;
+				}
+				if (char === "\u007f" || char === "\b") {
+					value = value.slice(0, -1);
+				} else {
+					value += char;
+				}
+			}
+		};
+		stdin.on("data", onData);
+	});
+}
+
+/**
+ * Open the database, unlocking the keystore with YAPYAP_PASSPHRASE or, on a
+ * terminal, an interactive prompt. Setting YAPYAP_PASSPHRASE on a database
+ * without a keystore enables it and seals the existing private keys.
+ */
+async function openDatabase(dataDir: string): Promise<DatabaseManager> {
+	const db = new DatabaseManager({
+		dataDir,
+		passphrase: process.env.YAPYAP_PASSPHRASE || undefined,
+	});
+	try {
+		if (db.isKeystoreLocked()) {
+			if (!process.stdin.isTTY) {
+				throw new Error("Keystore is locked: set YAPYAP_PASSPHRASE");
+			}
+			db.unlock(await promptHidden("Keystore passphrase: "));
+		}
+		return db;
+	} catch (error) {
+		db.close();
+		throw error;
+	}
+}
+
 type PeerIdKeyArg = Parameters<typeof peerIdFromPrivateKey>[0];
 
 async function getPeerIdFromPrivateKey(key: PrivateKey): Promise<string> {
@@ -527,6 +650,52 @@ program
 	.description("YapYap Messenger - Decentralized P2P messaging CLI")
 	.version(APP_VERSION);
 
+/* =======================================================
+   INIT
+======================================================= */
+
+program
+	.command("init")
+	.description("Create the data directory, node key and an admin API token")
+	.option("--data-dir <path>", "Custom data directory", DEFAULT_DATA_DIR)
+	.action(async (options) => {
+		const logger = createLogger();
+		try {
+			const dataDir: string = resolveDataDir(options.dataDir);
+			if (!existsSync(dataDir)) {
+				mkdirSync(dataDir, { recursive: true });
+				logger.info(`Created data directory: ${dataDir}`);
+			}
+
+			const db = await openDatabase(dataDir);
+			try {
+				const privateKey = await getOrCreateNodeKey(db);
+				const peerId = await getPeerIdFromPrivateKey(privateKey);
+
+				const tokenFile = join(dataDir, API_TOKEN_FILE);
+				if (existsSync(tokenFile)) {
+					logger.info(`API token already exists: ${tokenFile}`);
+				} else {
+					const { token, entry } = issueApiToken(db, "default", ["admin"]);
+					writeFileSync(tokenFile, `${token}\n`, { mode: 0o600 });
+					logger.info(
+						`Created admin API token ${entry.token_id}: ${tokenFile}`,
+					);
+				}
+
+				console.log(JSON.stringify({ dataDir, peerId, tokenFile }, null, 2));
+			} finally {
+				db.close();
+			}
+		} catch (error) {
+			logger.error({
+				msg: "Failed to initialize YapYap",
+				error: error instanceof Error ? error.message : String(error),
+			});
+			process.exit(1);
+		}
+	});
+
 /* =======================================================
    START COMMAND
 ======================================================= */
@@ -555,22 +724,17 @@ program
 				logger.info(`Created data directory: ${dataDir}`);
 			}
 
-			const db = new DatabaseManager({ dataDir });
+			const config = loadConfig(dataDir, options);
+			const db = await openDatabase(dataDir);
 
 			const privateKey = await getOrCreateNodeKey(db);
 
-			const listenMultiaddr =
-				options.listen ||
-				process.env.YAPYAP_LISTEN_ADDR ||
-				"/ip4/0.0.0.0/tcp/0";
-			const { addrs: bootstrapAddrs, source: bootstrapSource } =
-				resolveBootstrapAddrs({
-					cliNetwork: options.network,
-				});
+			const listenMultiaddrs = config.network.listen;
+			const bootstrapAddrs = config.network.bootstrap;
 
 			const libp2p = await createLibp2p({
 				privateKey,
-				addresses: { listen: [listenMultiaddr] },
+				addresses: { listen: listenMultiaddrs },
 				transports: [tcp(), webSockets()],
 				connectionEncrypters: [noise()],
 				streamMuxers: [yamux()],
@@ -586,7 +750,7 @@ program
 				},
 			});
 
-			const node = new YapYapNode(db);
+			const node = new YapYapNode(db, config);
 			await node.init(libp2p);
 			node.setBootstrapAddrs(bootstrapAddrs);
 
@@ -597,22 +761,31 @@ program
 			db.saveNodeKey(publicKeyHex, privateKeyHex);
 
 			const api = new ApiModule(node);
-			await api.init(options.apiPort ? Number(options.apiPort) : undefined);
+			await api.init(config.api.port);
+			writeDaemonInfo(dataDir, {
+				pid: process.pid,
+				apiPort: api.apiPort ?? config.api.port,
+				peerId: node.getPeerId(),
+				startedAt: Date.now(),
+			});
+
+			if (!db.hasIssuedApiTokens()) {
+				logger.warn(
+					"No API tokens configured, the API accepts unauthenticated requests. Run `yapyap init` or `yapyap token create` to require tokens.",
+				);
+			}
 
 			logger.info("YapYap node started successfully");
 			logger.info(`API server running on port ${api.apiPort}`);
 			logger.info(`Peer ID: ${node.getPeerId()}`);
-			logger.info(
-				{ listenMultiaddr, bootstrapAddrs, bootstrapSource },
-				"Network config",
-			);
+			logger.info({ listenMultiaddrs, bootstrapAddrs }, "Network config");
 
 			let warnedNoBootstrap = false;
 			const connectBootstrapPeers = async () => {
 				if (bootstrapAddrs.length === 0) {
 					if (!warnedNoBootstrap) {
 						logger.warn(
-							"No bootstrap peers configured. Use --network or set YAPYAP_BOOTSTRAP_ADDRS.",
+							"No bootstrap peers configured. Use --network, set YAPYAP_BOOTSTRAP_ADDRS or network.bootstrap in yapyap.config.json.",
 						);
 						warnedNoBootstrap = true;
 					}
@@ -643,10 +816,17 @@ program
 			const bootstrapInterval = setInterval(() => {
 				void connectBootstrapPeers();
 			}, 5000);
+			const discoveryInterval = config.discovery.enabled
+				? setInterval(() => {
+						void node.triggerPeerDiscovery(config.discovery.queryCount);
+					}, config.discovery.intervalMs)
+				: undefined;
 
 			const shutdown = async () => {
 				logger.info("Shutting down YapYap node...");
 				clearInterval(bootstrapInterval);
+				clearInterval(discoveryInterval);
+				removeDaemonInfo(dataDir);
 				await api.stop();
 				await node.shutdown();
 				db.close();
@@ -678,115 +858,188 @@ program
 
 program
 	.command("send-message")
-	.description("Send a message to a peer")
+	.description(
+		"Send a message through the running node, or queue it locally with --offline-queue",
+	)
 	.requiredOption("--to <peer-id>", "Target peer ID")
 	.requiredOption("--payload <string>", "Message content")
 	.option("--data-dir <path>", "Custom data directory", DEFAULT_DATA_DIR)
 	.option("--alias <name>", "Alias for the contact")
+	.option("--api-url <url>", "Override API base URL")
+	.option("--api-port <number>", "Override API port")
+	.option(
+		"--offline-queue",
+		"When no node is running, queue the message in the data dir; it is encrypted and sent once the node starts",
+	)
+	.option(
+		"--priority <number>",
+		"Retry order while queued; higher goes first (default 0)",
+	)
+	.option(
+		"--send-at <date>",
+		"Hold the message until this date or epoch ms, then send it",
+	)
+	.option(
+		"--expire-after <seconds>",
+		"Both ends delete the content this many seconds after it is sent",
+	)
 	.action(async (options) => {
 		const logger = createLogger();
 		try {
+			const priority =
+				options.priority === undefined ? undefined : Number(options.priority);
+			if (priority !== undefined && !Number.isInteger(priority)) {
+				throw new Error("Priority must be an integer.");
+			}
+			let sendAt: number | undefined;
+			if (options.sendAt) {
+				sendAt = /^\d+$/.test(options.sendAt)
+					? Number(options.sendAt)
+					: Date.parse(options.sendAt);
+				if (!Number.isFinite(sendAt)) {
+					throw new Error("Send-at must be a date or epoch milliseconds.");
+				}
+			}
+			const expireAfterMs =
+				options.expireAfter === undefined
+					? undefined
+					: Number(options.expireAfter) * 1000;
+			if (
+				expireAfterMs !== undefined &&
+				(!Number.isInteger(expireAfterMs) || expireAfterMs <= 0)
+			) {
+				throw new Error("Expire-after must be a positive number of seconds.");
+			}
 			const dataDir = resolveDataDir(options.dataDir);
-			const db = new DatabaseManager({ dataDir });
-
-			const privateKey = await getOrCreateNodeKey(db);
-
-			const libp2p = await createLibp2p({
-				privateKey,
-				addresses: { listen: ["/ip4/0.0.0.0/tcp/0"] },
-				transports: [tcp(), webSockets()],
-				connectionEncrypters: [noise()],
-				streamMuxers: [yamux()],
-			});
-
-			const node = new YapYapNode(db);
-			await node.init(libp2p);
+			const daemon = readDaemonInfo(dataDir);
+			const explicitApi = Boolean(
+				options.apiUrl || options.apiPort || process.env.YAPYAP_API_PORT,
+			);
 
-			const payload: Record<string, unknown> = {
-				content: options.payload,
-			};
+			if (daemon || explicitApi) {
+				const response = await apiRequest<{
+					messageId: string;
+					targetId: string;
+					queued: boolean;
+					scheduled?: boolean;
+					details?: string;
+				}>(
+					{ apiUrl: options.apiUrl, apiPort: options.apiPort, dataDir },
+					"/api/messages/send",
+					"POST",
+					{
+						to: options.to,
+						payload: { content: options.payload },
+						priority,
+						sendAt,
+						expireAfterMs,
+					},
+				);
+				if (!response.success) {
+					printApiError(response);
+					process.exit(1);
+				}
+				if (response.data.scheduled) {
+					logger.info(
+						`Message scheduled for ${new Date(sendAt ?? 0).toISOString()}`,
+					);
+				} else if (response.data.queued) {
+					logger.warn(
+						`Message queued for delivery (recipient may be offline): ${response.data.details ?? ""}`,
+					);
+				} else {
+					logger.info("Message sent successfully");
+				}
+				console.log(JSON.stringify(response.data, null, 2));
+				return;
+			}
 
-			const message: YapYapMessage = {
-				id: randomUUID(),
-				type: "data",
-				from: node.getPeerId(),
-				to: options.to,
-				payload,
-				timestamp: Date.now(),
-			};
+			if (!options.offlineQueue) {
+				throw new Error(
+					`No running YapYap node found for ${dataDir}. Start one with \`yapyap start\`, or pass --offline-queue to queue the message until it starts.`,
+				);
+			}
 
+			// No daemon holds the database, so it is safe to open it here.
+			const db = await openDatabase(dataDir);
 			try {
-				await node.messageRouter.send(message);
-				logger.info("Message sent successfully");
-				logger.info(`Message ID: ${message.id}`);
-				logger.info(`Recipient: ${options.to}`);
-				logger.info("");
-				logger.info("Tip: The recipient can view the message with:");
-				logger.info(`  yapyap receive --api-port <port>`);
-			} catch (sendError) {
-				logger.warn("Message queued for delivery (recipient may be offline)");
-				logger.warn(
-					`Queue error: ${sendError instanceof Error ? sendError.message : String(sendError)}`,
+				const privateKey = await getOrCreateNodeKey(db);
+				const libp2p = await createLibp2p({ privateKey, start: false });
+				const node = new YapYapNode(db, loadConfig(dataDir));
+				await node.init(libp2p);
+
+				const message: YapYapMessage = {
+					id: randomUUID(),
+					type: "data",
+					from: node.getPeerId(),
+					to: options.to,
+					payload: { content: options.payload },
+					timestamp: Date.now(),
+					...(expireAfterMs !== undefined ? { expireAfterMs } : {}),
+				};
+				try {
+					if (sendAt !== undefined && sendAt > Date.now()) {
+						await node.messageRouter.schedule(message, sendAt, { priority });
+					} else {
+						await node.messageRouter.enqueue(message, { priority });
+					}
+				} finally {
+					await node.shutdown();
+					await libp2p.stop();
+				}
+				logger.info(
+					sendAt !== undefined && sendAt > Date.now()
+						? `Message scheduled; it will be sent at ${new Date(sendAt).toISOString()} if the node is running`
+						: "Message queued; it will be sent when the node starts",
 				);
-				logger.info("");
-				logger.info("The message will be retried automatically.");
-				logger.info("Check status with: yapyap status");
+				console.log(
+					JSON.stringify(
+						{ messageId: message.id, targetId: options.to, queued: true },
+						null,
+						2,
+					),
+				);
+			} finally {
+				db.close();
 			}
-
-			await node.shutdown();
-			process.exit(0);
 		} catch (error) {
-			const errorMsg = error instanceof Error ? error.message : String(error);
-			logger.error(`Failed to send message: ${errorMsg}`);
-			logger.info("");
-			logger.info("Troubleshooting:");
-			logger.info("  - Ensure your node is running: yapyap start");
-			logger.info("  - Verify the recipient's peer ID is correct");
-			logger.info("  - Check network connectivity");
+			logger.error({
+				msg: "Failed to send message",
+				error: error instanceof Error ? error.message : String(error),
+			});
 			process.exit(1);
 		}
 	});
 
 /* =======================================================
-   CONTACTS
+   SEND FILE
 ======================================================= */
 
-const contact = program.command("contact").description("Manage contacts");
-
-contact
-	.command("add")
-	.description("Add or update a contact")
-	.requiredOption("--peer-id <peer-id>", "Target peer ID")
-	.option("--alias <name>", "Alias for the contact")
-	.option("--public-key <hex>", "Peer public key (hex)")
-	.option("--metadata <json>", "Extra metadata JSON")
-	.option("--multiaddr <addr...>", "Multiaddr list for routing cache")
-	.option("--trusted", "Mark contact as trusted")
+program
+	.command("send-file")
+	.description("Send a file to a peer in encrypted, resumable chunks")
+	.requiredOption("--to <peer-id>", "Target peer ID")
+	.requiredOption("--file <path>", "Path of the file to send")
+	.option("--mime-type <type>", "MIME type of the file")
 	.option("--api-url <url>", "Override API base URL")
 	.option("--api-port <number>", "Override API port")
 	.action(async (options) => {
 		const logger = createLogger();
 		try {
-			const metadata = parseJsonArg(options.metadata);
-			if (options.metadata && !metadata) {
-				console.error("Invalid JSON for --metadata");
-				process.exit(1);
-			}
-
+			const data = readFileSync(options.file);
 			const response = await apiRequest<{
-				message: string;
-				contact: unknown;
+				fileId: string;
+				chunkCount: number;
+				queued: boolean;
 			}>(
 				{ apiUrl: options.apiUrl, apiPort: options.apiPort },
-				"/api/database/contacts",
+				"/api/files/send",
 				"POST",
 				{
-					peerId: options.peerId,
-					alias: options.alias,
-					metadata,
-					isTrusted: options.trusted === true,
-					publicKey: options.publicKey,
-					multiaddrs: options.multiaddr,
+					to: options.to,
+					fileName: basename(options.file),
+					mimeType: options.mimeType,
+					data: data.toString("base64"),
 				},
 			);
 
@@ -795,82 +1048,102 @@ contact
 				process.exit(1);
 			}
 
-			logger.info("Contact saved successfully");
+			logger.info(
+				`File ${response.data.queued ? "queued" : "sent"}: ${response.data.fileId} (${response.data.chunkCount} chunks)`,
+			);
 			console.log(JSON.stringify(response.data, null, 2));
 		} catch (error) {
 			logger.error({
-				msg: "Failed to add contact",
+				msg: "Failed to send file",
 				error: error instanceof Error ? error.message : String(error),
 			});
 			process.exit(1);
 		}
 	});
 
-contact
+/* =======================================================
+   OUTBOUND QUEUE
+======================================================= */
+
+const queue = program
+	.command("queue")
+	.description("Inspect and manage messages waiting for delivery");
+
+queue
 	.command("list")
-	.description("List contacts")
+	.description("List queued messages in the order they will be retried")
+	.option("--scheduled", "List messages waiting for their send time instead")
+	.option("--limit <number>", "Limit number of messages (default 200)")
 	.option("--api-url <url>", "Override API base URL")
 	.option("--api-port <number>", "Override API port")
-	.option("--no-wait", "Skip waiting for node to be healthy")
-	.option("--verbose", "Enable verbose output for debugging")
 	.action(async (options) => {
 		const logger = createLogger();
-
-		// Wait for node to be healthy before querying
-		if (!options.noWait) {
-			const health = await waitForNodeHealth(
-				{
-					apiUrl: options.apiUrl,
-					apiPort: options.apiPort,
-					verbose: options.verbose,
-				},
-				10000,
-			);
-			if (!health.healthy) {
-				logger.error(`Node is not ready: ${health.error}`);
-				logger.info("Make sure the node is running: yapyap start");
+		const params = new URLSearchParams();
+		if (options.limit) {
+			const parsed = Number(options.limit);
+			if (!Number.isInteger(parsed) || parsed < 1) {
+				logger.error("Limit must be a positive integer.");
 				process.exit(1);
 			}
+			params.set("limit", parsed.toString());
 		}
 
 		try {
-			const response = await apiRequest<{ contacts: unknown[] }>(
-				{
-					apiUrl: options.apiUrl,
-					apiPort: options.apiPort,
-					verbose: options.verbose,
-				},
-				"/api/database/contacts",
+			const response = await apiRequest<{
+				messages: Array<{
+					messageId: string;
+					targetPeerId: string;
+					status: string;
+					priority: number;
+					attempts: number;
+					nextRetryAt: number;
+					lastError: string | null;
+				}>;
+			}>(
+				{ apiUrl: options.apiUrl, apiPort: options.apiPort },
+				`/api/messages/${options.scheduled ? "scheduled" : "queue"}?${params.toString()}`,
 				"GET",
 			);
 
-			if (!response.success) {
+			if (!response.success || !response.data) {
 				printApiError(response);
 				process.exit(1);
 			}
 
-			console.log(JSON.stringify(response.data, null, 2));
+			for (const entry of response.data.messages) {
+				console.log(
+					`${entry.messageId} -> ${entry.targetPeerId} (${entry.status}, priority ${entry.priority}, ${entry.attempts} attempts)`,
+				);
+				console.log(
+					`  ${options.scheduled ? "sends at" : "next retry"} ${new Date(entry.nextRetryAt).toISOString()}${entry.lastError ? `, last error: ${entry.lastError}` : ""}`,
+				);
+			}
+			if (response.data.messages.length === 0) {
+				console.log(
+					options.scheduled ? "No scheduled messages." : "Queue is empty.",
+				);
+			}
 		} catch (error) {
 			logger.error({
-				msg: "Failed to list contacts",
+				msg: "Failed to list queued messages",
 				error: error instanceof Error ? error.message : String(error),
 			});
 			process.exit(1);
 		}
 	});
 
-contact
-	.command("remove")
-	.description("Remove a contact")
-	.requiredOption("--peer-id <peer-id>", "Target peer ID")
+queue
+	.command("cancel")
+	.description("Stop delivering a queued message")
+	.requiredOption("--message-id <id>", "Message ID")
 	.option("--api-url <url>", "Override API base URL")
 	.option("--api-port <number>", "Override API port")
 	.action(async (options) => {
 		const logger = createLogger();
 		try {
-			const response = await apiRequest<{ message: string; peerId: string }>(
+			const response = await apiRequest<{ cancelled?: boolean }>(
 				{ apiUrl: options.apiUrl, apiPort: options.apiPort },
-				`/api/database/contacts/${options.peerId}`,
+				`/api/messages/${encodeURIComponent(options.messageId)}/queue`,
 				"DELETE",
 			);
 
@@ -879,57 +1152,33 @@ contact
 				process.exit(1);
 			}
 
-			logger.info("Contact removed");
-			console.log(JSON.stringify(response.data, null, 2));
+			logger.info("Message cancelled");
 		} catch (error) {
 			logger.error({
-				msg: "Failed to remove contact",
+				msg: "Failed to cancel message",
 				error: error instanceof Error ? error.message : String(error),
 			});
 			process.exit(1);
 		}
 	});
 
-/* =======================================================
-   RECEIVE / STATUS
-======================================================= */
-
-program
-	.command("receive")
-	.description("Show inbox messages")
+queue
+	.command("retry")
+	.description("Send a queued, failed or cancelled message now")
+	.requiredOption("--message-id <id>", "Message ID")
 	.option("--api-url <url>", "Override API base URL")
 	.option("--api-port <number>", "Override API port")
-	.option("--no-wait", "Skip waiting for node to be healthy")
-	.option("--verbose", "Enable verbose output for debugging")
 	.action(async (options) => {
 		const logger = createLogger();
-
-		// Wait for node to be healthy before querying
-		if (!options.noWait) {
-			const health = await waitForNodeHealth(
-				{
-					apiUrl: options.apiUrl,
-					apiPort: options.apiPort,
-					verbose: options.verbose,
-				},
-				10000,
-			);
-			if (!health.healthy) {
-				logger.error(`Node is not ready: ${health.error}`);
-				logger.info("Make sure the node is running: yapyap start");
-				process.exit(1);
-			}
-		}
-
 		try {
-			const response = await apiRequest<{ inbox: unknown[] }>(
-				{
-					apiUrl: options.apiUrl,
-					apiPort: options.apiPort,
-					verbose: options.verbose,
-				},
-				"/api/messages/inbox",
-				"GET",
+			const response = await apiRequest<{
+				queued: boolean;
+				details?: string;
+			}>(
+				{ apiUrl: options.apiUrl, apiPort: options.apiPort },
+				`/api/messages/${encodeURIComponent(options.messageId)}/retry`,
+				"POST",
+				{},
 			);
 
 			if (!response.success) {
@@ -937,8 +1186,1241 @@ program
 				process.exit(1);
 			}
 
-			console.log(JSON.stringify(response.data, null, 2));
-		} catch (error) {
+			if (response.data.queued) {
+				logger.warn(
+					`Send failed; message stays queued: ${response.data.details ?? ""}`,
+				);
+			} else {
+				logger.info("Message sent");
+			}
+		} catch (error) {
+			logger.error({
+				msg: "Failed to retry message",
+				error: error instanceof Error ? error.message : String(error),
+			});
+			process.exit(1);
+		}
+	});
+
+queue
+	.command("priority")
+	.description("Change a queued message's retry priority")
+	.requiredOption("--message-id <id>", "Message ID")
+	.requiredOption("--priority <number>", "Higher values are retried first")
+	.option("--api-url <url>", "Override API base URL")
+	.option("--api-port <number>", "Override API port")
+	.action(async (options) => {
+		const logger = createLogger();
+		const priority = Number(options.priority);
+		if (!Number.isInteger(priority)) {
+			logger.error("Priority must be an integer.");
+			process.exit(1);
+		}
+
+		try {
+			const response = await apiRequest(
+				{ apiUrl: options.apiUrl, apiPort: options.apiPort },
+				`/api/messages/${encodeURIComponent(options.messageId)}/priority`,
+				"POST",
+				{ priority },
+			);
+
+			if (!response.success) {
+				printApiError(response);
+				process.exit(1);
+			}
+
+			logger.info(`Priority set to ${priority}`);
+		} catch (error) {
+			logger.error({
+				msg: "Failed to set message priority",
+				error: error instanceof Error ? error.message : String(error),
+			});
+			process.exit(1);
+		}
+	});
+
+/* =======================================================
+   CONTACTS
+======================================================= */
+
+const contact = program.command("contact").description("Manage contacts");
+
+contact
+	.command("add")
+	.description("Add or update a contact, by peer ID or from an invite")
+	.option("--peer-id <peer-id>", "Target peer ID")
+	.option("--invite <uri>", "Import a yapyap://invite/ URI")
+	.option("--alias <name>", "Alias for the contact")
+	.option("--public-key <hex>", "Peer public key (hex)")
+	.option("--metadata <json>", "Extra metadata JSON")
+	.option("--multiaddr <addr...>", "Multiaddr list for routing cache")
+	.option("--trusted", "Mark contact as trusted")
+	.option("--api-url <url>", "Override API base URL")
+	.option("--api-port <number>", "Override API port")
+	.action(async (options) => {
+		const logger = createLogger();
+		if (!options.peerId === !options.invite) {
+			logger.error("Provide either --peer-id or --invite");
+			process.exit(1);
+		}
+		try {
+			if (options.invite) {
+				const response = await apiRequest(
+					{ apiUrl: options.apiUrl, apiPort: options.apiPort },
+					"/api/contacts/import-invite",
+					"POST",
+					{ invite: options.invite, alias: options.alias },
+				);
+				if (!response.success) {
+					printApiError(response);
+					process.exit(1);
+				}
+				logger.info("Contact imported from invite");
+				console.log(JSON.stringify(response.data, null, 2));
+				return;
+			}
+
+			const metadata = parseJsonArg(options.metadata);
+			if (options.metadata && !metadata) {
+				console.error("Invalid JSON for --metadata");
+				process.exit(1);
+			}
+
+			const response = await apiRequest<{
+				message: string;
+				contact: unknown;
+			}>(
+				{ apiUrl: options.apiUrl, apiPort: options.apiPort },
+				"/api/database/contacts",
+				"POST",
+				{
+					peerId: options.peerId,
+					alias: options.alias,
+					metadata,
+					isTrusted: options.trusted === true,
+					publicKey: options.publicKey,
+					multiaddrs: options.multiaddr,
+				},
+			);
+
+			if (!response.success) {
+				printApiError(response);
+				process.exit(1);
+			}
+
+			logger.info("Contact saved successfully");
+			console.log(JSON.stringify(response.data, null, 2));
+		} catch (error) {
+			logger.error({
+				msg: "Failed to add contact",
+				error: error instanceof Error ? error.message : String(error),
+			});
+			process.exit(1);
+		}
+	});
+
+contact
+	.command("list")
+	.description("List contacts")
+	.option("--api-url <url>", "Override API base URL")
+	.option("--api-port <number>", "Override API port")
+	.option("--no-wait", "Skip waiting for node to be healthy")
+	.option("--verbose", "Enable verbose output for debugging")
+	.action(async (options) => {
+		const logger = createLogger();
+
+		// Wait for node to be healthy before querying
+		if (!options.noWait) {
+			const health = await waitForNodeHealth(
+				{
+					apiUrl: options.apiUrl,
+					apiPort: options.apiPort,
+					verbose: options.verbose,
+				},
+				10000,
+			);
+			if (!health.healthy) {
+				logger.error(`Node is not ready: ${health.error}`);
+				logger.info("Make sure the node is running: yapyap start");
+				process.exit(1);
+			}
+		}
+
+		try {
+			const response = await apiRequest<{ contacts: unknown[] }>(
+				{
+					apiUrl: options.apiUrl,
+					apiPort: options.apiPort,
+					verbose: options.verbose,
+				},
+				"/api/database/contacts",
+				"GET",
+			);
+
+			if (!response.success) {
+				printApiError(response);
+				process.exit(1);
+			}
+
+			console.log(JSON.stringify(response.data, null, 2));
+		} catch (error) {
+			logger.error({
+				msg: "Failed to list contacts",
+				error: error instanceof Error ? error.message : String(error),
+			});
+			process.exit(1);
+		}
+	});
+
+contact
+	.command("remove")
+	.description("Remove a contact")
+	.requiredOption("--peer-id <peer-id>", "Target peer ID")
+	.option("--api-url <url>", "Override API base URL")
+	.option("--api-port <number>", "Override API port")
+	.action(async (options) => {
+		const logger = createLogger();
+		try {
+			const response = await apiRequest<{ message: string; peerId: string }>(
+				{ apiUrl: options.apiUrl, apiPort: options.apiPort },
+				`/api/database/contacts/${options.peerId}`,
+				"DELETE",
+			);
+
+			if (!response.success) {
+				printApiError(response);
+				process.exit(1);
+			}
+
+			logger.info("Contact removed");
+			console.log(JSON.stringify(response.data, null, 2));
+		} catch (error) {
+			logger.error({
+				msg: "Failed to remove contact",
+				error: error instanceof Error ? error.message : String(error),
+			});
+			process.exit(1);
+		}
+	});
+
+contact
+	.command("verify")
+	.description(
+		"Show the safety number for a peer, and with --confirm mark its key verified",
+	)
+	.requiredOption("--peer-id <peer-id>", "Target peer ID")
+	.option("--confirm", "Mark the peer's current key as verified")
+	.option("--api-url <url>", "Override API base URL")
+	.option("--api-port <number>", "Override API port")
+	.action(async (options) => {
+		const logger = createLogger();
+		const apiOptions = { apiUrl: options.apiUrl, apiPort: options.apiPort };
+		try {
+			const response = await apiRequest<{
+				safetyNumber: string;
+				verified: boolean;
+				verifiedAt: number | null;
+				keyChangedAt: number | null;
+			}>(apiOptions, `/api/contacts/${options.peerId}/fingerprint`, "GET");
+
+			if (!response.success || !response.data) {
+				printApiError(response);
+				process.exit(1);
+			}
+
+			const { safetyNumber, verified, keyChangedAt } = response.data;
+			const groups = safetyNumber.split(" ");
+			console.log(`Safety number with ${options.peerId}:\n`);
+			for (let i = 0; i < groups.length; i += 4) {
+				console.log(`  ${groups.slice(i, i + 4).join(" ")}`);
+			}
+			console.log("");
+			if (keyChangedAt) {
+				console.log(
+					`WARNING: this peer's key changed at ${new Date(keyChangedAt).toISOString()}.`,
+				);
+			}
+
+			if (!options.confirm) {
+				console.log(
+					verified
+						? "Status: verified"
+						: "Status: not verified. Compare the number with your contact, then re-run with --confirm.",
+				);
+				return;
+			}
+
+			const confirmed = await apiRequest<{ verifiedAt: number }>(
+				apiOptions,
+				`/api/contacts/${options.peerId}/verify`,
+				"POST",
+				{ safetyNumber },
+			);
+			if (!confirmed.success) {
+				printApiError(confirmed);
+				process.exit(1);
+			}
+			logger.info("Contact verified");
+		} catch (error) {
+			logger.error({
+				msg: "Failed to verify contact",
+				error: error instanceof Error ? error.message : String(error),
+			});
+			process.exit(1);
+		}
+	});
+
+program
+	.command("invite")
+	.description(
+		"Print a signed invite URI others can import with contact add --invite",
+	)
+	.option("--alias <name>", "Suggested alias for this node")
+	.option("--expires-in <hours>", "Hours until the invite stops working")
+	.option("--api-url <url>", "Override API base URL")
+	.option("--api-port <number>", "Override API port")
+	.action(async (options) => {
+		const logger = createLogger();
+		const hours =
+			options.expiresIn === undefined ? undefined : Number(options.expiresIn);
+		if (hours !== undefined && !(hours > 0)) {
+			logger.error("--expires-in must be a positive number of hours");
+			process.exit(1);
+		}
+		try {
+			const response = await apiRequest<{ invite: string }>(
+				{ apiUrl: options.apiUrl, apiPort: options.apiPort },
+				"/api/contacts/invite",
+				"POST",
+				{
+					alias: options.alias,
+					expiresInMs:
+						hours === undefined ? undefined : Math.round(hours * 3_600_000),
+				},
+			);
+
+			if (!response.success || !response.data) {
+				printApiError(response);
+				process.exit(1);
+			}
+
+			console.log(response.data.invite);
+		} catch (error) {
+			logger.error({
+				msg: "Failed to create invite",
+				error: error instanceof Error ? error.message : String(error),
+			});
+			process.exit(1);
+		}
+	});
+
+/* =======================================================
+   CONVERSATIONS
+======================================================= */
+
+program
+	.command("conversations")
+	.description("List conversations with unread counts and the last message")
+	.option("--archived", "List archived conversations instead")
+	.option("--limit <number>", "Limit number of conversations (default 100)")
+	.option("--api-url <url>", "Override API base URL")
+	.option("--api-port <number>", "Override API port")
+	.action(async (options) => {
+		const logger = createLogger();
+		const params = new URLSearchParams();
+		if (options.archived) {
+			params.set("archived", "true");
+		}
+		if (options.limit) {
+			const parsed = Number(options.limit);
+			if (!Number.isInteger(parsed) || parsed < 1) {
+				logger.error("Limit must be a positive integer.");
+				process.exit(1);
+			}
+			params.set("limit", parsed.toString());
+		}
+
+		try {
+			const response = await apiRequest<{
+				conversations: Array<{
+					conversationId: string;
+					kind: string;
+					lastMessagePreview: string | null;
+					lastMessageAt: number | null;
+					lastDirection: string | null;
+					unreadCount: number;
+					muted: boolean;
+					pinned: boolean;
+					expireAfterMs: number | null;
+				}>;
+			}>(
+				{ apiUrl: options.apiUrl, apiPort: options.apiPort },
+				`/api/conversations?${params.toString()}`,
+				"GET",
+			);
+
+			if (!response.success || !response.data) {
+				printApiError(response);
+				process.exit(1);
+			}
+
+			for (const conversation of response.data.conversations) {
+				const flags = [
+					conversation.kind === "group" ? "group" : null,
+					conversation.unreadCount > 0
+						? `${conversation.unreadCount} unread`
+						: null,
+					conversation.muted ? "muted" : null,
+					conversation.expireAfterMs
+						? `disappearing after ${conversation.expireAfterMs / 1000}s`
+						: null,
+				].filter(Boolean);
+				console.log(
+					`${conversation.pinned ? "*" : " "} ${conversation.conversationId}${flags.length > 0 ? ` (${flags.join(", ")})` : ""}`,
+				);
+				if (conversation.lastMessageAt !== null) {
+					const arrow = conversation.lastDirection === "inbound" ? "<-" : "->";
+					console.log(
+						`  ${new Date(conversation.lastMessageAt).toISOString()} ${arrow} ${conversation.lastMessagePreview ?? "(no preview)"}`,
+					);
+				}
+			}
+			if (response.data.conversations.length === 0) {
+				console.log("No conversations.");
+			}
+		} catch (error) {
+			logger.error({
+				msg: "Failed to list conversations",
+				error: error instanceof Error ? error.message : String(error),
+			});
+			process.exit(1);
+		}
+	});
+
+/* =======================================================
+   CHAT
+======================================================= */
+
+program
+	.command("chat [peer]")
+	.description(
+		"Open an interactive chat with the running node (peer ID, group ID or alias)",
+	)
+	.option("--data-dir <path>", "Custom data directory", DEFAULT_DATA_DIR)
+	.option("--api-url <url>", "Override API base URL")
+	.option("--api-port <number>", "Override API port")
+	.action(async (peer: string | undefined, options) => {
+		const logger = createLogger();
+		if (!process.stdin.isTTY || !process.stdout.isTTY) {
+			logger.error("yapyap chat needs an interactive terminal.");
+			process.exit(1);
+		}
+		const apiOptions = {
+			apiUrl: options.apiUrl,
+			apiPort: options.apiPort,
+			dataDir: options.dataDir,
+		};
+		try {
+			await runChat({
+				request: (path, method, body) =>
+					apiRequest(apiOptions, path, method, body),
+				eventsUrl: `${resolveApiBaseUrl(apiOptions).replace(/^http/, "ws")}/api/events`,
+				apiToken: resolveApiToken(options.dataDir),
+				peer,
+			});
+			process.exit(0);
+		} catch (error) {
+			logger.error({
+				msg: "Chat failed",
+				error: error instanceof Error ? error.message : String(error),
+			});
+			logger.info("Make sure the node is running: yapyap start");
+			process.exit(1);
+		}
+	});
+
+/* =======================================================
+   MESSAGE REQUESTS
+======================================================= */
+
+const requests = program
+	.command("requests")
+	.description("Review messages from senders who are not contacts");
+
+requests
+	.command("list")
+	.description("List pending message requests, or one sender's messages")
+	.option("--peer-id <peer-id>", "Show the pending messages from this sender")
+	.option("--api-url <url>", "Override API base URL")
+	.option("--api-port <number>", "Override API port")
+	.action(async (options) => {
+		const logger = createLogger();
+		try {
+			const response = await apiRequest(
+				{ apiUrl: options.apiUrl, apiPort: options.apiPort },
+				options.peerId ? `/api/requests/${options.peerId}` : "/api/requests",
+				"GET",
+			);
+
+			if (!response.success) {
+				printApiError(response);
+				process.exit(1);
+			}
+
+			console.log(JSON.stringify(response.data, null, 2));
+		} catch (error) {
+			logger.error({
+				msg: "Failed to list message requests",
+				error: error instanceof Error ? error.message : String(error),
+			});
+			process.exit(1);
+		}
+	});
+
+requests
+	.command("accept")
+	.description(
+		"Accept a sender: add it as a contact and move its messages to the inbox",
+	)
+	.requiredOption("--peer-id <peer-id>", "Sender peer ID")
+	.option("--alias <alias>", "Alias for the new contact")
+	.option("--api-url <url>", "Override API base URL")
+	.option("--api-port <number>", "Override API port")
+	.action(async (options) => {
+		const logger = createLogger();
+		try {
+			const response = await apiRequest(
+				{ apiUrl: options.apiUrl, apiPort: options.apiPort },
+				`/api/requests/${options.peerId}/accept`,
+				"POST",
+				{ alias: options.alias },
+			);
+
+			if (!response.success) {
+				printApiError(response);
+				process.exit(1);
+			}
+
+			logger.info("Message request accepted");
+		} catch (error) {
+			logger.error({
+				msg: "Failed to accept message request",
+				error: error instanceof Error ? error.message : String(error),
+			});
+			process.exit(1);
+		}
+	});
+
+requests
+	.command("ignore")
+	.description("Hide a sender's requests, including later ones")
+	.requiredOption("--peer-id <peer-id>", "Sender peer ID")
+	.option("--api-url <url>", "Override API base URL")
+	.option("--api-port <number>", "Override API port")
+	.action(async (options) => {
+		const logger = createLogger();
+		try {
+			const response = await apiRequest(
+				{ apiUrl: options.apiUrl, apiPort: options.apiPort },
+				`/api/requests/${options.peerId}/ignore`,
+				"POST",
+				{},
+			);
+
+			if (!response.success) {
+				printApiError(response);
+				process.exit(1);
+			}
+
+			logger.info("Message request ignored");
+		} catch (error) {
+			logger.error({
+				msg: "Failed to ignore message request",
+				error: error instanceof Error ? error.message : String(error),
+			});
+			process.exit(1);
+		}
+	});
+
+requests
+	.command("block")
+	.description("Ignore a sender's requests and block it")
+	.requiredOption("--peer-id <peer-id>", "Sender peer ID")
+	.option("--reason <text>", "Note recorded with the block")
+	.option("--api-url <url>", "Override API base URL")
+	.option("--api-port <number>", "Override API port")
+	.action(async (options) => {
+		const logger = createLogger();
+		try {
+			const response = await apiRequest(
+				{ apiUrl: options.apiUrl, apiPort: options.apiPort },
+				`/api/requests/${options.peerId}/block`,
+				"POST",
+				{ reason: options.reason },
+			);
+
+			if (!response.success) {
+				printApiError(response);
+				process.exit(1);
+			}
+
+			logger.info("Sender blocked");
+		} catch (error) {
+			logger.error({
+				msg: "Failed to block sender",
+				error: error instanceof Error ? error.message : String(error),
+			});
+			process.exit(1);
+		}
+	});
+
+/* =======================================================
+   BLOCK LIST
+======================================================= */
+
+program
+	.command("block")
+	.description("Block a peer, or list blocked peers with --list")
+	.option("--peer-id <peer-id>", "Peer to block")
+	.option("--reason <text>", "Note recorded with the block")
+	.option("--list", "List blocked peers")
+	.option("--api-url <url>", "Override API base URL")
+	.option("--api-port <number>", "Override API port")
+	.action(async (options) => {
+		const logger = createLogger();
+		const apiOptions = { apiUrl: options.apiUrl, apiPort: options.apiPort };
+		if (!options.list && !options.peerId) {
+			logger.error("Provide --peer-id to block a peer, or --list");
+			process.exit(1);
+		}
+		try {
+			const response = options.list
+				? await apiRequest(apiOptions, "/api/blocks", "GET")
+				: await apiRequest(apiOptions, "/api/blocks", "POST", {
+						peerId: options.peerId,
+						reason: options.reason,
+					});
+
+			if (!response.success) {
+				printApiError(response);
+				process.exit(1);
+			}
+
+			if (!options.list) {
+				logger.info("Peer blocked");
+			}
+			console.log(JSON.stringify(response.data, null, 2));
+		} catch (error) {
+			logger.error({
+				msg: "Failed to block peer",
+				error: error instanceof Error ? error.message : String(error),
+			});
+			process.exit(1);
+		}
+	});
+
+program
+	.command("unblock")
+	.description("Remove a peer from the block list")
+	.requiredOption("--peer-id <peer-id>", "Peer to unblock")
+	.option("--api-url <url>", "Override API base URL")
+	.option("--api-port <number>", "Override API port")
+	.action(async (options) => {
+		const logger = createLogger();
+		try {
+			const response = await apiRequest(
+				{ apiUrl: options.apiUrl, apiPort: options.apiPort },
+				`/api/blocks/${options.peerId}`,
+				"DELETE",
+			);
+
+			if (!response.success) {
+				printApiError(response);
+				process.exit(1);
+			}
+
+			logger.info("Peer unblocked");
+		} catch (error) {
+			logger.error({
+				msg: "Failed to unblock peer",
+				error: error instanceof Error ? error.message : String(error),
+			});
+			process.exit(1);
+		}
+	});
+
+/* =======================================================
+   GROUPS
+======================================================= */
+
+const group = program
+	.command("group")
+	.description("Manage group conversations");
+
+group
+	.command("create")
+	.description("Create a group")
+	.requiredOption("--name <name>", "Group name")
+	.option("--group-id <id>", "Custom group ID (generated if omitted)")
+	.option("--member <peer-id...>", "Initial member peer IDs")
+	.option("--api-url <url>", "Override API base URL")
+	.option("--api-port <number>", "Override API port")
+	.action(async (options) => {
+		const logger = createLogger();
+		try {
+			const response = await apiRequest<{ groupId: string }>(
+				{ apiUrl: options.apiUrl, apiPort: options.apiPort },
+				"/api/groups",
+				"POST",
+				{
+					name: options.name,
+					groupId: options.groupId,
+					members: options.member ?? [],
+				},
+			);
+
+			if (!response.success) {
+				printApiError(response);
+				process.exit(1);
+			}
+
+			logger.info(`Group created: ${response.data.groupId}`);
+			console.log(JSON.stringify(response.data, null, 2));
+		} catch (error) {
+			logger.error({
+				msg: "Failed to create group",
+				error: error instanceof Error ? error.message : String(error),
+			});
+			process.exit(1);
+		}
+	});
+
+group
+	.command("list")
+	.description("List groups")
+	.option("--api-url <url>", "Override API base URL")
+	.option("--api-port <number>", "Override API port")
+	.action(async (options) => {
+		const logger = createLogger();
+		try {
+			const response = await apiRequest<{ groups: unknown[] }>(
+				{ apiUrl: options.apiUrl, apiPort: options.apiPort },
+				"/api/groups",
+				"GET",
+			);
+
+			if (!response.success) {
+				printApiError(response);
+				process.exit(1);
+			}
+
+			console.log(JSON.stringify(response.data, null, 2));
+		} catch (error) {
+			logger.error({
+				msg: "Failed to list groups",
+				error: error instanceof Error ? error.message : String(error),
+			});
+			process.exit(1);
+		}
+	});
+
+group
+	.command("add")
+	.description("Add a member to a group")
+	.requiredOption("--group-id <id>", "Group ID")
+	.requiredOption("--peer-id <peer-id>", "Member peer ID")
+	.option("--api-url <url>", "Override API base URL")
+	.option("--api-port <number>", "Override API port")
+	.action(async (options) => {
+		const logger = createLogger();
+		try {
+			const response = await apiRequest<{ members: string[] }>(
+				{ apiUrl: options.apiUrl, apiPort: options.apiPort },
+				`/api/groups/${encodeURIComponent(options.groupId)}/members`,
+				"POST",
+				{ peerId: options.peerId },
+			);
+
+			if (!response.success) {
+				printApiError(response);
+				process.exit(1);
+			}
+
+			logger.info("Group member added");
+			console.log(JSON.stringify(response.data, null, 2));
+		} catch (error) {
+			logger.error({
+				msg: "Failed to add group member",
+				error: error instanceof Error ? error.message : String(error),
+			});
+			process.exit(1);
+		}
+	});
+
+group
+	.command("remove")
+	.description("Remove a member from a group")
+	.requiredOption("--group-id <id>", "Group ID")
+	.requiredOption("--peer-id <peer-id>", "Member peer ID")
+	.option("--api-url <url>", "Override API base URL")
+	.option("--api-port <number>", "Override API port")
+	.action(async (options) => {
+		const logger = createLogger();
+		try {
+			const response = await apiRequest<{ members: string[] }>(
+				{ apiUrl: options.apiUrl, apiPort: options.apiPort },
+				`/api/groups/${encodeURIComponent(options.groupId)}/members/${options.peerId}`,
+				"DELETE",
+			);
+
+			if (!response.success) {
+				printApiError(response);
+				process.exit(1);
+			}
+
+			logger.info("Group member removed");
+			console.log(JSON.stringify(response.data, null, 2));
+		} catch (error) {
+			logger.error({
+				msg: "Failed to remove group member",
+				error: error instanceof Error ? error.message : String(error),
+			});
+			process.exit(1);
+		}
+	});
+
+group
+	.command("send")
+	.description("Send a message to every member of a group")
+	.requiredOption("--group-id <id>", "Group ID")
+	.requiredOption("--payload <string>", "Message content")
+	.option("--api-url <url>", "Override API base URL")
+	.option("--api-port <number>", "Override API port")
+	.action(async (options) => {
+		const logger = createLogger();
+		try {
+			const response = await apiRequest<{
+				message: string;
+				messageId: string;
+				queued: boolean;
+				deliveries: Array<{ peerId: string; queued: boolean }>;
+			}>(
+				{ apiUrl: options.apiUrl, apiPort: options.apiPort },
+				`/api/groups/${encodeURIComponent(options.groupId)}/send`,
+				"POST",
+				{ payload: { content: options.payload } },
+			);
+
+			if (!response.success) {
+				printApiError(response);
+				process.exit(1);
+			}
+
+			logger.info(response.data.message);
+			console.log(JSON.stringify(response.data, null, 2));
+			if (response.data.queued) {
+				logger.info("");
+				logger.info("Queued copies will be retried automatically.");
+				logger.info(
+					`Check per-member status with: yapyap history --group-id ${options.groupId}`,
+				);
+			}
+		} catch (error) {
+			logger.error({
+				msg: "Failed to send group message",
+				error: error instanceof Error ? error.message : String(error),
+			});
+			process.exit(1);
+		}
+	});
+
+/* =======================================================
+   API TOKENS
+======================================================= */
+
+const token = program
+	.command("token")
+	.description("Manage API tokens (works on the data dir directly)");
+
+token
+	.command("create")
+	.description(
+		"Create an API token; it is printed once and cannot be shown again",
+	)
+	.requiredOption("--name <name>", "Token name")
+	.option(
+		"--scope <scope...>",
+		`Token scopes (${API_TOKEN_SCOPES.join(", ")})`,
+		["read"],
+	)
+	.option("--data-dir <path>", "Custom data directory", DEFAULT_DATA_DIR)
+	.action((options) => {
+		const logger = createLogger();
+		const scopes: string[] = options.scope;
+		const invalid = scopes.filter((scope) => !isApiTokenScope(scope));
+		if (invalid.length > 0) {
+			logger.error(`Invalid scope: ${invalid.join(", ")}`);
+			process.exit(1);
+		}
+
+		const db = new DatabaseManager({
+			dataDir: resolveDataDir(options.dataDir),
+		});
+		try {
+			const { token: apiToken, entry } = issueApiToken(
+				db,
+				options.name,
+				scopes as ApiTokenScope[],
+			);
+			console.log(
+				JSON.stringify(
+					{
+						tokenId: entry.token_id,
+						name: entry.name,
+						scopes: entry.scopes,
+						token: apiToken,
+					},
+					null,
+					2,
+				),
+			);
+		} catch (error) {
+			logger.error({
+				msg: "Failed to create API token",
+				error: error instanceof Error ? error.message : String(error),
+			});
+			process.exit(1);
+		} finally {
+			db.close();
+		}
+	});
+
+token
+	.command("list")
+	.description("List API tokens")
+	.option("--data-dir <path>", "Custom data directory", DEFAULT_DATA_DIR)
+	.action((options) => {
+		const db = new DatabaseManager({
+			dataDir: resolveDataDir(options.dataDir),
+		});
+		try {
+			const tokens = db.getApiTokens().map((entry) => ({
+				tokenId: entry.token_id,
+				name: entry.name,
+				scopes: entry.scopes,
+				createdAt: entry.created_at,
+				lastUsedAt: entry.last_used_at,
+				revokedAt: entry.revoked_at,
+			}));
+			console.log(JSON.stringify({ tokens }, null, 2));
+		} finally {
+			db.close();
+		}
+	});
+
+token
+	.command("revoke")
+	.description("Revoke an API token")
+	.requiredOption("--token-id <id>", "Token ID")
+	.option("--data-dir <path>", "Custom data directory", DEFAULT_DATA_DIR)
+	.action((options) => {
+		const logger = createLogger();
+		const db = new DatabaseManager({
+			dataDir: resolveDataDir(options.dataDir),
+		});
+		const revoked = db.revokeApiToken(options.tokenId);
+		const remaining = db
+			.getApiTokens()
+			.filter((entry) => entry.revoked_at === null).length;
+		db.close();
+
+		if (revoked === 0) {
+			logger.error(`No active API token with ID ${options.tokenId}`);
+			process.exit(1);
+		}
+		logger.info(`API token revoked: ${options.tokenId}`);
+		if (remaining === 0) {
+			logger.warn(
+				"No active API tokens remain, the API rejects every request until `yapyap token create` issues a new one.",
+			);
+		}
+	});
+
+/* =======================================================
+   DATABASE SCHEMA
+======================================================= */
+
+const dbCommand = program
+	.command("db")
+	.description("Inspect and migrate the database schema");
+
+dbCommand
+	.command("version")
+	.description("Show the applied and latest schema versions")
+	.option("--data-dir <path>", "Custom data directory", DEFAULT_DATA_DIR)
+	.action((options) => {
+		const db = new DatabaseManager({
+			dataDir: resolveDataDir(options.dataDir),
+			migrate: false,
+		});
+		try {
+			const version = db.getSchemaVersion();
+			console.log(
+				JSON.stringify(
+					{
+						version,
+						latest: LATEST_SCHEMA_VERSION,
+						upToDate: version === LATEST_SCHEMA_VERSION,
+					},
+					null,
+					2,
+				),
+			);
+		} finally {
+			db.close();
+		}
+	});
+
+dbCommand
+	.command("migrate")
+	.description("Apply pending schema migrations")
+	.option("--dry-run", "List pending migrations without applying them")
+	.option("--data-dir <path>", "Custom data directory", DEFAULT_DATA_DIR)
+	.action((options) => {
+		const logger = createLogger();
+		try {
+			const db = new DatabaseManager({
+				dataDir: resolveDataDir(options.dataDir),
+				migrate: false,
+			});
+			try {
+				const migrations = options.dryRun
+					? db.getPendingMigrations()
+					: db.migrate();
+				console.log(
+					JSON.stringify(
+						{
+							dryRun: Boolean(options.dryRun),
+							migrations: migrations.map(({ version, name }) => ({
+								version,
+								name,
+							})),
+							version: db.getSchemaVersion(),
+						},
+						null,
+						2,
+					),
+				);
+			} finally {
+				db.close();
+			}
+		} catch (error) {
+			logger.error({
+				msg: "Failed to migrate database",
+				error: error instanceof Error ? error.message : String(error),
+			});
+			process.exit(1);
+		}
+	});
+
+dbCommand
+	.command("clear-search-index")
+	.description(
+		"Delete the message search index (run after disabling search.indexMessages)",
+	)
+	.option("--data-dir <path>", "Custom data directory", DEFAULT_DATA_DIR)
+	.action((options) => {
+		const logger = createLogger();
+		try {
+			const db = new DatabaseManager({
+				dataDir: resolveDataDir(options.dataDir),
+			});
+			try {
+				const removed = db.clearMessageSearchIndex();
+				console.log(JSON.stringify({ removed }, null, 2));
+			} finally {
+				db.close();
+			}
+		} catch (error) {
+			logger.error({
+				msg: "Failed to clear the search index",
+				error: error instanceof Error ? error.message : String(error),
+			});
+			process.exit(1);
+		}
+	});
+
+/* =======================================================
+   KEYSTORE
+======================================================= */
+
+const keys = program
+	.command("keys")
+	.description("Manage the keystore sealing private keys at rest");
+
+keys
+	.command("change-passphrase")
+	.description(
+		"Set a new keystore passphrase (YAPYAP_NEW_PASSPHRASE or prompt); enables the keystore if it is off",
+	)
+	.option("--data-dir <path>", "Custom data directory", DEFAULT_DATA_DIR)
+	.action(async (options) => {
+		const logger = createLogger();
+		try {
+			const db = await openDatabase(resolveDataDir(options.dataDir));
+			try {
+				let newPassphrase = process.env.YAPYAP_NEW_PASSPHRASE;
+				if (!newPassphrase) {
+					if (!process.stdin.isTTY) {
+						throw new Error("Set YAPYAP_NEW_PASSPHRASE or run in a terminal");
+					}
+					newPassphrase = await promptHidden("New passphrase: ");
+					const confirmation = await promptHidden("Repeat new passphrase: ");
+					if (newPassphrase !== confirmation) {
+						throw new Error("Passphrases do not match");
+					}
+				}
+				db.changePassphrase(newPassphrase);
+				logger.info("Keystore passphrase changed");
+			} finally {
+				db.close();
+			}
+		} catch (error) {
+			logger.error({
+				msg: "Failed to change keystore passphrase",
+				error: error instanceof Error ? error.message : String(error),
+			});
+			process.exit(1);
+		}
+	});
+
+/* =======================================================
+   CONFIG
+======================================================= */
+
+const configCommand = program
+	.command("config")
+	.description("Inspect and edit yapyap.config.json in the data directory");
+
+configCommand
+	.command("get")
+	.description("Print the effective config (defaults < file < env)")
+	.option("--key <key>", "Dotted config key, e.g. router.maxRetryAttempts")
+	.option("--data-dir <path>", "Custom data directory", DEFAULT_DATA_DIR)
+	.action((options) => {
+		const logger = createLogger();
+		try {
+			const config = loadConfig(resolveDataDir(options.dataDir));
+			const value = options.key ? getConfigValue(config, options.key) : config;
+			console.log(JSON.stringify(value, null, 2));
+		} catch (error) {
+			logger.error({
+				msg: "Failed to read config",
+				error: error instanceof Error ? error.message : String(error),
+			});
+			process.exit(1);
+		}
+	});
+
+configCommand
+	.command("set")
+	.description("Set a key in the config file; lists are comma separated")
+	.requiredOption("--key <key>", "Dotted config key, e.g. api.port")
+	.requiredOption("--value <value>", "New value")
+	.option("--data-dir <path>", "Custom data directory", DEFAULT_DATA_DIR)
+	.action((options) => {
+		const logger = createLogger();
+		try {
+			const dataDir = resolveDataDir(options.dataDir);
+			if (!existsSync(dataDir)) {
+				mkdirSync(dataDir, { recursive: true });
+			}
+			const value = setConfigFileValue(dataDir, options.key, options.value);
+			console.log(JSON.stringify({ key: options.key, value }, null, 2));
+		} catch (error) {
+			logger.error({
+				msg: "Failed to update config",
+				error: error instanceof Error ? error.message : String(error),
+			});
+			process.exit(1);
+		}
+	});
+
+configCommand
+	.command("validate")
+	.description("Validate the config file against the schema")
+	.option("--data-dir <path>", "Custom data directory", DEFAULT_DATA_DIR)
+	.action((options) => {
+		const dataDir = resolveDataDir(options.dataDir);
+		const file = getConfigFilePath(dataDir);
+		let errors: string[];
+		try {
+			errors = validateConfig(readConfigFile(dataDir));
+		} catch (error) {
+			errors = [error instanceof Error ? error.message : String(error)];
+		}
+		console.log(
+			JSON.stringify(
+				{ file, exists: existsSync(file), valid: errors.length === 0, errors },
+				null,
+				2,
+			),
+		);
+		if (errors.length > 0) {
+			process.exit(1);
+		}
+	});
+
+/* =======================================================
+   RECEIVE / STATUS
+======================================================= */
+
+program
+	.command("receive")
+	.description("Show inbox messages")
+	.option("--api-url <url>", "Override API base URL")
+	.option("--api-port <number>", "Override API port")
+	.option("--no-wait", "Skip waiting for node to be healthy")
+	.option("--verbose", "Enable verbose output for debugging")
+	.action(async (options) => {
+		const logger = createLogger();
+
+		// Wait for node to be healthy before querying
+		if (!options.noWait) {
+			const health = await waitForNodeHealth(
+				{
+					apiUrl: options.apiUrl,
+					apiPort: options.apiPort,
+					verbose: options.verbose,
+				},
+				10000,
+			);
+			if (!health.healthy) {
+				logger.error(`Node is not ready: ${health.error}`);
+				logger.info("Make sure the node is running: yapyap start");
+				process.exit(1);
+			}
+		}
+
+		try {
+			const response = await apiRequest<{ inbox: unknown[] }>(
+				{
+					apiUrl: options.apiUrl,
+					apiPort: options.apiPort,
+					verbose: options.verbose,
+				},
+				"/api/messages/inbox",
+				"GET",
+			);
+
+			if (!response.success) {
+				printApiError(response);
+				process.exit(1);
+			}
+
+			console.log(JSON.stringify(response.data, null, 2));
+		} catch (error) {
 			logger.error({
 				msg: "Failed to fetch inbox",
 				error: error instanceof Error ? error.message : String(error),
@@ -955,6 +2437,7 @@ program
 		"Filter history by direction (inbound|outbound|all)",
 	)
 	.option("--peer-id <peerId>", "Filter history by peer ID")
+	.option("--group-id <groupId>", "Filter history by group ID")
 	.option("--limit <number>", "Limit number of entries (default 100)")
 	.option("--offset <number>", "Pagination offset (default 0)")
 	.option("--api-url <url>", "Override API base URL")
@@ -996,6 +2479,10 @@ program
 			params.set("peerId", options.peerId);
 		}
 
+		if (options.groupId) {
+			params.set("groupId", options.groupId);
+		}
+
 		if (options.limit) {
 			const parsed = Number(options.limit);
 			if (!Number.isFinite(parsed) || parsed < 1) {
@@ -1045,6 +2532,93 @@ program
 		}
 	});
 
+program
+	.command("search")
+	.description("Search message history (requires search.indexMessages)")
+	.requiredOption("--query <text>", "Words to search for")
+	.option("--peer-id <peerId>", "Only messages exchanged with this peer")
+	.option("--since <date>", "Only messages since this date or epoch ms")
+	.option("--limit <number>", "Limit number of results (default 50)")
+	.option("--api-url <url>", "Override API base URL")
+	.option("--api-port <number>", "Override API port")
+	.option("--verbose", "Enable verbose output for debugging")
+	.action(async (options) => {
+		const logger = createLogger();
+		const params = new URLSearchParams({ q: options.query });
+
+		if (options.peerId) {
+			params.set("peerId", options.peerId);
+		}
+
+		if (options.since) {
+			const since = /^\d+$/.test(options.since)
+				? Number(options.since)
+				: Date.parse(options.since);
+			if (!Number.isFinite(since)) {
+				logger.error("Since must be a date or epoch milliseconds.");
+				process.exit(1);
+			}
+			params.set("since", since.toString());
+		}
+
+		if (options.limit) {
+			const parsed = Number(options.limit);
+			if (!Number.isInteger(parsed) || parsed < 1) {
+				logger.error("Limit must be a positive integer.");
+				process.exit(1);
+			}
+			params.set("limit", parsed.toString());
+		}
+
+		try {
+			const response = await apiRequest<{
+				results: Array<{
+					messageId: string;
+					direction: string;
+					peerId: string;
+					createdAt: number;
+					snippet: string;
+				}>;
+			}>(
+				{
+					apiUrl: options.apiUrl,
+					apiPort: options.apiPort,
+					verbose: options.verbose,
+				},
+				`/api/messages/search?${params.toString()}`,
+				"GET",
+			);
+
+			if (!response.success || !response.data) {
+				printApiError(response);
+				process.exit(1);
+			}
+
+			const [open, close] = process.stdout.isTTY
+				? ["\x1b[1m", "\x1b[0m"]
+				: ["[", "]"];
+			for (const result of response.data.results) {
+				const arrow = result.direction === "inbound" ? "<-" : "->";
+				const snippet = result.snippet
+					.replaceAll("<mark>", open)
+					.replaceAll("</mark>", close);
+				console.log(
+					`${new Date(result.createdAt).toISOString()} ${arrow} ${result.peerId} ${result.messageId}`,
+				);
+				console.log(`  ${snippet}`);
+			}
+			if (response.data.results.length === 0) {
+				console.log("No matching messages.");
+			}
+		} catch (error) {
+			logger.error({
+				msg: "Failed to search messages",
+				error: error instanceof Error ? error.message : String(error),
+			});
+			process.exit(1);
+		}
+	});
+
 program
 	.command("status")
 	.description("Show node health and peer connections")
@@ -1102,6 +2676,106 @@ program
 		);
 	});
 
+/* =======================================================
+   DOCTOR
+======================================================= */
+
+/**
+ * The checks that still make sense without a running node: the database
+ * can be inspected directly, everything network-related cannot.
+ */
+function runOfflineDiagnostics(dataDir: string): DiagnosticReport {
+	const checks: DiagnosticCheck[] = [
+		{
+			id: "node",
+			name: "Node",
+			status: "fail",
+			message: "The node is not running, so network checks were skipped",
+			fix: "Start it with `yapyap start`, then run `yapyap doctor` again",
+		},
+	];
+	if (!existsSync(join(dataDir, "yapyap.db"))) {
+		checks.push({
+			id: "database",
+			name: "SQLite integrity",
+			status: "fail",
+			message: `No database in ${dataDir}`,
+			fix: "Run `yapyap init`, or pass the right --data-dir",
+		});
+		return summarizeDiagnostics(checks);
+	}
+	const db = new DatabaseManager({ dataDir, migrate: false });
+	try {
+		checks.push(
+			checkDatabaseIntegrity(db.checkIntegrity()),
+			checkPendingBacklog(db.getPendingBacklog()),
+		);
+	} finally {
+		db.close();
+	}
+	return summarizeDiagnostics(checks);
+}
+
+const DIAGNOSTIC_LABELS: Record<DiagnosticCheck["status"], string> = {
+	pass: "PASS",
+	warn: "WARN",
+	fail: "FAIL",
+};
+
+program
+	.command("doctor")
+	.description("Check connectivity and node health and suggest fixes")
+	.option("--data-dir <path>", "Custom data directory", DEFAULT_DATA_DIR)
+	.option("--api-url <url>", "Override API base URL")
+	.option("--api-port <number>", "Override API port")
+	.option("--json", "Print the report as JSON")
+	.action(async (options) => {
+		const dataDir = resolveDataDir(options.dataDir);
+		let report: DiagnosticReport;
+		try {
+			const response = await apiRequest<DiagnosticReport>(
+				{ apiUrl: options.apiUrl, apiPort: options.apiPort, dataDir },
+				"/api/diagnostics",
+				"GET",
+				undefined,
+				{ maxRetries: 0 },
+			);
+			if (response.success) {
+				report = response.data;
+			} else if (response.error.message.startsWith("Cannot connect")) {
+				report = runOfflineDiagnostics(dataDir);
+			} else {
+				printApiError(response);
+				process.exit(1);
+			}
+		} catch (error) {
+			createLogger().error({
+				msg: "Failed to run diagnostics",
+				error: error instanceof Error ? error.message : String(error),
+			});
+			process.exit(1);
+		}
+
+		if (options.json) {
+			console.log(JSON.stringify(report, null, 2));
+		} else {
+			for (const check of report.checks) {
+				console.log(
+					`[${DIAGNOSTIC_LABELS[check.status]}] ${check.name}: ${check.message}`,
+				);
+				if (check.fix && check.status !== "pass") {
+					console.log(`       fix: ${check.fix}`);
+				}
+			}
+			const count = (status: DiagnosticCheck["status"]) =>
+				report.checks.filter((check) => check.status === status).length;
+			console.log(
+				`\n${count("pass")} passed, ${count("warn")} warnings, ${count("fail")} failed`,
+			);
+		}
+		process.exit(report.status === "fail" ? 1 : 0);
+	});
+
 /* =======================================================
    DISCOVERED PEERS
 ======================================================= */
@@ -1216,7 +2890,7 @@ program
 	.action(async (options) => {
 		try {
 			const dataDir: string = resolveDataDir(options.dataDir);
-			const db = new DatabaseManager({ dataDir });
+			const db = await openDatabase(dataDir);
 
 			const nodeKey = db.getCurrentNodeKey();
 
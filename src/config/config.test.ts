@@ -0,0 +1,108 @@
+import assert from "node:assert";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, test } from "node:test";
+import {
+	CONFIG_FILE_NAME,
+	DEFAULT_CONFIG,
+	getConfigValue,
+	resolveConfig,
+	setConfigFileValue,
+	validateConfig,
+} from "./index.js";
+
+describe("Config", () => {
+	let tempDir: string;
+
+	const writeConfig = (config: unknown) =>
+		writeFileSync(join(tempDir, CONFIG_FILE_NAME), JSON.stringify(config));
+
+	beforeEach(() => {
+		tempDir = mkdtempSync(join(tmpdir(), "yapyap-config-"));
+	});
+
+	afterEach(() => {
+		rmSync(tempDir, { recursive: true, force: true });
+	});
+
+	test("layers defaults < file < env < overrides", () => {
+		writeConfig({
+			api: { port: 4000 },
+			router: { maxRetryAttempts: 3, rateLimit: { burst: 10 } },
+			network: { listen: ["/ip4/127.0.0.1/tcp/4001"] },
+		});
+
+		const config = resolveConfig({
+			dataDir: tempDir,
+			env: { YAPYAP_API_PORT: "5000", YAPYAP_BOOTSTRAP_ADDRS: "/a, /b" },
+			overrides: { network: { listen: ["/ip4/0.0.0.0/tcp/9000"] } },
+		});
+
+		assert.strictEqual(config.api.port, 5000);
+		assert.deepStrictEqual(config.network.bootstrap, ["/a", "/b"]);
+		assert.deepStrictEqual(config.network.listen, ["/ip4/0.0.0.0/tcp/9000"]);
+		assert.strictEqual(config.router.maxRetryAttempts, 3);
+		assert.deepStrictEqual(config.router.rateLimit, {
+			...DEFAULT_CONFIG.router.rateLimit,
+			burst: 10,
+		});
+		assert.deepStrictEqual(config.transport, DEFAULT_CONFIG.transport);
+		assert.strictEqual(getConfigValue(config, "router.rateLimit.burst"), 10);
+		assert.throws(() => getConfigValue(config, "router.nope"), /Unknown/);
+	});
+
+	test("rejects unknown keys and out-of-range values", () => {
+		assert.deepStrictEqual(
+			validateConfig({
+				api: { port: 70_000 },
+				router: { maxRetryAttempts: 1.5 },
+				discovery: { enabled: "yes" },
+				extra: true,
+			}),
+			[
+				"api.port must be an integer between 0 and 65535",
+				"router.maxRetryAttempts must be an integer >= 0",
+				"discovery.enabled must be a boolean",
+				"Unknown config key: extra",
+			],
+		);
+
+		writeConfig({ transport: { dialTimeoutMs: 0 } });
+		assert.throws(
+			() => resolveConfig({ dataDir: tempDir, env: {} }),
+			/Invalid config in yapyap\.config\.json: transport\.dialTimeoutMs/,
+		);
+		assert.throws(
+			() => resolveConfig({ env: { YAPYAP_API_PORT: "http" } }),
+			/Invalid config in environment: api\.port/,
+		);
+	});
+
+	test("set writes typed values and refuses invalid ones", () => {
+		assert.strictEqual(
+			setConfigFileValue(tempDir, "router.maxRetryAttempts", "4"),
+			4,
+		);
+		assert.deepStrictEqual(
+			setConfigFileValue(tempDir, "network.bootstrap", "/x,/y"),
+			["/x", "/y"],
+		);
+		assert.throws(
+			() => setConfigFileValue(tempDir, "discovery.enabled", "maybe"),
+			/discovery\.enabled must be a boolean/,
+		);
+		assert.throws(
+			() => setConfigFileValue(tempDir, "router.unknown", "1"),
+			/Unknown config key/,
+		);
+
+		assert.deepStrictEqual(
+			JSON.parse(readFileSync(join(tempDir, CONFIG_FILE_NAME), "utf-8")),
+			{
+				router: { maxRetryAttempts: 4 },
+				network: { bootstrap: ["/x", "/y"] },
+			},
+		);
+	});
+});
@@ -1,8 +1,77 @@
-export type YapYapConfig = {
-	dataDir?: string;
-	network?: string;
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+
+export interface RateLimitConfig {
+	tokensPerInterval: number;
+	intervalMs: number;
+	burst: number;
+}
+
+/**
+ * Effective node configuration. Values layer as defaults < yapyap.config.json
+ * in the data dir < environment variables < CLI flags.
+ */
+export interface YapYapConfig {
+	network: {
+		bootstrap: string[];
+		listen: string[];
+	};
+	router: {
+		maxRetryAttempts: number;
+		retryBaseDelayMs: number;
+		retryMaxDelayMs: number;
+		rateLimit: RateLimitConfig;
+		originRateLimit: RateLimitConfig;
+		/** Time for a peer's reputation score to decay halfway back to zero */
+		reputationHalfLifeMs: number;
+	};
+	transport: {
+		dialTimeoutMs: number;
+		sendTimeoutMs: number;
+		closeTimeoutMs: number;
+		reconnectAttempts: number;
+	};
+	discovery: {
+		enabled: boolean;
+		intervalMs: number;
+		queryCount: number;
+	};
+	api: {
+		port: number;
+	};
+	retention: {
+		pendingMessageTtlMs: number;
+		processedMessageMaxAgeMs: number;
+	};
+	search: {
+		/** Keep a local full-text index of decrypted message bodies */
+		indexMessages: boolean;
+	};
+	conversations: {
+		/** Keep the start of the last message's text on each conversation */
+		previews: boolean;
+	};
+	security: {
+		/** Refuse to send to a verified contact whose key changed until re-verified */
+		blockSendOnKeyChange: boolean;
+		/** Drop data messages from peers that are not contacts */
+		contactsOnly: boolean;
+	};
+}
+
+type DeepPartial<T> = {
+	[K in keyof T]?: T[K] extends unknown[]
+		? T[K]
+		: T[K] extends object
+			? DeepPartial<T[K]>
+			: T[K];
 };
 
+/** A sparse config layer, as read from the file, env or CLI flags */
+export type YapYapConfigOverrides = DeepPartial<YapYapConfig>;
+
+export const CONFIG_FILE_NAME = "yapyap.config.json";
+
 /**
  * Default bootstrap peers for P2P discovery.
  * These are well-known peers that help new nodes join the network.
@@ -13,6 +82,370 @@ export const DEFAULT_BOOTSTRAP_ADDRS: string[] = [
 	"/ip4/217.177.72.152/tcp/4001/p2p/12D3KooWF9981QXoXUXxpsEQ13NXt6eBvAGVfSfwVTCGz3FhLh6X",
 ];
 
+export const DEFAULT_CONFIG: YapYapConfig = {
+	network: {
+		bootstrap: DEFAULT_BOOTSTRAP_ADDRS,
+		listen: ["/ip4/0.0.0.0/tcp/0"],
+	},
+	router: {
+		maxRetryAttempts: 8,
+		retryBaseDelayMs: 1_000,
+		retryMaxDelayMs: 60_000,
+		rateLimit: { tokensPerInterval: 30, intervalMs: 1_000, burst: 60 },
+		originRateLimit: { tokensPerInterval: 60, intervalMs: 1_000, burst: 120 },
+		reputationHalfLifeMs: 86_400_000,
+	},
+	transport: {
+		dialTimeoutMs: 5_000,
+		sendTimeoutMs: 5_000,
+		closeTimeoutMs: 2_000,
+		reconnectAttempts: 3,
+	},
+	discovery: {
+		enabled: true,
+		intervalMs: 30_000,
+		queryCount: 3,
+	},
+	api: {
+		port: 3000,
+	},
+	retention: {
+		pendingMessageTtlMs: 24 * 60 * 60 * 1000,
+		processedMessageMaxAgeMs: 7 * 24 * 60 * 60 * 1000,
+	},
+	search: {
+		indexMessages: false,
+	},
+	conversations: {
+		previews: true,
+	},
+	security: {
+		blockSendOnKeyChange: false,
+		contactsOnly: false,
+	},
+};
+
+type FieldSpec =
+	| { type: "integer"; min: number; max?: number }
+	| { type: "boolean" }
+	| { type: "string[]" };
+
+interface SchemaGroup {
+	[key: string]: FieldSpec | SchemaGroup;
+}
+
+const integer = (min: number, max?: number): FieldSpec => ({
+	type: "integer",
+	min,
+	max,
+});
+
+const rateLimitSchema: SchemaGroup = {
+	tokensPerInterval: integer(1),
+	intervalMs: integer(1),
+	burst: integer(1),
+};
+
+/**
+ * Shape and bounds of every config key; keys not listed here are rejected
+ */
+export const CONFIG_SCHEMA: SchemaGroup = {
+	network: {
+		bootstrap: { type: "string[]" },
+		listen: { type: "string[]" },
+	},
+	router: {
+		maxRetryAttempts: integer(0),
+		retryBaseDelayMs: integer(1),
+		retryMaxDelayMs: integer(1),
+		rateLimit: rateLimitSchema,
+		originRateLimit: rateLimitSchema,
+		reputationHalfLifeMs: integer(1),
+	},
+	transport: {
+		dialTimeoutMs: integer(1),
+		sendTimeoutMs: integer(1),
+		closeTimeoutMs: integer(1),
+		reconnectAttempts: integer(0),
+	},
+	discovery: {
+		enabled: { type: "boolean" },
+		intervalMs: integer(1_000),
+		queryCount: integer(1),
+	},
+	api: {
+		port: integer(0, 65_535),
+	},
+	retention: {
+		pendingMessageTtlMs: integer(1),
+		processedMessageMaxAgeMs: integer(1),
+	},
+	search: {
+		indexMessages: { type: "boolean" },
+	},
+	conversations: {
+		previews: { type: "boolean" },
+	},
+	security: {
+		blockSendOnKeyChange: { type: "boolean" },
+		contactsOnly: { type: "boolean" },
+	},
+};
+
+/**
+ * Environment variables mapped onto config keys
+ */
+const ENV_KEYS: Record<string, string> = {
+	YAPYAP_BOOTSTRAP_ADDRS: "network.bootstrap",
+	YAPYAP_LISTEN_ADDR: "network.listen",
+	YAPYAP_API_PORT: "api.port",
+};
+
+function isFieldSpec(spec: FieldSpec | SchemaGroup): spec is FieldSpec {
+	return typeof spec.type === "string";
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function validateField(
+	value: unknown,
+	spec: FieldSpec,
+	path: string,
+): string | null {
+	switch (spec.type) {
+		case "integer": {
+			const inRange =
+				Number.isInteger(value) &&
+				(value as number) >= spec.min &&
+				(spec.max === undefined || (value as number) <= spec.max);
+			if (inRange) return null;
+			return spec.max === undefined
+				? `${path} must be an integer >= ${spec.min}`
+				: `${path} must be an integer between ${spec.min} and ${spec.max}`;
+		}
+		case "boolean":
+			return typeof value === "boolean" ? null : `${path} must be a boolean`;
+		case "string[]":
+			return Array.isArray(value) &&
+				value.every((item) => typeof item === "string")
+				? null
+				: `${path} must be an array of strings`;
+	}
+}
+
+/**
+ * Validate a (possibly partial) config object against CONFIG_SCHEMA.
+ * Returns one message per problem; an empty array means valid.
+ */
+export function validateConfig(
+	value: unknown,
+	schema: SchemaGroup = CONFIG_SCHEMA,
+	prefix = "",
+): string[] {
+	if (!isPlainObject(value)) {
+		return [`${prefix || "config"} must be an object`];
+	}
+	const errors: string[] = [];
+	for (const [key, child] of Object.entries(value)) {
+		const path = prefix ? `${prefix}.${key}` : key;
+		const spec = schema[key];
+		if (!spec) {
+			errors.push(`Unknown config key: ${path}`);
+		} else if (isFieldSpec(spec)) {
+			const error = validateField(child, spec, path);
+			if (error) errors.push(error);
+		} else {
+			errors.push(...validateConfig(child, spec, path));
+		}
+	}
+	return errors;
+}
+
+/**
+ * CONFIG_SCHEMA as a JSON Schema object, for the OpenAPI document
+ */
+export function configJsonSchema(
+	schema: SchemaGroup = CONFIG_SCHEMA,
+): Record<string, unknown> {
+	const properties: Record<string, unknown> = {};
+	for (const [key, spec] of Object.entries(schema)) {
+		if (!isFieldSpec(spec)) {
+			properties[key] = configJsonSchema(spec);
+		} else if (spec.type === "integer") {
+			properties[key] = {
+				type: "integer",
+				minimum: spec.min,
+				...(spec.max !== undefined ? { maximum: spec.max } : {}),
+			};
+		} else if (spec.type === "boolean") {
+			properties[key] = { type: "boolean" };
+		} else {
+			properties[key] = { type: "array", items: { type: "string" } };
+		}
+	}
+	return { type: "object", additionalProperties: false, properties };
+}
+
+function getFieldSpec(key: string): FieldSpec | null {
+	let spec: FieldSpec | SchemaGroup | undefined = CONFIG_SCHEMA;
+	for (const part of key.split(".")) {
+		if (!spec || isFieldSpec(spec)) return null;
+		spec = spec[part];
+	}
+	return spec && isFieldSpec(spec) ? spec : null;
+}
+
+/**
+ * Convert a string from the environment or command line to the type the
+ * key expects; string lists are comma separated.
+ */
+export function parseConfigValue(key: string, raw: string): unknown {
+	const spec = getFieldSpec(key);
+	if (!spec) {
+		throw new Error(`Unknown config key: ${key}`);
+	}
+	switch (spec.type) {
+		case "integer":
+			return /^-?\d+$/.test(raw.trim()) ? Number(raw) : raw;
+		case "boolean":
+			return raw === "true" ? true : raw === "false" ? false : raw;
+		case "string[]":
+			return raw
+				.split(",")
+				.map((item) => item.trim())
+				.filter(Boolean);
+	}
+}
+
+function setPath(
+	target: Record<string, unknown>,
+	key: string,
+	value: unknown,
+): void {
+	const parts = key.split(".");
+	let node = target;
+	for (const part of parts.slice(0, -1)) {
+		if (!isPlainObject(node[part])) {
+			node[part] = {};
+		}
+		node = node[part] as Record<string, unknown>;
+	}
+	node[parts[parts.length - 1]] = value;
+}
+
+export function getConfigValue(config: YapYapConfig, key: string): unknown {
+	let value: unknown = config;
+	for (const part of key.split(".")) {
+		if (!isPlainObject(value) || !(part in value)) {
+			throw new Error(`Unknown config key: ${key}`);
+		}
+		value = value[part];
+	}
+	return value;
+}
+
+function mergeConfig<T>(base: T, override: unknown): T {
+	if (!isPlainObject(base) || !isPlainObject(override)) {
+		return (override === undefined ? base : override) as T;
+	}
+	const merged: Record<string, unknown> = { ...base };
+	for (const [key, value] of Object.entries(override)) {
+		merged[key] = mergeConfig(merged[key], value);
+	}
+	return merged as T;
+}
+
+function assertValid(overrides: unknown, source: string): void {
+	const errors = validateConfig(overrides);
+	if (errors.length > 0) {
+		throw new Error(`Invalid config in ${source}: ${errors.join("; ")}`);
+	}
+}
+
+export function getConfigFilePath(dataDir: string): string {
+	return join(dataDir, CONFIG_FILE_NAME);
+}
+
+/**
+ * Read yapyap.config.json from the data dir without validating it; a
+ * missing file is an empty layer.
+ */
+export function readConfigFile(dataDir: string): Record<string, unknown> {
+	const filePath = getConfigFilePath(dataDir);
+	if (!existsSync(filePath)) {
+		return {};
+	}
+	try {
+		return JSON.parse(readFileSync(filePath, "utf-8"));
+	} catch (error) {
+		throw new Error(
+			`Invalid JSON in ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+		);
+	}
+}
+
+/**
+ * Config layer from the environment variables in ENV_KEYS
+ */
+export function configFromEnv(
+	env: NodeJS.ProcessEnv = process.env,
+): YapYapConfigOverrides {
+	const overrides: Record<string, unknown> = {};
+	for (const [name, key] of Object.entries(ENV_KEYS)) {
+		const raw = env[name];
+		if (raw) {
+			setPath(overrides, key, parseConfigValue(key, raw));
+		}
+	}
+	return overrides;
+}
+
+/**
+ * Resolve the effective config: defaults < file < env < CLI overrides.
+ * Each layer is validated on its own so errors name their source.
+ */
+export function resolveConfig(
+	options: {
+		dataDir?: string;
+		env?: NodeJS.ProcessEnv;
+		overrides?: YapYapConfigOverrides;
+	} = {},
+): YapYapConfig {
+	const layers: Array<[unknown, string]> = [
+		[options.dataDir ? readConfigFile(options.dataDir) : {}, CONFIG_FILE_NAME],
+		[configFromEnv(options.env), "environment"],
+		[options.overrides ?? {}, "command-line flags"],
+	];
+	let config = DEFAULT_CONFIG;
+	for (const [layer, source] of layers) {
+		assertValid(layer, source);
+		config = mergeConfig(config, layer);
+	}
+	return config;
+}
+
+/**
+ * Set one key in the data dir's config file, validating the result
+ * before writing. Returns the parsed value that was stored.
+ */
+export function setConfigFileValue(
+	dataDir: string,
+	key: string,
+	raw: string,
+): unknown {
+	const value = parseConfigValue(key, raw);
+	const file = readConfigFile(dataDir);
+	setPath(file, key, value);
+	assertValid(file, CONFIG_FILE_NAME);
+	writeFileSync(
+		getConfigFilePath(dataDir),
+		`${JSON.stringify(file, null, 2)}\n`,
+	);
+	return value;
+}
+
 /**
  * Parse bootstrap addresses from environment variable or return defaults.
  */
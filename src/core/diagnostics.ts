@@ -0,0 +1,367 @@
+/**
+ * Health checks behind `yapyap doctor` and GET /api/diagnostics. Each check
+ * turns one measurement into a pass/warn/fail result with a suggested fix;
+ * YapYapNode.runDiagnostics gathers the measurements.
+ */
+
+import type { PendingBacklog } from "../database/index.js";
+
+export type DiagnosticStatus = "pass" | "warn" | "fail";
+
+export interface DiagnosticCheck {
+	id: string;
+	name: string;
+	status: DiagnosticStatus;
+	message: string;
+	/** What to do about a warn or fail */
+	fix?: string;
+	details?: Record<string, unknown>;
+}
+
+export interface DiagnosticReport {
+	/** The worst status of any check */
+	status: DiagnosticStatus;
+	checks: DiagnosticCheck[];
+	generatedAt: number;
+}
+
+export interface BootstrapDialResult {
+	addr: string;
+	latencyMs?: number;
+	error?: string;
+}
+
+/** Handshakes are refused when clocks differ by more than two minutes */
+export const CLOCK_SKEW_FAIL_MS = 2 * 60 * 1000;
+export const CLOCK_SKEW_WARN_MS = 30 * 1000;
+export const BACKLOG_WARN_COUNT = 500;
+export const BACKLOG_WARN_AGE_MS = 60 * 60 * 1000;
+
+const STATUS_ORDER: DiagnosticStatus[] = ["pass", "warn", "fail"];
+
+export function summarizeDiagnostics(
+	checks: DiagnosticCheck[],
+	generatedAt = Date.now(),
+): DiagnosticReport {
+	const status = checks.reduce<DiagnosticStatus>(
+		(worst, check) =>
+			STATUS_ORDER.indexOf(check.status) > STATUS_ORDER.indexOf(worst)
+				? check.status
+				: worst,
+		"pass",
+	);
+	return { status, checks, generatedAt };
+}
+
+function parseAddress(
+	addr: string,
+): { host: string; protocol: string; port: number } | null {
+	const match = /^\/(?:ip4|ip6|dns4|dns6|dns)\/([^/]+)\/(tcp|udp)\/(\d+)/.exec(
+		addr,
+	);
+	if (!match) {
+		return null;
+	}
+	return { host: match[1], protocol: match[2], port: Number(match[3]) };
+}
+
+/**
+ * Whether a listen address is a public IP: not loopback, private,
+ * link-local, carrier-grade NAT or a relay circuit. DNS names do not count,
+ * since nothing here resolves them.
+ */
+export function isPublicAddress(addr: string): boolean {
+	if (addr.includes("/p2p-circuit")) {
+		return false;
+	}
+	const host = parseAddress(addr)?.host;
+	if (!host) {
+		return false;
+	}
+	if (host.includes(":")) {
+		const lowered = host.toLowerCase();
+		return !(
+			lowered === "::" ||
+			lowered === "::1" ||
+			lowered.startsWith("fe80:") ||
+			lowered.startsWith("fc") ||
+			lowered.startsWith("fd")
+		);
+	}
+	const octets = host.split(".").map(Number);
+	if (octets.length !== 4 || octets.some((octet) => Number.isNaN(octet))) {
+		return false;
+	}
+	const [a, b] = octets;
+	return !(
+		a === 0 ||
+		a === 10 ||
+		a === 127 ||
+		(a === 100 && b >= 64 && b <= 127) ||
+		(a === 169 && b === 254) ||
+		(a === 172 && b >= 16 && b <= 31) ||
+		(a === 192 && b === 168)
+	);
+}
+
+export function checkListenAddresses(
+	configured: string[],
+	listening: string[],
+): DiagnosticCheck {
+	const base = {
+		id: "listen-addresses",
+		name: "Listen addresses",
+		details: { configured, listening },
+	};
+	if (listening.length === 0) {
+		return {
+			...base,
+			status: "fail",
+			message: "libp2p is not listening on any address",
+			fix: "Check network.listen in yapyap.config.json and that no other process holds the port",
+		};
+	}
+	const boundPorts = new Set(
+		listening.map((addr) => parseAddress(addr)?.port).filter(Boolean),
+	);
+	const unbound = configured.filter((addr) => {
+		const port = parseAddress(addr)?.port;
+		// Port 0 asks the OS for any free port
+		return port !== undefined && port !== 0 && !boundPorts.has(port);
+	});
+	if (unbound.length > 0) {
+		return {
+			...base,
+			status: "fail",
+			message: `Not bound to ${unbound.join(", ")}`,
+			fix: "Free the port or change network.listen (or pass --listen)",
+			details: { ...base.details, unbound },
+		};
+	}
+	return {
+		...base,
+		status: "pass",
+		message: `Listening on ${listening.length} address${listening.length === 1 ? "" : "es"}`,
+	};
+}
+
+/**
+ * Whether the node listens on a public IP. Listening there does not prove
+ * that peers can dial in (a firewall may still block the port), so even
+ * then the check only warns.
+ */
+export function checkPublicAddresses(listening: string[]): DiagnosticCheck {
+	const base = { id: "public-addresses", name: "Public addresses" };
+	const publicAddrs = listening.filter(isPublicAddress);
+	if (publicAddrs.length === 0) {
+		return {
+			...base,
+			status: "warn",
+			message:
+				"No public IP address; peers outside your network can only reach you through a relay",
+			fix: "Forward the libp2p TCP port on your router, or keep a bootstrap/relay peer connected",
+		};
+	}
+	return {
+		...base,
+		status: "warn",
+		message: `Listening on ${publicAddrs.join(", ")}, but inbound reachability is not verified`,
+		fix: "Make sure a firewall is not blocking the port, e.g. by dialing this address from another network",
+		details: { publicAddrs },
+	};
+}
+
+export function checkBootstrapDials(
+	results: BootstrapDialResult[],
+): DiagnosticCheck[] {
+	if (results.length === 0) {
+		return [
+			{
+				id: "bootstrap",
+				name: "Bootstrap peers",
+				status: "warn",
+				message: "No bootstrap peers configured",
+				fix: "Pass --network, set YAPYAP_BOOTSTRAP_ADDRS or network.bootstrap in yapyap.config.json",
+			},
+		];
+	}
+	return results.map((result): DiagnosticCheck => {
+		const base = {
+			id: `bootstrap:${result.addr}`,
+			name: `Bootstrap ${result.addr}`,
+		};
+		if (result.error !== undefined) {
+			return {
+				...base,
+				status: "fail",
+				message: `Dial failed: ${result.error}`,
+				fix: "Check that the bootstrap node is up and the address is current; a firewall may block outbound connections",
+			};
+		}
+		return {
+			...base,
+			status: "pass",
+			message: `Connected in ${result.latencyMs ?? 0} ms`,
+		};
+	});
+}
+
+export function checkRoutingTable(size: number | null): DiagnosticCheck {
+	const base = { id: "dht", name: "DHT routing table" };
+	if (size === null) {
+		return {
+			...base,
+			status: "warn",
+			message: "The DHT service is not running",
+			fix: "Start the node with `yapyap start`, which enables the DHT",
+		};
+	}
+	if (size === 0) {
+		return {
+			...base,
+			status: "warn",
+			message: "The routing table is empty, so peers cannot be looked up",
+			fix: "Connect to a bootstrap peer; the table fills as peers are discovered",
+			details: { size },
+		};
+	}
+	return {
+		...base,
+		status: "pass",
+		message: `${size} peer${size === 1 ? "" : "s"} in the routing table`,
+		details: { size },
+	};
+}
+
+export function checkRelayReservations(
+	listening: string[],
+	hostedReservations: number | null,
+): DiagnosticCheck {
+	const circuits = listening.filter((addr) => addr.includes("/p2p-circuit"));
+	const base = {
+		id: "relay",
+		name: "Relay reservations",
+		details: { circuits, hostedReservations },
+	};
+	if (circuits.length > 0) {
+		return {
+			...base,
+			status: "pass",
+			message: `Reachable through ${circuits.length} relay reservation${circuits.length === 1 ? "" : "s"}`,
+		};
+	}
+	const hosting =
+		hostedReservations !== null
+			? ` (hosting ${hostedReservations} for other peers)`
+			: "";
+	if (listening.some(isPublicAddress)) {
+		return {
+			...base,
+			status: "pass",
+			message: `No relay needed: the node has a public address${hosting}`,
+		};
+	}
+	return {
+		...base,
+		status: "warn",
+		message: `No relay reservations and no public address${hosting}`,
+		fix: "Keep a publicly reachable peer with a relay connected, or make the node reachable directly",
+	};
+}
+
+export function checkDatabaseIntegrity(result: string[]): DiagnosticCheck {
+	const base = { id: "database", name: "SQLite integrity" };
+	if (result.length === 1 && result[0] === "ok") {
+		return { ...base, status: "pass", message: "integrity_check ok" };
+	}
+	return {
+		...base,
+		status: "fail",
+		message: `integrity_check reported ${result.length} problem${result.length === 1 ? "" : "s"}`,
+		fix: "Stop the node and restore the data directory from a backup",
+		details: { problems: result.slice(0, 20) },
+	};
+}
+
+/**
+ * @param offsetsMs how far each connected peer's clock is ahead of ours
+ */
+export function checkClockSkew(offsetsMs: number[]): DiagnosticCheck {
+	const base = { id: "clock-skew", name: "Clock skew" };
+	if (offsetsMs.length === 0) {
+		return {
+			...base,
+			status: "warn",
+			message: "No connected peer has handshaken yet to compare clocks with",
+		};
+	}
+	const sorted = [...offsetsMs].sort((a, b) => a - b);
+	// Against several peers, the median says more about our clock than any one
+	const median = sorted[Math.floor(sorted.length / 2)];
+	const skew = Math.round(Math.abs(median) / 1000);
+	const details = { medianOffsetMs: Math.round(median), peers: sorted.length };
+	if (Math.abs(median) > CLOCK_SKEW_FAIL_MS) {
+		return {
+			...base,
+			status: "fail",
+			message: `Clock is about ${skew}s off from connected peers; handshakes will be refused`,
+			fix: "Enable time synchronisation (e.g. `timedatectl set-ntp true`)",
+			details,
+		};
+	}
+	if (Math.abs(median) > CLOCK_SKEW_WARN_MS) {
+		return {
+			...base,
+			status: "warn",
+			message: `Clock is about ${skew}s off from connected peers`,
+			fix: "Enable time synchronisation (e.g. `timedatectl set-ntp true`)",
+			details,
+		};
+	}
+	return {
+		...base,
+		status: "pass",
+		message: `Within ${Math.max(skew, 1)}s of ${sorted.length} connected peer${sorted.length === 1 ? "" : "s"}`,
+		details,
+	};
+}
+
+export function checkPendingBacklog(
+	backlog: PendingBacklog,
+	now = Date.now(),
+): DiagnosticCheck {
+	const waiting =
+		(backlog.counts.pending ?? 0) + (backlog.counts.processing ?? 0);
+	const failed = backlog.counts.failed ?? 0;
+	const base = {
+		id: "backlog",
+		name: "Pending messages",
+		details: { ...backlog.counts, oldestPendingAt: backlog.oldestPendingAt },
+	};
+	const ageMs =
+		backlog.oldestPendingAt === null ? 0 : now - backlog.oldestPendingAt;
+	if (waiting >= BACKLOG_WARN_COUNT || ageMs >= BACKLOG_WARN_AGE_MS) {
+		return {
+			...base,
+			status: "warn",
+			message: `${waiting} message${waiting === 1 ? "" : "s"} waiting, oldest ${Math.round(ageMs / 60_000)} min old`,
+			fix: "Run `yapyap queue list` to see who they are for; recipients may be offline or unreachable",
+		};
+	}
+	if (failed > 0) {
+		return {
+			...base,
+			status: "warn",
+			message: `${failed} message${failed === 1 ? "" : "s"} failed`,
+			fix: "Resend with `yapyap queue retry --message-id <id>`",
+		};
+	}
+	return {
+		...base,
+		status: "pass",
+		message:
+			waiting === 0
+				? "Queue is empty"
+				: `${waiting} message${waiting === 1 ? "" : "s"} waiting`,
+	};
+}
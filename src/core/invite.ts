@@ -0,0 +1,87 @@
+/**
+ * Contact invites: a signed yapyap:// URI carrying everything needed to
+ * message a peer before the first handshake (peer ID, addresses and
+ * encryption key). The signature is made with the peer's libp2p key, so it
+ * can be checked against the peer ID alone.
+ */
+
+export const INVITE_URI_PREFIX = "yapyap://invite/";
+
+export interface ContactInvite {
+	peerId: string;
+	multiaddrs: string[];
+	/** Hex-encoded encryption public key */
+	publicKey: string;
+	alias?: string;
+	/** Unix ms after which the invite is no longer accepted */
+	expiresAt?: number;
+	/** Hex signature over inviteSigningBytes() */
+	signature: string;
+}
+
+/**
+ * Bytes an invite is signed over: every field except the signature, in a
+ * fixed order
+ */
+export function inviteSigningBytes(
+	invite: Omit<ContactInvite, "signature">,
+): Uint8Array {
+	return Buffer.from(
+		JSON.stringify({
+			peerId: invite.peerId,
+			multiaddrs: invite.multiaddrs,
+			publicKey: invite.publicKey,
+			alias: invite.alias ?? null,
+			expiresAt: invite.expiresAt ?? null,
+		}),
+		"utf8",
+	);
+}
+
+export function encodeInvite(invite: ContactInvite): string {
+	return `${INVITE_URI_PREFIX}${Buffer.from(JSON.stringify(invite), "utf8").toString("base64url")}`;
+}
+
+/**
+ * Parse an invite URI. Only checks its shape; the caller verifies the
+ * signature and expiry.
+ */
+export function decodeInvite(uri: string): ContactInvite {
+	const trimmed = uri.trim();
+	if (!trimmed.startsWith(INVITE_URI_PREFIX)) {
+		throw new Error(`Invalid invite: expected a ${INVITE_URI_PREFIX} URI`);
+	}
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(
+			Buffer.from(
+				trimmed.slice(INVITE_URI_PREFIX.length),
+				"base64url",
+			).toString("utf8"),
+		);
+	} catch {
+		throw new Error("Invalid invite: payload is not valid JSON");
+	}
+	const invite = parsed as Partial<ContactInvite> | null;
+	if (
+		!invite ||
+		typeof invite.peerId !== "string" ||
+		typeof invite.publicKey !== "string" ||
+		!/^[0-9a-f]+$/i.test(invite.publicKey) ||
+		typeof invite.signature !== "string" ||
+		!Array.isArray(invite.multiaddrs) ||
+		!invite.multiaddrs.every((addr) => typeof addr === "string") ||
+		(invite.alias !== undefined && typeof invite.alias !== "string") ||
+		(invite.expiresAt !== undefined && !Number.isInteger(invite.expiresAt))
+	) {
+		throw new Error("Invalid invite: missing or malformed fields");
+	}
+	return {
+		peerId: invite.peerId,
+		multiaddrs: invite.multiaddrs,
+		publicKey: invite.publicKey,
+		...(invite.alias !== undefined ? { alias: invite.alias } : {}),
+		...(invite.expiresAt !== undefined ? { expiresAt: invite.expiresAt } : {}),
+		signature: invite.signature,
+	};
+}
@@ -2,14 +2,23 @@
 // YapYapNodeOptions interface for database initialization
 export interface YapYapNodeOptions {
 	dataDir?: string;
+	/** Unlocks (or enables) the keystore that seals private keys at rest */
+	passphrase?: string;
+	/** Apply pending schema migrations on open (default true) */
+	migrate?: boolean;
 }
 
 // NOTE: This is a fully refactored and consolidated version
 // focusing on DRY, separation of concerns, and maintainability.
 
+import { privateKeyFromRaw } from "@libp2p/crypto/keys";
 import type { Connection, Libp2p, PeerId, Stream } from "@libp2p/interface";
-import { peerIdFromString } from "@libp2p/peer-id";
+import { peerIdFromPrivateKey, peerIdFromString } from "@libp2p/peer-id";
+import { multiaddr } from "@multiformats/multiaddr";
+import { DEFAULT_CONFIG, type YapYapConfig } from "../config/index.js";
 import {
+	computeKeyFingerprint,
+	computeSafetyNumber,
 	decryptE2EMessage,
 	type EncryptionKeyPair,
 	encryptE2EMessage,
@@ -18,12 +27,29 @@ import {
 	signMessage,
 	verifySignature,
 } from "../crypto/index.js";
+import {
+	generateRatchetKeyPair,
+	type RatchetHeader,
+} from "../crypto/double-ratchet.js";
 import { SessionManager } from "../crypto/session-manager.js";
-import type { DatabaseManager } from "../database/index.js";
+import type { BlockedPeerEntry, DatabaseManager } from "../database/index.js";
 import { EventBus } from "../events/event-bus.js";
-import { Events, type YapYapEvent } from "../events/event-types.js";
-import type { AckMessage, YapYapMessage } from "../message/message.js";
+import {
+	Events,
+	nextEventId,
+	type YapYapEvent,
+} from "../events/event-types.js";
+import {
+	FileTransferManager,
+	isFileTransferPayload,
+} from "../message/file-transfer.js";
+import type {
+	AckMessage,
+	EditMessage,
+	YapYapMessage,
+} from "../message/message.js";
 import { MessageRouter } from "../message/message-router.js";
+import { MetricsRegistry } from "../metrics/index.js";
 // ...existing fields...
 import type { HandshakeMessage } from "../protocols/handshake.js";
 import type {
@@ -35,6 +61,26 @@ import type {
 	SyncRequestMessage,
 	SyncResponseMessage,
 } from "../protocols/sync.js";
+import {
+	type BootstrapDialResult,
+	checkBootstrapDials,
+	checkClockSkew,
+	checkDatabaseIntegrity,
+	checkListenAddresses,
+	checkPendingBacklog,
+	checkPublicAddresses,
+	checkRelayReservations,
+	checkRoutingTable,
+	type DiagnosticCheck,
+	type DiagnosticReport,
+	summarizeDiagnostics,
+} from "./diagnostics.js";
+import {
+	type ContactInvite,
+	decodeInvite,
+	encodeInvite,
+	inviteSigningBytes,
+} from "./invite.js";
 import {
 	decodeMessage,
 	MAX_FRAME_SIZE_BYTES,
@@ -59,6 +105,16 @@ interface EncryptedPayload {
 	signature: string;
 }
 
+interface RatchetEncryptedPayload {
+	encrypted: true;
+	scheme: "double-ratchet";
+	sessionId: string;
+	header: RatchetHeader;
+	ciphertext: string;
+	nonce: string;
+	prekey?: string;
+}
+
 interface RelayEnvelopeSigningPayload {
 	targetPeerId: string;
 	originalMessage: YapYapMessage;
@@ -76,12 +132,44 @@ function isEncryptedPayload(p: unknown): p is EncryptedPayload {
 	);
 }
 
+function isRatchetPayload(p: unknown): p is RatchetEncryptedPayload {
+	return (
+		isEncryptedPayload(p) &&
+		(p as { scheme?: unknown }).scheme === "double-ratchet"
+	);
+}
+
 const STREAM_IDLE_TIMEOUT_MS = 30_000;
 const MAX_RECEIVE_BUFFER_BYTES = MAX_FRAME_SIZE_BYTES * 2;
 const BUFFER_THRESHOLD_BYTES = Math.floor(MAX_RECEIVE_BUFFER_BYTES * 0.75);
 const HANDSHAKE_MAX_ATTEMPTS = 3;
 const HANDSHAKE_RETRY_BASE_MS = 250;
-const HANDSHAKE_CAPABILITIES = ["e2e"];
+// Diagnostics dial in parallel and must answer within the CLI's 5s request timeout
+const BOOTSTRAP_DIAL_TIMEOUT_MS = 3_000;
+const DOUBLE_RATCHET_CAPABILITY = "double-ratchet";
+const HANDSHAKE_CAPABILITIES = ["e2e", DOUBLE_RATCHET_CAPABILITY];
+// Signed prekeys are replaced weekly; replaced ones stay readable for first
+// messages still in store-and-forward, then are deleted for forward secrecy
+const SIGNED_PREKEY_ROTATION_MS = 7 * 24 * 60 * 60 * 1000;
+const SIGNED_PREKEY_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Bytes a signed prekey signature covers; binds the prekey to the static
+ * encryption key it is published with
+ */
+function prekeySigningBytes(
+	staticKeyHex: string,
+	prekeyHex: string,
+): Uint8Array {
+	return Buffer.from(
+		JSON.stringify({
+			purpose: "yapyap-signed-prekey",
+			staticKey: staticKeyHex,
+			prekey: prekeyHex,
+		}),
+		"utf8",
+	);
+}
 
 /* -------------------------------------------------------------------------- */
 /*                               Node Service                                 */
@@ -186,6 +274,13 @@ export class YapYapNode {
 		return this.nodeState;
 	}
 
+	/**
+	 * Get the effective configuration the node was started with
+	 */
+	public getConfig(): YapYapConfig {
+		return this.config;
+	}
+
 	/**
 	 * Get the routing table instance
 	 */
@@ -231,6 +326,75 @@ export class YapYapNode {
 		return [...this.bootstrapDialSuccessAddrs];
 	}
 
+	/**
+	 * Run the connectivity and health checks behind `yapyap doctor`
+	 */
+	public async runDiagnostics(): Promise<DiagnosticReport> {
+		const checks: DiagnosticCheck[] = [];
+		const libp2p = this.libp2p;
+		if (libp2p) {
+			const listening = libp2p.getMultiaddrs().map(String);
+			const services = libp2p.services as Record<string, unknown>;
+			checks.push(
+				checkListenAddresses(this.config.network.listen, listening),
+				checkPublicAddresses(listening),
+				...checkBootstrapDials(await this.dialBootstrapAddrs(libp2p)),
+				checkRoutingTable(
+					(services.dht as { routingTable?: { size: number } } | undefined)
+						?.routingTable?.size ?? null,
+				),
+				checkRelayReservations(
+					listening,
+					(services.relay as { reservations?: { size: number } } | undefined)
+						?.reservations?.size ?? null,
+				),
+			);
+		} else {
+			checks.push({
+				id: "libp2p",
+				name: "libp2p",
+				status: "fail",
+				message: "libp2p is not running",
+				fix: "Start the node with `yapyap start`",
+			});
+		}
+		checks.push(checkDatabaseIntegrity(this.db.checkIntegrity()));
+		const connected = new Set(
+			libp2p?.getConnections().map((c) => c.remotePeer.toString()) ?? [],
+		);
+		checks.push(
+			checkClockSkew(
+				[...this.peerClockOffsets]
+					.filter(([peerId]) => connected.has(peerId))
+					.map(([, offset]) => offset),
+			),
+			checkPendingBacklog(this.db.getPendingBacklog()),
+		);
+		return summarizeDiagnostics(checks);
+	}
+
+	private async dialBootstrapAddrs(
+		libp2p: Libp2p,
+	): Promise<BootstrapDialResult[]> {
+		return Promise.all(
+			this.bootstrapAddrs.map(async (addr) => {
+				const startedAt = Date.now();
+				try {
+					await libp2p.dial(multiaddr(addr), {
+						signal: AbortSignal.timeout(BOOTSTRAP_DIAL_TIMEOUT_MS),
+					});
+					this.recordBootstrapAddressDialSuccess(addr);
+					return { addr, latencyMs: Date.now() - startedAt };
+				} catch (error) {
+					return {
+						addr,
+						error: error instanceof Error ? error.message : String(error),
+					};
+				}
+			}),
+		);
+	}
+
 	/**
 	 * Get discovered/cached peers from database
 	 */
@@ -265,7 +429,7 @@ export class YapYapNode {
 	/**
 	 * Trigger DHT peer discovery manually
 	 */
-	public async triggerPeerDiscovery(): Promise<void> {
+	public async triggerPeerDiscovery(queryCount = 1): Promise<void> {
 		// DHT discovery runs automatically, but this can be called
 		// to force an immediate discovery cycle
 		if (!this.libp2p) return;
@@ -279,22 +443,24 @@ export class YapYapNode {
 
 		if (!dht?.getClosestPeers) return;
 
-		const randomBytes = new Uint8Array(32);
-		crypto.getRandomValues(randomBytes);
+		for (let query = 0; query < queryCount; query++) {
+			const randomBytes = new Uint8Array(32);
+			crypto.getRandomValues(randomBytes);
 
-		try {
-			const peers = dht.getClosestPeers(randomBytes);
-			for await (const peer of peers) {
-				this.routingTable.updatePeer(peer.id.toString(), {});
-				if (peer.multiaddrs?.length) {
-					this.db.savePeerMultiaddrs(
-						peer.id.toString(),
-						peer.multiaddrs.map((m) => m.toString()),
-					);
+			try {
+				const peers = dht.getClosestPeers(randomBytes);
+				for await (const peer of peers) {
+					this.routingTable.updatePeer(peer.id.toString(), {});
+					if (peer.multiaddrs?.length) {
+						this.db.savePeerMultiaddrs(
+							peer.id.toString(),
+							peer.multiaddrs.map((m) => m.toString()),
+						);
+					}
 				}
+			} catch (err) {
+				console.warn("Manual peer discovery failed:", err);
 			}
-		} catch (err) {
-			console.warn("Manual peer discovery failed:", err);
 		}
 	}
 
@@ -369,42 +535,124 @@ export class YapYapNode {
 	private peerKeyWaiters = new Map<string, (() => void)[]>();
 	private peerKeyRefreshPending = new Set<string>();
 	private peerKeyVersions = new Map<string, number>();
+	/** How far each peer's clock was ahead of ours at its last handshake */
+	private peerClockOffsets = new Map<string, number>();
 	private peerKeyRefreshPendingVersion = new Map<string, number>();
 
 	public messageRouter: MessageRouter;
+	public fileTransfers: FileTransferManager;
+	public readonly metrics = new MetricsRegistry();
 	private nodeState: NodeState;
 	private routingTable: RoutingTable;
 	private bootstrapAddrs: string[] = [];
 	private readonly bootstrapDialSuccesses = new Set<string>();
 	private readonly bootstrapDialSuccessAddrs = new Set<string>();
+	private readonly config: YapYapConfig;
 
-	constructor(db: DatabaseManager) {
+	constructor(db: DatabaseManager, config: YapYapConfig = DEFAULT_CONFIG) {
 		this.db = db;
+		this.config = config;
+		this.db.setMessageSearchEnabled(config.search.indexMessages);
+		this.db.setConversationPreviewsEnabled(config.conversations.previews);
+		if (!config.conversations.previews) {
+			this.db.clearConversationPreviews();
+		}
 		this.sessions = new SessionManager(this.db);
 		this.nodeState = new NodeState();
 		this.routingTable = new RoutingTable();
-		this.messageRouter = new MessageRouter({
+		this.messageRouter = new MessageRouter(
+			{
+				db: this.db,
+				getLibp2p: () => this.libp2p,
+				getPeerId: this.getPeerId.bind(this),
+				fetchRecipientPublicKey: this.fetchRecipientPublicKey.bind(this),
+				getNodeKeyPair: this.getNodeKeyPair.bind(this),
+				encryptMessage: this.encryptMessage.bind(this),
+				encodeResponse: this.encodeResponse,
+				safeClose: this.safeClose,
+				pendingAcks: this.pendingAcks,
+				onMessage: this.handleIncomingMessage.bind(this),
+				emitEvent: this.emitEvent.bind(this),
+				signRelayEnvelope: this.signRelayEnvelope.bind(this),
+				verifyRelayEnvelope: this.verifyRelayEnvelope.bind(this),
+				signAsPeer: this.signAsPeer.bind(this),
+				verifyPeerSignature: this.verifyPeerSignature.bind(this),
+				resolveStoredPayload: this.resolveStoredPayload.bind(this),
+				onMessageEdited: this.handleMessageEdited.bind(this),
+				getSendBlockReason: this.getSendBlockReason.bind(this),
+				getBootstrapPeerIds: this.getBootstrapPeerIds.bind(this),
+				getThrottleKeyForPeer: this.getThrottleKeyForPeer.bind(this),
+				getDiscoveredPeers: this.getDiscoveredPeers.bind(this),
+				waitForPeerPublicKey: this.waitForPeerPublicKey.bind(this),
+				shouldRefreshPeerPublicKey: this.shouldRefreshPeerPublicKey.bind(this),
+				metrics: this.metrics,
+			},
+			{
+				rateLimit: config.router.rateLimit,
+				originRateLimit: config.router.originRateLimit,
+				transport: config.transport,
+				retry: {
+					maxAttempts: config.router.maxRetryAttempts,
+					baseDelayMs: config.router.retryBaseDelayMs,
+					maxDelayMs: config.router.retryMaxDelayMs,
+				},
+				retention: {
+					messageTtlMs: config.retention.pendingMessageTtlMs,
+					processedMessageMaxAgeMs: config.retention.processedMessageMaxAgeMs,
+				},
+				contactsOnly: config.security.contactsOnly,
+				reputationHalfLifeMs: config.router.reputationHalfLifeMs,
+			},
+		);
+		this.registerMetrics();
+		this.fileTransfers = new FileTransferManager({
 			db: this.db,
-			getLibp2p: () => this.libp2p,
 			getPeerId: this.getPeerId.bind(this),
-			fetchRecipientPublicKey: this.fetchRecipientPublicKey.bind(this),
-			getNodeKeyPair: this.getNodeKeyPair.bind(this),
-			encryptMessage: this.encryptMessage.bind(this),
-			encodeResponse: this.encodeResponse,
-			safeClose: this.safeClose,
-			pendingAcks: this.pendingAcks,
-			onMessage: this.handleIncomingMessage.bind(this),
+			send: (message) => this.messageRouter.send(message),
 			emitEvent: this.emitEvent.bind(this),
-			signRelayEnvelope: this.signRelayEnvelope.bind(this),
-			verifyRelayEnvelope: this.verifyRelayEnvelope.bind(this),
-			getBootstrapPeerIds: this.getBootstrapPeerIds.bind(this),
-			getThrottleKeyForPeer: this.getThrottleKeyForPeer.bind(this),
-			getDiscoveredPeers: this.getDiscoveredPeers.bind(this),
-			waitForPeerPublicKey: this.waitForPeerPublicKey.bind(this),
-			shouldRefreshPeerPublicKey: this.shouldRefreshPeerPublicKey.bind(this),
 		});
 	}
 
+	/**
+	 * Scrape-time gauges for network and storage state; router metrics are
+	 * registered by the MessageRouter itself
+	 */
+	private registerMetrics(): void {
+		this.metrics.gauge(
+			"yapyap_libp2p_connections",
+			"Open libp2p connections, by direction",
+			() => {
+				const counts = { inbound: 0, outbound: 0 };
+				for (const connection of this.libp2p?.getConnections() ?? []) {
+					counts[connection.direction]++;
+				}
+				return Object.entries(counts).map(([direction, value]) => ({
+					labels: { direction },
+					value,
+				}));
+			},
+		);
+		this.metrics.gauge(
+			"yapyap_routing_table_peers",
+			"Peers in the in-memory routing table",
+			() => [{ labels: {}, value: this.routingTable.getAllPeers().length }],
+		);
+		this.metrics.gauge(
+			"yapyap_db_table_rows",
+			"Row count of each SQLite table",
+			() =>
+				Object.entries(this.db.getTableRowCounts()).map(([table, value]) => ({
+					labels: { table },
+					value,
+				})),
+		);
+		this.metrics.gauge(
+			"yapyap_db_size_bytes",
+			"Size of the SQLite database file",
+			() => [{ labels: {}, value: this.db.getDatabaseSizeBytes() }],
+		);
+	}
+
 	/* ------------------------------------------------------------------------ */
 	/*                               Initialization                             */
 	/* ------------------------------------------------------------------------ */
@@ -426,10 +674,12 @@ export class YapYapNode {
 			);
 		}
 
+		await this.sessions.init();
+
 		this.registerProtocols();
 		this.registerPeerEvents();
 		await this.emitEvent({
-			id: `evt_${Date.now()}_node_started`,
+			id: nextEventId(),
 			type: Events.Node.Started,
 			timestamp: Date.now(),
 			nodeId: this.getPeerId(),
@@ -460,7 +710,7 @@ export class YapYapNode {
 
 		// Emit node stopped event (best effort)
 		await this.emitEvent({
-			id: `evt_${Date.now()}_node_stopped`,
+			id: nextEventId(),
 			type: Events.Node.Stopped,
 			timestamp: Date.now(),
 			nodeId: this.getPeerId(),
@@ -494,6 +744,12 @@ export class YapYapNode {
 				void this.performHandshake(peerId).catch((err) =>
 					console.warn("Handshake failed for peer", peerId, err),
 				);
+				// Ask the peer for chunks of interrupted inbound file transfers
+				void this.fileTransfers
+					.resumeTransfersWithPeer(peerId)
+					.catch((err) =>
+						console.warn("File transfer resume failed for peer", peerId, err),
+					);
 			}
 		});
 
@@ -510,7 +766,7 @@ export class YapYapNode {
 		if (!this.libp2p || !this.encryptionKeyPair?.publicKey) {
 			return;
 		}
-		if (this.handshakeInProgress.has(peerId)) {
+		if (this.handshakeInProgress.has(peerId) || this.db.isPeerBlocked(peerId)) {
 			return;
 		}
 
@@ -527,6 +783,10 @@ export class YapYapNode {
 				signature: "Ed25519",
 			},
 		};
+		const signedPrekey = await this.currentSignedPrekey();
+		if (signedPrekey) {
+			handshakePayload.signedPrekey = signedPrekey;
+		}
 
 		this.handshakeInProgress.add(peerId);
 		try {
@@ -592,19 +852,80 @@ export class YapYapNode {
 	};
 
 	private handleIncomingMessage = async (message: YapYapMessage) => {
+		const payload = isEncryptedPayload(message.payload)
+			? await this.decryptMessage(message).catch(() => null)
+			: message.payload;
+		if (isRatchetPayload(message.payload) && payload !== null) {
+			// Ratchet message keys are single-use; keep the plaintext for later reads
+			this.db.updateIncomingMessageData(message.id, { ...message, payload });
+		}
+		if (isFileTransferPayload(payload)) {
+			// Transfer frames are consumed here, not shown as conversation messages
+			this.db.markMessageConsumed(message.id);
+			await this.fileTransfers.handleIncoming(message.from, payload);
+			return;
+		}
+		if (message.type === "data") {
+			this.db.recordConversationMessage({
+				messageId: message.id,
+				direction: "inbound",
+				peerId: message.from,
+				groupId: message.groupId,
+				payload: payload ?? message.payload,
+			});
+			if (payload !== null) {
+				this.indexForSearch(message.id, message.from, payload);
+			}
+		}
 		// Application-level event bus, extend as needed
 		// For now, log or process
 		console.log("Received message via router:", message);
 		// TODO: Integrate with higher-level handlers
 	};
 
+	private async handleMessageEdited(
+		edit: EditMessage,
+		storedPayload: unknown,
+	): Promise<void> {
+		const payload = isEncryptedPayload(storedPayload)
+			? await this.decryptMessage({ ...edit, payload: storedPayload }).catch(
+					() => null,
+				)
+			: storedPayload;
+		if (payload !== null) {
+			this.indexForSearch(edit.originalMessageId, edit.from, payload);
+			this.db.updateConversationPreview(edit.originalMessageId, payload);
+		}
+	}
+
+	/**
+	 * Index decrypted text of a received message; the database only sees
+	 * the encrypted payload
+	 */
+	private indexForSearch(
+		messageId: string,
+		peerId: string,
+		payload: unknown,
+	): void {
+		const entry = this.db.getMessageHistoryEntry(messageId, "inbound");
+		if (entry && entry.deleted_at === null) {
+			this.db.indexMessageText(
+				messageId,
+				"inbound",
+				peerId,
+				payload,
+				entry.created_at,
+			);
+		}
+	}
+
 	async shutdown() {
 		// Shutdown message router
 		if (this.messageRouter) {
 			this.messageRouter.shutdown();
 		}
 		await this.emitEvent({
-			id: `evt_${Date.now()}_node_stopped`,
+			id: nextEventId(),
 			type: Events.Node.Stopped,
 			timestamp: Date.now(),
 			nodeId: this.getPeerId(),
@@ -781,15 +1102,41 @@ export class YapYapNode {
 		msg: HandshakeMessage,
 		peer: PeerId,
 	): Promise<YapYapMessage | null> => {
+		if (typeof msg.timestamp === "number") {
+			// Includes one-way latency, which is noise next to real skew
+			this.peerClockOffsets.set(peer.toString(), msg.timestamp - Date.now());
+		}
 		if (!msg.publicKey) {
 			throw new Error("Handshake message missing public key");
 		}
 
 		const peerId = peer.toString();
+		if (this.db.isPeerBlocked(peerId)) {
+			throw new Error(`Handshake refused: peer ${peerId} is blocked`);
+		}
 
 		// Store peer's X25519 public key for E2E encryption
 		const publicKeyHex = Buffer.from(msg.publicKey).toString("hex");
-		await this.db.savePeerMetadata(peerId, "public_key", publicKeyHex);
+		await this.updatePeerPublicKey(peerId, publicKeyHex);
+		await this.db.savePeerMetadata(
+			peerId,
+			"capabilities",
+			Array.isArray(msg.capabilities) ? msg.capabilities : [],
+		);
+		if (
+			msg.signedPrekey &&
+			(await this.verifyPeerSignature(
+				peerId,
+				prekeySigningBytes(publicKeyHex, msg.signedPrekey.publicKey),
+				msg.signedPrekey.signature,
+			))
+		) {
+			await this.db.savePeerMetadata(
+				peerId,
+				"signedPrekey",
+				msg.signedPrekey.publicKey,
+			);
+		}
 		const nextVersion = (this.peerKeyVersions.get(peerId) ?? 0) + 1;
 		this.peerKeyVersions.set(peerId, nextVersion);
 		this.signalPeerKeyAvailable(peerId);
@@ -808,10 +1155,40 @@ export class YapYapNode {
 	/*                              Encryption                                  */
 	/* ------------------------------------------------------------------------ */
 
+	/**
+	 * Encrypt a payload for a peer. Peers advertising the double-ratchet
+	 * capability with a signed prekey get forward-secret ratchet sessions;
+	 * others get the per-message ephemeral X25519 scheme.
+	 */
 	async encryptMessage(
 		payload: unknown,
 		recipient: Uint8Array,
-	): Promise<EncryptedPayload> {
+		peerId?: string,
+	): Promise<EncryptedPayload | RatchetEncryptedPayload> {
+		if (
+			peerId &&
+			this.encryptionKeyPair &&
+			this.peerSupportsDoubleRatchet(peerId)
+		) {
+			const envelope = await this.sessions.ratchetEncrypt(
+				peerId,
+				Buffer.from(JSON.stringify(payload)),
+				{
+					ownKeyPair: this.encryptionKeyPair,
+					peerPublicKey: recipient,
+					peerPrekey: this.getPeerSignedPrekey(peerId) ?? undefined,
+				},
+			);
+			return {
+				encrypted: true,
+				scheme: "double-ratchet",
+				sessionId: envelope.sessionId,
+				header: envelope.header,
+				ciphertext: envelope.ciphertext.toString("hex"),
+				nonce: envelope.nonce.toString("hex"),
+				...(envelope.prekey ? { prekey: envelope.prekey } : {}),
+			};
+		}
 		if (!this.identity?.privateKey) {
 			throw new Error("Identity key pair not initialized");
 		}
@@ -835,6 +1212,9 @@ export class YapYapNode {
 	async decryptMessage(msg: YapYapMessage): Promise<unknown | null> {
 		if (!isEncryptedPayload(msg.payload)) return null;
 		if (!this.encryptionKeyPair?.privateKey) return null;
+		if (isRatchetPayload(msg.payload)) {
+			return this.decryptRatchetMessage(msg.from, msg.payload);
+		}
 		let senderPublicKey: Buffer | null = null;
 		const senderNodeKey = await this.db.getNodeKey(msg.from);
 		if (senderNodeKey?.public_key) {
@@ -853,6 +1233,91 @@ export class YapYapNode {
 		return JSON.parse(decrypted);
 	}
 
+	private async decryptRatchetMessage(
+		peerId: string,
+		payload: RatchetEncryptedPayload,
+	): Promise<unknown | null> {
+		const peerPublicKey = await this.getPeerPublicKey(peerId);
+		if (!peerPublicKey || !this.encryptionKeyPair) return null;
+		try {
+			const plaintext = await this.sessions.ratchetDecrypt(
+				peerId,
+				{
+					sessionId: payload.sessionId,
+					header: payload.header,
+					ciphertext: Buffer.from(payload.ciphertext, "hex"),
+					nonce: Buffer.from(payload.nonce, "hex"),
+					...(typeof payload.prekey === "string"
+						? { prekey: payload.prekey }
+						: {}),
+				},
+				{
+					ownKeyPair: this.encryptionKeyPair,
+					peerPublicKey: Buffer.from(peerPublicKey, "hex"),
+					findOwnPrekey: (publicKey) => {
+						const prekey = this.db.getSignedPrekey(publicKey);
+						return prekey
+							? { publicKey: prekey.public_key, privateKey: prekey.private_key }
+							: null;
+					},
+				},
+			);
+			return JSON.parse(plaintext.toString("utf8"));
+		} catch (error) {
+			console.warn(
+				`[node] ratchet decryption failed for message from ${peerId}:`,
+				error instanceof Error ? error.message : String(error),
+			);
+			return null;
+		}
+	}
+
+	private peerSupportsDoubleRatchet(peerId: string): boolean {
+		const capabilities = this.db.getPeerMetadata(peerId, "capabilities");
+		return (
+			Array.isArray(capabilities) &&
+			capabilities.includes(DOUBLE_RATCHET_CAPABILITY) &&
+			this.getPeerSignedPrekey(peerId) !== null
+		);
+	}
+
+	private getPeerSignedPrekey(peerId: string): string | null {
+		const prekey = this.db.getPeerMetadata(peerId, "signedPrekey");
+		return typeof prekey === "string" ? prekey : null;
+	}
+
+	/**
+	 * Signed prekey to publish in handshakes, replacing it once it is due
+	 * and deleting replaced ones past their retention. Null without a peer
+	 * key to sign with.
+	 */
+	private async currentSignedPrekey(): Promise<{
+		publicKey: string;
+		signature: string;
+	} | null> {
+		const staticKey = this.getEncryptionPublicKeyHex();
+		if (!staticKey) {
+			return null;
+		}
+		const now = Date.now();
+		this.db.deleteSignedPrekeysBefore(
+			now - SIGNED_PREKEY_ROTATION_MS - SIGNED_PREKEY_RETENTION_MS,
+		);
+		const latest = this.db.getLatestSignedPrekey();
+		if (latest && now - latest.created_at < SIGNED_PREKEY_ROTATION_MS) {
+			return { publicKey: latest.public_key, signature: latest.signature };
+		}
+		const prekey = generateRatchetKeyPair();
+		const signature = await this.signAsPeer(
+			prekeySigningBytes(staticKey, prekey.publicKey),
+		);
+		if (!signature) {
+			return null;
+		}
+		this.db.saveSignedPrekey(prekey.publicKey, prekey.privateKey, signature);
+		return { publicKey: prekey.publicKey, signature };
+	}
+
 	/**
 	 * Fetch recipient's public key for E2EE encryption
 	 * @param peerId Peer ID (string)
@@ -908,6 +1373,167 @@ export class YapYapNode {
 		return key && typeof key === "string" ? key : null;
 	}
 
+	/**
+	 * Store a peer's encryption key. A different key than the one on record
+	 * unverifies the contact and emits a key-changed event.
+	 */
+	async updatePeerPublicKey(
+		peerId: string,
+		publicKeyHex: string,
+	): Promise<void> {
+		const previous = await this.getPeerPublicKey(peerId);
+		await this.db.savePeerMetadata(peerId, "public_key", publicKeyHex);
+		if (!previous || previous === publicKeyHex) {
+			return;
+		}
+		const wasVerified = this.db.markContactKeyChanged(peerId, Date.now());
+		await this.emitEvent({
+			id: nextEventId(),
+			type: Events.Crypto.PeerKeyChanged,
+			timestamp: Date.now(),
+			peer: peerId,
+			previousPublicKey: previous,
+			publicKey: publicKeyHex,
+			wasVerified,
+		});
+	}
+
+	/**
+	 * Safety number for this node and a peer, computed from both encryption
+	 * keys; null until the peer's key is known
+	 */
+	async getSafetyNumber(peerId: string): Promise<{
+		safetyNumber: string;
+		localFingerprint: string;
+		peerFingerprint: string;
+		peerPublicKey: string;
+	} | null> {
+		const peerPublicKey = await this.getPeerPublicKey(peerId);
+		const localPublicKey = this.encryptionKeyPair?.publicKey;
+		if (!peerPublicKey || !localPublicKey) {
+			return null;
+		}
+		const local = { peerId: this.getPeerId(), publicKey: localPublicKey };
+		const peer = { peerId, publicKey: Buffer.from(peerPublicKey, "hex") };
+		return {
+			safetyNumber: computeSafetyNumber(local, peer),
+			localFingerprint: computeKeyFingerprint(local.peerId, local.publicKey),
+			peerFingerprint: computeKeyFingerprint(peer.peerId, peer.publicKey),
+			peerPublicKey,
+		};
+	}
+
+	/**
+	 * Block a peer: refuse its handshakes and messages, stop relaying for
+	 * it, and drop any open connections
+	 */
+	async blockPeer(peerId: string, reason?: string): Promise<BlockedPeerEntry> {
+		const entry = this.db.blockPeer(peerId, reason);
+		if (this.libp2p) {
+			try {
+				await this.libp2p.hangUp(peerIdFromString(peerId));
+			} catch {
+				// Not connected
+			}
+		}
+		return entry;
+	}
+
+	/**
+	 * Create a signed invite URI with this node's peer ID, addresses and
+	 * encryption key
+	 */
+	async createInvite(
+		options: { alias?: string; expiresInMs?: number } = {},
+	): Promise<string> {
+		const publicKey = this.getEncryptionPublicKeyHex();
+		if (!publicKey) {
+			throw new Error("Encryption key unavailable: cannot create invite");
+		}
+		const unsigned: Omit<ContactInvite, "signature"> = {
+			peerId: this.getPeerId(),
+			multiaddrs: this.libp2p?.getMultiaddrs().map(String) ?? [],
+			publicKey,
+			...(options.alias ? { alias: options.alias } : {}),
+			...(options.expiresInMs
+				? { expiresAt: Date.now() + options.expiresInMs }
+				: {}),
+		};
+		const signature = await this.signAsPeer(inviteSigningBytes(unsigned));
+		if (!signature) {
+			throw new Error("Peer key unavailable: cannot sign invite");
+		}
+		return encodeInvite({ ...unsigned, signature });
+	}
+
+	/**
+	 * Verify an invite and store its contact, addresses and encryption key,
+	 * so the peer can be messaged before the first handshake
+	 */
+	async importInvite(
+		uri: string,
+		alias?: string,
+	): Promise<{ invite: ContactInvite; alias: string }> {
+		const invite = decodeInvite(uri);
+		if (invite.expiresAt !== undefined && invite.expiresAt <= Date.now()) {
+			throw new Error("Invite has expired");
+		}
+		if (invite.peerId === this.getPeerId()) {
+			throw new Error("Invite is for this node");
+		}
+		const { signature, ...unsigned } = invite;
+		if (
+			!(await this.verifyPeerSignature(
+				invite.peerId,
+				inviteSigningBytes(unsigned),
+				signature,
+			))
+		) {
+			throw new Error("Invalid invite: signature does not match peer ID");
+		}
+
+		const now = Date.now();
+		const existing = this.db.getContact(invite.peerId);
+		const contactAlias = alias ?? existing?.alias ?? invite.alias ?? "";
+		this.db.saveContactLww({
+			peer_id: invite.peerId,
+			alias: contactAlias,
+			last_seen: existing?.last_seen ?? now,
+			metadata: existing?.metadata ?? "{}",
+			is_trusted: existing?.is_trusted ?? false,
+		});
+		// Now a contact, so anything it already sent leaves the requests inbox
+		this.db.acceptMessageRequests(invite.peerId);
+		if (invite.multiaddrs.length > 0) {
+			this.db.saveRoutingEntryLww({
+				peer_id: invite.peerId,
+				multiaddrs: invite.multiaddrs,
+				last_seen: now,
+				is_available: true,
+				ttl: 60 * 60 * 1000,
+			});
+		}
+		await this.updatePeerPublicKey(invite.peerId, invite.publicKey);
+		this.signalPeerKeyAvailable(invite.peerId);
+		return { invite, alias: contactAlias };
+	}
+
+	/**
+	 * Why sends to a peer are refused, or null if they are allowed
+	 */
+	getSendBlockReason(peerId: string): string | null {
+		if (this.db.isPeerBlocked(peerId)) {
+			return `Peer ${peerId} is blocked`;
+		}
+		if (
+			this.config.security.blockSendOnKeyChange &&
+			this.db.getContactVerification(peerId)?.key_changed_at
+		) {
+			return `Encryption key of ${peerId} changed; verify the contact before sending`;
+		}
+		return null;
+	}
+
 	/* ------------------------------------------------------------------------ */
 	/*                              Messaging                                   */
 	/* ------------------------------------------------------------------------ */
@@ -998,6 +1624,67 @@ export class YapYapNode {
 		}
 	}
 
+	/**
+	 * Sign with the stored libp2p key, so peers can verify the signature
+	 * against our peer ID alone
+	 */
+	private async signAsPeer(data: Uint8Array): Promise<string | null> {
+		const nodeKey = this.db.getCurrentNodeKey();
+		if (!nodeKey?.private_key) {
+			return null;
+		}
+		const privateKey = privateKeyFromRaw(
+			new Uint8Array(Buffer.from(nodeKey.private_key, "hex")),
+		);
+		if (peerIdFromPrivateKey(privateKey).toString() !== this.getPeerId()) {
+			return null;
+		}
+		return Buffer.from(await privateKey.sign(data)).toString("hex");
+	}
+
+	private async verifyPeerSignature(
+		peerId: string,
+		data: Uint8Array,
+		signatureHex: string,
+	): Promise<boolean> {
+		try {
+			const publicKey = peerIdFromString(peerId).publicKey;
+			return publicKey
+				? await publicKey.verify(data, Buffer.from(signatureHex, "hex"))
+				: false;
+		} catch {
+			return false;
+		}
+	}
+
+	private async resolveStoredPayload(message: YapYapMessage): Promise<unknown> {
+		if (!isRatchetPayload(message.payload)) {
+			return message.payload;
+		}
+		return this.decryptMessage(message).catch(() => null);
+	}
+
+	/**
+	 * Listen for node events; returns a function that removes the listener
+	 */
+	onEvent(
+		eventType: YapYapEvent["type"],
+		handler: (event: YapYapEvent) => void | Promise<void>,
+	): () => void {
+		return this.eventBus.addListener(eventType, handler);
+	}
+
+	/**
+	 * Recently emitted events of the given types, oldest first, from the
+	 * event bus history buffer
+	 */
+	getEventHistory(eventTypes: YapYapEvent["type"][]): YapYapEvent[] {
+		return eventTypes
+			.flatMap((eventType) => this.eventBus.getHistory(eventType))
+			.sort((a, b) => a.sequence - b.sequence)
+			.map((entry) => entry.event);
+	}
+
 	private async emitEvent(event: YapYapEvent): Promise<void> {
 		try {
 			await this.eventBus.emit(event);
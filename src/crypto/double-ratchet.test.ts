@@ -0,0 +1,240 @@
+import assert from "node:assert";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, test } from "node:test";
+import { DatabaseManager } from "../database/index.js";
+import {
+	generateRatchetKeyPair,
+	initRatchetReceiver,
+	initRatchetSender,
+	MAX_SKIPPED_MESSAGE_KEYS,
+	type RatchetMessage,
+	type RatchetState,
+	ratchetDecrypt,
+	ratchetEncrypt,
+} from "./double-ratchet.js";
+import { generateEphemeralKeyPair } from "./index.js";
+import { SessionManager } from "./session-manager.js";
+
+const AD = Buffer.from("session-1");
+
+function createPair() {
+	const alice = generateEphemeralKeyPair();
+	const bob = generateEphemeralKeyPair();
+	const bobPrekey = generateRatchetKeyPair();
+	const aliceState = initRatchetSender(
+		alice.privateKey,
+		bob.publicKey,
+		bobPrekey.publicKey,
+		"session-1",
+	);
+	return {
+		alice: aliceState,
+		bob: initRatchetReceiver(
+			bob.privateKey,
+			bobPrekey,
+			alice.publicKey,
+			aliceState.dhSelfPublic,
+			"session-1",
+		),
+		keys: { alice, bob, bobPrekey },
+	};
+}
+
+function send(state: RatchetState, text: string) {
+	return ratchetEncrypt(state, Buffer.from(text), AD);
+}
+
+function receive(state: RatchetState, message: RatchetMessage) {
+	const result = ratchetDecrypt(state, message, AD);
+	return { state: result.state, text: result.plaintext.toString() };
+}
+
+describe("Double Ratchet", () => {
+	test("exchanges messages in both directions with fresh keys", () => {
+		let { alice, bob } = createPair();
+
+		const m1 = send(alice, "hello bob");
+		alice = m1.state;
+		const r1 = receive(bob, m1.message);
+		bob = r1.state;
+		assert.strictEqual(r1.text, "hello bob");
+
+		const m2 = send(bob, "hi alice");
+		bob = m2.state;
+		const r2 = receive(alice, m2.message);
+		alice = r2.state;
+		assert.strictEqual(r2.text, "hi alice");
+
+		// Each reply moves to a new ratchet key pair
+		assert.notStrictEqual(m2.message.header.dh, m1.message.header.dh);
+		const m3 = send(alice, "again");
+		assert.notStrictEqual(m3.message.header.dh, m1.message.header.dh);
+		assert.strictEqual(receive(bob, m3.message).text, "again");
+	});
+
+	test("decrypts out-of-order messages via skipped keys", () => {
+		let { alice, bob } = createPair();
+		const messages: RatchetMessage[] = [];
+		for (const text of ["one", "two", "three"]) {
+			const sent = send(alice, text);
+			alice = sent.state;
+			messages.push(sent.message);
+		}
+
+		const third = receive(bob, messages[2]);
+		assert.strictEqual(third.text, "three");
+		assert.strictEqual(Object.keys(third.state.skippedKeys).length, 2);
+		const first = receive(third.state, messages[0]);
+		assert.strictEqual(first.text, "one");
+		const second = receive(first.state, messages[1]);
+		assert.strictEqual(second.text, "two");
+		assert.deepStrictEqual(second.state.skippedKeys, {});
+
+		// Message keys are single-use
+		assert.throws(() => receive(second.state, messages[1]));
+	});
+
+	test("rejects tampered messages without changing state", () => {
+		const { alice, bob } = createPair();
+		const { message } = send(alice, "secret");
+		const tampered = {
+			...message,
+			header: { ...message.header, n: message.header.n + 1 },
+		};
+		const before = structuredClone(bob);
+
+		assert.throws(() => receive(bob, tampered));
+		assert.deepStrictEqual(bob, before);
+		assert.strictEqual(receive(bob, message).text, "secret");
+	});
+
+	test("limits how many message keys can be skipped", () => {
+		const { alice, bob } = createPair();
+		const first = send(alice, "first");
+		const { state } = receive(bob, first.message);
+		const far = {
+			...first.message,
+			header: { ...first.message.header, n: MAX_SKIPPED_MESSAGE_KEYS + 5 },
+		};
+
+		assert.throws(() => receive(state, far), /Too many skipped/);
+	});
+
+	test("the recipient's static key alone cannot open a session", () => {
+		const { alice, bob, keys } = createPair();
+		const { message } = send(alice, "before any reply");
+
+		// An attacker holding Bob's static key, but not the deleted prekey
+		const attacker = initRatchetReceiver(
+			keys.bob.privateKey,
+			{
+				publicKey: Buffer.from(keys.bob.publicKey).toString("hex"),
+				privateKey: Buffer.from(keys.bob.privateKey).toString("hex"),
+			},
+			keys.alice.publicKey,
+			message.header.dh,
+			"session-1",
+		);
+		assert.throws(() => receive(attacker, message));
+		const guessedPrekey = initRatchetReceiver(
+			keys.bob.privateKey,
+			generateRatchetKeyPair(),
+			keys.alice.publicKey,
+			message.header.dh,
+			"session-1",
+		);
+		assert.throws(() => receive(guessedPrekey, message));
+
+		assert.strictEqual(receive(bob, message).text, "before any reply");
+	});
+
+	test("SessionManager persists ratchet sessions across restarts", async () => {
+		const dirs = [
+			mkdtempSync(join(tmpdir(), "yapyap-ratchet-a-")),
+			mkdtempSync(join(tmpdir(), "yapyap-ratchet-b-")),
+		];
+		const aliceKeys = generateEphemeralKeyPair();
+		const bobKeys = generateEphemeralKeyPair();
+		const bobPrekey = generateRatchetKeyPair();
+		const toBob = {
+			ownKeyPair: aliceKeys,
+			peerPublicKey: bobKeys.publicKey,
+			peerPrekey: bobPrekey.publicKey,
+		};
+		const toAlice = {
+			ownKeyPair: bobKeys,
+			peerPublicKey: aliceKeys.publicKey,
+			findOwnPrekey: (publicKey: string) =>
+				publicKey === bobPrekey.publicKey ? bobPrekey : null,
+		};
+		let aliceDb = new DatabaseManager({ dataDir: dirs[0] });
+		let bobDb = new DatabaseManager({ dataDir: dirs[1] });
+		try {
+			const alice = new SessionManager(aliceDb);
+			const bob = new SessionManager(bobDb);
+
+			const first = await alice.ratchetEncrypt(
+				"peer-bob",
+				Buffer.from("one"),
+				toBob,
+			);
+			const second = await alice.ratchetEncrypt(
+				"peer-bob",
+				Buffer.from("two"),
+				toBob,
+			);
+			assert.strictEqual(second.sessionId, first.sessionId);
+			assert.strictEqual(first.prekey, bobPrekey.publicKey);
+			// A deleted prekey can no longer open the session
+			await assert.rejects(
+				bob.ratchetDecrypt("peer-alice", second, {
+					...toAlice,
+					findOwnPrekey: () => null,
+				}),
+				/expired prekey/,
+			);
+			assert.strictEqual(
+				(await bob.ratchetDecrypt("peer-alice", second, toAlice)).toString(),
+				"two",
+			);
+
+			aliceDb.close();
+			bobDb.close();
+			aliceDb = new DatabaseManager({ dataDir: dirs[0] });
+			bobDb = new DatabaseManager({ dataDir: dirs[1] });
+			const restartedAlice = new SessionManager(aliceDb);
+			const restartedBob = new SessionManager(bobDb);
+			await restartedAlice.init();
+			await restartedBob.init();
+
+			// Skipped key for the delayed first message survives the restart
+			assert.strictEqual(
+				(
+					await restartedBob.ratchetDecrypt("peer-alice", first, toAlice)
+				).toString(),
+				"one",
+			);
+			const reply = await restartedBob.ratchetEncrypt(
+				"peer-alice",
+				Buffer.from("three"),
+				toAlice,
+			);
+			assert.strictEqual(reply.sessionId, first.sessionId);
+			assert.strictEqual(reply.prekey, undefined);
+			assert.strictEqual(
+				(
+					await restartedAlice.ratchetDecrypt("peer-bob", reply, toBob)
+				).toString(),
+				"three",
+			);
+		} finally {
+			aliceDb.close();
+			bobDb.close();
+			for (const dir of dirs) {
+				rmSync(dir, { recursive: true, force: true });
+			}
+		}
+	});
+});
@@ -0,0 +1,343 @@
+/**
+ * Double Ratchet state machine (Signal specification) over X25519,
+ * HKDF-SHA256, HMAC-SHA256 chain keys and AES-256-GCM.
+ * Functions never mutate their input state; callers persist the returned one.
+ */
+
+import crypto from "node:crypto";
+
+/**
+ * Most message keys skipped in a single chain before a message is rejected
+ */
+export const MAX_SKIPPED_MESSAGE_KEYS = 1000;
+
+/**
+ * Cap on stored skipped keys per session; the oldest are dropped first
+ */
+const MAX_STORED_SKIPPED_KEYS = 2000;
+
+const ROOT_KDF_INFO = Buffer.from("yapyap-ratchet-root");
+const INIT_KDF_INFO = Buffer.from("yapyap-ratchet-init");
+
+export interface RatchetHeader {
+	/** Sender's current ratchet public key (hex DER SPKI) */
+	dh: string;
+	/** Messages in the sender's previous sending chain */
+	pn: number;
+	/** Message number in the current sending chain */
+	n: number;
+}
+
+export interface RatchetState {
+	rootKey: string;
+	dhSelfPublic: string;
+	dhSelfPrivate: string;
+	dhRemote: string | null;
+	sendChainKey: string | null;
+	recvChainKey: string | null;
+	sendCount: number;
+	recvCount: number;
+	previousSendCount: number;
+	/** Message keys of skipped messages, keyed by `${dh}:${n}` */
+	skippedKeys: Record<string, string>;
+}
+
+export interface RatchetMessage {
+	header: RatchetHeader;
+	ciphertext: Buffer;
+	nonce: Buffer;
+}
+
+/**
+ * Fresh X25519 key pair (hex DER), used for ratchet steps and prekeys
+ */
+export function generateRatchetKeyPair(): {
+	publicKey: string;
+	privateKey: string;
+} {
+	const keyPair = crypto.generateKeyPairSync("x25519");
+	return {
+		publicKey: keyPair.publicKey
+			.export({ type: "spki", format: "der" })
+			.toString("hex"),
+		privateKey: keyPair.privateKey
+			.export({ type: "pkcs8", format: "der" })
+			.toString("hex"),
+	};
+}
+
+function dh(privateKeyHex: string, publicKeyHex: string): Buffer {
+	return crypto.diffieHellman({
+		privateKey: crypto.createPrivateKey({
+			key: Buffer.from(privateKeyHex, "hex"),
+			type: "pkcs8",
+			format: "der",
+		}),
+		publicKey: crypto.createPublicKey({
+			key: Buffer.from(publicKeyHex, "hex"),
+			type: "spki",
+			format: "der",
+		}),
+	});
+}
+
+function kdfRoot(rootKey: string, dhOutput: Buffer): [string, string] {
+	const material = Buffer.from(
+		crypto.hkdfSync(
+			"sha256",
+			dhOutput,
+			Buffer.from(rootKey, "hex"),
+			ROOT_KDF_INFO,
+			64,
+		),
+	);
+	return [
+		material.subarray(0, 32).toString("hex"),
+		material.subarray(32, 64).toString("hex"),
+	];
+}
+
+function kdfChain(chainKey: string): [string, Buffer] {
+	const key = Buffer.from(chainKey, "hex");
+	const messageKey = crypto
+		.createHmac("sha256", key)
+		.update(Buffer.from([0x01]))
+		.digest();
+	const nextChainKey = crypto
+		.createHmac("sha256", key)
+		.update(Buffer.from([0x02]))
+		.digest("hex");
+	return [nextChainKey, messageKey];
+}
+
+function associatedData(ad: Uint8Array, header: RatchetHeader): Buffer {
+	return Buffer.concat([
+		Buffer.from(ad),
+		Buffer.from(JSON.stringify([header.dh, header.pn, header.n])),
+	]);
+}
+
+function hex(key: Uint8Array): string {
+	return Buffer.from(key).toString("hex");
+}
+
+/**
+ * Initial root key of a session from the X3DH agreements. The session ID
+ * salts it so every session starts fresh.
+ */
+function x3dhSecret(agreements: Buffer[], sessionId: string): string {
+	return Buffer.from(
+		crypto.hkdfSync(
+			"sha256",
+			Buffer.concat(agreements),
+			Buffer.from(sessionId),
+			INIT_KDF_INFO,
+			32,
+		),
+	).toString("hex");
+}
+
+/**
+ * State for the peer that sends the first message of a session, started
+ * X3DH style against the peer's signed prekey: DH(own static, prekey) and
+ * DH(ratchet key, peer static) seed the root key, and the first ratchet
+ * step adds DH(ratchet key, prekey). The peer's static key alone cannot
+ * open the session, so messages sent before the first reply stay secret
+ * once the peer has deleted that prekey.
+ */
+export function initRatchetSender(
+	ownStaticPrivateKey: Uint8Array,
+	peerStaticPublicKey: Uint8Array,
+	peerPrekey: string,
+	sessionId: string,
+): RatchetState {
+	const dhSelf = generateRatchetKeyPair();
+	const sharedSecret = x3dhSecret(
+		[
+			dh(hex(ownStaticPrivateKey), peerPrekey),
+			dh(dhSelf.privateKey, hex(peerStaticPublicKey)),
+		],
+		sessionId,
+	);
+	const [rootKey, sendChainKey] = kdfRoot(
+		sharedSecret,
+		dh(dhSelf.privateKey, peerPrekey),
+	);
+	return {
+		rootKey,
+		dhSelfPublic: dhSelf.publicKey,
+		dhSelfPrivate: dhSelf.privateKey,
+		dhRemote: peerPrekey,
+		sendChainKey,
+		recvChainKey: null,
+		sendCount: 0,
+		recvCount: 0,
+		previousSendCount: 0,
+		skippedKeys: {},
+	};
+}
+
+/**
+ * State for the peer receiving the first message. The signed prekey the
+ * sender used is the initial ratchet key; senderRatchetKey is the `dh`
+ * header of the sender's first message.
+ */
+export function initRatchetReceiver(
+	ownStaticPrivateKey: Uint8Array,
+	ownPrekey: { publicKey: string; privateKey: string },
+	peerStaticPublicKey: Uint8Array,
+	senderRatchetKey: string,
+	sessionId: string,
+): RatchetState {
+	return {
+		rootKey: x3dhSecret(
+			[
+				dh(ownPrekey.privateKey, hex(peerStaticPublicKey)),
+				dh(hex(ownStaticPrivateKey), senderRatchetKey),
+			],
+			sessionId,
+		),
+		dhSelfPublic: ownPrekey.publicKey,
+		dhSelfPrivate: ownPrekey.privateKey,
+		dhRemote: null,
+		sendChainKey: null,
+		recvChainKey: null,
+		sendCount: 0,
+		recvCount: 0,
+		previousSendCount: 0,
+		skippedKeys: {},
+	};
+}
+
+export function ratchetEncrypt(
+	state: RatchetState,
+	plaintext: Uint8Array,
+	ad: Uint8Array,
+): { state: RatchetState; message: RatchetMessage } {
+	if (!state.sendChainKey) {
+		throw new Error("Ratchet session cannot send before receiving");
+	}
+	const next = structuredClone(state);
+	const [sendChainKey, messageKey] = kdfChain(state.sendChainKey);
+	const header: RatchetHeader = {
+		dh: state.dhSelfPublic,
+		pn: state.previousSendCount,
+		n: state.sendCount,
+	};
+	next.sendChainKey = sendChainKey;
+	next.sendCount += 1;
+
+	const nonce = crypto.randomBytes(12);
+	const cipher = crypto.createCipheriv("aes-256-gcm", messageKey, nonce);
+	cipher.setAAD(associatedData(ad, header));
+	const ciphertext = Buffer.concat([
+		cipher.update(Buffer.from(plaintext)),
+		cipher.final(),
+		cipher.getAuthTag(),
+	]);
+	return { state: next, message: { header, ciphertext, nonce } };
+}
+
+export function ratchetDecrypt(
+	state: RatchetState,
+	message: RatchetMessage,
+	ad: Uint8Array,
+): { state: RatchetState; plaintext: Buffer } {
+	const next = structuredClone(state);
+	const { header } = message;
+	const skippedId = `${header.dh}:${header.n}`;
+	const skippedKey = next.skippedKeys[skippedId];
+	if (skippedKey) {
+		delete next.skippedKeys[skippedId];
+		return {
+			state: next,
+			plaintext: openMessage(
+				Buffer.from(skippedKey, "hex"),
+				message,
+				associatedData(ad, header),
+			),
+		};
+	}
+
+	if (header.dh !== next.dhRemote) {
+		skipMessageKeys(next, header.pn);
+		dhRatchet(next, header.dh);
+	}
+	skipMessageKeys(next, header.n);
+	if (!next.recvChainKey) {
+		throw new Error("Ratchet session has no receiving chain");
+	}
+	const [recvChainKey, messageKey] = kdfChain(next.recvChainKey);
+	next.recvChainKey = recvChainKey;
+	next.recvCount += 1;
+
+	return {
+		state: next,
+		plaintext: openMessage(messageKey, message, associatedData(ad, header)),
+	};
+}
+
+function openMessage(
+	messageKey: Buffer,
+	message: RatchetMessage,
+	aad: Buffer,
+): Buffer {
+	const tagLength = 16;
+	if (message.ciphertext.length < tagLength) {
+		throw new Error("Ratchet ciphertext is missing its auth tag");
+	}
+	const decipher = crypto.createDecipheriv(
+		"aes-256-gcm",
+		messageKey,
+		message.nonce,
+	);
+	decipher.setAAD(aad);
+	decipher.setAuthTag(
+		message.ciphertext.subarray(message.ciphertext.length - tagLength),
+	);
+	return Buffer.concat([
+		decipher.update(
+			message.ciphertext.subarray(0, message.ciphertext.length - tagLength),
+		),
+		decipher.final(),
+	]);
+}
+
+function skipMessageKeys(state: RatchetState, until: number): void {
+	if (!state.recvChainKey || !state.dhRemote) {
+		return;
+	}
+	if (until - state.recvCount > MAX_SKIPPED_MESSAGE_KEYS) {
+		throw new Error("Too many skipped ratchet messages");
+	}
+	while (state.recvCount < until) {
+		const [recvChainKey, messageKey] = kdfChain(state.recvChainKey);
+		state.skippedKeys[`${state.dhRemote}:${state.recvCount}`] =
+			messageKey.toString("hex");
+		state.recvChainKey = recvChainKey;
+		state.recvCount += 1;
+	}
+
+	const ids = Object.keys(state.skippedKeys);
+	for (const id of ids.slice(0, ids.length - MAX_STORED_SKIPPED_KEYS)) {
+		delete state.skippedKeys[id];
+	}
+}
+
+function dhRatchet(state: RatchetState, remotePublicKey: string): void {
+	state.previousSendCount = state.sendCount;
+	state.sendCount = 0;
+	state.recvCount = 0;
+	state.dhRemote = remotePublicKey;
+	[state.rootKey, state.recvChainKey] = kdfRoot(
+		state.rootKey,
+		dh(state.dhSelfPrivate, remotePublicKey),
+	);
+	const dhSelf = generateRatchetKeyPair();
+	state.dhSelfPublic = dhSelf.publicKey;
+	state.dhSelfPrivate = dhSelf.privateKey;
+	[state.rootKey, state.sendChainKey] = kdfRoot(
+		state.rootKey,
+		dh(state.dhSelfPrivate, remotePublicKey),
+	);
+}
@@ -1,6 +1,7 @@
 import assert from "node:assert";
 import { test } from "node:test";
 import {
+	computeSafetyNumber,
 	decryptE2EMessage,
 	decryptMessage,
 	deriveKeyFromPassword,
@@ -196,3 +197,16 @@ test("deriveMessageKey creates deterministic keys from message and peer identity
 	assert.ok(key2 instanceof Uint8Array);
 	assert.deepStrictEqual(key1, key2); // Should be deterministic
 });
+
+test("computeSafetyNumber is symmetric and changes with either key", () => {
+	const alice = { peerId: "peer-alice", publicKey: Buffer.alloc(32, 1) };
+	const bob = { peerId: "peer-bob", publicKey: Buffer.alloc(32, 2) };
+
+	const number = computeSafetyNumber(alice, bob);
+	assert.match(number, /^(\d{5} ){11}\d{5}$/);
+	assert.strictEqual(computeSafetyNumber(bob, alice), number);
+	assert.notStrictEqual(
+		computeSafetyNumber(alice, { ...bob, publicKey: Buffer.alloc(32, 3) }),
+		number,
+	);
+});
@@ -609,3 +609,48 @@ export function decryptE2EMessage(
 		);
 	}
 }
+
+const FINGERPRINT_ITERATIONS = 5200;
+
+/**
+ * Fingerprint of one party's identity: SHA-512 iterated over its peer ID and
+ * encryption public key, rendered as 30 digits in groups of five
+ */
+export function computeKeyFingerprint(
+	peerId: string,
+	publicKey: Uint8Array,
+): string {
+	const key = Buffer.from(publicKey);
+	let digest = crypto
+		.createHash("sha512")
+		.update(Buffer.concat([Buffer.from([0, 0]), key, Buffer.from(peerId)]))
+		.digest();
+	for (let i = 1; i < FINGERPRINT_ITERATIONS; i++) {
+		digest = crypto
+			.createHash("sha512")
+			.update(Buffer.concat([digest, key]))
+			.digest();
+	}
+	const groups: string[] = [];
+	for (let offset = 0; offset < 30; offset += 5) {
+		const chunk = digest.readUIntBE(offset, 5) % 100_000;
+		groups.push(chunk.toString().padStart(5, "0"));
+	}
+	return groups.join(" ");
+}
+
+/**
+ * Safety number for a pair of peers: both fingerprints, in a fixed order so
+ * each side computes the same 60 digits to compare out of band
+ */
+export function computeSafetyNumber(
+	a: { peerId: string; publicKey: Uint8Array },
+	b: { peerId: string; publicKey: Uint8Array },
+): string {
+	return [
+		computeKeyFingerprint(a.peerId, a.publicKey),
+		computeKeyFingerprint(b.peerId, b.publicKey),
+	]
+		.sort()
+		.join(" ");
+}
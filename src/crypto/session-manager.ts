@@ -6,6 +6,14 @@
 import crypto from "node:crypto";
 import type { DatabaseManager } from "../database/index.js";
 import type { NoiseSessionInfo } from "../protocols/handshake.js";
+import {
+	initRatchetReceiver,
+	initRatchetSender,
+	type RatchetHeader,
+	type RatchetState,
+	ratchetDecrypt,
+	ratchetEncrypt,
+} from "./double-ratchet.js";
 
 /* -------------------------------------------------------------------------- */
 /* Types                                                                      */
@@ -30,6 +38,39 @@ export interface Session {
 	isActive: boolean;
 
 	noiseSessionInfo?: NoiseSessionInfo;
+
+	ratchet?: RatchetSession;
+}
+
+export interface RatchetSession {
+	/** Peer static key the session was set up with (hex DER SPKI) */
+	peerStaticKey: string;
+	/** Peer signed prekey this side started the session with (hex DER SPKI) */
+	peerPrekey?: string;
+	state: RatchetState;
+}
+
+/**
+ * Keys that seed a Double Ratchet session: both static X25519 keys (DER),
+ * plus the peer's signed prekey to start one, or a lookup of our own signed
+ * prekeys to accept one
+ */
+export interface RatchetKeys {
+	ownKeyPair: { publicKey: Uint8Array; privateKey: Uint8Array };
+	peerPublicKey: Uint8Array;
+	peerPrekey?: string;
+	findOwnPrekey?: (
+		publicKey: string,
+	) => { publicKey: string; privateKey: string } | null;
+}
+
+export interface RatchetEnvelope {
+	sessionId: string;
+	header: RatchetHeader;
+	ciphertext: Buffer;
+	nonce: Buffer;
+	/** Recipient prekey the session started from, until the peer replies */
+	prekey?: string;
 }
 
 export interface SessionKey {
@@ -116,12 +157,15 @@ interface DatabaseSessionRow {
 	last_used: number;
 	is_active: boolean;
 	noise_session_info?: string | null;
+	ratchet_state?: string | null;
 }
 
 export class SessionManager {
 	private readonly databaseManager: DatabaseManager;
 	private readonly sessions = new Map<string, Session>();
 	private readonly DEFAULT_SESSION_LIFETIME = 60 * 60 * 1000; // 1 hour
+	// Ratchet sessions must outlive store-and-forward delays; renewed on use
+	private readonly RATCHET_SESSION_LIFETIME = 30 * 24 * 60 * 60 * 1000;
 
 	constructor(database: DatabaseManager) {
 		this.databaseManager = database;
@@ -211,6 +255,144 @@ export class SessionManager {
 		await this.updateSessionInDatabase(session);
 	}
 
+	/* ---------------------------------------------------------------------- */
+	/* Double Ratchet                                                         */
+	/* ---------------------------------------------------------------------- */
+
+	/**
+	 * Encrypt for a peer with its most recently used ratchet session, starting
+	 * a new one from the peer's signed prekey if there is none for the peer's
+	 * current static key.
+	 */
+	async ratchetEncrypt(
+		peerId: string,
+		plaintext: Uint8Array,
+		keys: RatchetKeys,
+	): Promise<RatchetEnvelope> {
+		const peerStaticKey = Buffer.from(keys.peerPublicKey).toString("hex");
+		let session = this.getRatchetSessionsForPeer(peerId).find(
+			(s) =>
+				s.ratchet?.peerStaticKey === peerStaticKey &&
+				s.ratchet.state.sendChainKey !== null,
+		);
+		if (!session) {
+			if (!keys.peerPrekey) {
+				throw new Error("Peer has no signed prekey to start a session with");
+			}
+			const id = crypto.randomUUID();
+			session = this.buildRatchetSession(id, peerId, {
+				peerStaticKey,
+				peerPrekey: keys.peerPrekey,
+				state: initRatchetSender(
+					keys.ownKeyPair.privateKey,
+					keys.peerPublicKey,
+					keys.peerPrekey,
+					id,
+				),
+			});
+			this.sessions.set(id, session);
+		}
+		const ratchet = session.ratchet as RatchetSession;
+
+		const { state, message } = ratchetEncrypt(
+			ratchet.state,
+			plaintext,
+			Buffer.from(session.id),
+		);
+		ratchet.state = state;
+		await this.saveRatchetSession(session);
+
+		// The peer needs the prekey to accept the session until it has replied
+		return {
+			sessionId: session.id,
+			...message,
+			...(ratchet.peerPrekey && state.recvChainKey === null
+				? { prekey: ratchet.peerPrekey }
+				: {}),
+		};
+	}
+
+	/**
+	 * Decrypt a ratchet message, creating the receiving side of a session the
+	 * peer started from one of our signed prekeys. Failed messages leave the
+	 * stored state untouched.
+	 */
+	async ratchetDecrypt(
+		peerId: string,
+		envelope: RatchetEnvelope,
+		keys: RatchetKeys,
+	): Promise<Buffer> {
+		let session = this.sessions.get(envelope.sessionId);
+		if (session && (session.peerId !== peerId || !session.ratchet)) {
+			throw new Error("Ratchet session does not belong to peer");
+		}
+		if (!session) {
+			const prekey = envelope.prekey
+				? keys.findOwnPrekey?.(envelope.prekey)
+				: null;
+			if (!prekey) {
+				throw new Error("Ratchet session uses an unknown or expired prekey");
+			}
+			session = this.buildRatchetSession(envelope.sessionId, peerId, {
+				peerStaticKey: Buffer.from(keys.peerPublicKey).toString("hex"),
+				state: initRatchetReceiver(
+					keys.ownKeyPair.privateKey,
+					prekey,
+					keys.peerPublicKey,
+					envelope.header.dh,
+					envelope.sessionId,
+				),
+			});
+		}
+		const ratchet = session.ratchet as RatchetSession;
+
+		const { state, plaintext } = ratchetDecrypt(
+			ratchet.state,
+			envelope,
+			Buffer.from(session.id),
+		);
+		ratchet.state = state;
+		this.sessions.set(session.id, session);
+		await this.saveRatchetSession(session);
+
+		return plaintext;
+	}
+
+	getRatchetSessionsForPeer(peerId: string): Session[] {
+		return this.getActiveSessionsForPeer(peerId)
+			.filter((s) => s.ratchet !== undefined)
+			.sort((a, b) => b.lastUsed - a.lastUsed);
+	}
+
+	private buildRatchetSession(
+		id: string,
+		peerId: string,
+		ratchet: RatchetSession,
+	): Session {
+		const now = Date.now();
+		return {
+			id,
+			peerId,
+			publicKey: Buffer.from(ratchet.state.dhSelfPublic, "hex"),
+			privateKey: Buffer.from(ratchet.state.dhSelfPrivate, "hex"),
+			createdAt: now,
+			expiresAt: now + this.RATCHET_SESSION_LIFETIME,
+			lastUsed: now,
+			isActive: true,
+			ratchet,
+		};
+	}
+
+	private async saveRatchetSession(session: Session): Promise<void> {
+		const state = (session.ratchet as RatchetSession).state;
+		const now = Date.now();
+		session.publicKey = Buffer.from(state.dhSelfPublic, "hex");
+		session.privateKey = Buffer.from(state.dhSelfPrivate, "hex");
+		session.lastUsed = now;
+		session.expiresAt = now + this.RATCHET_SESSION_LIFETIME;
+		await this.saveSessionToDatabase(session);
+	}
+
 	/* ---------------------------------------------------------------------- */
 	/* Getters                                                                */
 	/* ---------------------------------------------------------------------- */
@@ -300,6 +482,15 @@ export class SessionManager {
 				}
 			}
 
+			let ratchet: RatchetSession | undefined;
+			if (row.ratchet_state) {
+				try {
+					ratchet = JSON.parse(row.ratchet_state);
+				} catch {
+					ratchet = undefined;
+				}
+			}
+
 			const session: Session = {
 				id: row.id,
 				peerId: row.peer_id ?? "",
@@ -310,6 +501,7 @@ export class SessionManager {
 				lastUsed: row.last_used,
 				isActive: row.is_active,
 				...(noiseInfo !== undefined ? { noiseSessionInfo: noiseInfo } : {}),
+				...(ratchet !== undefined ? { ratchet } : {}),
 			};
 
 			if (!this.isExpired(session) && session.isActive) {
@@ -330,6 +522,7 @@ export class SessionManager {
 			noise_session_info: s.noiseSessionInfo
 				? JSON.stringify(s.noiseSessionInfo)
 				: "",
+			...(s.ratchet ? { ratchet_state: JSON.stringify(s.ratchet) } : {}),
 		});
 	}
 
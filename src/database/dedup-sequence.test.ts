@@ -85,6 +85,124 @@ describe("DatabaseManager dedup + sequence", () => {
 		assert.strictEqual(cleaned >= 1, true);
 	});
 
+	test("keeps outbound history readable after the queued copy is encrypted", () => {
+		dataDir = mkdtempSync(join(tmpdir(), "yapyap-pending-"));
+		db = new DatabaseManager({ dataDir });
+
+		db.queueMessage(
+			"sent-1",
+			{ id: "sent-1", type: "data", payload: { content: "hello there" } },
+			"peer-a",
+			Date.now() + 60_000,
+		);
+		db.updatePendingMessageData("sent-1", {
+			id: "sent-1",
+			type: "data",
+			payload: { encrypted: true, ciphertext: "00ff" },
+		});
+		db.schedulePendingRetry("sent-1", Date.now() + 1_000, "network");
+		db.markPendingMessageDelivered("sent-1");
+
+		const entry = db.getMessageHistoryEntry("sent-1", "outbound");
+		assert.strictEqual(entry?.status, "delivered");
+		assert.ok(entry?.message_data?.includes("hello there"));
+		assert.ok(!entry?.message_data?.includes("ciphertext"));
+		assert.ok(
+			db.getPendingMessage("sent-1")?.message_data.includes("ciphertext"),
+		);
+	});
+
+	test("orders retries by priority and supports cancel and forced retry", () => {
+		dataDir = mkdtempSync(join(tmpdir(), "yapyap-queue-ops-"));
+		db = new DatabaseManager({ dataDir });
+
+		const deadlineAt = Date.now() + 60_000;
+		db.queueMessage("low", { id: "low" }, "peer-a", deadlineAt);
+		db.queueMessage("high", { id: "high" }, "peer-a", deadlineAt, undefined, 5);
+		db.queueMessage("doomed", { id: "doomed" }, "peer-a", deadlineAt);
+		assert.deepStrictEqual(
+			db.getRetryablePendingMessages().map((entry) => entry.message_id),
+			["high", "low", "doomed"],
+		);
+
+		assert.strictEqual(db.setPendingMessagePriority("doomed", 10), true);
+		assert.strictEqual(db.getQueuedMessages()[0].message_id, "doomed");
+		assert.strictEqual(db.cancelPendingMessage("doomed"), true);
+		assert.strictEqual(db.cancelPendingMessage("doomed"), false);
+		assert.strictEqual(db.setPendingMessagePriority("doomed", 1), false);
+		assert.strictEqual(
+			db.getMessageHistoryEntry("doomed", "outbound")?.status,
+			"cancelled",
+		);
+		assert.strictEqual(
+			db.getQueuedMessages().some((entry) => entry.message_id === "doomed"),
+			false,
+		);
+
+		db.schedulePendingRetry("low", Date.now() + 60_000, "network");
+		db.schedulePendingRetry("low", Date.now() + 60_000, "network");
+		assert.strictEqual(db.resetPendingRetry("low", deadlineAt), true);
+		const reset = db.getPendingMessage("low");
+		assert.strictEqual(reset?.attempts, 0);
+		assert.strictEqual(reset?.last_error, null);
+		assert.ok(reset && reset.next_retry_at <= Date.now());
+
+		db.markPendingMessageDelivered("high");
+		assert.strictEqual(db.resetPendingRetry("high", deadlineAt), false);
+	});
+
+	test("holds scheduled messages until due and lets them be cancelled", () => {
+		dataDir = mkdtempSync(join(tmpdir(), "yapyap-scheduled-"));
+		db = new DatabaseManager({ dataDir });
+
+		const now = Date.now();
+		db.scheduleMessage(
+			"later",
+			{ id: "later" },
+			"peer-a",
+			now + 60_000,
+			now + 120_000,
+		);
+		db.scheduleMessage("due", { id: "due" }, "peer-a", now - 1, now + 60_000);
+		db.scheduleMessage(
+			"dropped",
+			{ id: "dropped" },
+			"peer-a",
+			now + 30_000,
+			now + 90_000,
+		);
+
+		assert.strictEqual(db.getRetryablePendingMessages(now).length, 0);
+		assert.strictEqual(db.getPendingMessagesForPeer("peer-a").length, 0);
+		assert.deepStrictEqual(
+			db.getDueScheduledMessages(now).map((entry) => entry.message_id),
+			["due"],
+		);
+		assert.strictEqual(
+			db.getMessageHistoryEntry("later", "outbound")?.status,
+			"scheduled",
+		);
+		assert.strictEqual(db.resetPendingRetry("later", now + 60_000), false);
+		assert.throws(
+			() =>
+				db?.scheduleMessage(
+					"later",
+					{ id: "later" },
+					"peer-b",
+					now + 60_000,
+					now + 120_000,
+				),
+			/^Error: Message already exists$/,
+		);
+
+		assert.strictEqual(db.cancelPendingMessage("dropped"), true);
+		db.deleteExpiredPendingMessages(now);
+		assert.deepStrictEqual(
+			db.getScheduledMessages().map((entry) => entry.message_id),
+			["due", "later"],
+		);
+	});
+
 	test("returns delta windows for processed and pending messages", () => {
 		dataDir = mkdtempSync(join(tmpdir(), "yapyap-delta-window-"));
 		db = new DatabaseManager({ dataDir });
@@ -218,6 +336,33 @@ describe("DatabaseManager dedup + sequence", () => {
 		assert.strictEqual(deleted >= 1, true);
 	});
 
+	test("records message delivery events in order", () => {
+		dataDir = mkdtempSync(join(tmpdir(), "yapyap-events-"));
+		db = new DatabaseManager({ dataDir });
+
+		const now = Date.now();
+		db.recordMessageEvent("msg-events", "queued", { peerId: "peer-b" }, now);
+		db.recordMessageEvent(
+			"msg-events",
+			"nak",
+			{ peerId: "peer-b", detail: "decrypt-failed" },
+			now,
+		);
+		db.recordMessageEvent("msg-events", "delivered", {}, now + 10);
+		db.recordMessageEvent("msg-other", "queued", {}, now - 30_000);
+
+		const events = db.getMessageEvents("msg-events");
+		assert.deepStrictEqual(
+			events.map((entry) => entry.event),
+			["queued", "nak", "delivered"],
+		);
+		assert.strictEqual(events[1].detail, "decrypt-failed");
+		assert.strictEqual(events[2].peer_id, null);
+
+		assert.strictEqual(db.deleteOldMessageEvents(10_000), 1);
+		assert.strictEqual(db.getMessageEvents("msg-other").length, 0);
+	});
+
 	test("applies LWW for contacts and routing entries", () => {
 		dataDir = mkdtempSync(join(tmpdir(), "yapyap-lww-"));
 		db = new DatabaseManager({ dataDir });
@@ -258,4 +403,508 @@ describe("DatabaseManager dedup + sequence", () => {
 		assert.deepStrictEqual(route?.multiaddrs, ["/ip4/1.1.1.1/tcp/1"]);
 		assert.strictEqual(route?.is_available, true);
 	});
+
+	test("edits and retracts messages only for their peer", () => {
+		dataDir = mkdtempSync(join(tmpdir(), "yapyap-amend-"));
+		db = new DatabaseManager({ dataDir });
+
+		const original = {
+			id: "out-1",
+			type: "data",
+			from: "peer-local",
+			to: "peer-remote",
+			payload: { content: "helo" },
+			timestamp: Date.now(),
+		};
+		db.queueMessage("out-1", original, "peer-remote", Date.now() + 60_000);
+
+		assert.strictEqual(
+			db.editMessage("out-1", "outbound", "peer-other", { content: "x" }, 10),
+			false,
+		);
+		assert.strictEqual(
+			db.editMessage("out-1", "outbound", "peer-remote", { content: "hi" }, 20),
+			true,
+		);
+		assert.strictEqual(
+			db.editMessage("out-1", "outbound", "peer-remote", { content: "?" }, 15),
+			false,
+		);
+		// Re-syncing from the pending queue must not undo the edit
+		db.queueMessage("out-1", original, "peer-remote", Date.now() + 60_000);
+		let entry = db.getMessageHistoryEntry("out-1", "outbound");
+		assert.strictEqual(entry?.edited_at, 20);
+		assert.deepStrictEqual(JSON.parse(entry?.message_data ?? "{}").payload, {
+			content: "hi",
+		});
+
+		assert.strictEqual(
+			db.retractMessage("out-1", "outbound", "peer-remote", 30),
+			true,
+		);
+		assert.strictEqual(
+			db.retractMessage("out-1", "outbound", "peer-remote", 40),
+			false,
+		);
+		assert.strictEqual(
+			db.editMessage("out-1", "outbound", "peer-remote", { content: "!" }, 50),
+			false,
+		);
+		entry = db.getMessageHistoryEntry("out-1", "outbound");
+		assert.strictEqual(entry?.deleted_at, 30);
+		assert.strictEqual(JSON.parse(entry?.message_data ?? "{}").payload, null);
+	});
+
+	test("indexes message text for search only when enabled", () => {
+		dataDir = mkdtempSync(join(tmpdir(), "yapyap-search-"));
+		db = new DatabaseManager({ dataDir });
+		const data = (id: string, payload: unknown) => ({
+			id,
+			type: "data",
+			from: "peer-local",
+			to: "peer-remote",
+			payload,
+			timestamp: Date.now(),
+		});
+
+		db.queueMessage(
+			"before",
+			data("before", { content: "lunch plans" }),
+			"peer-remote",
+			Date.now() + 60_000,
+		);
+		db.setMessageSearchEnabled(true);
+		db.queueMessage(
+			"out-1",
+			data("out-1", { content: "Lunch at noon tomorrow?" }),
+			"peer-remote",
+			Date.now() + 60_000,
+		);
+		db.persistIncomingMessageAtomically({
+			messageId: "in-1",
+			fromPeerId: "peer-other",
+			toPeerId: "peer-local",
+			messageData: {
+				...data("in-1", "lunch is cancelled"),
+				from: "peer-other",
+			},
+			ttl: 60_000,
+		});
+		db.persistIncomingMessageAtomically({
+			messageId: "in-2",
+			fromPeerId: "peer-other",
+			toPeerId: "peer-local",
+			messageData: {
+				...data("in-2", { encrypted: true, ciphertext: "lunch" }),
+				from: "peer-other",
+			},
+			ttl: 60_000,
+		});
+
+		const hits = db.searchMessages({ query: "lunch" });
+		assert.deepStrictEqual(hits.map((hit) => hit.message_id).sort(), [
+			"in-1",
+			"out-1",
+		]);
+		assert.strictEqual(
+			hits.find((hit) => hit.message_id === "out-1")?.snippet,
+			"<mark>Lunch</mark> at noon tomorrow?",
+		);
+		assert.deepStrictEqual(
+			db
+				.searchMessages({ query: "lunch", peerId: "peer-other" })
+				.map((hit) => hit.message_id),
+			["in-1"],
+		);
+		assert.deepStrictEqual(
+			db.searchMessages({ query: "lunch", since: Date.now() + 1_000 }),
+			[],
+		);
+
+		db.retractMessage("in-1", "inbound", "peer-other", Date.now());
+		db.editMessage(
+			"out-1",
+			"outbound",
+			"peer-remote",
+			{ content: "Dinner instead" },
+			Date.now(),
+		);
+		assert.deepStrictEqual(db.searchMessages({ query: "lunch" }), []);
+		assert.strictEqual(db.searchMessages({ query: "dinner" }).length, 1);
+
+		// Disabling stops indexing but keeps the index until it is cleared
+		db.setMessageSearchEnabled(false);
+		db.queueMessage(
+			"out-2",
+			data("out-2", { content: "Dinner at eight" }),
+			"peer-remote",
+			Date.now() + 60_000,
+		);
+		assert.strictEqual(db.searchMessages({ query: "dinner" }).length, 1);
+		assert.strictEqual(db.clearMessageSearchIndex(), 1);
+		assert.deepStrictEqual(db.searchMessages({ query: "dinner" }), []);
+	});
+
+	test("expires message content but keeps dedup ids", () => {
+		dataDir = mkdtempSync(join(tmpdir(), "yapyap-expiry-"));
+		db = new DatabaseManager({ dataDir });
+		db.setMessageSearchEnabled(true);
+		const now = Date.now();
+
+		db.persistIncomingMessageAtomically({
+			messageId: "in-1",
+			fromPeerId: "peer-other",
+			toPeerId: "peer-local",
+			messageData: {
+				id: "in-1",
+				type: "data",
+				from: "peer-other",
+				to: "peer-local",
+				payload: "burn after reading",
+				timestamp: now,
+			},
+			ttl: 60_000,
+		});
+		db.queueMessage(
+			"out-1",
+			{
+				id: "out-1",
+				type: "data",
+				from: "peer-local",
+				to: "peer-other",
+				payload: "burn this too",
+				timestamp: now,
+			},
+			"peer-other",
+			now + 60_000,
+		);
+		db.recordConversationMessage({
+			messageId: "out-1",
+			direction: "outbound",
+			peerId: "peer-other",
+			payload: "burn this too",
+		});
+		db.setMessageExpiry("in-1", "inbound", now - 1);
+		db.setMessageExpiry("out-1", "outbound", now - 1);
+
+		// Still queued, so the outbound copy is kept until it leaves the queue
+		assert.deepStrictEqual(
+			db.expireMessages(now).map((entry) => entry.message_id),
+			["in-1"],
+		);
+		assert.strictEqual(
+			db.getMessageHistoryEntry("in-1", "inbound")?.message_data,
+			null,
+		);
+		assert.strictEqual(db.isMessageProcessed("in-1"), true);
+		assert.deepStrictEqual(db.searchMessages({ query: "burn" }).length, 1);
+
+		db.markPendingMessageDelivered("out-1");
+		assert.deepStrictEqual(
+			db.expireMessages(now).map((entry) => entry.message_id),
+			["out-1"],
+		);
+		assert.deepStrictEqual(db.searchMessages({ query: "burn" }), []);
+		assert.strictEqual(
+			db.getConversation("peer:peer-other")?.last_message_preview,
+			null,
+		);
+		assert.deepStrictEqual(db.expireMessages(now), []);
+	});
+
+	test("reports integrity and the pending backlog for diagnostics", () => {
+		dataDir = mkdtempSync(join(tmpdir(), "yapyap-diagnostics-"));
+		db = new DatabaseManager({ dataDir });
+		assert.deepStrictEqual(db.checkIntegrity(), ["ok"]);
+		assert.deepStrictEqual(db.getPendingBacklog(), {
+			counts: {},
+			oldestPendingAt: null,
+		});
+
+		const now = Date.now();
+		for (const id of ["q-1", "q-2"]) {
+			db.queueMessage(
+				id,
+				{
+					id,
+					type: "data",
+					from: "peer-local",
+					to: "peer-other",
+					payload: "hi",
+					timestamp: now,
+				},
+				"peer-other",
+				now + 60_000,
+			);
+		}
+		db.markPendingMessageDelivered("q-2");
+
+		const backlog = db.getPendingBacklog();
+		assert.deepStrictEqual(backlog.counts, { pending: 1, delivered: 1 });
+		assert.ok(backlog.oldestPendingAt !== null);
+		assert.ok(backlog.oldestPendingAt >= now - 1_000);
+	});
+
+	test("persists and lifts peer blocks", () => {
+		dataDir = mkdtempSync(join(tmpdir(), "yapyap-blocks-"));
+		db = new DatabaseManager({ dataDir });
+
+		assert.strictEqual(db.isPeerBlocked("peer-spam"), false);
+		const entry = db.blockPeer("peer-spam", "unsolicited messages");
+		assert.strictEqual(entry.reason, "unsolicited messages");
+		db.blockPeer("peer-other");
+
+		assert.strictEqual(db.isPeerBlocked("peer-spam"), true);
+		assert.deepStrictEqual(
+			db
+				.getBlockedPeers()
+				.map((blocked) => blocked.peer_id)
+				.sort(),
+			["peer-other", "peer-spam"],
+		);
+
+		assert.strictEqual(db.unblockPeer("peer-spam"), true);
+		assert.strictEqual(db.unblockPeer("peer-spam"), false);
+		assert.strictEqual(db.getBlockedPeer("peer-spam"), null);
+	});
+
+	test("holds direct messages from non-contacts as requests", () => {
+		dataDir = mkdtempSync(join(tmpdir(), "yapyap-requests-"));
+		db = new DatabaseManager({ dataDir });
+		const persist = (messageId: string, fromPeerId: string, groupId?: string) =>
+			db?.persistIncomingMessageAtomically({
+				messageId,
+				fromPeerId,
+				toPeerId: "peer-local",
+				messageData: {
+					id: messageId,
+					type: "data",
+					from: fromPeerId,
+					to: "peer-local",
+					payload: { content: "hi" },
+					timestamp: Date.now(),
+					groupId,
+				},
+				ttl: 60_000,
+			});
+		const status = (messageId: string) =>
+			db?.getMessageHistoryEntry(messageId, "inbound")?.status;
+
+		db.saveContactLww({
+			peer_id: "peer-friend",
+			alias: "friend",
+			last_seen: Date.now(),
+			metadata: "{}",
+			is_trusted: false,
+		});
+		persist("friend-1", "peer-friend");
+		persist("stranger-1", "peer-stranger");
+		persist("stranger-2", "peer-stranger");
+		persist("spam-1", "peer-spam");
+
+		assert.strictEqual(status("friend-1"), "received");
+		assert.strictEqual(status("stranger-1"), "request");
+		assert.deepStrictEqual(
+			db
+				.getMessageRequests()
+				.map(({ peer_id, message_count }) => ({ peer_id, message_count }))
+				.sort((a, b) => a.peer_id.localeCompare(b.peer_id)),
+			[
+				{ peer_id: "peer-spam", message_count: 1 },
+				{ peer_id: "peer-stranger", message_count: 2 },
+			],
+		);
+
+		assert.strictEqual(db.ignoreMessageRequests("peer-spam"), 1);
+		persist("spam-2", "peer-spam");
+		assert.strictEqual(status("spam-2"), "ignored");
+
+		assert.strictEqual(db.acceptMessageRequests("peer-stranger"), 2);
+		assert.strictEqual(status("stranger-2"), "received");
+		assert.deepStrictEqual(db.getMessageRequests(), []);
+
+		// A group ID only bypasses requests for a known group with the sender in it
+		db.createGroup("group-1", "team", "peer-local");
+		db.addGroupMember("group-1", "peer-member");
+		persist("group-member-1", "peer-member", "group-1");
+		persist("group-outsider-1", "peer-outsider", "group-1");
+		persist("group-unknown-1", "peer-outsider", "group-unknown");
+		assert.strictEqual(status("group-member-1"), "received");
+		assert.strictEqual(status("group-outsider-1"), "request");
+		assert.strictEqual(status("group-unknown-1"), "request");
+	});
+
+	test("accepting a message request keeps group messages in their group", () => {
+		dataDir = mkdtempSync(join(tmpdir(), "yapyap-requests-"));
+		db = new DatabaseManager({ dataDir });
+		const receive = (messageId: string, groupId?: string) => {
+			db?.persistIncomingMessageAtomically({
+				messageId,
+				fromPeerId: "peer-stranger",
+				toPeerId: "peer-local",
+				messageData: {
+					id: messageId,
+					type: "data",
+					from: "peer-stranger",
+					to: "peer-local",
+					groupId,
+					payload: { content: `hello ${messageId}` },
+					timestamp: Date.now(),
+				},
+				ttl: 60_000,
+			});
+		};
+		receive("direct-1");
+		receive("group-1", "group-team");
+
+		assert.strictEqual(db.acceptMessageRequests("peer-stranger"), 2);
+		assert.strictEqual(
+			db.getConversation("peer:peer-stranger")?.last_message_id,
+			"direct-1",
+		);
+		const group = db.getConversation("group:group-team");
+		assert.strictEqual(group?.kind, "group");
+		assert.strictEqual(group?.last_message_id, "group-1");
+		assert.strictEqual(group?.unread_count, 1);
+	});
+
+	test("tracks conversations with previews, unread counts and read markers", () => {
+		dataDir = mkdtempSync(join(tmpdir(), "yapyap-conversations-"));
+		db = new DatabaseManager({ dataDir });
+		const receive = (messageId: string, fromPeerId: string, at: number) => {
+			const payload = { content: `hello ${messageId}` };
+			db?.persistIncomingMessageAtomically({
+				messageId,
+				fromPeerId,
+				toPeerId: "peer-local",
+				messageData: {
+					id: messageId,
+					type: "data",
+					from: fromPeerId,
+					to: "peer-local",
+					payload,
+					timestamp: at,
+				},
+				ttl: 60_000,
+			});
+			db?.recordConversationMessage({
+				messageId,
+				direction: "inbound",
+				peerId: fromPeerId,
+				payload,
+				at,
+			});
+		};
+
+		db.saveContactLww({
+			peer_id: "peer-friend",
+			alias: "friend",
+			last_seen: Date.now(),
+			metadata: "{}",
+			is_trusted: false,
+		});
+		receive("friend-1", "peer-friend", 1_000);
+		receive("friend-2", "peer-friend", 2_000);
+		db.recordConversationMessage({
+			messageId: "reply-1",
+			direction: "outbound",
+			peerId: "peer-friend",
+			payload: { content: "hi back" },
+			at: 3_000,
+		});
+		receive("stranger-1", "peer-stranger", 4_000);
+
+		let friend = db.getConversation("peer:peer-friend");
+		assert.strictEqual(friend?.kind, "direct");
+		assert.strictEqual(friend?.unread_count, 2);
+		assert.strictEqual(friend?.last_message_id, "reply-1");
+		assert.strictEqual(friend?.last_message_preview, "hi back");
+		assert.strictEqual(friend?.last_direction, "outbound");
+		// Requests stay out of conversations until accepted
+		assert.strictEqual(db.getConversation("peer:peer-stranger"), null);
+
+		assert.ok(db.markMessageRead("friend-1", "inbound", "peer-friend", 5_000));
+		assert.strictEqual(db.getConversation("peer:peer-friend")?.unread_count, 1);
+		assert.deepStrictEqual(
+			db
+				.getUnreadConversationMessages("peer:peer-friend")
+				.map((entry) => entry.message_id),
+			["friend-2"],
+		);
+		friend = db.markConversationRead("peer:peer-friend", 6_000);
+		assert.strictEqual(friend?.unread_count, 0);
+		assert.strictEqual(friend?.last_read_message_id, "reply-1");
+		assert.strictEqual(friend?.last_read_at, 6_000);
+
+		assert.strictEqual(db.acceptMessageRequests("peer-stranger"), 1);
+		assert.strictEqual(
+			db.getConversation("peer:peer-stranger")?.unread_count,
+			1,
+		);
+
+		db.updateConversationFlags("peer:peer-friend", { pinned: true });
+		db.updateConversationFlags("peer:peer-stranger", { archived: true });
+		assert.deepStrictEqual(
+			db.getConversations().map((entry) => entry.conversation_id),
+			["peer:peer-friend"],
+		);
+		assert.deepStrictEqual(
+			db
+				.getConversations({ archived: true })
+				.map((entry) => entry.conversation_id),
+			["peer:peer-stranger"],
+		);
+
+		// A group named like a peer gets its own conversation
+		db.recordConversationMessage({
+			messageId: "group-1",
+			direction: "outbound",
+			peerId: "peer-friend",
+			groupId: "peer-friend",
+			payload: { content: "hi all" },
+			at: 7_000,
+		});
+		assert.strictEqual(db.getConversation("group:peer-friend")?.kind, "group");
+		assert.strictEqual(
+			db.getConversation("peer:peer-friend")?.last_message_id,
+			"reply-1",
+		);
+
+		// Previews do not depend on the search index
+		db.recordConversationMessage({
+			messageId: "reply-2",
+			direction: "outbound",
+			peerId: "peer-friend",
+			payload: { content: "still shown" },
+			at: 8_000,
+		});
+		assert.strictEqual(
+			db.getConversation("peer:peer-friend")?.last_message_preview,
+			"still shown",
+		);
+		db.clearMessageSearchIndex();
+		assert.strictEqual(
+			db.getConversation("group:peer-friend")?.last_message_preview,
+			"hi all",
+		);
+
+		// but can be turned off on their own
+		db.setConversationPreviewsEnabled(false);
+		db.recordConversationMessage({
+			messageId: "reply-3",
+			direction: "outbound",
+			peerId: "peer-friend",
+			payload: { content: "private" },
+			at: 9_000,
+		});
+		assert.strictEqual(
+			db.getConversation("peer:peer-friend")?.last_message_preview,
+			null,
+		);
+		assert.strictEqual(db.clearConversationPreviews(), 2);
+		assert.strictEqual(
+			db.getConversation("group:peer-friend")?.last_message_preview,
+			null,
+		);
+	});
 });
@@ -0,0 +1,172 @@
+/**
+ * Group membership and per-member history tracking tests for DatabaseManager
+ */
+
+import assert from "node:assert";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, test } from "node:test";
+import Database from "better-sqlite3";
+import { DatabaseManager } from "./index.js";
+
+function createTestDBManager() {
+	const dataDir = mkdtempSync(join(tmpdir(), "yapyap-groups-"));
+	const dbManager = new DatabaseManager({ dataDir });
+	return {
+		dbManager,
+		dataDir,
+		cleanup: () => {
+			dbManager.close();
+			rmSync(dataDir, { recursive: true, force: true });
+		},
+	};
+}
+
+describe("DatabaseManager - groups", () => {
+	test("creates groups and manages membership idempotently", () => {
+		const { dbManager, cleanup } = createTestDBManager();
+		try {
+			dbManager.createGroup("group-1", "Team", "peer-self");
+			dbManager.addGroupMember("group-1", "peer-a");
+			dbManager.addGroupMember("group-1", "peer-b");
+			dbManager.addGroupMember("group-1", "peer-a");
+
+			assert.strictEqual(dbManager.getGroup("group-1")?.name, "Team");
+			assert.deepStrictEqual(
+				dbManager
+					.getGroupMembers("group-1")
+					.map((member) => member.peer_id)
+					.sort(),
+				["peer-a", "peer-b"],
+			);
+
+			assert.strictEqual(dbManager.removeGroupMember("group-1", "peer-a"), 1);
+			assert.strictEqual(dbManager.removeGroupMember("group-1", "peer-a"), 0);
+			assert.deepStrictEqual(
+				dbManager.getGroupMembers("group-1").map((member) => member.peer_id),
+				["peer-b"],
+			);
+		} finally {
+			cleanup();
+		}
+	});
+
+	test("deleteGroup removes the membership list", () => {
+		const { dbManager, cleanup } = createTestDBManager();
+		try {
+			dbManager.createGroup("group-1", "Team", "peer-self");
+			dbManager.addGroupMember("group-1", "peer-a");
+
+			assert.strictEqual(dbManager.deleteGroup("group-1"), 1);
+			assert.strictEqual(dbManager.getGroup("group-1"), null);
+			assert.deepStrictEqual(dbManager.getGroupMembers("group-1"), []);
+			assert.deepStrictEqual(dbManager.getAllGroups(), []);
+		} finally {
+			cleanup();
+		}
+	});
+
+	test("tracks delivery status per member in message_history", () => {
+		const { dbManager, cleanup } = createTestDBManager();
+		try {
+			const deadline = Date.now() + 60_000;
+			dbManager.queueMessage(
+				"msg-1:peer-a",
+				{ id: "msg-1:peer-a", groupId: "group-1" },
+				"peer-a",
+				deadline,
+				"group-1",
+			);
+			dbManager.queueMessage(
+				"msg-1:peer-b",
+				{ id: "msg-1:peer-b", groupId: "group-1" },
+				"peer-b",
+				deadline,
+				"group-1",
+			);
+			dbManager.queueMessage("msg-2", { id: "msg-2" }, "peer-a", deadline);
+
+			dbManager.markPendingMessageDelivered("msg-1:peer-a");
+			dbManager.schedulePendingRetry(
+				"msg-1:peer-b",
+				Date.now() + 1000,
+				"dial-timeout",
+			);
+
+			const history = dbManager.getMessageHistory({ groupId: "group-1" });
+			const byPeer = new Map(history.map((entry) => [entry.peer_id, entry]));
+			assert.strictEqual(history.length, 2);
+			assert.strictEqual(byPeer.get("peer-a")?.status, "delivered");
+			assert.strictEqual(byPeer.get("peer-b")?.status, "pending");
+			assert.strictEqual(byPeer.get("peer-b")?.attempts, 1);
+			assert.ok(history.every((entry) => entry.group_id === "group-1"));
+		} finally {
+			cleanup();
+		}
+	});
+
+	test("records group id for inbound group messages", () => {
+		const { dbManager, cleanup } = createTestDBManager();
+		try {
+			dbManager.persistIncomingMessageAtomically({
+				messageId: "msg-1:peer-self",
+				fromPeerId: "peer-a",
+				toPeerId: "peer-self",
+				messageData: { id: "msg-1:peer-self", groupId: "group-1" },
+				ttl: 3600000,
+			});
+
+			const history = dbManager.getMessageHistory({
+				direction: "inbound",
+				groupId: "group-1",
+			});
+			assert.strictEqual(history.length, 1);
+			assert.strictEqual(history[0].peer_id, "peer-a");
+		} finally {
+			cleanup();
+		}
+	});
+
+	test("adds group_id to message_history of existing databases", () => {
+		const dataDir = mkdtempSync(join(tmpdir(), "yapyap-groups-legacy-"));
+		try {
+			const legacy = new Database(join(dataDir, "yapyap.db"));
+			legacy.exec(`
+        CREATE TABLE message_history (
+          message_id TEXT NOT NULL,
+          direction TEXT NOT NULL,
+          peer_id TEXT NOT NULL,
+          status TEXT,
+          message_data TEXT,
+          attempts INTEGER NOT NULL DEFAULT 0,
+          next_retry_at INTEGER,
+          processed_at INTEGER,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL,
+          PRIMARY KEY (message_id, direction)
+        )
+      `);
+			legacy.close();
+
+			const dbManager = new DatabaseManager({ dataDir });
+			try {
+				dbManager.queueMessage(
+					"msg-1:peer-a",
+					{ id: "msg-1:peer-a" },
+					"peer-a",
+					Date.now() + 60_000,
+					"group-1",
+				);
+				assert.strictEqual(
+					dbManager.getMessageHistory({ groupId: "group-1" }).length,
+					1,
+				);
+			} finally {
+				dbManager.close();
+			}
+		} finally {
+			rmSync(dataDir, { recursive: true, force: true });
+		}
+	});
+});
@@ -2,8 +2,40 @@ import { existsSync, mkdirSync } from "node:fs";
 import { join } from "node:path";
 import Database from "better-sqlite3";
 import type { YapYapNodeOptions } from "../core/node.js";
+import { isFileTransferPayload } from "../message/file-transfer.js";
+import {
+	createKeystore,
+	isSealed,
+	type KeystoreRecord,
+	openValue,
+	sealValue,
+	unlockKeystore,
+} from "./keystore.js";
+import {
+	applyMigrations,
+	getPendingMigrations,
+	getSchemaVersion,
+	type Migration,
+} from "./migrations/index.js";
 import { yapyapSchema } from "./schema.js";
 
+/**
+ * Columns holding private key material, sealed when the keystore is enabled
+ */
+const SEALED_COLUMNS = [
+	{ table: "node_keys", column: "private_key" },
+	{ table: "encryption_keys", column: "private_key" },
+	{ table: "signed_prekeys", column: "private_key" },
+	{ table: "sessions", column: "private_key" },
+	{ table: "sessions", column: "ratchet_state" },
+] as const;
+
+/** Reputation adjustments kept in the log for each peer */
+const REPUTATION_LOG_LIMIT = 100;
+
+/** Characters of message text kept as a conversation's preview */
+const CONVERSATION_PREVIEW_LENGTH = 120;
+
 export interface NodeKey {
 	id: number;
 	public_key: string;
@@ -20,6 +52,13 @@ export interface EncryptionKeyRecord {
 	updated_at: number;
 }
 
+export interface SignedPrekeyRecord {
+	public_key: string;
+	private_key: string;
+	signature: string;
+	created_at: number;
+}
+
 export interface RoutingCacheEntry {
 	peer_id: string;
 	multiaddrs: string[]; // JSON array
@@ -43,13 +82,21 @@ export interface PendingMessageEntry {
 	message_id: string;
 	target_peer_id: string;
 	message_data: string;
-	status: "pending" | "processing" | "delivered" | "failed";
+	status:
+		| "scheduled"
+		| "pending"
+		| "processing"
+		| "delivered"
+		| "failed"
+		| "cancelled";
 	attempts: number;
 	next_retry_at: number;
 	created_at: number;
 	updated_at: number;
 	deadline_at: number;
 	last_error?: string;
+	/** Higher values are retried first */
+	priority: number;
 }
 
 export interface ReplicatedMessageEntry {
@@ -88,6 +135,46 @@ export interface MessageHistoryEntry {
 	processed_at: number | null;
 	created_at: number;
 	updated_at: number;
+	group_id: string | null;
+	read_at: number | null;
+	edited_at: number | null;
+	deleted_at: number | null;
+	/** When the content is purged, for disappearing messages */
+	expires_at: number | null;
+}
+
+/** Steps recorded on a message's delivery timeline */
+export type MessageEventType =
+	| "scheduled"
+	| "queued"
+	| "sent"
+	| "send-failed"
+	| "retry-scheduled"
+	| "nak"
+	| "replicated"
+	| "replica-failed"
+	| "delivered"
+	| "read"
+	| "failed"
+	| "cancelled"
+	| "expired";
+
+export interface MessageEventEntry {
+	id: number;
+	message_id: string;
+	event: MessageEventType;
+	peer_id: string | null;
+	detail: string | null;
+	created_at: number;
+}
+
+export interface MessageSearchResult {
+	message_id: string;
+	direction: MessageHistoryDirection;
+	peer_id: string;
+	created_at: number;
+	/** Matching excerpt with hits wrapped in the highlight markers */
+	snippet: string;
 }
 
 export interface ProcessedMessageEntry {
@@ -107,6 +194,14 @@ export interface Contact {
 	is_trusted: boolean;
 }
 
+export interface ContactVerification {
+	/** Peer encryption key (hex) confirmed out of band, null if unverified */
+	verified_key: string | null;
+	verified_at: number | null;
+	/** Set when a verified contact's key changed and was not re-verified */
+	key_changed_at: number | null;
+}
+
 type ContactRow = {
 	peer_id: string | null;
 	alias: string | null;
@@ -115,6 +210,167 @@ type ContactRow = {
 	is_trusted: number | null;
 };
 
+export interface GroupEntry {
+	group_id: string;
+	name: string;
+	owner_peer_id: string;
+	created_at: number;
+	updated_at: number;
+}
+
+export interface GroupMemberEntry {
+	group_id: string;
+	peer_id: string;
+	added_at: number;
+}
+
+export type FileTransferDirection = "inbound" | "outbound";
+
+export interface FileTransferEntry {
+	file_id: string;
+	direction: FileTransferDirection;
+	peer_id: string;
+	file_name: string;
+	mime_type: string;
+	size: number;
+	chunk_size: number;
+	chunk_hashes: string[];
+	file_hash: string;
+	manifest_hash: string;
+	file_key: string;
+	status: "in-progress" | "complete" | "failed";
+	created_at: number;
+	updated_at: number;
+}
+
+type FileTransferRow = Omit<FileTransferEntry, "chunk_hashes"> & {
+	chunk_hashes: string;
+};
+
+export interface FileChunkEntry {
+	file_id: string;
+	direction: FileTransferDirection;
+	chunk_index: number;
+	chunk_hash: string;
+	data: Buffer;
+	created_at: number;
+}
+
+export interface BlockedPeerEntry {
+	peer_id: string;
+	reason: string | null;
+	blocked_at: number;
+}
+
+export interface PeerReputationEntry {
+	peer_id: string;
+	/** Score as of updated_at, before any decay since then */
+	score: number;
+	updated_at: number;
+}
+
+/** A score change to persist, with the summed delta for one reason */
+export interface PeerReputationAdjustment {
+	peerId: string;
+	score: number;
+	delta: number;
+	reason: string;
+	at: number;
+}
+
+export interface PeerReputationLogEntry {
+	id: number;
+	peer_id: string;
+	delta: number;
+	score: number;
+	reason: string;
+	created_at: number;
+}
+
+/** Inbound messages from a peer that is not a contact, awaiting a decision */
+export interface MessageRequestSummary {
+	peer_id: string;
+	message_count: number;
+	first_received_at: number;
+	last_received_at: number;
+}
+
+export type ConversationKind = "direct" | "group";
+
+/**
+ * A direct chat with a peer or a group chat, keyed by "peer:<peerId>" or
+ * "group:<groupId>" (see conversationIdFor)
+ */
+export interface ConversationEntry {
+	conversation_id: string;
+	kind: ConversationKind;
+	peer_id: string | null;
+	group_id: string | null;
+	last_message_id: string | null;
+	last_message_preview: string | null;
+	last_message_at: number | null;
+	last_direction: MessageHistoryDirection | null;
+	unread_count: number;
+	last_read_message_id: string | null;
+	last_read_at: number | null;
+	muted: boolean;
+	archived: boolean;
+	pinned: boolean;
+	/** Default expiry for messages in this conversation; null keeps them */
+	expire_after_ms: number | null;
+	updated_at: number;
+}
+
+type ConversationRow = Omit<
+	ConversationEntry,
+	"muted" | "archived" | "pinned"
+> & {
+	muted: number;
+	archived: number;
+	pinned: number;
+};
+
+export type ConversationFlags = Partial<
+	Pick<ConversationEntry, "muted" | "archived" | "pinned" | "expire_after_ms">
+>;
+
+export interface PendingBacklog {
+	/** pending_messages rows per status */
+	counts: Record<string, number>;
+	/** created_at of the oldest pending or processing message */
+	oldestPendingAt: number | null;
+}
+
+/** A message whose content was purged by `expireMessages` */
+export interface ExpiredMessage {
+	message_id: string;
+	direction: MessageHistoryDirection;
+	peer_id: string;
+	group_id: string | null;
+	expires_at: number;
+}
+
+export interface ConversationMessageInput {
+	messageId: string;
+	direction: MessageHistoryDirection;
+	peerId: string;
+	groupId?: string;
+	payload: unknown;
+	at?: number;
+}
+
+export interface ApiTokenEntry {
+	token_id: string;
+	name: string;
+	token_hash: string;
+	scopes: string[];
+	created_at: number;
+	last_used_at: number | null;
+	revoked_at: number | null;
+}
+
+type ApiTokenRow = Omit<ApiTokenEntry, "scopes"> & { scopes: string };
+
 export interface PeerMetadata {
 	peer_id: string;
 	key: string;
@@ -134,6 +390,7 @@ export interface Session {
 	last_used: number;
 	is_active: boolean;
 	noise_session_info?: string;
+	ratchet_state?: string;
 }
 
 type SessionRow = {
@@ -146,6 +403,7 @@ type SessionRow = {
 	last_used: number | null;
 	is_active: number | null;
 	noise_session_info?: string | null;
+	ratchet_state?: string | null;
 };
 
 export interface ProcessedMessage {
@@ -182,9 +440,64 @@ export interface PersistIncomingMessageResult {
 	duplicate: boolean;
 }
 
+/**
+ * Searchable text of a message payload: a string payload, or the
+ * content/text/body fields of an object payload
+ */
+function extractMessageText(payload: unknown): string | null {
+	if (typeof payload === "string") {
+		return payload.trim() || null;
+	}
+	if (!payload || typeof payload !== "object") {
+		return null;
+	}
+	const record = payload as Record<string, unknown>;
+	const parts = ["content", "text", "body"]
+		.map((key) => record[key])
+		.filter((value): value is string => typeof value === "string");
+	return parts.join("\n").trim() || null;
+}
+
+function conversationPreview(payload: unknown): string | null {
+	const text = extractMessageText(payload);
+	if (!text) {
+		return null;
+	}
+	const line = text.replace(/\s+/g, " ");
+	return line.length > CONVERSATION_PREVIEW_LENGTH
+		? `${line.slice(0, CONVERSATION_PREVIEW_LENGTH - 1)}…`
+		: line;
+}
+
+/**
+ * Conversation ID of a direct chat or group chat. Peer and group IDs get
+ * separate prefixes so a group ID can never collide with a peer's chat.
+ */
+export function conversationIdFor(
+	peerId: string,
+	groupId?: string | null,
+): string {
+	return groupId ? `group:${groupId}` : `peer:${peerId}`;
+}
+
+/** SQL for the conversation ID of a message_history row */
+const HISTORY_CONVERSATION_ID = `CASE WHEN group_id IS NOT NULL THEN 'group:' || group_id ELSE 'peer:' || peer_id END`;
+
+function toConversationEntry(row: ConversationRow): ConversationEntry {
+	return {
+		...row,
+		muted: Boolean(row.muted),
+		archived: Boolean(row.archived),
+		pinned: Boolean(row.pinned),
+	};
+}
+
 export class DatabaseManager {
 	private db: Database.Database;
 	private readonly dbPath: string;
+	private keystoreKey: Buffer | null = null;
+	private messageSearchEnabled = false;
+	private conversationPreviewsEnabled = true;
 
 	constructor(options: YapYapNodeOptions) {
 		const dataDir = options.dataDir || join(process.cwd(), "data");
@@ -201,35 +514,150 @@ export class DatabaseManager {
 		// Enable WAL mode for better concurrency
 		this.db.exec("PRAGMA journal_mode=WAL;");
 
-		// Create tables synchronously
-		this.createTables();
-	}
-
-	private createTables(): void {
-		this.db.exec(yapyapSchema.node_keys);
-		this.db.exec(yapyapSchema.encryption_keys);
-		this.db.exec(yapyapSchema.routing_cache);
-		this.db.exec(yapyapSchema.pending_messages);
-		this.db.exec(yapyapSchema.replicated_messages);
-		this.db.exec(yapyapSchema.message_replicas);
-		this.db.exec(yapyapSchema.processed_messages);
-		this.db.exec(yapyapSchema.peer_sequences);
-		this.db.exec(yapyapSchema.peer_vector_clocks);
-		this.db.exec(yapyapSchema.contacts);
-		this.db.exec(yapyapSchema.message_history);
-		this.db.exec(yapyapSchema.peer_metadata);
-		this.db.exec(yapyapSchema.sessions);
-		this.db.exec(yapyapSchema.search_index);
+		if (options.migrate === false) {
+			return;
+		}
+		this.migrate();
+
+		if (options.passphrase) {
+			this.unlock(options.passphrase);
+		}
+	}
 
+	/**
+	 * Apply pending schema migrations, then (re)create indexes. Runs on open
+	 * unless the `migrate` option is false.
+	 */
+	migrate(): Migration[] {
+		const applied = applyMigrations(this.db);
 		for (const idx of yapyapSchema.indexes) {
 			this.db.exec(idx);
 		}
+		return applied;
+	}
+
+	getSchemaVersion(): number {
+		return getSchemaVersion(this.db);
+	}
+
+	getPendingMigrations(): Migration[] {
+		return getPendingMigrations(this.db);
 	}
 
 	close(): void {
 		this.db.close();
 	}
 
+	// Keystore Methods
+	isKeystoreEnabled(): boolean {
+		return this.getKeystoreRecord() !== null;
+	}
+
+	isKeystoreLocked(): boolean {
+		return this.isKeystoreEnabled() && this.keystoreKey === null;
+	}
+
+	/**
+	 * Set a new passphrase, enabling the keystore if needed. Every sealed
+	 * column is re-encrypted in one transaction.
+	 */
+	changePassphrase(newPassphrase: string): void {
+		if (!newPassphrase) {
+			throw new Error("Keystore passphrase must not be empty");
+		}
+		if (this.isKeystoreLocked()) {
+			throw new Error(
+				"Keystore is locked: unlock it before changing passphrase",
+			);
+		}
+		const { record, key } = createKeystore(newPassphrase);
+		const tx = this.db.transaction(() => {
+			this.resealSecrets((value) => sealValue(this.openSecret(value), key));
+			this.saveKeystoreRecord(record);
+		});
+		tx();
+		this.keystoreKey = key;
+	}
+
+	/**
+	 * Unlock the keystore, or enable it for a database that has none yet.
+	 * Throws on a wrong passphrase.
+	 */
+	unlock(passphrase: string): void {
+		const record = this.getKeystoreRecord();
+		if (record) {
+			this.keystoreKey = unlockKeystore(passphrase, record);
+			return;
+		}
+		// Existing plaintext databases are migrated on first use of a passphrase
+		this.changePassphrase(passphrase);
+	}
+
+	private getKeystoreRecord(): KeystoreRecord | null {
+		const row = this.db.prepare(`SELECT * FROM keystore WHERE id = 1`).get();
+		return (row as KeystoreRecord | undefined) ?? null;
+	}
+
+	private saveKeystoreRecord(
+		record: Omit<KeystoreRecord, "created_at" | "updated_at">,
+	): void {
+		const now = Date.now();
+		this.db
+			.prepare(
+				`INSERT INTO keystore (id, salt, kdf_iterations, verifier, created_at, updated_at)
+         VALUES (1, ?, ?, ?, ?, ?)
+         ON CONFLICT(id) DO UPDATE SET
+           salt = excluded.salt,
+           kdf_iterations = excluded.kdf_iterations,
+           verifier = excluded.verifier,
+           updated_at = excluded.updated_at`,
+			)
+			.run(record.salt, record.kdf_iterations, record.verifier, now, now);
+	}
+
+	private resealSecrets(transform: (value: string) => string): void {
+		for (const { table, column } of SEALED_COLUMNS) {
+			const rows = this.db
+				.prepare(
+					`SELECT rowid AS row_id, ${column} AS value FROM ${table} WHERE ${column} IS NOT NULL`,
+				)
+				.all() as Array<{ row_id: number; value: string }>;
+			const update = this.db.prepare(
+				`UPDATE ${table} SET ${column} = ? WHERE rowid = ?`,
+			);
+			for (const row of rows) {
+				update.run(transform(row.value), row.row_id);
+			}
+		}
+	}
+
+	/**
+	 * Seal a secret for storage; plaintext when the keystore is not enabled
+	 */
+	private sealSecret(value: string): string {
+		if (this.keystoreKey) {
+			return sealValue(value, this.keystoreKey);
+		}
+		if (this.isKeystoreEnabled()) {
+			throw new Error(
+				"Keystore is locked: set YAPYAP_PASSPHRASE to store private keys",
+			);
+		}
+		return value;
+	}
+
+	private openSecret(value: string): string {
+		if (!isSealed(value)) {
+			return value;
+		}
+		if (!this.keystoreKey) {
+			throw new Error(
+				"Keystore is locked: set YAPYAP_PASSPHRASE to read private keys",
+			);
+		}
+		return openValue(value, this.keystoreKey);
+	}
+
 	public getDatabase(): Database.Database {
 		return this.db;
 	}
@@ -243,7 +671,7 @@ export class DatabaseManager {
       RETURNING id
     `);
 
-		const result = stmt.run(publicKey, privateKey, now, now);
+		const result = stmt.run(publicKey, this.sealSecret(privateKey), now, now);
 		return Number(result.lastInsertRowid);
 	}
 
@@ -252,8 +680,10 @@ export class DatabaseManager {
       SELECT * FROM node_keys WHERE public_key = ?
     `);
 
-		const result = stmt.get(publicKey);
-		return result as NodeKey | null;
+		const result = stmt.get(publicKey) as NodeKey | undefined;
+		return result
+			? { ...result, private_key: this.openSecret(result.private_key) }
+			: null;
 	}
 
 	saveEncryptionKey(publicKey: string, privateKey: string): number {
@@ -267,7 +697,7 @@ export class DatabaseManager {
 				updated_at = excluded.updated_at
 		`);
 
-		const result = stmt.run(publicKey, privateKey, now, now);
+		const result = stmt.run(publicKey, this.sealSecret(privateKey), now, now);
 		return Number(result.lastInsertRowid);
 	}
 
@@ -275,8 +705,55 @@ export class DatabaseManager {
 		const stmt = this.db.prepare(`
 			SELECT * FROM encryption_keys WHERE id = 1
 		`);
-		const result = stmt.get();
-		return (result as EncryptionKeyRecord) ?? null;
+		const result = stmt.get() as EncryptionKeyRecord | undefined;
+		return result
+			? { ...result, private_key: this.openSecret(result.private_key) }
+			: null;
+	}
+
+	saveSignedPrekey(publicKey: string, privateKey: string, signature: string) {
+		this.db
+			.prepare(
+				`INSERT INTO signed_prekeys (public_key, private_key, signature, created_at)
+         VALUES (?, ?, ?, ?)`,
+			)
+			.run(publicKey, this.sealSecret(privateKey), signature, Date.now());
+	}
+
+	getLatestSignedPrekey(): SignedPrekeyRecord | null {
+		const row = this.db
+			.prepare(
+				`SELECT * FROM signed_prekeys ORDER BY created_at DESC, rowid DESC LIMIT 1`,
+			)
+			.get() as SignedPrekeyRecord | undefined;
+		return row
+			? { ...row, private_key: this.openSecret(row.private_key) }
+			: null;
+	}
+
+	getSignedPrekey(publicKey: string): SignedPrekeyRecord | null {
+		const row = this.db
+			.prepare(`SELECT * FROM signed_prekeys WHERE public_key = ?`)
+			.get(publicKey) as SignedPrekeyRecord | undefined;
+		return row
+			? { ...row, private_key: this.openSecret(row.private_key) }
+			: null;
+	}
+
+	/**
+	 * Delete signed prekeys created before the cutoff, keeping the latest
+	 * one so there is always a prekey to publish
+	 */
+	deleteSignedPrekeysBefore(cutoff: number): number {
+		return this.db
+			.prepare(
+				`DELETE FROM signed_prekeys
+         WHERE created_at < ?
+           AND public_key NOT IN (
+             SELECT public_key FROM signed_prekeys ORDER BY created_at DESC, rowid DESC LIMIT 1
+           )`,
+			)
+			.run(cutoff).changes;
 	}
 
 	/**
@@ -285,13 +762,18 @@ export class DatabaseManager {
 	 */
 	getCurrentNodeKey(): NodeKey | null {
 		const stmt = this.db.prepare(`SELECT * FROM node_keys LIMIT 1`);
-		const result = stmt.get();
-		return result as NodeKey | null;
+		const result = stmt.get() as NodeKey | undefined;
+		return result
+			? { ...result, private_key: this.openSecret(result.private_key) }
+			: null;
 	}
 
 	getAllNodeKeys(): NodeKey[] {
 		const stmt = this.db.prepare(`SELECT * FROM node_keys`);
-		return stmt.all() as NodeKey[];
+		return (stmt.all() as NodeKey[]).map((key) => ({
+			...key,
+			private_key: this.openSecret(key.private_key),
+		}));
 	}
 
 	// Routing Cache Methods
@@ -471,20 +953,23 @@ export class DatabaseManager {
 		messageData: Record<string, unknown>,
 		targetPeerId: string,
 		deadlineAt: number,
+		groupId?: string,
+		priority = 0,
 	): void {
 		const now = Date.now();
 		const serializedMessage = JSON.stringify(messageData);
 		this.db
 			.prepare(
 				`INSERT INTO pending_messages
-         (message_id, target_peer_id, message_data, status, attempts, next_retry_at, created_at, updated_at, deadline_at)
-         VALUES (?, ?, ?, 'pending', 0, ?, ?, ?, ?)
+         (message_id, target_peer_id, message_data, status, attempts, next_retry_at, created_at, updated_at, deadline_at, priority)
+         VALUES (?, ?, ?, 'pending', 0, ?, ?, ?, ?, ?)
          ON CONFLICT(message_id) DO UPDATE SET
            target_peer_id = excluded.target_peer_id,
            message_data = excluded.message_data,
            status = 'pending',
            updated_at = excluded.updated_at,
-           deadline_at = excluded.deadline_at`,
+           deadline_at = excluded.deadline_at,
+           priority = excluded.priority`,
 			)
 			.run(
 				messageId,
@@ -494,6 +979,7 @@ export class DatabaseManager {
 				now,
 				now,
 				deadlineAt,
+				priority,
 			);
 
 		this.upsertMessageHistory({
@@ -504,7 +990,114 @@ export class DatabaseManager {
 			messageData: serializedMessage,
 			attempts: 0,
 			nextRetryAt: now,
+			groupId,
+		});
+		if (messageData.type === "data") {
+			this.indexMessageText(
+				messageId,
+				"outbound",
+				targetPeerId,
+				messageData.payload,
+				now,
+			);
+		}
+	}
+
+	/**
+	 * Replace the queued copy of a message, e.g. with its encrypted form,
+	 * without touching its retry state or the history entry
+	 */
+	updatePendingMessageData(
+		messageId: string,
+		messageData: Record<string, unknown>,
+	): void {
+		this.db
+			.prepare(
+				`UPDATE pending_messages SET message_data = ?, updated_at = ?
+         WHERE message_id = ?`,
+			)
+			.run(JSON.stringify(messageData), Date.now(), messageId);
+	}
+
+	/**
+	 * Hold a message in the queue until sendAt. It is neither retried nor
+	 * handed over until the router sends it once due.
+	 */
+	scheduleMessage(
+		messageId: string,
+		messageData: Record<string, unknown>,
+		targetPeerId: string,
+		sendAt: number,
+		deadlineAt: number,
+		groupId?: string,
+		priority = 0,
+	): void {
+		const now = Date.now();
+		const serializedMessage = JSON.stringify(messageData);
+		const tx = this.db.transaction(() => {
+			// A caller-chosen ID must not take over a message we already sent
+			const existing = this.db
+				.prepare(
+					`SELECT 1 FROM pending_messages WHERE message_id = ?
+           UNION ALL
+           SELECT 1 FROM message_history WHERE message_id = ? AND direction = 'outbound'
+           LIMIT 1`,
+				)
+				.get(messageId, messageId);
+			if (existing) {
+				throw new Error("Message already exists");
+			}
+			this.db
+				.prepare(
+					`INSERT INTO pending_messages
+           (message_id, target_peer_id, message_data, status, attempts, next_retry_at, created_at, updated_at, deadline_at, priority)
+           VALUES (?, ?, ?, 'scheduled', 0, ?, ?, ?, ?, ?)`,
+				)
+				.run(
+					messageId,
+					targetPeerId,
+					serializedMessage,
+					sendAt,
+					now,
+					now,
+					deadlineAt,
+					priority,
+				);
+
+			this.upsertMessageHistory({
+				messageId,
+				direction: "outbound",
+				peerId: targetPeerId,
+				status: "scheduled",
+				messageData: serializedMessage,
+				attempts: 0,
+				nextRetryAt: sendAt,
+				groupId,
+			});
 		});
+		tx();
+	}
+
+	getDueScheduledMessages(now = Date.now()): PendingMessageEntry[] {
+		return this.db
+			.prepare(
+				`SELECT * FROM pending_messages
+         WHERE status = 'scheduled' AND next_retry_at <= ? AND deadline_at > ?
+         ORDER BY priority DESC, next_retry_at ASC`,
+			)
+			.all(now, now) as PendingMessageEntry[];
+	}
+
+	/** Messages waiting for their send time, soonest first */
+	getScheduledMessages(limit = 200): PendingMessageEntry[] {
+		return this.db
+			.prepare(
+				`SELECT * FROM pending_messages
+         WHERE status = 'scheduled'
+         ORDER BY next_retry_at ASC
+         LIMIT ?`,
+			)
+			.all(limit) as PendingMessageEntry[];
 	}
 
 	getPendingMessage(messageId: string): PendingMessageEntry | null {
@@ -520,7 +1113,7 @@ export class DatabaseManager {
 			.prepare(
 				`SELECT * FROM pending_messages
          WHERE status = 'pending' AND next_retry_at <= ? AND deadline_at > ?
-         ORDER BY next_retry_at ASC`,
+         ORDER BY priority DESC, next_retry_at ASC`,
 			)
 			.all(now, now) as PendingMessageEntry[];
 	}
@@ -573,7 +1166,7 @@ export class DatabaseManager {
 			.prepare(
 				`SELECT * FROM pending_messages
          WHERE status = 'pending' AND target_peer_id = ? AND deadline_at > ?
-         ORDER BY created_at ASC
+         ORDER BY priority DESC, created_at ASC
          LIMIT ?`,
 			)
 			.all(targetPeerId, now, limit) as PendingMessageEntry[];
@@ -620,11 +1213,68 @@ export class DatabaseManager {
 		this.syncOutboundHistory(messageId);
 	}
 
+	/** Messages still waiting for delivery, in the order they are retried */
+	getQueuedMessages(limit = 200): PendingMessageEntry[] {
+		return this.db
+			.prepare(
+				`SELECT * FROM pending_messages
+         WHERE status IN ('pending', 'processing')
+         ORDER BY priority DESC, next_retry_at ASC
+         LIMIT ?`,
+			)
+			.all(limit) as PendingMessageEntry[];
+	}
+
+	/** Stop delivering a queued message; false if it is no longer queued */
+	cancelPendingMessage(messageId: string): boolean {
+		const changes = this.db
+			.prepare(
+				`UPDATE pending_messages
+         SET status = 'cancelled', updated_at = ?, last_error = 'cancelled'
+         WHERE message_id = ? AND status IN ('scheduled', 'pending', 'processing')`,
+			)
+			.run(Date.now(), messageId).changes;
+		this.syncOutboundHistory(messageId);
+		return changes > 0;
+	}
+
+	setPendingMessagePriority(messageId: string, priority: number): boolean {
+		const changes = this.db
+			.prepare(
+				`UPDATE pending_messages SET priority = ?, updated_at = ?
+         WHERE message_id = ? AND status IN ('scheduled', 'pending', 'processing')`,
+			)
+			.run(priority, Date.now(), messageId).changes;
+		return changes > 0;
+	}
+
+	/**
+	 * Put a message back at the front of the retry queue with its backoff
+	 * and attempt count cleared
+	 */
+	resetPendingRetry(messageId: string, deadlineAt: number): boolean {
+		const now = Date.now();
+		const changes = this.db
+			.prepare(
+				`UPDATE pending_messages
+         SET status = 'pending',
+             attempts = 0,
+             next_retry_at = ?,
+             updated_at = ?,
+             deadline_at = MAX(deadline_at, ?),
+             last_error = NULL
+         WHERE message_id = ? AND status NOT IN ('delivered', 'scheduled')`,
+			)
+			.run(now, now, deadlineAt, messageId).changes;
+		this.syncOutboundHistory(messageId);
+		return changes > 0;
+	}
+
 	deleteExpiredPendingMessages(now = Date.now()): number {
 		return this.db
 			.prepare(
 				`DELETE FROM pending_messages
-         WHERE deadline_at <= ? OR status IN ('delivered', 'failed')`,
+         WHERE deadline_at <= ? OR status IN ('delivered', 'failed', 'cancelled')`,
 			)
 			.run(now).changes;
 	}
@@ -638,6 +1288,7 @@ export class DatabaseManager {
 		attempts = 0,
 		nextRetryAt = null,
 		processedAt = null,
+		groupId = null,
 	}: {
 		messageId: string;
 		direction: MessageHistoryDirection;
@@ -647,22 +1298,29 @@ export class DatabaseManager {
 		attempts?: number;
 		nextRetryAt?: number | null;
 		processedAt?: number | null;
+		groupId?: string | null;
 	}): void {
 		const now = Date.now();
 		this.db
 			.prepare(
 				`INSERT INTO message_history
-         (message_id, direction, peer_id, status, message_data, attempts, next_retry_at, processed_at, created_at, updated_at)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+         (message_id, direction, peer_id, status, message_data, attempts, next_retry_at, processed_at, created_at, updated_at, group_id)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
          ON CONFLICT(message_id, direction) DO UPDATE SET
            peer_id = excluded.peer_id,
            status = excluded.status,
-           message_data = excluded.message_data,
+           message_data = CASE
+             WHEN message_history.edited_at IS NULL AND message_history.deleted_at IS NULL
+               AND (message_history.expires_at IS NULL OR message_history.message_data IS NOT NULL)
+             THEN COALESCE(excluded.message_data, message_history.message_data)
+             ELSE message_history.message_data
+           END,
            attempts = excluded.attempts,
            next_retry_at = excluded.next_retry_at,
            processed_at = excluded.processed_at,
            updated_at = excluded.updated_at,
-           created_at = message_history.created_at`,
+           created_at = message_history.created_at,
+           group_id = COALESCE(excluded.group_id, message_history.group_id)`,
 			)
 			.run(
 				messageId,
@@ -675,9 +1333,14 @@ export class DatabaseManager {
 				processedAt,
 				now,
 				now,
+				groupId,
 			);
 	}
 
+	/**
+	 * Mirror queue state into history. The queued copy is ciphertext once
+	 * sent, so history keeps the plaintext it was written with.
+	 */
 	private syncOutboundHistory(messageId: string): void {
 		const entry = this.getPendingMessage(messageId);
 		if (!entry) {
@@ -688,7 +1351,6 @@ export class DatabaseManager {
 			direction: "outbound",
 			peerId: entry.target_peer_id,
 			status: entry.status,
-			messageData: entry.message_data,
 			attempts: entry.attempts,
 			nextRetryAt: entry.next_retry_at,
 		});
@@ -866,11 +1528,54 @@ export class DatabaseManager {
 			.all(now) as MessageReplicaEntry[];
 	}
 
-	// Deduplication + Sequence Methods
-	markMessageProcessed(
+	getReplicatedMessage(messageId: string): ReplicatedMessageEntry | null {
+		const row = this.db
+			.prepare(`SELECT * FROM replicated_messages WHERE message_id = ?`)
+			.get(messageId);
+		return (row as ReplicatedMessageEntry | undefined) ?? null;
+	}
+
+	// Message Event Methods
+	recordMessageEvent(
 		messageId: string,
-		fromPeerId: string,
-		sequenceNumber?: number,
+		event: MessageEventType,
+		details: { peerId?: string; detail?: string } = {},
+		at = Date.now(),
+	): void {
+		this.db
+			.prepare(
+				`INSERT INTO message_events (message_id, event, peer_id, detail, created_at)
+         VALUES (?, ?, ?, ?, ?)`,
+			)
+			.run(
+				messageId,
+				event,
+				details.peerId ?? null,
+				details.detail ?? null,
+				at,
+			);
+	}
+
+	/** A message's recorded delivery events, oldest first */
+	getMessageEvents(messageId: string): MessageEventEntry[] {
+		return this.db
+			.prepare(
+				`SELECT * FROM message_events WHERE message_id = ? ORDER BY id ASC`,
+			)
+			.all(messageId) as MessageEventEntry[];
+	}
+
+	deleteOldMessageEvents(maxAgeMs = 7 * 24 * 60 * 60 * 1000): number {
+		return this.db
+			.prepare(`DELETE FROM message_events WHERE created_at < ?`)
+			.run(Date.now() - maxAgeMs).changes;
+	}
+
+	// Deduplication + Sequence Methods
+	markMessageProcessed(
+		messageId: string,
+		fromPeerId: string,
+		sequenceNumber?: number,
 	): void {
 		const now = Date.now();
 		this.db
@@ -930,11 +1635,15 @@ export class DatabaseManager {
 	getMessageHistory(options?: {
 		direction?: MessageHistoryDirection;
 		peerId?: string;
+		groupId?: string;
+		status?: string;
 		limit?: number;
 		offset?: number;
 	}): MessageHistoryEntry[] {
 		const direction = options?.direction;
 		const peerId = options?.peerId;
+		const groupId = options?.groupId;
+		const status = options?.status;
 		let limit = typeof options?.limit === "number" ? options.limit : 100;
 		limit = Math.max(1, Math.min(limit, 500));
 		let offset = typeof options?.offset === "number" ? options.offset : 0;
@@ -949,6 +1658,14 @@ export class DatabaseManager {
 			conditions.push("peer_id = ?");
 			params.push(peerId);
 		}
+		if (groupId) {
+			conditions.push("group_id = ?");
+			params.push(groupId);
+		}
+		if (status) {
+			conditions.push("status = ?");
+			params.push(status);
+		}
 		const whereClause =
 			conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
 		return this.db
@@ -1047,10 +1764,23 @@ export class DatabaseManager {
 					messageId: payload.messageId,
 					direction: "inbound",
 					peerId: payload.fromPeerId,
-					status: "received",
+					status: this.inboundHistoryStatus(payload),
 					messageData: messageDataString,
 					processedAt: now,
+					groupId:
+						typeof payload.messageData.groupId === "string"
+							? payload.messageData.groupId
+							: null,
 				});
+				if (payload.messageData.type === "data") {
+					this.indexMessageText(
+						payload.messageId,
+						"inbound",
+						payload.fromPeerId,
+						payload.messageData.payload,
+						now,
+					);
+				}
 
 				// Message was inserted - continue with sequence and vector clock updates
 				// First, get the current sequence number for the peer
@@ -1116,9 +1846,14 @@ export class DatabaseManager {
 		const normalizedMetadata = this.normalizeMetadata(contact.metadata);
 		this.db
 			.prepare(`
-      INSERT OR REPLACE INTO contacts
+      INSERT INTO contacts
       (peer_id, alias, last_seen, metadata, is_trusted)
       VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(peer_id) DO UPDATE SET
+        alias = excluded.alias,
+        last_seen = excluded.last_seen,
+        metadata = excluded.metadata,
+        is_trusted = excluded.is_trusted
     `)
 			.run(
 				contact.peer_id,
@@ -1190,6 +1925,49 @@ export class DatabaseManager {
 		}));
 	}
 
+	getContactVerification(peerId: string): ContactVerification | null {
+		const row = this.db
+			.prepare(
+				`SELECT verified_key, verified_at, key_changed_at FROM contacts WHERE peer_id = ?`,
+			)
+			.get(peerId) as ContactVerification | undefined;
+		return row ?? null;
+	}
+
+	/**
+	 * Mark a peer's current key as verified, creating the contact if needed.
+	 * Verified contacts are trusted.
+	 */
+	verifyContact(peerId: string, publicKey: string, verifiedAt: number): void {
+		this.db
+			.prepare(
+				`INSERT INTO contacts (peer_id, alias, last_seen, metadata, is_trusted, verified_key, verified_at)
+         VALUES (?, '', ?, '{}', 1, ?, ?)
+         ON CONFLICT(peer_id) DO UPDATE SET
+           is_trusted = 1,
+           verified_key = excluded.verified_key,
+           verified_at = excluded.verified_at,
+           key_changed_at = NULL`,
+			)
+			.run(peerId, verifiedAt, publicKey, verifiedAt);
+	}
+
+	/**
+	 * Drop verification after a key change. Returns true if the contact was
+	 * verified, in which case key_changed_at flags it until re-verified.
+	 */
+	markContactKeyChanged(peerId: string, changedAt: number): boolean {
+		return (
+			this.db
+				.prepare(
+					`UPDATE contacts
+           SET is_trusted = 0, verified_key = NULL, verified_at = NULL, key_changed_at = ?
+           WHERE peer_id = ? AND verified_key IS NOT NULL`,
+				)
+				.run(changedAt, peerId).changes > 0
+		);
+	}
+
 	updateContactLastSeen(peerId: string): void {
 		this.db
 			.prepare(`UPDATE contacts SET last_seen = ? WHERE peer_id = ?`)
@@ -1204,6 +1982,953 @@ export class DatabaseManager {
 		return deleted;
 	}
 
+	getMessageHistoryEntry(
+		messageId: string,
+		direction: MessageHistoryDirection,
+	): MessageHistoryEntry | null {
+		const row = this.db
+			.prepare(
+				`SELECT * FROM message_history WHERE message_id = ? AND direction = ?`,
+			)
+			.get(messageId, direction);
+		return (row as MessageHistoryEntry | undefined) ?? null;
+	}
+
+	/**
+	 * Record when a message exchanged with a peer was read. Only the first
+	 * read counts; returns false if the message is unknown or already read.
+	 */
+	markMessageRead(
+		messageId: string,
+		direction: MessageHistoryDirection,
+		peerId: string,
+		readAt: number,
+	): boolean {
+		const tx = this.db.transaction(() => {
+			const result = this.db
+				.prepare(
+					`UPDATE message_history SET read_at = ?, updated_at = ?
+         WHERE message_id = ? AND direction = ? AND peer_id = ? AND read_at IS NULL`,
+				)
+				.run(readAt, Date.now(), messageId, direction, peerId);
+			if (result.changes > 0 && direction === "inbound") {
+				this.db
+					.prepare(
+						`UPDATE conversations SET unread_count = MAX(unread_count - 1, 0), updated_at = ?
+           WHERE conversation_id = (
+             SELECT ${HISTORY_CONVERSATION_ID} FROM message_history
+             WHERE message_id = ? AND direction = 'inbound' AND status = 'received'
+           )`,
+					)
+					.run(Date.now(), messageId);
+			}
+			return result.changes > 0;
+		});
+		return tx();
+	}
+
+	/**
+	 * Mark a received message read on arrival, for messages the node
+	 * consumes itself (file transfer frames), so they never count as unread
+	 * or draw read receipts
+	 */
+	markMessageConsumed(messageId: string, readAt = Date.now()): void {
+		this.db
+			.prepare(
+				`UPDATE message_history SET read_at = ?, updated_at = ?
+         WHERE message_id = ? AND direction = 'inbound' AND read_at IS NULL`,
+			)
+			.run(readAt, Date.now(), messageId);
+	}
+
+	/**
+	 * Apply an edit from the message's sender: replace its payload, keeping
+	 * the rest of the stored message. Later edits win and retracted messages
+	 * stay retracted; returns false when nothing changed.
+	 */
+	editMessage(
+		messageId: string,
+		direction: MessageHistoryDirection,
+		peerId: string,
+		payload: unknown,
+		editedAt: number,
+	): boolean {
+		return this.amendMessage(messageId, direction, peerId, (entry) => {
+			if (entry.edited_at !== null && entry.edited_at >= editedAt) {
+				return null;
+			}
+			return {
+				messageData: { ...this.parseMessageData(entry), payload },
+				column: "edited_at",
+				at: editedAt,
+			};
+		});
+	}
+
+	/**
+	 * Tombstone a message its sender deleted for everyone: the payload is
+	 * dropped and deleted_at set. Returns false if unknown or already retracted.
+	 */
+	retractMessage(
+		messageId: string,
+		direction: MessageHistoryDirection,
+		peerId: string,
+		retractedAt: number,
+	): boolean {
+		return this.amendMessage(messageId, direction, peerId, (entry) => ({
+			messageData: { ...this.parseMessageData(entry), payload: null },
+			column: "deleted_at",
+			at: retractedAt,
+		}));
+	}
+
+	// Disappearing Message Methods
+	setMessageExpiry(
+		messageId: string,
+		direction: MessageHistoryDirection,
+		expiresAt: number,
+	): void {
+		this.db
+			.prepare(
+				`UPDATE message_history SET expires_at = ?, updated_at = ?
+         WHERE message_id = ? AND direction = ?`,
+			)
+			.run(expiresAt, Date.now(), messageId, direction);
+	}
+
+	/**
+	 * Purge the content of messages past their expiry from history, the
+	 * search index and processed_messages. IDs stay so duplicates are still
+	 * dropped; sent messages are left alone until they leave the queue.
+	 */
+	expireMessages(now = Date.now()): ExpiredMessage[] {
+		const tx = this.db.transaction((): ExpiredMessage[] => {
+			const expired = this.db
+				.prepare(
+					`SELECT message_id, direction, peer_id, group_id, expires_at
+           FROM message_history
+           WHERE expires_at <= ? AND message_data IS NOT NULL
+             AND NOT (direction = 'outbound' AND status IN ('scheduled', 'pending', 'processing'))`,
+				)
+				.all(now) as ExpiredMessage[];
+			const purgeHistory = this.db.prepare(
+				`UPDATE message_history SET message_data = NULL, updated_at = ?
+         WHERE message_id = ? AND direction = ?`,
+			);
+			const purgeProcessed = this.db.prepare(
+				`UPDATE processed_messages SET message_data = NULL WHERE message_id = ?`,
+			);
+			for (const entry of expired) {
+				purgeHistory.run(now, entry.message_id, entry.direction);
+				if (entry.direction === "inbound") {
+					purgeProcessed.run(entry.message_id);
+				}
+				this.removeFromMessageSearch(entry.message_id, entry.direction);
+				this.setConversationPreview(entry.message_id, null);
+			}
+			return expired;
+		});
+		return tx();
+	}
+
+	private amendMessage(
+		messageId: string,
+		direction: MessageHistoryDirection,
+		peerId: string,
+		amend: (entry: MessageHistoryEntry) => {
+			messageData: Record<string, unknown>;
+			column: "edited_at" | "deleted_at";
+			at: number;
+		} | null,
+	): boolean {
+		const tx = this.db.transaction(() => {
+			const entry = this.getMessageHistoryEntry(messageId, direction);
+			if (
+				!entry ||
+				entry.peer_id !== peerId ||
+				entry.deleted_at !== null ||
+				entry.message_data === null
+			) {
+				return false;
+			}
+			const change = amend(entry);
+			if (!change) {
+				return false;
+			}
+			const data = JSON.stringify(change.messageData);
+			this.db
+				.prepare(
+					`UPDATE message_history SET message_data = ?, ${change.column} = ?, updated_at = ?
+         WHERE message_id = ? AND direction = ?`,
+				)
+				.run(data, change.at, Date.now(), messageId, direction);
+			if (direction === "inbound") {
+				this.db
+					.prepare(
+						`UPDATE processed_messages SET message_data = ? WHERE message_id = ?`,
+					)
+					.run(data, messageId);
+			}
+			this.removeFromMessageSearch(messageId, direction);
+			const preview =
+				change.column === "deleted_at"
+					? null
+					: this.conversationPreview(change.messageData.payload);
+			if (
+				preview !== null ||
+				change.column === "deleted_at" ||
+				!this.conversationPreviewsEnabled
+			) {
+				this.setConversationPreview(messageId, preview);
+			}
+			if (change.column === "edited_at") {
+				this.indexMessageText(
+					messageId,
+					direction,
+					peerId,
+					change.messageData.payload,
+					entry.created_at,
+				);
+			}
+			return true;
+		});
+		return tx();
+	}
+
+	private parseMessageData(
+		entry: MessageHistoryEntry,
+	): Record<string, unknown> {
+		try {
+			return entry.message_data ? JSON.parse(entry.message_data) : {};
+		} catch {
+			return {};
+		}
+	}
+
+	/**
+	 * Replace the stored copy of a received message, e.g. with its decrypted
+	 * payload
+	 */
+	updateIncomingMessageData(
+		messageId: string,
+		messageData: Record<string, unknown>,
+	): void {
+		const data = JSON.stringify(messageData);
+		const tx = this.db.transaction(() => {
+			this.db
+				.prepare(
+					`UPDATE processed_messages SET message_data = ? WHERE message_id = ?`,
+				)
+				.run(data, messageId);
+			this.db
+				.prepare(
+					`UPDATE message_history SET message_data = ?, updated_at = ?
+         WHERE message_id = ? AND direction = 'inbound'`,
+				)
+				.run(data, Date.now(), messageId);
+			const entry = this.getMessageHistoryEntry(messageId, "inbound");
+			if (entry && messageData.type === "data") {
+				this.indexMessageText(
+					messageId,
+					"inbound",
+					entry.peer_id,
+					messageData.payload,
+					entry.created_at,
+				);
+			}
+		});
+		tx();
+	}
+
+	// Peer Reputation Methods
+	getPeerReputation(peerId: string): PeerReputationEntry | null {
+		const row = this.db
+			.prepare(`SELECT * FROM peer_reputation WHERE peer_id = ?`)
+			.get(peerId);
+		return (row as PeerReputationEntry | undefined) ?? null;
+	}
+
+	getPeerReputations(): PeerReputationEntry[] {
+		return this.db
+			.prepare(`SELECT * FROM peer_reputation`)
+			.all() as PeerReputationEntry[];
+	}
+
+	/**
+	 * Store a batch of adjusted scores in one transaction and log why each
+	 * changed. Only the latest REPUTATION_LOG_LIMIT log entries are kept per
+	 * peer.
+	 */
+	recordPeerReputations(adjustments: PeerReputationAdjustment[]): void {
+		const upsert = this.db.prepare(
+			`INSERT INTO peer_reputation (peer_id, score, updated_at)
+       VALUES (?, ?, ?)
+       ON CONFLICT(peer_id) DO UPDATE SET
+         score = excluded.score,
+         updated_at = excluded.updated_at`,
+		);
+		const log = this.db.prepare(
+			`INSERT INTO peer_reputation_log (peer_id, delta, score, reason, created_at)
+       VALUES (?, ?, ?, ?, ?)`,
+		);
+		const prune = this.db.prepare(
+			`DELETE FROM peer_reputation_log
+       WHERE peer_id = ? AND id NOT IN (
+         SELECT id FROM peer_reputation_log
+         WHERE peer_id = ?
+         ORDER BY id DESC
+         LIMIT ?
+       )`,
+		);
+		const tx = this.db.transaction(() => {
+			const peers = new Set<string>();
+			for (const { peerId, score, delta, reason, at } of adjustments) {
+				upsert.run(peerId, score, at);
+				log.run(peerId, delta, score, reason, at);
+				peers.add(peerId);
+			}
+			for (const peerId of peers) {
+				prune.run(peerId, peerId, REPUTATION_LOG_LIMIT);
+			}
+		});
+		tx();
+	}
+
+	getPeerReputationLog(peerId: string, limit = 20): PeerReputationLogEntry[] {
+		return this.db
+			.prepare(
+				`SELECT * FROM peer_reputation_log
+         WHERE peer_id = ?
+         ORDER BY id DESC
+         LIMIT ?`,
+			)
+			.all(peerId, limit) as PeerReputationLogEntry[];
+	}
+
+	// Message Request Methods
+	/**
+	 * Messages from peers outside the contact list land as requests, unless
+	 * they are sent to a group we know the sender belongs to; once a sender's
+	 * requests are ignored, later messages stay ignored.
+	 */
+	private inboundHistoryStatus(payload: PersistIncomingMessageInput): string {
+		const groupId = payload.messageData.groupId;
+		if (
+			payload.messageData.type !== "data" ||
+			(typeof groupId === "string" &&
+				this.isGroupMember(groupId, payload.fromPeerId)) ||
+			this.getContact(payload.fromPeerId)
+		) {
+			return "received";
+		}
+		const ignored = this.db
+			.prepare(
+				`SELECT 1 FROM message_history
+         WHERE peer_id = ? AND direction = 'inbound' AND status = 'ignored'
+         LIMIT 1`,
+			)
+			.get(payload.fromPeerId);
+		return ignored ? "ignored" : "request";
+	}
+
+	getMessageRequests(): MessageRequestSummary[] {
+		return this.db
+			.prepare(
+				`SELECT peer_id,
+                COUNT(*) AS message_count,
+                MIN(created_at) AS first_received_at,
+                MAX(created_at) AS last_received_at
+         FROM message_history
+         WHERE direction = 'inbound' AND status = 'request'
+         GROUP BY peer_id
+         ORDER BY last_received_at DESC`,
+			)
+			.all() as MessageRequestSummary[];
+	}
+
+	/**
+	 * Move a peer's pending or ignored requests into the regular inbox;
+	 * returns how many messages moved.
+	 */
+	acceptMessageRequests(peerId: string): number {
+		const tx = this.db.transaction(() => {
+			const accepted = this.db
+				.prepare(
+					`SELECT * FROM message_history
+           WHERE peer_id = ? AND direction = 'inbound' AND status IN ('request', 'ignored')
+           ORDER BY created_at ASC`,
+				)
+				.all(peerId) as MessageHistoryEntry[];
+			this.db
+				.prepare(
+					`UPDATE message_history SET status = 'received', updated_at = ?
+           WHERE peer_id = ? AND direction = 'inbound' AND status IN ('request', 'ignored')`,
+				)
+				.run(Date.now(), peerId);
+			for (const entry of accepted) {
+				const { payload } = this.parseMessageData(entry);
+				if (isFileTransferPayload(payload)) {
+					continue;
+				}
+				this.upsertConversation(
+					{
+						messageId: entry.message_id,
+						direction: "inbound",
+						peerId,
+						groupId: entry.group_id ?? undefined,
+						payload,
+						at: entry.created_at,
+					},
+					entry.read_at === null,
+				);
+			}
+			return accepted.length;
+		});
+		return tx();
+	}
+
+	ignoreMessageRequests(peerId: string): number {
+		return this.db
+			.prepare(
+				`UPDATE message_history SET status = 'ignored', updated_at = ?
+         WHERE peer_id = ? AND direction = 'inbound' AND status = 'request'`,
+			)
+			.run(Date.now(), peerId).changes;
+	}
+
+	// Conversation Methods
+	/**
+	 * Update the conversation a sent or received message belongs to: its
+	 * group, or the peer for direct messages. Received messages count as
+	 * unread; messages held as requests are left out until accepted.
+	 */
+	recordConversationMessage(input: ConversationMessageInput): void {
+		if (input.direction === "inbound") {
+			const entry = this.getMessageHistoryEntry(input.messageId, "inbound");
+			if (entry && entry.status !== "received") {
+				return;
+			}
+		}
+		this.upsertConversation(input, input.direction === "inbound");
+	}
+
+	private upsertConversation(
+		input: ConversationMessageInput,
+		unread: boolean,
+	): void {
+		const at = input.at ?? Date.now();
+		this.db
+			.prepare(
+				`INSERT INTO conversations (
+           conversation_id, kind, peer_id, group_id, last_message_id,
+           last_message_preview, last_message_at, last_direction, unread_count, updated_at
+         )
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT(conversation_id) DO UPDATE SET
+           last_message_id = CASE WHEN excluded.last_message_at >= COALESCE(last_message_at, 0)
+             THEN excluded.last_message_id ELSE last_message_id END,
+           last_message_preview = CASE WHEN excluded.last_message_at >= COALESCE(last_message_at, 0)
+             THEN excluded.last_message_preview ELSE last_message_preview END,
+           last_direction = CASE WHEN excluded.last_message_at >= COALESCE(last_message_at, 0)
+             THEN excluded.last_direction ELSE last_direction END,
+           last_message_at = MAX(excluded.last_message_at, COALESCE(last_message_at, 0)),
+           unread_count = unread_count + excluded.unread_count,
+           updated_at = excluded.updated_at`,
+			)
+			.run(
+				conversationIdFor(input.peerId, input.groupId),
+				input.groupId ? "group" : "direct",
+				input.groupId ? null : input.peerId,
+				input.groupId ?? null,
+				input.messageId,
+				this.conversationPreview(input.payload),
+				at,
+				input.direction,
+				unread ? 1 : 0,
+				Date.now(),
+			);
+	}
+
+	/**
+	 * Set the preview of the conversation whose last message this is, e.g.
+	 * once a received message has been decrypted
+	 */
+	setConversationPreview(messageId: string, preview: string | null): void {
+		this.db
+			.prepare(
+				`UPDATE conversations SET last_message_preview = ?, updated_at = ?
+         WHERE last_message_id = ?`,
+			)
+			.run(preview, Date.now(), messageId);
+	}
+
+	updateConversationPreview(messageId: string, payload: unknown): void {
+		const preview = this.conversationPreview(payload);
+		if (preview !== null) {
+			this.setConversationPreview(messageId, preview);
+		}
+	}
+
+	private conversationPreview(payload: unknown): string | null {
+		return this.conversationPreviewsEnabled
+			? conversationPreview(payload)
+			: null;
+	}
+
+	/**
+	 * Turn conversation previews on or off. Previews hold decrypted text, so
+	 * they can be disabled independently of the message search index.
+	 */
+	setConversationPreviewsEnabled(enabled: boolean): void {
+		this.conversationPreviewsEnabled = enabled;
+	}
+
+	/**
+	 * Drop every stored conversation preview. Returns the number of
+	 * conversations that had one.
+	 */
+	clearConversationPreviews(): number {
+		return this.db
+			.prepare(
+				`UPDATE conversations SET last_message_preview = NULL
+         WHERE last_message_preview IS NOT NULL`,
+			)
+			.run().changes;
+	}
+
+	getConversation(conversationId: string): ConversationEntry | null {
+		const row = this.db
+			.prepare(`SELECT * FROM conversations WHERE conversation_id = ?`)
+			.get(conversationId) as ConversationRow | undefined;
+		return row ? toConversationEntry(row) : null;
+	}
+
+	/**
+	 * Conversations with pinned ones first, then by latest message.
+	 * Archived conversations are only listed when asked for.
+	 */
+	getConversations(
+		options: { archived?: boolean; limit?: number; offset?: number } = {},
+	): ConversationEntry[] {
+		const limit = Math.max(1, Math.min(options.limit ?? 100, 500));
+		const offset = Math.max(0, options.offset ?? 0);
+		const rows = this.db
+			.prepare(
+				`SELECT * FROM conversations
+         WHERE archived = ?
+         ORDER BY pinned DESC, COALESCE(last_message_at, updated_at) DESC
+         LIMIT ?
+         OFFSET ?`,
+			)
+			.all(options.archived ? 1 : 0, limit, offset) as ConversationRow[];
+		return rows.map(toConversationEntry);
+	}
+
+	/** Received messages in a conversation that have not been read yet */
+	getUnreadConversationMessages(conversationId: string): MessageHistoryEntry[] {
+		return this.db
+			.prepare(
+				`SELECT * FROM message_history
+         WHERE direction = 'inbound' AND status = 'received' AND read_at IS NULL
+           AND ${HISTORY_CONVERSATION_ID} = ?
+         ORDER BY created_at ASC`,
+			)
+			.all(conversationId) as MessageHistoryEntry[];
+	}
+
+	/**
+	 * Move a conversation's read marker to its last message and clear the
+	 * unread count
+	 */
+	markConversationRead(
+		conversationId: string,
+		readAt = Date.now(),
+	): ConversationEntry | null {
+		this.db
+			.prepare(
+				`UPDATE conversations
+         SET unread_count = 0, last_read_message_id = last_message_id,
+             last_read_at = ?, updated_at = ?
+         WHERE conversation_id = ?`,
+			)
+			.run(readAt, Date.now(), conversationId);
+		return this.getConversation(conversationId);
+	}
+
+	updateConversationFlags(
+		conversationId: string,
+		flags: ConversationFlags,
+	): ConversationEntry | null {
+		const conversation = this.getConversation(conversationId);
+		if (!conversation) {
+			return null;
+		}
+		const next = { ...conversation, ...flags };
+		this.db
+			.prepare(
+				`UPDATE conversations SET muted = ?, archived = ?, pinned = ?, expire_after_ms = ?, updated_at = ?
+         WHERE conversation_id = ?`,
+			)
+			.run(
+				next.muted ? 1 : 0,
+				next.archived ? 1 : 0,
+				next.pinned ? 1 : 0,
+				next.expire_after_ms,
+				Date.now(),
+				conversationId,
+			);
+		return this.getConversation(conversationId);
+	}
+
+	// Block List Methods
+	blockPeer(peerId: string, reason?: string): BlockedPeerEntry {
+		const entry: BlockedPeerEntry = {
+			peer_id: peerId,
+			reason: reason ?? null,
+			blocked_at: Date.now(),
+		};
+		this.db
+			.prepare(
+				`INSERT INTO blocked_peers (peer_id, reason, blocked_at)
+         VALUES (?, ?, ?)
+         ON CONFLICT(peer_id) DO UPDATE SET reason = excluded.reason`,
+			)
+			.run(entry.peer_id, entry.reason, entry.blocked_at);
+		return this.getBlockedPeer(peerId) ?? entry;
+	}
+
+	unblockPeer(peerId: string): boolean {
+		return (
+			this.db.prepare(`DELETE FROM blocked_peers WHERE peer_id = ?`).run(peerId)
+				.changes > 0
+		);
+	}
+
+	getBlockedPeer(peerId: string): BlockedPeerEntry | null {
+		const row = this.db
+			.prepare(`SELECT * FROM blocked_peers WHERE peer_id = ?`)
+			.get(peerId) as BlockedPeerEntry | undefined;
+		return row ?? null;
+	}
+
+	isPeerBlocked(peerId: string): boolean {
+		return (
+			this.db
+				.prepare(`SELECT 1 FROM blocked_peers WHERE peer_id = ?`)
+				.get(peerId) !== undefined
+		);
+	}
+
+	getBlockedPeers(): BlockedPeerEntry[] {
+		return this.db
+			.prepare(`SELECT * FROM blocked_peers ORDER BY blocked_at DESC`)
+			.all() as BlockedPeerEntry[];
+	}
+
+	// Group Methods
+	createGroup(groupId: string, name: string, ownerPeerId: string): GroupEntry {
+		const now = Date.now();
+		this.db
+			.prepare(
+				`INSERT INTO groups (group_id, name, owner_peer_id, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?)`,
+			)
+			.run(groupId, name, ownerPeerId, now, now);
+		return {
+			group_id: groupId,
+			name,
+			owner_peer_id: ownerPeerId,
+			created_at: now,
+			updated_at: now,
+		};
+	}
+
+	getGroup(groupId: string): GroupEntry | null {
+		const result = this.db
+			.prepare(`SELECT * FROM groups WHERE group_id = ?`)
+			.get(groupId);
+		return (result as GroupEntry) ?? null;
+	}
+
+	getAllGroups(): GroupEntry[] {
+		return this.db
+			.prepare(`SELECT * FROM groups ORDER BY created_at ASC`)
+			.all() as GroupEntry[];
+	}
+
+	deleteGroup(groupId: string): number {
+		const tx = this.db.transaction((id: string): number => {
+			this.db.prepare(`DELETE FROM group_members WHERE group_id = ?`).run(id);
+			this.db
+				.prepare(`DELETE FROM conversations WHERE conversation_id = ?`)
+				.run(`group:${id}`);
+			return this.db.prepare(`DELETE FROM groups WHERE group_id = ?`).run(id)
+				.changes;
+		});
+		return tx(groupId);
+	}
+
+	addGroupMember(groupId: string, peerId: string): void {
+		const now = Date.now();
+		this.db
+			.prepare(
+				`INSERT INTO group_members (group_id, peer_id, added_at)
+         VALUES (?, ?, ?)
+         ON CONFLICT(group_id, peer_id) DO NOTHING`,
+			)
+			.run(groupId, peerId, now);
+		this.db
+			.prepare(`UPDATE groups SET updated_at = ? WHERE group_id = ?`)
+			.run(now, groupId);
+	}
+
+	removeGroupMember(groupId: string, peerId: string): number {
+		const removed = this.db
+			.prepare(`DELETE FROM group_members WHERE group_id = ? AND peer_id = ?`)
+			.run(groupId, peerId).changes;
+		if (removed > 0) {
+			this.db
+				.prepare(`UPDATE groups SET updated_at = ? WHERE group_id = ?`)
+				.run(Date.now(), groupId);
+		}
+		return removed;
+	}
+
+	isGroupMember(groupId: string, peerId: string): boolean {
+		const row = this.db
+			.prepare(
+				`SELECT 1 FROM groups WHERE group_id = ? AND owner_peer_id = ?
+         UNION ALL
+         SELECT 1 FROM group_members WHERE group_id = ? AND peer_id = ?
+         LIMIT 1`,
+			)
+			.get(groupId, peerId, groupId, peerId);
+		return row !== undefined;
+	}
+
+	getGroupMembers(groupId: string): GroupMemberEntry[] {
+		return this.db
+			.prepare(
+				`SELECT * FROM group_members WHERE group_id = ? ORDER BY added_at ASC`,
+			)
+			.all(groupId) as GroupMemberEntry[];
+	}
+
+	// File Transfer Methods
+	saveFileTransfer(
+		entry: Omit<FileTransferEntry, "status" | "created_at" | "updated_at">,
+	): void {
+		const now = Date.now();
+		this.db
+			.prepare(
+				`INSERT INTO file_transfers
+         (file_id, direction, peer_id, file_name, mime_type, size, chunk_size, chunk_hashes, file_hash, manifest_hash, file_key, status, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'in-progress', ?, ?)
+         ON CONFLICT(file_id, direction) DO NOTHING`,
+			)
+			.run(
+				entry.file_id,
+				entry.direction,
+				entry.peer_id,
+				entry.file_name,
+				entry.mime_type,
+				entry.size,
+				entry.chunk_size,
+				JSON.stringify(entry.chunk_hashes),
+				entry.file_hash,
+				entry.manifest_hash,
+				entry.file_key,
+				now,
+				now,
+			);
+	}
+
+	saveFileTransferWithChunks(
+		entry: Omit<FileTransferEntry, "status" | "created_at" | "updated_at">,
+		chunks: Array<{ hash: string; data: Buffer }>,
+	): void {
+		const tx = this.db.transaction(() => {
+			this.saveFileTransfer(entry);
+			chunks.forEach((chunk, index) => {
+				this.saveFileChunk(
+					entry.file_id,
+					entry.direction,
+					index,
+					chunk.hash,
+					chunk.data,
+				);
+			});
+		});
+		tx();
+	}
+
+	getFileTransfer(
+		fileId: string,
+		direction: FileTransferDirection,
+	): FileTransferEntry | null {
+		const row = this.db
+			.prepare(
+				`SELECT * FROM file_transfers WHERE file_id = ? AND direction = ?`,
+			)
+			.get(fileId, direction) as FileTransferRow | undefined;
+		return row ? { ...row, chunk_hashes: JSON.parse(row.chunk_hashes) } : null;
+	}
+
+	getInProgressFileTransfers(
+		peerId: string,
+		direction: FileTransferDirection,
+	): FileTransferEntry[] {
+		const rows = this.db
+			.prepare(
+				`SELECT * FROM file_transfers
+         WHERE peer_id = ? AND direction = ? AND status = 'in-progress'
+         ORDER BY created_at ASC`,
+			)
+			.all(peerId, direction) as FileTransferRow[];
+		return rows.map((row) => ({
+			...row,
+			chunk_hashes: JSON.parse(row.chunk_hashes),
+		}));
+	}
+
+	updateFileTransferStatus(
+		fileId: string,
+		direction: FileTransferDirection,
+		status: FileTransferEntry["status"],
+	): void {
+		this.db
+			.prepare(
+				`UPDATE file_transfers SET status = ?, updated_at = ?
+         WHERE file_id = ? AND direction = ?`,
+			)
+			.run(status, Date.now(), fileId, direction);
+	}
+
+	saveFileChunk(
+		fileId: string,
+		direction: FileTransferDirection,
+		chunkIndex: number,
+		chunkHash: string,
+		data: Buffer,
+	): void {
+		this.db
+			.prepare(
+				`INSERT INTO file_chunks (file_id, direction, chunk_index, chunk_hash, data, created_at)
+         VALUES (?, ?, ?, ?, ?, ?)
+         ON CONFLICT(file_id, direction, chunk_index) DO UPDATE SET
+           chunk_hash = excluded.chunk_hash,
+           data = excluded.data`,
+			)
+			.run(fileId, direction, chunkIndex, chunkHash, data, Date.now());
+	}
+
+	getFileChunk(
+		fileId: string,
+		direction: FileTransferDirection,
+		chunkIndex: number,
+	): FileChunkEntry | null {
+		const result = this.db
+			.prepare(
+				`SELECT * FROM file_chunks
+         WHERE file_id = ? AND direction = ? AND chunk_index = ?`,
+			)
+			.get(fileId, direction, chunkIndex);
+		return (result as FileChunkEntry) ?? null;
+	}
+
+	getFileChunks(
+		fileId: string,
+		direction: FileTransferDirection,
+	): FileChunkEntry[] {
+		return this.db
+			.prepare(
+				`SELECT * FROM file_chunks
+         WHERE file_id = ? AND direction = ?
+         ORDER BY chunk_index ASC`,
+			)
+			.all(fileId, direction) as FileChunkEntry[];
+	}
+
+	getStoredFileChunkIndexes(
+		fileId: string,
+		direction: FileTransferDirection,
+	): number[] {
+		const rows = this.db
+			.prepare(
+				`SELECT chunk_index FROM file_chunks
+         WHERE file_id = ? AND direction = ?
+         ORDER BY chunk_index ASC`,
+			)
+			.all(fileId, direction) as Array<{ chunk_index: number }>;
+		return rows.map((row) => row.chunk_index);
+	}
+
+	// API Token Methods
+	createApiToken(
+		tokenId: string,
+		name: string,
+		tokenHash: string,
+		scopes: string[],
+	): ApiTokenEntry {
+		const now = Date.now();
+		this.db
+			.prepare(
+				`INSERT INTO api_tokens (token_id, name, token_hash, scopes, created_at)
+         VALUES (?, ?, ?, ?, ?)`,
+			)
+			.run(tokenId, name, tokenHash, JSON.stringify(scopes), now);
+		return {
+			token_id: tokenId,
+			name,
+			token_hash: tokenHash,
+			scopes,
+			created_at: now,
+			last_used_at: null,
+			revoked_at: null,
+		};
+	}
+
+	getActiveApiTokenByHash(tokenHash: string): ApiTokenEntry | null {
+		const row = this.db
+			.prepare(
+				`SELECT * FROM api_tokens WHERE token_hash = ? AND revoked_at IS NULL`,
+			)
+			.get(tokenHash) as ApiTokenRow | undefined;
+		return row ? { ...row, scopes: JSON.parse(row.scopes) } : null;
+	}
+
+	getApiTokens(): ApiTokenEntry[] {
+		const rows = this.db
+			.prepare(`SELECT * FROM api_tokens ORDER BY created_at ASC`)
+			.all() as ApiTokenRow[];
+		return rows.map((row) => ({ ...row, scopes: JSON.parse(row.scopes) }));
+	}
+
+	/**
+	 * Whether any token was ever issued, revoked ones included, so revoking
+	 * the last token locks the API rather than reopening it
+	 */
+	hasIssuedApiTokens(): boolean {
+		const row = this.db.prepare(`SELECT 1 FROM api_tokens LIMIT 1`).get();
+		return row !== undefined;
+	}
+
+	touchApiToken(tokenId: string): void {
+		this.db
+			.prepare(`UPDATE api_tokens SET last_used_at = ? WHERE token_id = ?`)
+			.run(Date.now(), tokenId);
+	}
+
+	revokeApiToken(tokenId: string): number {
+		const result = this.db
+			.prepare(
+				`UPDATE api_tokens SET revoked_at = ?
+         WHERE token_id = ? AND revoked_at IS NULL`,
+			)
+			.run(Date.now(), tokenId);
+		return result.changes;
+	}
+
 	// Peer Metadata Methods
 	savePeerMetadata(
 		peerId: string,
@@ -1235,6 +2960,55 @@ export class DatabaseManager {
 		return results.map((r) => ({ key: r.key, value: JSON.parse(r.value) }));
 	}
 
+	// Statistics Methods
+	getTableRowCounts(): Record<string, number> {
+		const counts: Record<string, number> = {};
+		for (const table of Object.keys(yapyapSchema)) {
+			if (table === "indexes") continue;
+			const row = this.db
+				.prepare(`SELECT COUNT(*) AS count FROM ${table}`)
+				.get() as { count: number };
+			counts[table] = row.count;
+		}
+		return counts;
+	}
+
+	getDatabaseSizeBytes(): number {
+		const pageCount = this.db.pragma("page_count", { simple: true }) as number;
+		const pageSize = this.db.pragma("page_size", { simple: true }) as number;
+		return pageCount * pageSize;
+	}
+
+	/** Rows reported by `PRAGMA integrity_check`; `["ok"]` when sound */
+	checkIntegrity(): string[] {
+		return (
+			this.db.pragma("integrity_check") as Array<{ integrity_check: string }>
+		).map((row) => row.integrity_check);
+	}
+
+	/** Queue sizes by status and when the oldest undelivered message was queued */
+	getPendingBacklog(): PendingBacklog {
+		const rows = this.db
+			.prepare(
+				`SELECT status, COUNT(*) AS count, MIN(created_at) AS oldest
+         FROM pending_messages
+         GROUP BY status`,
+			)
+			.all() as Array<{ status: string; count: number; oldest: number }>;
+		const counts: Record<string, number> = {};
+		let oldestPendingAt: number | null = null;
+		for (const row of rows) {
+			counts[row.status] = row.count;
+			if (
+				(row.status === "pending" || row.status === "processing") &&
+				(oldestPendingAt === null || row.oldest < oldestPendingAt)
+			) {
+				oldestPendingAt = row.oldest;
+			}
+		}
+		return { counts, oldestPendingAt };
+	}
+
 	// Search Methods
 	searchContacts(query: string): Contact[] {
 		const results = this.db
@@ -1247,6 +3021,93 @@ export class DatabaseManager {
 		return results as Contact[];
 	}
 
+	/**
+	 * Opt in to (or out of) indexing message bodies. While disabled new
+	 * messages are not indexed; the existing index is kept until
+	 * clearMessageSearchIndex is called.
+	 */
+	setMessageSearchEnabled(enabled: boolean): void {
+		this.messageSearchEnabled = enabled;
+	}
+
+	/**
+	 * Drop every indexed message body. Returns the number of index entries
+	 * removed.
+	 */
+	clearMessageSearchIndex(): number {
+		return this.db.prepare(`DELETE FROM message_search`).run().changes;
+	}
+
+	isMessageSearchEnabled(): boolean {
+		return this.messageSearchEnabled;
+	}
+
+	/**
+	 * Index the text of a plaintext message payload; encrypted or non-text
+	 * payloads are skipped. A no-op unless message search is enabled.
+	 */
+	indexMessageText(
+		messageId: string,
+		direction: MessageHistoryDirection,
+		peerId: string,
+		payload: unknown,
+		createdAt: number,
+	): void {
+		const body = this.messageSearchEnabled ? extractMessageText(payload) : null;
+		if (!body) {
+			return;
+		}
+		this.removeFromMessageSearch(messageId, direction);
+		this.db
+			.prepare(
+				`INSERT INTO message_search (message_id, direction, peer_id, created_at, body)
+         VALUES (?, ?, ?, ?, ?)`,
+			)
+			.run(messageId, direction, peerId, createdAt, body);
+	}
+
+	searchMessages(options: {
+		query: string;
+		peerId?: string;
+		since?: number;
+		limit?: number;
+		highlight?: [string, string];
+	}): MessageSearchResult[] {
+		const [open, close] = options.highlight ?? ["<mark>", "</mark>"];
+		return this.db
+			.prepare(
+				`SELECT message_id, direction, peer_id, created_at,
+           snippet(message_search, 4, ?, ?, '…', 12) AS snippet
+         FROM message_search
+         WHERE message_search MATCH ?
+           AND (? IS NULL OR peer_id = ?)
+           AND (? IS NULL OR created_at >= ?)
+         ORDER BY rank
+         LIMIT ?`,
+			)
+			.all(
+				open,
+				close,
+				this.buildSearchQuery(options.query),
+				options.peerId ?? null,
+				options.peerId ?? null,
+				options.since ?? null,
+				options.since ?? null,
+				options.limit ?? 50,
+			) as MessageSearchResult[];
+	}
+
+	private removeFromMessageSearch(
+		messageId: string,
+		direction: MessageHistoryDirection,
+	): void {
+		this.db
+			.prepare(
+				`DELETE FROM message_search WHERE message_id = ? AND direction = ?`,
+			)
+			.run(messageId, direction);
+	}
+
 	private upsertContactSearchIndex(contact: Contact): void {
 		this.db
 			.prepare(`DELETE FROM search_index WHERE peer_id = ?`)
@@ -1306,14 +3167,14 @@ export class DatabaseManager {
 		this.db
 			.prepare(`
       INSERT OR REPLACE INTO sessions
-      (id, peer_id, public_key, private_key, created_at, expires_at, last_used, is_active, noise_session_info)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      (id, peer_id, public_key, private_key, created_at, expires_at, last_used, is_active, noise_session_info, ratchet_state)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `)
 			.run(
 				session.id,
 				session.peer_id,
 				session.public_key,
-				session.private_key,
+				this.sealSecret(session.private_key),
 				now,
 				session.expires_at,
 				now,
@@ -1321,6 +3182,7 @@ export class DatabaseManager {
 				session.noise_session_info
 					? JSON.stringify(session.noise_session_info)
 					: null,
+				session.ratchet_state ? this.sealSecret(session.ratchet_state) : null,
 			);
 	}
 
@@ -1334,7 +3196,7 @@ export class DatabaseManager {
 			id: row.id,
 			peer_id: row.peer_id,
 			public_key: row.public_key,
-			private_key: row.private_key,
+			private_key: this.openSecret(row.private_key),
 			created_at: row.created_at ?? 0,
 			expires_at: row.expires_at ?? 0,
 			last_used: row.last_used ?? 0,
@@ -1342,6 +3204,9 @@ export class DatabaseManager {
 			noise_session_info: row.noise_session_info
 				? JSON.parse(row.noise_session_info)
 				: undefined,
+			ratchet_state: row.ratchet_state
+				? this.openSecret(row.ratchet_state)
+				: undefined,
 		};
 	}
 
@@ -1353,7 +3218,7 @@ export class DatabaseManager {
 			id: row.id,
 			peer_id: row.peer_id,
 			public_key: row.public_key,
-			private_key: row.private_key,
+			private_key: this.openSecret(row.private_key),
 			created_at: row.created_at ?? 0,
 			expires_at: row.expires_at ?? 0,
 			last_used: row.last_used ?? 0,
@@ -1361,6 +3226,9 @@ export class DatabaseManager {
 			noise_session_info: row.noise_session_info
 				? JSON.parse(row.noise_session_info)
 				: undefined,
+			ratchet_state: row.ratchet_state
+				? this.openSecret(row.ratchet_state)
+				: undefined,
 		}));
 	}
 
@@ -1388,12 +3256,13 @@ export class DatabaseManager {
 	}
 
 	// Cleanup methods
-	cleanup(): void {
+	cleanup(options: { processedMessageMaxAgeMs?: number } = {}): void {
 		this.deleteStaleRoutingEntries();
 		this.deleteExpiredPendingMessages();
 		this.deleteExpiredReplicatedMessages();
 		this.deleteExpiredSessions();
 		this.deleteExpiredPeerMetadata();
-		this.deleteOldProcessedMessages();
+		this.deleteOldProcessedMessages(options.processedMessageMaxAgeMs);
+		this.deleteOldMessageEvents(options.processedMessageMaxAgeMs);
 	}
 }
@@ -0,0 +1,146 @@
+import assert from "node:assert";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, test } from "node:test";
+import Database from "better-sqlite3";
+import { DatabaseManager } from "./index.js";
+import { isSealed } from "./keystore.js";
+
+describe("DatabaseManager keystore", () => {
+	let tempDir: string;
+
+	const rawPrivateKeys = () => {
+		const raw = new Database(join(tempDir, "yapyap.db"), { readonly: true });
+		try {
+			return [
+				...raw.prepare("SELECT private_key FROM node_keys").all(),
+				...raw.prepare("SELECT private_key FROM encryption_keys").all(),
+				...raw.prepare("SELECT private_key FROM sessions").all(),
+			].map((row) => (row as { private_key: string }).private_key);
+		} finally {
+			raw.close();
+		}
+	};
+
+	const saveSecrets = (db: DatabaseManager) => {
+		db.saveNodeKey("node-pub", "node-secret");
+		db.saveEncryptionKey("enc-pub", "enc-secret");
+		db.saveSession({
+			id: "session-1",
+			peer_id: "peer-1",
+			public_key: "session-pub",
+			private_key: "session-secret",
+			expires_at: Date.now() + 60_000,
+			last_used: Date.now(),
+			is_active: true,
+		});
+	};
+
+	beforeEach(() => {
+		tempDir = mkdtempSync(join(tmpdir(), "yapyap-keystore-"));
+	});
+
+	afterEach(() => {
+		rmSync(tempDir, { recursive: true, force: true });
+	});
+
+	test("seals private keys and reads them back with the passphrase", () => {
+		const db = new DatabaseManager({ dataDir: tempDir, passphrase: "hunter2" });
+		saveSecrets(db);
+		assert.strictEqual(db.getCurrentNodeKey()?.private_key, "node-secret");
+		db.close();
+
+		assert.ok(rawPrivateKeys().every(isSealed));
+
+		const reopened = new DatabaseManager({
+			dataDir: tempDir,
+			passphrase: "hunter2",
+		});
+		try {
+			assert.strictEqual(
+				reopened.getNodeKey("node-pub")?.private_key,
+				"node-secret",
+			);
+			assert.deepStrictEqual(
+				reopened.getAllNodeKeys().map((key) => key.private_key),
+				["node-secret"],
+			);
+			assert.strictEqual(
+				reopened.getEncryptionKey()?.private_key,
+				"enc-secret",
+			);
+			assert.strictEqual(
+				reopened.getSession("session-1")?.private_key,
+				"session-secret",
+			);
+		} finally {
+			reopened.close();
+		}
+	});
+
+	test("rejects a wrong passphrase and refuses reads while locked", () => {
+		const db = new DatabaseManager({ dataDir: tempDir, passphrase: "hunter2" });
+		saveSecrets(db);
+		db.close();
+
+		assert.throws(
+			() => new DatabaseManager({ dataDir: tempDir, passphrase: "wrong" }),
+			/Invalid keystore passphrase/,
+		);
+
+		const locked = new DatabaseManager({ dataDir: tempDir });
+		try {
+			assert.ok(locked.isKeystoreLocked());
+			assert.throws(() => locked.getCurrentNodeKey(), /Keystore is locked/);
+			assert.throws(
+				() => locked.saveNodeKey("other-pub", "other-secret"),
+				/Keystore is locked/,
+			);
+			locked.unlock("hunter2");
+			assert.strictEqual(
+				locked.getCurrentNodeKey()?.private_key,
+				"node-secret",
+			);
+		} finally {
+			locked.close();
+		}
+	});
+
+	test("migrates a plaintext database and changes the passphrase", () => {
+		const plain = new DatabaseManager({ dataDir: tempDir });
+		saveSecrets(plain);
+		assert.ok(!plain.isKeystoreEnabled());
+		plain.close();
+		assert.ok(!rawPrivateKeys().some(isSealed));
+
+		const migrated = new DatabaseManager({
+			dataDir: tempDir,
+			passphrase: "first",
+		});
+		assert.ok(rawPrivateKeys().every(isSealed));
+		migrated.changePassphrase("second");
+		migrated.close();
+
+		assert.throws(
+			() => new DatabaseManager({ dataDir: tempDir, passphrase: "first" }),
+			/Invalid keystore passphrase/,
+		);
+		const reopened = new DatabaseManager({
+			dataDir: tempDir,
+			passphrase: "second",
+		});
+		try {
+			assert.strictEqual(
+				reopened.getEncryptionKey()?.private_key,
+				"enc-secret",
+			);
+			assert.strictEqual(
+				reopened.getSession("session-1")?.private_key,
+				"session-secret",
+			);
+		} finally {
+			reopened.close();
+		}
+	});
+});
@@ -0,0 +1,96 @@
+import { randomBytes } from "node:crypto";
+import {
+	decryptMessage,
+	deriveKeyFromPassword,
+	encryptMessage,
+} from "../crypto/index.js";
+
+/**
+ * Prefix marking a column value sealed with the keystore key
+ */
+const SEALED_PREFIX = "enc:v1:";
+const NONCE_BYTES = 12;
+const VERIFIER_PLAINTEXT = "yapyap-keystore";
+
+export const KEYSTORE_KDF_ITERATIONS = 600_000;
+
+/**
+ * Stored keystore parameters. The verifier is a known plaintext sealed with
+ * the derived key, used to reject a wrong passphrase before touching data.
+ */
+export interface KeystoreRecord {
+	salt: string;
+	kdf_iterations: number;
+	verifier: string;
+	created_at: number;
+	updated_at: number;
+}
+
+export function isSealed(value: string): boolean {
+	return value.startsWith(SEALED_PREFIX);
+}
+
+export function sealValue(value: string, key: Uint8Array): string {
+	const { ciphertext, nonce } = encryptMessage(Buffer.from(value, "utf8"), key);
+	return `${SEALED_PREFIX}${Buffer.concat([nonce, ciphertext]).toString("hex")}`;
+}
+
+export function openValue(value: string, key: Uint8Array): string {
+	const blob = Buffer.from(value.slice(SEALED_PREFIX.length), "hex");
+	return Buffer.from(
+		decryptMessage(
+			blob.subarray(NONCE_BYTES),
+			key,
+			blob.subarray(0, NONCE_BYTES),
+		),
+	).toString("utf8");
+}
+
+export function deriveKeystoreKey(
+	passphrase: string,
+	record: Pick<KeystoreRecord, "salt" | "kdf_iterations">,
+): Buffer {
+	return Buffer.from(
+		deriveKeyFromPassword(
+			passphrase,
+			Buffer.from(record.salt, "hex"),
+			record.kdf_iterations,
+		),
+	);
+}
+
+/**
+ * Fresh keystore parameters and key for a passphrase
+ */
+export function createKeystore(passphrase: string): {
+	record: Omit<KeystoreRecord, "created_at" | "updated_at">;
+	key: Buffer;
+} {
+	const params = {
+		salt: randomBytes(16).toString("hex"),
+		kdf_iterations: KEYSTORE_KDF_ITERATIONS,
+	};
+	const key = deriveKeystoreKey(passphrase, params);
+	return {
+		record: { ...params, verifier: sealValue(VERIFIER_PLAINTEXT, key) },
+		key,
+	};
+}
+
+/**
+ * Derive the key for a passphrase and check it against the stored verifier
+ */
+export function unlockKeystore(
+	passphrase: string,
+	record: KeystoreRecord,
+): Buffer {
+	const key = deriveKeystoreKey(passphrase, record);
+	try {
+		if (openValue(record.verifier, key) === VERIFIER_PLAINTEXT) {
+			return key;
+		}
+	} catch {
+		// Authentication failure: wrong passphrase
+	}
+	throw new Error("Invalid keystore passphrase");
+}
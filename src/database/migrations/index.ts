@@ -0,0 +1,499 @@
+import type Database from "better-sqlite3";
+import { yapyapSchema } from "../schema.js";
+
+export interface Migration {
+	version: number;
+	name: string;
+	up: (db: Database.Database) => void;
+}
+
+export interface AppliedMigration {
+	version: number;
+	name: string;
+	applied_at: number;
+}
+
+/**
+ * Add a column unless it already exists. Databases created before migration
+ * 1 was frozen got later columns from it, so these must stay no-ops there.
+ */
+function addColumn(
+	db: Database.Database,
+	table: string,
+	column: string,
+	type: string,
+): void {
+	const columns = db.prepare(`PRAGMA table_info(${table})`).all() as Array<{
+		name: string;
+	}>;
+	if (!columns.some((col) => col.name === column)) {
+		db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${type}`);
+	}
+}
+
+/**
+ * The schema as migration 1 shipped it. Later changes belong in new
+ * migrations, never here or in schema.ts alone.
+ */
+const INITIAL_SCHEMA = [
+	`
+    CREATE TABLE IF NOT EXISTS node_keys (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      public_key TEXT UNIQUE NOT NULL,
+      private_key TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    )
+  `,
+	`
+    CREATE TABLE IF NOT EXISTS encryption_keys (
+      id INTEGER PRIMARY KEY,
+      public_key TEXT UNIQUE NOT NULL,
+      private_key TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    )
+  `,
+	`
+    CREATE TABLE IF NOT EXISTS routing_cache (
+      peer_id TEXT PRIMARY KEY,
+      multiaddrs TEXT NOT NULL,
+      last_seen INTEGER NOT NULL,
+      is_available BOOLEAN NOT NULL DEFAULT 1,
+      ttl INTEGER NOT NULL
+    )
+  `,
+	`
+    CREATE TABLE IF NOT EXISTS pending_messages (
+      message_id TEXT PRIMARY KEY,
+      target_peer_id TEXT NOT NULL,
+      message_data TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending',
+      attempts INTEGER NOT NULL DEFAULT 0,
+      next_retry_at INTEGER NOT NULL,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL,
+      deadline_at INTEGER NOT NULL,
+      last_error TEXT
+    )
+  `,
+	`
+    CREATE TABLE IF NOT EXISTS replicated_messages (
+      message_id TEXT PRIMARY KEY,
+      original_target_peer_id TEXT NOT NULL,
+      source_peer_id TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending',
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL,
+      deadline_at INTEGER NOT NULL
+    )
+  `,
+	`
+    CREATE TABLE IF NOT EXISTS message_replicas (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      message_id TEXT NOT NULL,
+      replica_peer_id TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'assigned',
+      assigned_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL,
+      ack_expected INTEGER NOT NULL DEFAULT 0,
+      ack_received_at INTEGER,
+      last_error TEXT,
+      UNIQUE(message_id, replica_peer_id),
+      FOREIGN KEY(message_id) REFERENCES replicated_messages(message_id) ON DELETE CASCADE
+    )
+  `,
+	`
+    CREATE TABLE IF NOT EXISTS processed_messages (
+      message_id TEXT PRIMARY KEY,
+      from_peer_id TEXT NOT NULL,
+      to_peer_id TEXT,
+      message_data TEXT,
+      sequence_number INTEGER,
+      processed_at INTEGER NOT NULL
+    )
+  `,
+	`
+    CREATE TABLE IF NOT EXISTS peer_sequences (
+      peer_id TEXT PRIMARY KEY,
+      last_sequence INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    )
+  `,
+	`
+    CREATE TABLE IF NOT EXISTS peer_vector_clocks (
+      peer_id TEXT PRIMARY KEY,
+      counter INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    )
+  `,
+	`
+    CREATE TABLE IF NOT EXISTS contacts (
+      peer_id TEXT PRIMARY KEY,
+      alias TEXT,
+      last_seen INTEGER NOT NULL,
+      metadata TEXT,
+      is_trusted BOOLEAN NOT NULL DEFAULT 0
+    )
+  `,
+	`
+    CREATE TABLE IF NOT EXISTS message_history (
+      message_id TEXT NOT NULL,
+      direction TEXT NOT NULL,
+      peer_id TEXT NOT NULL,
+      status TEXT,
+      message_data TEXT,
+      attempts INTEGER NOT NULL DEFAULT 0,
+      next_retry_at INTEGER,
+      processed_at INTEGER,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL,
+      group_id TEXT,
+      PRIMARY KEY (message_id, direction)
+    )
+  `,
+	`
+    CREATE TABLE IF NOT EXISTS peer_metadata (
+      peer_id TEXT NOT NULL,
+      key TEXT NOT NULL,
+      value TEXT NOT NULL,
+      updated_at INTEGER NOT NULL,
+      ttl INTEGER NOT NULL DEFAULT 86400,
+      PRIMARY KEY (peer_id, key)
+    )
+  `,
+	`
+    CREATE TABLE IF NOT EXISTS sessions (
+      id TEXT PRIMARY KEY,
+      peer_id TEXT NOT NULL,
+      public_key TEXT NOT NULL,
+      private_key TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      expires_at INTEGER NOT NULL,
+      last_used INTEGER NOT NULL,
+      is_active BOOLEAN NOT NULL DEFAULT 1,
+      noise_session_info TEXT,
+      ratchet_state TEXT
+    )
+  `,
+	`
+    CREATE TABLE IF NOT EXISTS groups (
+      group_id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      owner_peer_id TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    )
+  `,
+	`
+    CREATE TABLE IF NOT EXISTS group_members (
+      group_id TEXT NOT NULL,
+      peer_id TEXT NOT NULL,
+      added_at INTEGER NOT NULL,
+      PRIMARY KEY (group_id, peer_id),
+      FOREIGN KEY(group_id) REFERENCES groups(group_id) ON DELETE CASCADE
+    )
+  `,
+	`
+    CREATE TABLE IF NOT EXISTS file_transfers (
+      file_id TEXT NOT NULL,
+      direction TEXT NOT NULL,
+      peer_id TEXT NOT NULL,
+      file_name TEXT NOT NULL,
+      mime_type TEXT NOT NULL,
+      size INTEGER NOT NULL,
+      chunk_size INTEGER NOT NULL,
+      chunk_hashes TEXT NOT NULL,
+      file_hash TEXT NOT NULL,
+      manifest_hash TEXT NOT NULL,
+      file_key TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'in-progress',
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL,
+      PRIMARY KEY (file_id, direction)
+    )
+  `,
+	`
+    CREATE TABLE IF NOT EXISTS file_chunks (
+      file_id TEXT NOT NULL,
+      direction TEXT NOT NULL,
+      chunk_index INTEGER NOT NULL,
+      chunk_hash TEXT NOT NULL,
+      data BLOB NOT NULL,
+      created_at INTEGER NOT NULL,
+      PRIMARY KEY (file_id, direction, chunk_index)
+    )
+  `,
+	`
+    CREATE TABLE IF NOT EXISTS api_tokens (
+      token_id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      token_hash TEXT UNIQUE NOT NULL,
+      scopes TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      last_used_at INTEGER,
+      revoked_at INTEGER
+    )
+  `,
+	`
+    CREATE TABLE IF NOT EXISTS keystore (
+      id INTEGER PRIMARY KEY CHECK (id = 1),
+      salt TEXT NOT NULL,
+      kdf_iterations INTEGER NOT NULL,
+      verifier TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    )
+  `,
+	`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at INTEGER NOT NULL
+    )
+  `,
+	`
+    CREATE VIRTUAL TABLE IF NOT EXISTS search_index USING fts5(
+      peer_id,
+      alias,
+      metadata
+    )
+  `,
+];
+
+/**
+ * Ordered up-migrations. Append new entries with the next version number;
+ * never edit or reorder ones that have shipped.
+ */
+export const migrations: Migration[] = [
+	{
+		version: 1,
+		name: "initial_schema",
+		up: (db) => {
+			for (const sql of INITIAL_SCHEMA) {
+				db.exec(sql);
+			}
+		},
+	},
+	{
+		version: 2,
+		name: "message_history_group_id",
+		up: (db) => addColumn(db, "message_history", "group_id", "TEXT"),
+	},
+	{
+		version: 3,
+		name: "sessions_ratchet_state",
+		up: (db) => addColumn(db, "sessions", "ratchet_state", "TEXT"),
+	},
+	{
+		version: 4,
+		name: "message_history_read_at",
+		up: (db) => addColumn(db, "message_history", "read_at", "INTEGER"),
+	},
+	{
+		version: 5,
+		name: "message_history_amendments",
+		up: (db) => {
+			addColumn(db, "message_history", "edited_at", "INTEGER");
+			addColumn(db, "message_history", "deleted_at", "INTEGER");
+		},
+	},
+	{
+		version: 6,
+		name: "message_search",
+		up: (db) =>
+			db.exec(`
+    CREATE VIRTUAL TABLE IF NOT EXISTS message_search USING fts5(
+      message_id UNINDEXED,
+      direction UNINDEXED,
+      peer_id UNINDEXED,
+      created_at UNINDEXED,
+      body
+    )
+  `),
+	},
+	{
+		version: 7,
+		name: "contacts_verification",
+		up: (db) => {
+			addColumn(db, "contacts", "verified_key", "TEXT");
+			addColumn(db, "contacts", "verified_at", "INTEGER");
+			addColumn(db, "contacts", "key_changed_at", "INTEGER");
+		},
+	},
+	{
+		version: 8,
+		name: "blocked_peers",
+		up: (db) =>
+			db.exec(`
+    CREATE TABLE IF NOT EXISTS blocked_peers (
+      peer_id TEXT PRIMARY KEY,
+      reason TEXT,
+      blocked_at INTEGER NOT NULL
+    )
+  `),
+	},
+	{
+		version: 9,
+		name: "peer_reputation",
+		up: (db) => {
+			db.exec(`
+    CREATE TABLE IF NOT EXISTS peer_reputation (
+      peer_id TEXT PRIMARY KEY,
+      score REAL NOT NULL,
+      updated_at INTEGER NOT NULL
+    )
+  `);
+			db.exec(`
+    CREATE TABLE IF NOT EXISTS peer_reputation_log (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      peer_id TEXT NOT NULL,
+      delta REAL NOT NULL,
+      score REAL NOT NULL,
+      reason TEXT NOT NULL,
+      created_at INTEGER NOT NULL
+    )
+  `);
+		},
+	},
+	{
+		version: 10,
+		name: "conversations",
+		up: (db) =>
+			db.exec(`
+    CREATE TABLE IF NOT EXISTS conversations (
+      conversation_id TEXT PRIMARY KEY,
+      kind TEXT NOT NULL,
+      peer_id TEXT,
+      group_id TEXT,
+      last_message_id TEXT,
+      last_message_preview TEXT,
+      last_message_at INTEGER,
+      last_direction TEXT,
+      unread_count INTEGER NOT NULL DEFAULT 0,
+      last_read_message_id TEXT,
+      last_read_at INTEGER,
+      muted BOOLEAN NOT NULL DEFAULT 0,
+      archived BOOLEAN NOT NULL DEFAULT 0,
+      pinned BOOLEAN NOT NULL DEFAULT 0,
+      updated_at INTEGER NOT NULL
+    )
+  `),
+	},
+	{
+		version: 11,
+		name: "message_events",
+		up: (db) =>
+			db.exec(`
+    CREATE TABLE IF NOT EXISTS message_events (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      message_id TEXT NOT NULL,
+      event TEXT NOT NULL,
+      peer_id TEXT,
+      detail TEXT,
+      created_at INTEGER NOT NULL
+    )
+  `),
+	},
+	{
+		version: 12,
+		name: "pending_messages_priority",
+		up: (db) =>
+			addColumn(
+				db,
+				"pending_messages",
+				"priority",
+				"INTEGER NOT NULL DEFAULT 0",
+			),
+	},
+	{
+		version: 13,
+		name: "disappearing_messages",
+		up: (db) => {
+			addColumn(db, "message_history", "expires_at", "INTEGER");
+			addColumn(db, "conversations", "expire_after_ms", "INTEGER");
+		},
+	},
+	{
+		version: 14,
+		name: "conversation_id_prefixes",
+		up: (db) =>
+			db.exec(`
+    UPDATE conversations
+    SET conversation_id = CASE kind
+      WHEN 'group' THEN 'group:' || group_id
+      ELSE 'peer:' || peer_id
+    END
+    WHERE conversation_id NOT LIKE 'peer:%' AND conversation_id NOT LIKE 'group:%'
+  `),
+	},
+	{
+		version: 15,
+		name: "signed_prekeys",
+		up: (db) =>
+			db.exec(`
+    CREATE TABLE IF NOT EXISTS signed_prekeys (
+      public_key TEXT PRIMARY KEY,
+      private_key TEXT NOT NULL,
+      signature TEXT NOT NULL,
+      created_at INTEGER NOT NULL
+    )
+  `),
+	},
+];
+
+export const LATEST_SCHEMA_VERSION = migrations[migrations.length - 1].version;
+
+export function getAppliedMigrations(
+	db: Database.Database,
+): AppliedMigration[] {
+	db.exec(yapyapSchema.schema_migrations);
+	return db
+		.prepare(`SELECT * FROM schema_migrations ORDER BY version ASC`)
+		.all() as AppliedMigration[];
+}
+
+export function getSchemaVersion(db: Database.Database): number {
+	const applied = getAppliedMigrations(db);
+	return applied.length > 0 ? applied[applied.length - 1].version : 0;
+}
+
+/**
+ * Migrations not yet applied, in order. Throws when the database was
+ * written by a newer binary, since its schema cannot be trusted.
+ */
+export function getPendingMigrations(
+	db: Database.Database,
+	available: Migration[] = migrations,
+): Migration[] {
+	const current = getSchemaVersion(db);
+	const latest = available[available.length - 1]?.version ?? 0;
+	if (current > latest) {
+		throw new Error(
+			`Database schema version ${current} is newer than this build supports (${latest}); upgrade yapyap`,
+		);
+	}
+	const applied = new Set(getAppliedMigrations(db).map((m) => m.version));
+	return available.filter((migration) => !applied.has(migration.version));
+}
+
+/**
+ * Apply pending migrations, each in its own transaction so a failure leaves
+ * the database at the last good version.
+ */
+export function applyMigrations(
+	db: Database.Database,
+	available: Migration[] = migrations,
+): Migration[] {
+	const pending = getPendingMigrations(db, available);
+	const record = db.prepare(
+		`INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)`,
+	);
+	for (const migration of pending) {
+		db.transaction(() => {
+			migration.up(db);
+			record.run(migration.version, migration.name, Date.now());
+		})();
+	}
+	return pending;
+}
@@ -0,0 +1,193 @@
+import assert from "node:assert";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, test } from "node:test";
+import Database from "better-sqlite3";
+import { DatabaseManager } from "../index.js";
+import { yapyapSchema } from "../schema.js";
+import {
+	applyMigrations,
+	getSchemaVersion,
+	LATEST_SCHEMA_VERSION,
+	type Migration,
+	migrations,
+} from "./index.js";
+
+describe("Schema migrations", () => {
+	let tempDir: string;
+
+	const openRaw = () => new Database(join(tempDir, "yapyap.db"));
+
+	beforeEach(() => {
+		tempDir = mkdtempSync(join(tmpdir(), "yapyap-migrations-"));
+	});
+
+	afterEach(() => {
+		rmSync(tempDir, { recursive: true, force: true });
+	});
+
+	test("new databases are created at the latest version", () => {
+		const db = new DatabaseManager({ dataDir: tempDir });
+		try {
+			assert.strictEqual(db.getSchemaVersion(), LATEST_SCHEMA_VERSION);
+			assert.deepStrictEqual(db.getPendingMigrations(), []);
+		} finally {
+			db.close();
+		}
+	});
+
+	test("upgrades databases created before migrations were tracked", () => {
+		const legacy = openRaw();
+		legacy.exec(`
+      CREATE TABLE sessions (
+        id TEXT PRIMARY KEY,
+        peer_id TEXT NOT NULL,
+        public_key TEXT NOT NULL,
+        private_key TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL,
+        last_used INTEGER NOT NULL,
+        is_active BOOLEAN NOT NULL DEFAULT 1,
+        noise_session_info TEXT
+      )
+    `);
+		legacy.close();
+
+		const pending = new DatabaseManager({ dataDir: tempDir, migrate: false });
+		assert.strictEqual(pending.getSchemaVersion(), 0);
+		assert.deepStrictEqual(
+			pending.getPendingMigrations().map((m) => m.version),
+			migrations.map((m) => m.version),
+		);
+		assert.strictEqual(pending.migrate().length, migrations.length);
+		pending.close();
+
+		const raw = openRaw();
+		try {
+			const columns = raw
+				.prepare("PRAGMA table_info(sessions)")
+				.all() as Array<{
+				name: string;
+			}>;
+			assert.ok(columns.some((col) => col.name === "ratchet_state"));
+			assert.strictEqual(getSchemaVersion(raw), LATEST_SCHEMA_VERSION);
+		} finally {
+			raw.close();
+		}
+	});
+
+	test("migrations build the same tables as schema.ts", () => {
+		const migrated = new Database(":memory:");
+		const declared = new Database(":memory:");
+		applyMigrations(migrated);
+		for (const sql of Object.values(yapyapSchema)) {
+			if (typeof sql === "string") {
+				declared.exec(sql);
+			}
+		}
+		// Columns added by ALTER TABLE come last, so compare them unordered
+		const tableColumns = (db: Database.Database) =>
+			Object.fromEntries(
+				(
+					db
+						.prepare(
+							"SELECT name FROM sqlite_master WHERE type = 'table' ORDER BY name",
+						)
+						.all() as Array<{ name: string }>
+				).map(({ name }) => [
+					name,
+					(
+						db.prepare(`PRAGMA table_info(${name})`).all() as Array<{
+							name: string;
+							type: string;
+							notnull: number;
+							dflt_value: string | null;
+							pk: number;
+						}>
+					)
+						.map(
+							(col) =>
+								`${col.name} ${col.type} ${col.notnull} ${col.dflt_value} ${col.pk}`,
+						)
+						.sort(),
+				]),
+			);
+		try {
+			assert.deepStrictEqual(tableColumns(migrated), tableColumns(declared));
+		} finally {
+			migrated.close();
+			declared.close();
+		}
+	});
+
+	test("prefixes existing conversation IDs by kind", () => {
+		const raw = new Database(":memory:");
+		try {
+			applyMigrations(
+				raw,
+				migrations.filter((m) => m.version < 14),
+			);
+			const insert = raw.prepare(
+				`INSERT INTO conversations (conversation_id, kind, peer_id, group_id, updated_at)
+         VALUES (?, ?, ?, ?, 0)`,
+			);
+			insert.run("peer-a", "direct", "peer-a", null);
+			insert.run("team", "group", null, "team");
+			applyMigrations(raw);
+			assert.deepStrictEqual(
+				raw
+					.prepare(
+						"SELECT conversation_id FROM conversations ORDER BY conversation_id",
+					)
+					.all(),
+				[{ conversation_id: "group:team" }, { conversation_id: "peer:peer-a" }],
+			);
+		} finally {
+			raw.close();
+		}
+	});
+
+	test("refuses databases newer than this build", () => {
+		new DatabaseManager({ dataDir: tempDir }).close();
+		const raw = openRaw();
+		raw
+			.prepare(
+				"INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)",
+			)
+			.run(LATEST_SCHEMA_VERSION + 1, "from_the_future", Date.now());
+		raw.close();
+
+		assert.throws(
+			() => new DatabaseManager({ dataDir: tempDir }),
+			/newer than this build/,
+		);
+	});
+
+	test("rolls back a failing migration and keeps earlier ones", () => {
+		const raw = openRaw();
+		const failing: Migration[] = [
+			...migrations,
+			{
+				version: LATEST_SCHEMA_VERSION + 1,
+				name: "broken",
+				up: (db) => {
+					db.exec("CREATE TABLE half_done (id INTEGER)");
+					throw new Error("boom");
+				},
+			},
+		];
+		try {
+			assert.throws(() => applyMigrations(raw, failing), /boom/);
+			assert.strictEqual(getSchemaVersion(raw), LATEST_SCHEMA_VERSION);
+			const table = raw
+				.prepare(
+					"SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'half_done'",
+				)
+				.get();
+			assert.strictEqual(table, undefined);
+		} finally {
+			raw.close();
+		}
+	});
+});
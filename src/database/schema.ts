@@ -39,7 +39,8 @@ export const yapyapSchema = {
       created_at INTEGER NOT NULL,
       updated_at INTEGER NOT NULL,
       deadline_at INTEGER NOT NULL,
-      last_error TEXT
+      last_error TEXT,
+      priority INTEGER NOT NULL DEFAULT 0
     )
   `,
 	replicated_messages: `
@@ -98,7 +99,10 @@ export const yapyapSchema = {
       alias TEXT,
       last_seen INTEGER NOT NULL,
       metadata TEXT,
-      is_trusted BOOLEAN NOT NULL DEFAULT 0
+      is_trusted BOOLEAN NOT NULL DEFAULT 0,
+      verified_key TEXT,
+      verified_at INTEGER,
+      key_changed_at INTEGER
     )
   `,
 	message_history: `
@@ -113,6 +117,11 @@ export const yapyapSchema = {
       processed_at INTEGER,
       created_at INTEGER NOT NULL,
       updated_at INTEGER NOT NULL,
+      group_id TEXT,
+      read_at INTEGER,
+      edited_at INTEGER,
+      deleted_at INTEGER,
+      expires_at INTEGER,
       PRIMARY KEY (message_id, direction)
     )
   `,
@@ -136,7 +145,146 @@ export const yapyapSchema = {
       expires_at INTEGER NOT NULL,
       last_used INTEGER NOT NULL,
       is_active BOOLEAN NOT NULL DEFAULT 1,
-      noise_session_info TEXT
+      noise_session_info TEXT,
+      ratchet_state TEXT
+    )
+  `,
+	groups: `
+    CREATE TABLE IF NOT EXISTS groups (
+      group_id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      owner_peer_id TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    )
+  `,
+	group_members: `
+    CREATE TABLE IF NOT EXISTS group_members (
+      group_id TEXT NOT NULL,
+      peer_id TEXT NOT NULL,
+      added_at INTEGER NOT NULL,
+      PRIMARY KEY (group_id, peer_id),
+      FOREIGN KEY(group_id) REFERENCES groups(group_id) ON DELETE CASCADE
+    )
+  `,
+	file_transfers: `
+    CREATE TABLE IF NOT EXISTS file_transfers (
+      file_id TEXT NOT NULL,
+      direction TEXT NOT NULL,
+      peer_id TEXT NOT NULL,
+      file_name TEXT NOT NULL,
+      mime_type TEXT NOT NULL,
+      size INTEGER NOT NULL,
+      chunk_size INTEGER NOT NULL,
+      chunk_hashes TEXT NOT NULL,
+      file_hash TEXT NOT NULL,
+      manifest_hash TEXT NOT NULL,
+      file_key TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'in-progress',
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL,
+      PRIMARY KEY (file_id, direction)
+    )
+  `,
+	file_chunks: `
+    CREATE TABLE IF NOT EXISTS file_chunks (
+      file_id TEXT NOT NULL,
+      direction TEXT NOT NULL,
+      chunk_index INTEGER NOT NULL,
+      chunk_hash TEXT NOT NULL,
+      data BLOB NOT NULL,
+      created_at INTEGER NOT NULL,
+      PRIMARY KEY (file_id, direction, chunk_index)
+    )
+  `,
+	blocked_peers: `
+    CREATE TABLE IF NOT EXISTS blocked_peers (
+      peer_id TEXT PRIMARY KEY,
+      reason TEXT,
+      blocked_at INTEGER NOT NULL
+    )
+  `,
+	peer_reputation: `
+    CREATE TABLE IF NOT EXISTS peer_reputation (
+      peer_id TEXT PRIMARY KEY,
+      score REAL NOT NULL,
+      updated_at INTEGER NOT NULL
+    )
+  `,
+	peer_reputation_log: `
+    CREATE TABLE IF NOT EXISTS peer_reputation_log (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      peer_id TEXT NOT NULL,
+      delta REAL NOT NULL,
+      score REAL NOT NULL,
+      reason TEXT NOT NULL,
+      created_at INTEGER NOT NULL
+    )
+  `,
+	conversations: `
+    CREATE TABLE IF NOT EXISTS conversations (
+      conversation_id TEXT PRIMARY KEY,
+      kind TEXT NOT NULL,
+      peer_id TEXT,
+      group_id TEXT,
+      last_message_id TEXT,
+      last_message_preview TEXT,
+      last_message_at INTEGER,
+      last_direction TEXT,
+      unread_count INTEGER NOT NULL DEFAULT 0,
+      last_read_message_id TEXT,
+      last_read_at INTEGER,
+      muted BOOLEAN NOT NULL DEFAULT 0,
+      archived BOOLEAN NOT NULL DEFAULT 0,
+      pinned BOOLEAN NOT NULL DEFAULT 0,
+      expire_after_ms INTEGER,
+      updated_at INTEGER NOT NULL
+    )
+  `,
+	message_events: `
+    CREATE TABLE IF NOT EXISTS message_events (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      message_id TEXT NOT NULL,
+      event TEXT NOT NULL,
+      peer_id TEXT,
+      detail TEXT,
+      created_at INTEGER NOT NULL
+    )
+  `,
+	signed_prekeys: `
+    CREATE TABLE IF NOT EXISTS signed_prekeys (
+      public_key TEXT PRIMARY KEY,
+      private_key TEXT NOT NULL,
+      signature TEXT NOT NULL,
+      created_at INTEGER NOT NULL
+    )
+  `,
+	api_tokens: `
+    CREATE TABLE IF NOT EXISTS api_tokens (
+      token_id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      token_hash TEXT UNIQUE NOT NULL,
+      scopes TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      last_used_at INTEGER,
+      revoked_at INTEGER
+    )
+  `,
+	keystore: `
+    CREATE TABLE IF NOT EXISTS keystore (
+      id INTEGER PRIMARY KEY CHECK (id = 1),
+      salt TEXT NOT NULL,
+      kdf_iterations INTEGER NOT NULL,
+      verifier TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    )
+  `,
+	schema_migrations: `
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at INTEGER NOT NULL
     )
   `,
 	search_index: `
@@ -145,6 +293,15 @@ export const yapyapSchema = {
       alias,
       metadata
     )
+  `,
+	message_search: `
+    CREATE VIRTUAL TABLE IF NOT EXISTS message_search USING fts5(
+      message_id UNINDEXED,
+      direction UNINDEXED,
+      peer_id UNINDEXED,
+      created_at UNINDEXED,
+      body
+    )
   `,
 	indexes: [
 		"CREATE INDEX IF NOT EXISTS idx_routing_cache_last_seen ON routing_cache(last_seen);",
@@ -166,5 +323,13 @@ export const yapyapSchema = {
 		"CREATE INDEX IF NOT EXISTS idx_message_history_direction ON message_history(direction);",
 		"CREATE INDEX IF NOT EXISTS idx_message_history_peer_id ON message_history(peer_id);",
 		"CREATE INDEX IF NOT EXISTS idx_message_history_updated_at ON message_history(updated_at);",
+		"CREATE INDEX IF NOT EXISTS idx_message_history_group_id ON message_history(group_id);",
+		"CREATE INDEX IF NOT EXISTS idx_group_members_peer_id ON group_members(peer_id);",
+		"CREATE INDEX IF NOT EXISTS idx_file_transfers_peer_status ON file_transfers(peer_id, status);",
+		"CREATE INDEX IF NOT EXISTS idx_peer_reputation_log_peer_id ON peer_reputation_log(peer_id, created_at);",
+		"CREATE INDEX IF NOT EXISTS idx_conversations_last_message_at ON conversations(last_message_at);",
+		"CREATE INDEX IF NOT EXISTS idx_message_events_message_id ON message_events(message_id, id);",
+		"CREATE INDEX IF NOT EXISTS idx_message_events_created_at ON message_events(created_at);",
+		"CREATE INDEX IF NOT EXISTS idx_message_history_expires_at ON message_history(expires_at);",
 	],
 };
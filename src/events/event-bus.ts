@@ -37,9 +37,18 @@ export class EventBus<TEvents extends EventMap>
 	} = {};
 
 	private history: {
-		[K in keyof TEvents]?: Array<{ event: TEvents[K]; timestamp: number }>;
+		[K in keyof TEvents]?: Array<{
+			event: TEvents[K];
+			timestamp: number;
+			sequence: number;
+		}>;
 	} = {};
 
+	/**
+	 * Emission order across event types, for merging their histories
+	 */
+	private sequence = 0;
+
 	private readonly maxHistorySize: number;
 	private readonly debug: boolean;
 	private readonly logHandler: (message: string) => void;
@@ -165,7 +174,12 @@ export class EventBus<TEvents extends EventMap>
 		const eventHistory = this.history[eventType];
 		if (!eventHistory) return;
 
-		eventHistory.push({ event, timestamp: Date.now() });
+		this.sequence += 1;
+		eventHistory.push({
+			event,
+			timestamp: Date.now(),
+			sequence: this.sequence,
+		});
 
 		while (eventHistory.length > this.maxHistorySize) {
 			eventHistory.shift();
@@ -175,7 +189,7 @@ export class EventBus<TEvents extends EventMap>
 	public getHistory<K extends keyof TEvents>(
 		eventType: K,
 		limit?: number,
-	): Array<{ event: TEvents[K]; timestamp: number }> {
+	): Array<{ event: TEvents[K]; timestamp: number; sequence: number }> {
 		const eventHistory = this.history[eventType] ?? [];
 		return limit ? eventHistory.slice(-limit) : eventHistory;
 	}
@@ -23,6 +23,17 @@ export interface BaseEvent {
 	type: string;
 }
 
+let lastEventSequence = 0;
+
+/**
+ * Unique event ID. The counter keeps IDs of events emitted within the same
+ * millisecond apart, so clients can resume a stream from any of them.
+ */
+export function nextEventId(): string {
+	lastEventSequence += 1;
+	return `evt_${Date.now()}_${lastEventSequence}`;
+}
+
 /**
  * Event namespace prefixes for organizing events
  */
@@ -59,6 +70,40 @@ export namespace Events {
 		 * Emitted when a NAK is received
 		 */
 		NakReceived: "nak.received",
+		/**
+		 * Emitted when a peer reports it read one of our messages
+		 */
+		Read: "message.read",
+		/**
+		 * Emitted when a peer starts or stops typing
+		 */
+		Typing: "message.typing",
+		/**
+		 * Emitted when a peer edits a message it sent us
+		 */
+		Edited: "message.edited",
+		/**
+		 * Emitted when a peer deletes a message it sent us for everyone
+		 */
+		Retracted: "message.retracted",
+		/**
+		 * Emitted when a disappearing message's content is purged
+		 */
+		Expired: "message.expired",
+	};
+
+	/**
+	 * File transfer events
+	 */
+	export const File = {
+		/**
+		 * Emitted when all chunks of an incoming file are verified and assembled
+		 */
+		Received: "file.received",
+		/**
+		 * Emitted when the recipient confirms an outgoing file is complete
+		 */
+		Delivered: "file.delivered",
 	};
 
 	/**
@@ -135,6 +180,10 @@ export namespace Events {
 		 * Emitted when a session expires
 		 */
 		SessionExpired: "crypto.session.expired",
+		/**
+		 * Emitted when a peer presents a different encryption key than before
+		 */
+		PeerKeyChanged: "crypto.peer.keychanged",
 	};
 
 	/**
@@ -277,6 +326,133 @@ export interface NakReceivedEvent extends BaseEvent {
 	error: string;
 }
 
+/**
+ * Message read event payload
+ */
+export interface MessageReadEvent extends BaseEvent {
+	type: typeof Events.Message.Read;
+	/**
+	 * The message that was read
+	 */
+	messageId: string;
+	/**
+	 * The peer that read the message
+	 */
+	peer: string;
+	/**
+	 * When the peer read the message
+	 */
+	readAt: number;
+}
+
+/**
+ * Message typing event payload
+ */
+export interface MessageTypingEvent extends BaseEvent {
+	type: typeof Events.Message.Typing;
+	/**
+	 * The peer that is typing
+	 */
+	peer: string;
+	/**
+	 * Whether the peer started (true) or stopped (false) typing
+	 */
+	isTyping: boolean;
+}
+
+/**
+ * Message edited event payload
+ */
+export interface MessageEditedEvent extends BaseEvent {
+	type: typeof Events.Message.Edited;
+	/**
+	 * The message that was edited
+	 */
+	messageId: string;
+	/**
+	 * The peer that sent and edited the message
+	 */
+	peer: string;
+	/**
+	 * When the peer edited the message
+	 */
+	editedAt: number;
+}
+
+/**
+ * Message retracted event payload
+ */
+export interface MessageRetractedEvent extends BaseEvent {
+	type: typeof Events.Message.Retracted;
+	/**
+	 * The message that was retracted
+	 */
+	messageId: string;
+	/**
+	 * The peer that sent and retracted the message
+	 */
+	peer: string;
+	/**
+	 * When the peer retracted the message
+	 */
+	retractedAt: number;
+}
+
+/**
+ * Message expired event payload
+ */
+export interface MessageExpiredEvent extends BaseEvent {
+	type: typeof Events.Message.Expired;
+	/**
+	 * The message whose content was purged
+	 */
+	messageId: string;
+	/**
+	 * The other side of the conversation
+	 */
+	peer: string;
+	/**
+	 * Whether we sent or received the message
+	 */
+	direction: "inbound" | "outbound";
+	/**
+	 * When the message was due to expire
+	 */
+	expiredAt: number;
+}
+
+/**
+ * File received event payload
+ */
+export interface FileReceivedEvent extends BaseEvent {
+	type: typeof Events.File.Received;
+	/**
+	 * The file that was received
+	 */
+	file: {
+		id: string;
+		from: string;
+		name: string;
+		size: number;
+	};
+}
+
+/**
+ * File delivered event payload
+ */
+export interface FileDeliveredEvent extends BaseEvent {
+	type: typeof Events.File.Delivered;
+	/**
+	 * The file that was delivered
+	 */
+	file: {
+		id: string;
+		to: string;
+		name: string;
+		size: number;
+	};
+}
+
 /**
  * Database message updated event payload
  */
@@ -453,6 +629,14 @@ export interface RoutingReputationUpdatedEvent extends BaseEvent {
 	 * New reputation value
 	 */
 	newReputation: number;
+	/**
+	 * Change applied before clamping (decay is not included)
+	 */
+	delta: number;
+	/**
+	 * Why the score changed, e.g. "rate-limit" or "invalid-signature"
+	 */
+	reason: string;
 }
 
 /**
@@ -494,6 +678,20 @@ export interface CryptoSessionExpiredEvent extends BaseEvent {
 	peer: string;
 }
 
+/**
+ * Peer key changed event payload
+ */
+export interface CryptoPeerKeyChangedEvent extends BaseEvent {
+	type: typeof Events.Crypto.PeerKeyChanged;
+	peer: string;
+	previousPublicKey: string;
+	publicKey: string;
+	/**
+	 * The peer was a verified contact; it is now unverified until re-confirmed
+	 */
+	wasVerified: boolean;
+}
+
 /**
  * Node started event payload
  */
@@ -554,6 +752,13 @@ export type YapYapEvent =
 	| MessageFailedEvent
 	| AckReceivedEvent
 	| NakReceivedEvent
+	| MessageReadEvent
+	| MessageTypingEvent
+	| MessageEditedEvent
+	| MessageRetractedEvent
+	| MessageExpiredEvent
+	| FileReceivedEvent
+	| FileDeliveredEvent
 	| DatabaseMessageUpdatedEvent
 	| DatabaseRoutingUpdatedEvent
 	| DatabaseContactSavedEvent
@@ -566,6 +771,7 @@ export type YapYapEvent =
 	| RoutingReputationUpdatedEvent
 	| CryptoSessionCreatedEvent
 	| CryptoSessionExpiredEvent
+	| CryptoPeerKeyChangedEvent
 	| NodeStartedEvent
 	| NodeStoppedEvent
 	| NodeErrorEvent;
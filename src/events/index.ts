@@ -28,4 +28,4 @@ export type {
 	BaseEvent,
 	YapYapEvent,
 } from "./event-types.js";
-export { Events } from "./event-types.js";
+export { Events, nextEventId } from "./event-types.js";
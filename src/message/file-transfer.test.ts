@@ -0,0 +1,213 @@
+/**
+ * Chunked file transfer tests: two FileTransferManagers wired back to back
+ */
+
+import assert from "node:assert";
+import { createHash, randomBytes } from "node:crypto";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, test } from "node:test";
+import { DatabaseManager } from "../database/index.js";
+import type { YapYapEvent } from "../events/event-types.js";
+import {
+	FILE_CHUNK_SIZE_BYTES,
+	FileTransferManager,
+	type FileTransferPayload,
+	isFileTransferPayload,
+} from "./file-transfer.js";
+import type { YapYapMessage } from "./message.js";
+
+function createPeers(options: { dropChunks?: Set<number> } = {}) {
+	const dirs = [
+		mkdtempSync(join(tmpdir(), "yapyap-files-a-")),
+		mkdtempSync(join(tmpdir(), "yapyap-files-b-")),
+	];
+	const dbA = new DatabaseManager({ dataDir: dirs[0] });
+	const dbB = new DatabaseManager({ dataDir: dirs[1] });
+	const events: YapYapEvent[] = [];
+	const sent: YapYapMessage[] = [];
+
+	const managers: Record<string, FileTransferManager> = {};
+	const deliver = async (message: YapYapMessage) => {
+		sent.push(message);
+		const payload = message.payload as FileTransferPayload;
+		if (
+			payload.kind === "file-chunk" &&
+			options.dropChunks?.has(payload.index) &&
+			!message.id.match(/:chunk:\d+:\d+$/)
+		) {
+			throw new Error("peer unreachable");
+		}
+		assert.ok(isFileTransferPayload(message.payload));
+		await managers[message.to].handleIncoming(message.from, payload);
+	};
+
+	managers["peer-a"] = new FileTransferManager({
+		db: dbA,
+		getPeerId: () => "peer-a",
+		send: deliver,
+		emitEvent: async (event) => {
+			events.push(event);
+		},
+	});
+	managers["peer-b"] = new FileTransferManager({
+		db: dbB,
+		getPeerId: () => "peer-b",
+		send: deliver,
+		emitEvent: async (event) => {
+			events.push(event);
+		},
+	});
+
+	return {
+		sender: managers["peer-a"],
+		receiver: managers["peer-b"],
+		dbB,
+		events,
+		sent,
+		cleanup: () => {
+			dbA.close();
+			dbB.close();
+			for (const dir of dirs) {
+				rmSync(dir, { recursive: true, force: true });
+			}
+		},
+	};
+}
+
+describe("FileTransferManager", () => {
+	test("transfers a multi-chunk file and confirms delivery", async () => {
+		const { sender, receiver, events, sent, cleanup } = createPeers();
+		try {
+			const data = randomBytes(FILE_CHUNK_SIZE_BYTES * 2 + 123);
+			const result = await sender.sendFile("peer-b", data, {
+				fileName: "photo.jpg",
+				mimeType: "image/jpeg",
+			});
+
+			assert.strictEqual(result.chunkCount, 3);
+			assert.strictEqual(result.queuedChunks, 0);
+			assert.deepStrictEqual(receiver.readFile(result.fileId), data);
+			assert.strictEqual(
+				receiver.getTransferStatus(result.fileId)?.status,
+				"complete",
+			);
+			assert.strictEqual(
+				sender.getTransferStatus(result.fileId)?.status,
+				"complete",
+			);
+			assert.deepStrictEqual(
+				events.map((event) => event.type),
+				["file.received", "file.delivered"],
+			);
+
+			const chunk = sent.find(
+				(message) =>
+					(message.payload as FileTransferPayload).kind === "file-chunk",
+			);
+			assert.ok(chunk);
+			assert.ok(
+				!(chunk.payload as { data: string }).data.includes(
+					data.subarray(0, 16).toString("base64"),
+				),
+				"chunk data must be encrypted",
+			);
+		} finally {
+			cleanup();
+		}
+	});
+
+	test("resumes missing chunks after reconnect", async () => {
+		const { sender, receiver, events, cleanup } = createPeers({
+			dropChunks: new Set([1]),
+		});
+		try {
+			const data = randomBytes(FILE_CHUNK_SIZE_BYTES * 3);
+			const result = await sender.sendFile("peer-b", data, {
+				fileName: "archive.zip",
+			});
+
+			assert.strictEqual(result.queuedChunks, 1);
+			const status = receiver.getTransferStatus(result.fileId, "inbound");
+			assert.strictEqual(status?.status, "in-progress");
+			assert.strictEqual(status?.chunksStored, 2);
+			assert.strictEqual(receiver.readFile(result.fileId), null);
+
+			assert.strictEqual(await receiver.resumeTransfersWithPeer("peer-a"), 1);
+			assert.deepStrictEqual(receiver.readFile(result.fileId), data);
+			assert.strictEqual(
+				sender.getTransferStatus(result.fileId)?.status,
+				"complete",
+			);
+			assert.strictEqual(
+				events.filter((event) => event.type === "file.received").length,
+				1,
+			);
+		} finally {
+			cleanup();
+		}
+	});
+
+	test("drops chunks from other peers and outside the manifest", async () => {
+		const { sender, receiver, dbB, cleanup } = createPeers({
+			dropChunks: new Set([1]),
+		});
+		try {
+			const data = randomBytes(FILE_CHUNK_SIZE_BYTES * 2);
+			const { fileId, manifestHash } = await sender.sendFile("peer-b", data, {
+				fileName: "notes.txt",
+			});
+			const stray = Buffer.from("stray chunk");
+			const chunk = {
+				kind: "file-chunk" as const,
+				fileId,
+				manifestHash,
+				hash: createHash("sha256").update(stray).digest("hex"),
+				data: stray.toString("base64"),
+			};
+
+			await receiver.handleIncoming("peer-c", { ...chunk, index: 1 });
+			await receiver.handleIncoming("peer-a", { ...chunk, index: 2 });
+			await receiver.handleIncoming("peer-a", { ...chunk, index: -1 });
+			await receiver.handleIncoming("peer-c", {
+				...chunk,
+				fileId: "unannounced",
+				index: 0,
+			});
+
+			assert.deepStrictEqual(
+				dbB.getStoredFileChunkIndexes(fileId, "inbound"),
+				[0],
+			);
+			assert.deepStrictEqual(
+				dbB.getStoredFileChunkIndexes("unannounced", "inbound"),
+				[],
+			);
+		} finally {
+			cleanup();
+		}
+	});
+
+	test("rejects chunks that do not match the manifest", async () => {
+		const { receiver, dbB, cleanup } = createPeers();
+		try {
+			const forged = Buffer.from("not the real chunk");
+			await receiver.handleIncoming("peer-a", {
+				kind: "file-chunk",
+				fileId: "file-1",
+				manifestHash: "unknown",
+				index: 0,
+				hash: "0".repeat(64),
+				data: forged.toString("base64"),
+			});
+
+			assert.deepStrictEqual(
+				dbB.getStoredFileChunkIndexes("file-1", "inbound"),
+				[],
+			);
+		} finally {
+			cleanup();
+		}
+	});
+});
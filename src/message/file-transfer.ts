@@ -0,0 +1,588 @@
+import { createHash, randomBytes, randomUUID } from "node:crypto";
+import { decryptMessage, encryptMessage } from "../crypto/index.js";
+import type {
+	DatabaseManager,
+	FileTransferDirection,
+	FileTransferEntry,
+} from "../database/index.js";
+import {
+	Events,
+	nextEventId,
+	type YapYapEvent,
+} from "../events/event-types.js";
+import type { YapYapMessage } from "./message.js";
+
+/**
+ * Plaintext bytes per chunk. Chunks travel base64-encoded inside an
+ * E2E-encrypted (hex) payload, so this keeps each framed message well below
+ * MAX_FRAME_SIZE_BYTES.
+ */
+export const FILE_CHUNK_SIZE_BYTES = 64 * 1024;
+
+const CHUNK_NONCE_BYTES = 12;
+
+/**
+ * File description shared with the recipient before any chunk.
+ * chunkHashes are sha256 digests of the encrypted chunks (nonce + ciphertext).
+ */
+export interface FileManifest {
+	fileId: string;
+	fileName: string;
+	mimeType: string;
+	size: number;
+	chunkSize: number;
+	chunkHashes: string[];
+	fileHash: string;
+	/**
+	 * Hex AES-256-GCM key for the chunks; only ever sent inside an
+	 * E2E-encrypted message payload
+	 */
+	key: string;
+}
+
+export type FileTransferPayload =
+	| { kind: "file-manifest"; manifest: FileManifest; manifestHash: string }
+	| {
+			kind: "file-chunk";
+			fileId: string;
+			manifestHash: string;
+			index: number;
+			hash: string;
+			data: string;
+	  }
+	| { kind: "file-resume"; fileId: string; missing: number[] }
+	| { kind: "file-complete"; fileId: string; manifestHash: string };
+
+export interface FileSendResult {
+	fileId: string;
+	manifestHash: string;
+	size: number;
+	chunkCount: number;
+	queuedChunks: number;
+}
+
+export interface FileTransferStatus {
+	fileId: string;
+	direction: FileTransferDirection;
+	peerId: string;
+	fileName: string;
+	mimeType: string;
+	size: number;
+	chunkCount: number;
+	chunksStored: number;
+	manifestHash: string;
+	status: FileTransferEntry["status"];
+	createdAt: number;
+	updatedAt: number;
+}
+
+interface FileTransferContext {
+	db: DatabaseManager;
+	getPeerId: () => string;
+	send: (message: YapYapMessage) => Promise<void>;
+	emitEvent?: (event: YapYapEvent) => Promise<void>;
+}
+
+function sha256Hex(data: Uint8Array | string): string {
+	return createHash("sha256").update(data).digest("hex");
+}
+
+/**
+ * Manifest hash covers every manifest field except the key, in a fixed order
+ */
+export function computeManifestHash(manifest: FileManifest): string {
+	return sha256Hex(
+		JSON.stringify([
+			manifest.fileId,
+			manifest.fileName,
+			manifest.mimeType,
+			manifest.size,
+			manifest.chunkSize,
+			manifest.chunkHashes,
+			manifest.fileHash,
+		]),
+	);
+}
+
+export function isFileTransferPayload(
+	payload: unknown,
+): payload is FileTransferPayload {
+	if (typeof payload !== "object" || payload === null) {
+		return false;
+	}
+	const kind = (payload as { kind?: unknown }).kind;
+	return (
+		kind === "file-manifest" ||
+		kind === "file-chunk" ||
+		kind === "file-resume" ||
+		kind === "file-complete"
+	);
+}
+
+/**
+ * Chunked file transfer on top of MessageRouter.
+ * Files are split into AES-GCM encrypted, content-addressed chunks that are
+ * sent as ordinary data messages, so each chunk is queued, retried and ACKed
+ * by the router. Receivers verify every chunk against the manifest and ask
+ * for missing chunks when the sender reconnects.
+ */
+export class FileTransferManager {
+	private context: FileTransferContext;
+
+	constructor(context: FileTransferContext) {
+		this.context = context;
+	}
+
+	/**
+	 * Split, encrypt and persist a file, then send its manifest and chunks
+	 */
+	async sendFile(
+		targetPeerId: string,
+		data: Buffer,
+		options: { fileName: string; mimeType?: string; fileId?: string },
+	): Promise<FileSendResult> {
+		const fileId = options.fileId ?? randomUUID();
+		const key = randomBytes(32);
+		const chunks: Array<{ hash: string; data: Buffer }> = [];
+		for (
+			let offset = 0;
+			offset < data.length || chunks.length === 0;
+			offset += FILE_CHUNK_SIZE_BYTES
+		) {
+			const plaintext = data.subarray(offset, offset + FILE_CHUNK_SIZE_BYTES);
+			const encrypted = encryptMessage(plaintext, key);
+			const blob = Buffer.concat([encrypted.nonce, encrypted.ciphertext]);
+			chunks.push({ hash: sha256Hex(blob), data: blob });
+		}
+
+		const manifest: FileManifest = {
+			fileId,
+			fileName: options.fileName,
+			mimeType: options.mimeType ?? "application/octet-stream",
+			size: data.length,
+			chunkSize: FILE_CHUNK_SIZE_BYTES,
+			chunkHashes: chunks.map((chunk) => chunk.hash),
+			fileHash: sha256Hex(data),
+			key: key.toString("hex"),
+		};
+		const manifestHash = computeManifestHash(manifest);
+
+		this.context.db.saveFileTransferWithChunks(
+			{
+				file_id: fileId,
+				direction: "outbound",
+				peer_id: targetPeerId,
+				file_name: manifest.fileName,
+				mime_type: manifest.mimeType,
+				size: manifest.size,
+				chunk_size: manifest.chunkSize,
+				chunk_hashes: manifest.chunkHashes,
+				file_hash: manifest.fileHash,
+				manifest_hash: manifestHash,
+				file_key: manifest.key,
+			},
+			chunks,
+		);
+
+		await this.sendPayload(targetPeerId, `${fileId}:manifest`, {
+			kind: "file-manifest",
+			manifest,
+			manifestHash,
+		});
+
+		let queuedChunks = 0;
+		for (const [index, chunk] of chunks.entries()) {
+			const sent = await this.sendPayload(
+				targetPeerId,
+				`${fileId}:chunk:${index}`,
+				{
+					kind: "file-chunk",
+					fileId,
+					manifestHash,
+					index,
+					hash: chunk.hash,
+					data: chunk.data.toString("base64"),
+				},
+			);
+			if (!sent) {
+				queuedChunks++;
+			}
+		}
+
+		return {
+			fileId,
+			manifestHash,
+			size: manifest.size,
+			chunkCount: chunks.length,
+			queuedChunks,
+		};
+	}
+
+	/**
+	 * Handle a decrypted file transfer payload received from a peer
+	 */
+	async handleIncoming(
+		fromPeerId: string,
+		payload: FileTransferPayload,
+	): Promise<void> {
+		switch (payload.kind) {
+			case "file-manifest":
+				await this.handleManifest(
+					fromPeerId,
+					payload.manifest,
+					payload.manifestHash,
+				);
+				break;
+			case "file-chunk":
+				await this.handleChunk(fromPeerId, payload);
+				break;
+			case "file-resume":
+				await this.handleResumeRequest(
+					fromPeerId,
+					payload.fileId,
+					payload.missing,
+				);
+				break;
+			case "file-complete":
+				await this.handleComplete(
+					fromPeerId,
+					payload.fileId,
+					payload.manifestHash,
+				);
+				break;
+		}
+	}
+
+	/**
+	 * Ask a (re)connected peer for the chunks still missing from its transfers
+	 */
+	async resumeTransfersWithPeer(peerId: string): Promise<number> {
+		const db = this.context.db;
+		let requested = 0;
+		for (const transfer of db.getInProgressFileTransfers(peerId, "inbound")) {
+			const stored = new Set(
+				db.getStoredFileChunkIndexes(transfer.file_id, "inbound"),
+			);
+			const missing = transfer.chunk_hashes
+				.map((_hash, index) => index)
+				.filter((index) => !stored.has(index));
+			if (missing.length === 0) {
+				await this.tryCompleteInbound(transfer);
+				continue;
+			}
+			await this.sendPayload(
+				peerId,
+				`${transfer.file_id}:resume:${Date.now()}`,
+				{ kind: "file-resume", fileId: transfer.file_id, missing },
+			);
+			requested++;
+		}
+		return requested;
+	}
+
+	getTransferStatus(
+		fileId: string,
+		direction?: FileTransferDirection,
+	): FileTransferStatus | null {
+		const transfer = this.findTransfer(fileId, direction);
+		if (!transfer) {
+			return null;
+		}
+		return {
+			fileId: transfer.file_id,
+			direction: transfer.direction,
+			peerId: transfer.peer_id,
+			fileName: transfer.file_name,
+			mimeType: transfer.mime_type,
+			size: transfer.size,
+			chunkCount: transfer.chunk_hashes.length,
+			chunksStored: this.context.db.getStoredFileChunkIndexes(
+				transfer.file_id,
+				transfer.direction,
+			).length,
+			manifestHash: transfer.manifest_hash,
+			status: transfer.status,
+			createdAt: transfer.created_at,
+			updatedAt: transfer.updated_at,
+		};
+	}
+
+	/**
+	 * Decrypt and reassemble a file. Returns null unless every chunk is present
+	 * and the result matches the manifest file hash.
+	 */
+	readFile(fileId: string, direction?: FileTransferDirection): Buffer | null {
+		const transfer = this.findTransfer(fileId, direction);
+		if (!transfer) {
+			return null;
+		}
+		return this.assemble(transfer);
+	}
+
+	private findTransfer(
+		fileId: string,
+		direction?: FileTransferDirection,
+	): FileTransferEntry | null {
+		const db = this.context.db;
+		if (direction) {
+			return db.getFileTransfer(fileId, direction);
+		}
+		return (
+			db.getFileTransfer(fileId, "outbound") ??
+			db.getFileTransfer(fileId, "inbound")
+		);
+	}
+
+	private async handleManifest(
+		fromPeerId: string,
+		manifest: FileManifest,
+		manifestHash: string,
+	): Promise<void> {
+		if (
+			!Array.isArray(manifest?.chunkHashes) ||
+			manifest.chunkHashes.length === 0 ||
+			computeManifestHash(manifest) !== manifestHash
+		) {
+			console.warn(
+				`[file-transfer] dropping manifest from ${fromPeerId}: hash mismatch`,
+			);
+			return;
+		}
+
+		const db = this.context.db;
+		const existing = db.getFileTransfer(manifest.fileId, "inbound");
+		if (existing && existing.peer_id !== fromPeerId) {
+			return;
+		}
+		if (!existing) {
+			db.saveFileTransfer({
+				file_id: manifest.fileId,
+				direction: "inbound",
+				peer_id: fromPeerId,
+				file_name: manifest.fileName,
+				mime_type: manifest.mimeType,
+				size: manifest.size,
+				chunk_size: manifest.chunkSize,
+				chunk_hashes: manifest.chunkHashes,
+				file_hash: manifest.fileHash,
+				manifest_hash: manifestHash,
+				file_key: manifest.key,
+			});
+		}
+
+		const transfer = db.getFileTransfer(manifest.fileId, "inbound");
+		if (!transfer) {
+			return;
+		}
+		await this.tryCompleteInbound(transfer);
+	}
+
+	/**
+	 * Store a chunk only for a manifest already received from the same peer.
+	 * Anything else is dropped rather than kept for later, so a peer cannot
+	 * fill the disk with chunks of files nobody announced; a chunk that
+	 * overtook its manifest is requested again on resume.
+	 */
+	private async handleChunk(
+		fromPeerId: string,
+		chunk: Extract<FileTransferPayload, { kind: "file-chunk" }>,
+	): Promise<void> {
+		const db = this.context.db;
+		const transfer = db.getFileTransfer(chunk.fileId, "inbound");
+		if (
+			!transfer ||
+			transfer.peer_id !== fromPeerId ||
+			transfer.status !== "in-progress" ||
+			transfer.manifest_hash !== chunk.manifestHash
+		) {
+			return;
+		}
+		if (
+			!Number.isInteger(chunk.index) ||
+			chunk.index < 0 ||
+			chunk.index >= transfer.chunk_hashes.length ||
+			transfer.chunk_hashes[chunk.index] !== chunk.hash
+		) {
+			return;
+		}
+
+		const data = Buffer.from(chunk.data, "base64");
+		if (sha256Hex(data) !== chunk.hash) {
+			console.warn(
+				`[file-transfer] dropping chunk ${chunk.index} of ${chunk.fileId}: content hash mismatch`,
+			);
+			return;
+		}
+
+		db.saveFileChunk(chunk.fileId, "inbound", chunk.index, chunk.hash, data);
+		await this.tryCompleteInbound(transfer);
+	}
+
+	private async handleResumeRequest(
+		fromPeerId: string,
+		fileId: string,
+		missing: number[],
+	): Promise<void> {
+		const db = this.context.db;
+		const transfer = db.getFileTransfer(fileId, "outbound");
+		if (!transfer || transfer.peer_id !== fromPeerId) {
+			return;
+		}
+		if (transfer.status === "complete" || !Array.isArray(missing)) {
+			return;
+		}
+
+		for (const index of missing) {
+			const chunk = db.getFileChunk(fileId, "outbound", index);
+			if (!chunk) {
+				continue;
+			}
+			// Fresh message IDs: the originals may already be marked processed
+			await this.sendPayload(
+				fromPeerId,
+				`${fileId}:chunk:${index}:${Date.now()}`,
+				{
+					kind: "file-chunk",
+					fileId,
+					manifestHash: transfer.manifest_hash,
+					index,
+					hash: chunk.chunk_hash,
+					data: Buffer.from(chunk.data).toString("base64"),
+				},
+			);
+		}
+	}
+
+	private async handleComplete(
+		fromPeerId: string,
+		fileId: string,
+		manifestHash: string,
+	): Promise<void> {
+		const db = this.context.db;
+		const transfer = db.getFileTransfer(fileId, "outbound");
+		if (
+			!transfer ||
+			transfer.peer_id !== fromPeerId ||
+			transfer.manifest_hash !== manifestHash ||
+			transfer.status === "complete"
+		) {
+			return;
+		}
+		db.updateFileTransferStatus(fileId, "outbound", "complete");
+		await this.context.emitEvent?.({
+			id: nextEventId(),
+			timestamp: Date.now(),
+			type: Events.File.Delivered,
+			file: {
+				id: fileId,
+				to: fromPeerId,
+				name: transfer.file_name,
+				size: transfer.size,
+			},
+		});
+	}
+
+	private async tryCompleteInbound(transfer: FileTransferEntry): Promise<void> {
+		if (transfer.status !== "in-progress") {
+			return;
+		}
+		const db = this.context.db;
+		const stored = db.getStoredFileChunkIndexes(transfer.file_id, "inbound");
+		if (stored.length < transfer.chunk_hashes.length) {
+			return;
+		}
+
+		if (!this.assemble(transfer)) {
+			db.updateFileTransferStatus(transfer.file_id, "inbound", "failed");
+			return;
+		}
+
+		db.updateFileTransferStatus(transfer.file_id, "inbound", "complete");
+		await this.context.emitEvent?.({
+			id: nextEventId(),
+			timestamp: Date.now(),
+			type: Events.File.Received,
+			file: {
+				id: transfer.file_id,
+				from: transfer.peer_id,
+				name: transfer.file_name,
+				size: transfer.size,
+			},
+		});
+		await this.sendPayload(transfer.peer_id, `${transfer.file_id}:complete`, {
+			kind: "file-complete",
+			fileId: transfer.file_id,
+			manifestHash: transfer.manifest_hash,
+		});
+	}
+
+	private assemble(transfer: FileTransferEntry): Buffer | null {
+		const chunks = this.context.db.getFileChunks(
+			transfer.file_id,
+			transfer.direction,
+		);
+		if (chunks.length !== transfer.chunk_hashes.length) {
+			return null;
+		}
+		const key = Buffer.from(transfer.file_key, "hex");
+		const parts: Buffer[] = [];
+		try {
+			for (const [index, chunk] of chunks.entries()) {
+				const blob = Buffer.from(chunk.data);
+				if (
+					chunk.chunk_index !== index ||
+					sha256Hex(blob) !== transfer.chunk_hashes[index]
+				) {
+					return null;
+				}
+				parts.push(
+					Buffer.from(
+						decryptMessage(
+							blob.subarray(CHUNK_NONCE_BYTES),
+							key,
+							blob.subarray(0, CHUNK_NONCE_BYTES),
+						),
+					),
+				);
+			}
+		} catch {
+			return null;
+		}
+		const data = Buffer.concat(parts);
+		if (
+			data.length !== transfer.size ||
+			sha256Hex(data) !== transfer.file_hash
+		) {
+			return null;
+		}
+		return data;
+	}
+
+	/**
+	 * Send a control or chunk payload; returns false if it was only queued
+	 */
+	private async sendPayload(
+		targetPeerId: string,
+		messageId: string,
+		payload: FileTransferPayload,
+	): Promise<boolean> {
+		try {
+			await this.context.send({
+				id: messageId,
+				type: "data",
+				from: this.context.getPeerId(),
+				to: targetPeerId,
+				payload,
+				timestamp: Date.now(),
+			});
+			return true;
+		} catch (error) {
+			console.warn(
+				`[file-transfer] ${payload.kind} for ${targetPeerId} queued for retry: ${
+					error instanceof Error ? error.message : String(error)
+				}`,
+			);
+			return false;
+		}
+	}
+}
@@ -34,10 +34,50 @@ type DbMock = {
 		targetPeerId: string,
 		deadlineAt: number,
 	) => void;
+	updatePendingMessageData: (
+		messageId: string,
+		message: Record<string, unknown>,
+	) => void;
 	getAllPendingMessages: () => Array<Record<string, unknown>>;
 	updateMessageStatus: (id: string, status: string) => void;
 	setNextRetryAt: (id: string, nextRetryAt: number) => void;
 	isMessageProcessed: (messageId: string) => boolean;
+	isPeerBlocked: (peerId: string) => boolean;
+	getPeerReputations: () => Array<{
+		peer_id: string;
+		score: number;
+		updated_at: number;
+	}>;
+	recordPeerReputations: (
+		adjustments: Array<{
+			peerId: string;
+			score: number;
+			delta: number;
+			reason: string;
+			at: number;
+		}>,
+	) => void;
+	recordConversationMessage: (input: Record<string, unknown>) => void;
+	getConversation: (
+		conversationId: string,
+	) => { expire_after_ms: number | null } | null;
+	setMessageExpiry: (
+		messageId: string,
+		direction: string,
+		expiresAt: number,
+	) => void;
+	expireMessages: (now?: number) => Array<{
+		message_id: string;
+		direction: "inbound" | "outbound";
+		peer_id: string;
+		group_id: string | null;
+		expires_at: number;
+	}>;
+	recordMessageEvent: (
+		messageId: string,
+		event: string,
+		details?: { peerId?: string; detail?: string },
+	) => void;
 	markMessageProcessed: (
 		messageId: string,
 		fromPeerId: string,
@@ -305,12 +345,29 @@ function createMockDb(): DbMock {
 		processedMessagesCount,
 		lastSequences,
 		queueMessage,
+		updatePendingMessageData: (
+			messageId: string,
+			message: Record<string, unknown>,
+		) => {
+			const entry = pendingMessages.get(messageId);
+			if (entry) {
+				entry.message_data = JSON.stringify(message);
+			}
+		},
 		getAllPendingMessages: () => Array.from(pendingMessages.values()),
 		updateMessageStatus: (id: string, status: string) => {
 			updateMessageStatusCalls.push({ id, status });
 		},
 		setNextRetryAt: () => {},
 		isMessageProcessed: (messageId: string) => processedIds.has(messageId),
+		isPeerBlocked: () => false,
+		getPeerReputations: () => [],
+		recordPeerReputations: () => {},
+		recordConversationMessage: () => {},
+		getConversation: () => null,
+		setMessageExpiry: () => {},
+		expireMessages: () => [],
+		recordMessageEvent: () => {},
 		markMessageProcessed: (
 			messageId: string,
 			_fromPeerId: string,
@@ -1,7 +1,8 @@
 import assert from "node:assert";
 import { createHash } from "node:crypto";
 import { describe, test } from "node:test";
-import { peerIdFromString } from "@libp2p/peer-id";
+import { generateKeyPair } from "@libp2p/crypto/keys";
+import { peerIdFromPrivateKey, peerIdFromString } from "@libp2p/peer-id";
 import {
 	encryptE2EMessage,
 	generateEphemeralKeyPair,
@@ -9,7 +10,15 @@ import {
 } from "../crypto/index.js";
 import type { YapYapEvent } from "../events/event-types.js";
 import { Events } from "../events/event-types.js";
-import type { AckMessage, YapYapMessage } from "./message.js";
+import {
+	type AckMessage,
+	amendmentSigningBytes,
+	type EditMessage,
+	type ReadReceiptMessage,
+	type RetractMessage,
+	type TypingMessage,
+	type YapYapMessage,
+} from "./message.js";
 import { MessageRouter } from "./message-router.js";
 
 // Generate valid key pairs for tests
@@ -32,11 +41,53 @@ type DbMock = {
 		message: Record<string, unknown>,
 		targetPeerId: string,
 		deadlineAt: number,
+		groupId?: string,
+	) => void;
+	updatePendingMessageData: (
+		messageId: string,
+		message: Record<string, unknown>,
 	) => void;
 	getAllPendingMessages: () => Array<Record<string, unknown>>;
+	resetPendingRetry: (messageId: string, deadlineAt: number) => boolean;
 	updateMessageStatus: (id: number, status: string) => void;
 	setNextRetryAt: (id: number, nextRetryAt: number) => void;
 	isMessageProcessed: (messageId: string) => boolean;
+	isPeerBlocked: (peerId: string) => boolean;
+	getPeerReputations: () => Array<{
+		peer_id: string;
+		score: number;
+		updated_at: number;
+	}>;
+	recordPeerReputations: (
+		adjustments: Array<{
+			peerId: string;
+			score: number;
+			delta: number;
+			reason: string;
+			at: number;
+		}>,
+	) => void;
+	recordConversationMessage: (input: Record<string, unknown>) => void;
+	getConversation: (
+		conversationId: string,
+	) => { expire_after_ms: number | null } | null;
+	setMessageExpiry: (
+		messageId: string,
+		direction: string,
+		expiresAt: number,
+	) => void;
+	expireMessages: (now?: number) => Array<{
+		message_id: string;
+		direction: "inbound" | "outbound";
+		peer_id: string;
+		group_id: string | null;
+		expires_at: number;
+	}>;
+	recordMessageEvent: (
+		messageId: string,
+		event: string,
+		details?: { peerId?: string; detail?: string },
+	) => void;
 	markMessageProcessed: (
 		messageId: string,
 		fromPeerId: string,
@@ -73,6 +124,19 @@ type DbMock = {
 		updated_at: number;
 		deadline_at: number;
 	}>;
+	getDueScheduledMessages: () => Array<{
+		message_id: string;
+		target_peer_id: string;
+		message_data: string;
+		status: "scheduled";
+		attempts: number;
+		next_retry_at: number;
+		created_at: number;
+		updated_at: number;
+		deadline_at: number;
+		priority: number;
+	}>;
+	markMessageStatus: (messageId: string, status: string) => void;
 	getPendingMessagesForPeer: (
 		targetPeerId: string,
 		limit?: number,
@@ -230,7 +294,9 @@ function createDbMock(): DbMock {
 		queueMessage: (messageId: string) => {
 			pendingMessages.set(messageId, { attempts: 0, status: "pending" });
 		},
+		updatePendingMessageData: () => {},
 		getAllPendingMessages: () => [],
+		resetPendingRetry: () => false,
 		updateMessageStatus: (id, status) => {
 			updateMessageStatusCalls.push({ id, status });
 		},
@@ -238,6 +304,14 @@ function createDbMock(): DbMock {
 		isMessageProcessed: (messageId: string): boolean => {
 			return processedIds.has(messageId);
 		},
+		isPeerBlocked: () => false,
+		getPeerReputations: () => [],
+		recordPeerReputations: () => {},
+		recordConversationMessage: () => {},
+		getConversation: () => null,
+		setMessageExpiry: () => {},
+		expireMessages: () => [],
+		recordMessageEvent: () => {},
 		markMessageProcessed: (
 			messageId: string,
 			_fromPeerId: string,
@@ -256,6 +330,8 @@ function createDbMock(): DbMock {
 		incrementAttempts: () => {},
 		scheduleRetry: () => {},
 		getRetryablePendingMessages: () => [],
+		getDueScheduledMessages: () => [],
+		markMessageStatus: () => {},
 		getPendingMessagesForPeer: () => [],
 		markPendingMessageDelivered: (messageId: string): void => {
 			const existing = pendingMessages.get(messageId);
@@ -1403,6 +1479,48 @@ describe("MessageRouter", () => {
 		assert.deepStrictEqual(db.markProcessedCalls, ["rl-1"]);
 	});
 
+	test("receive drops blocked peers and non-contacts in contacts-only mode", async () => {
+		const db = Object.assign(createDbMock(), {
+			getContact: (peerId: string) =>
+				peerId === VALID_PEER_ID ? { peer_id: peerId } : null,
+		});
+		db.isPeerBlocked = (peerId) => peerId === PEER_A;
+		const router = new MessageRouter(
+			{
+				...createContext(db),
+				getLibp2p: () =>
+					({
+						dialProtocol: async () => ({
+							send: async () => {},
+							close: async () => {},
+						}),
+					}) as never,
+				encodeResponse: () => new Uint8Array(),
+			},
+			{ contactsOnly: true },
+		);
+
+		const message = (
+			id: string,
+			from: string,
+			type: "data" | "store-and-forward",
+		) =>
+			({
+				id,
+				type,
+				from,
+				to: "peer-local",
+				payload: {},
+				timestamp: Date.now(),
+			}) as YapYapMessage;
+		await router.receive(message("blocked-1", PEER_A, "data"));
+		await router.receive(message("stranger-1", PEER_B, "data"));
+		await router.receive(message("stranger-2", PEER_B, "store-and-forward"));
+		await router.receive(message("friend-1", VALID_PEER_ID, "data"));
+
+		assert.deepStrictEqual(db.markProcessedCalls, ["stranger-2", "friend-1"]);
+	});
+
 	test("penalizes tampered relay envelopes in peer score", async () => {
 		const db = createDbMock();
 		const router = new MessageRouter({
@@ -1441,6 +1559,89 @@ describe("MessageRouter", () => {
 		assert.ok(router.getPeerScore("peer-bad") < 0);
 	});
 
+	test("peer scores persist across restarts with a logged reason", async () => {
+		const db = createDbMock();
+		const stored = new Map<string, { score: number; updated_at: number }>();
+		const reasons: string[] = [];
+		db.getPeerReputations = () =>
+			[...stored].map(([peer_id, entry]) => ({ peer_id, ...entry }));
+		db.recordPeerReputations = (adjustments) => {
+			for (const { peerId, score, reason, at } of adjustments) {
+				stored.set(peerId, { score, updated_at: at });
+				reasons.push(reason);
+			}
+		};
+		const events: YapYapEvent[] = [];
+		const createRouter = () =>
+			new MessageRouter({
+				...createContext(db, events),
+				getLibp2p: () => undefined,
+				encodeResponse: () => new Uint8Array(),
+			});
+
+		await createRouter().receive({
+			id: "stale-ts",
+			type: "data",
+			from: PEER_A,
+			to: "peer-local",
+			payload: {},
+			timestamp: 0,
+		});
+		assert.deepStrictEqual(reasons, ["invalid-timestamp"]);
+		const update = events.find(
+			(event) => event.type === Events.Routing.ReputationUpdated,
+		);
+		assert.deepStrictEqual(
+			update && {
+				peer: update.peer,
+				newReputation: update.newReputation,
+				reason: update.reason,
+			},
+			{ peer: PEER_A, newReputation: -2, reason: "invalid-timestamp" },
+		);
+
+		assert.strictEqual(createRouter().getPeerScore(PEER_A), -2);
+		stored.set(PEER_A, { score: -20, updated_at: Date.now() - 86_400_000 });
+		assert.strictEqual(createRouter().getPeerScore(PEER_A), -10);
+	});
+
+	test("routine score changes are batched and not announced", async () => {
+		const db = createDbMock();
+		const batches: string[][] = [];
+		db.recordPeerReputations = (adjustments) => {
+			batches.push(
+				adjustments.map(({ reason, delta }) => `${reason}:${delta}`),
+			);
+		};
+		const events: YapYapEvent[] = [];
+		const stream = { send: async () => {}, close: async () => {} };
+		const router = new MessageRouter({
+			...createContext(db, events),
+			getLibp2p: () => ({ dialProtocol: async () => stream }) as never,
+			encodeResponse: () => new Uint8Array(),
+			onMessage: async () => {},
+		});
+
+		for (const id of ["routine-1", "routine-2", "routine-3"]) {
+			await router.receive({
+				id,
+				type: "data",
+				from: PEER_A,
+				to: "peer-local",
+				payload: {},
+				timestamp: Date.now(),
+			});
+		}
+		assert.strictEqual(router.getPeerScore(PEER_A), 3);
+		assert.deepStrictEqual(batches, []);
+		assert.ok(
+			!events.some((event) => event.type === Events.Routing.ReputationUpdated),
+		);
+
+		router.shutdown();
+		assert.deepStrictEqual(batches, [["accepted:3"]]);
+	});
+
 	test("selectReplicaPeers excludes blocked low-score peers", async () => {
 		const db = createDbMock();
 		db.getAllRoutingEntries = () => [
@@ -1874,4 +2075,656 @@ describe("MessageRouter", () => {
 			"Should retry 3 times (4 total attempts) with default reconnect attempts",
 		);
 	});
+
+	test("sendToGroup fans out one tracked copy per member", async () => {
+		const db = Object.assign(createDbMock(), {
+			getGroupMembers: (groupId: string) =>
+				[PEER_A, PEER_B, "peer-local"].map((peerId) => ({
+					group_id: groupId,
+					peer_id: peerId,
+					added_at: Date.now(),
+				})),
+		});
+		const queued: Array<{ messageId: string; groupId?: string }> = [];
+		db.queueMessage = (
+			messageId: string,
+			_message: Record<string, unknown>,
+			_targetPeerId: string,
+			_deadlineAt: number,
+			groupId?: string,
+		) => {
+			queued.push({ messageId, groupId });
+		};
+		const sent: YapYapMessage[] = [];
+
+		const router = new MessageRouter(
+			{
+				...createContext(db),
+				getLibp2p: () =>
+					({
+						dialProtocol: async (peerId: { toString(): string }) => {
+							if (peerId.toString() === PEER_B) {
+								throw new Error("peer unreachable");
+							}
+							return {
+								send: async (encoded: Uint8Array) => {
+									sent.push(
+										JSON.parse(
+											Buffer.from(encoded).toString(),
+										) as YapYapMessage,
+									);
+								},
+								close: async () => {},
+							};
+						},
+						hangUp: async () => {},
+					}) as never,
+				encodeResponse: (message: YapYapMessage) =>
+					Buffer.from(JSON.stringify(message), "utf8") as unknown as Uint8Array,
+			},
+			{ transport: { reconnectAttempts: 0 } },
+		);
+
+		const deliveries = await router.sendToGroup({
+			id: "group-msg-1",
+			type: "data",
+			from: "peer-local",
+			to: "group-1",
+			groupId: "group-1",
+			payload: { text: "hello team" },
+			timestamp: Date.now(),
+		});
+
+		assert.deepStrictEqual(
+			deliveries.map((delivery) => [delivery.peerId, delivery.queued]),
+			[
+				[PEER_A, false],
+				[PEER_B, true],
+			],
+		);
+		assert.deepStrictEqual(queued, [
+			{ messageId: `group-msg-1:${PEER_A}`, groupId: "group-1" },
+			{ messageId: `group-msg-1:${PEER_B}`, groupId: "group-1" },
+		]);
+		assert.strictEqual(sent.length, 1);
+		assert.strictEqual(sent[0].to, PEER_A);
+		assert.strictEqual(sent[0].groupId, "group-1");
+	});
+
+	test("sendToGroup reports members it refuses to send to as not queued", async () => {
+		const db = Object.assign(createDbMock(), {
+			getGroupMembers: (groupId: string) =>
+				[PEER_A, PEER_B].map((peerId) => ({
+					group_id: groupId,
+					peer_id: peerId,
+					added_at: Date.now(),
+				})),
+		});
+		const queued: string[] = [];
+		db.queueMessage = (messageId: string) => {
+			queued.push(messageId);
+		};
+
+		const router = new MessageRouter(
+			{
+				...createContext(db),
+				getSendBlockReason: (peerId: string) =>
+					peerId === PEER_B ? "Peer is blocked" : null,
+				getLibp2p: () =>
+					({
+						dialProtocol: async () => ({
+							send: async () => {},
+							close: async () => {},
+						}),
+						hangUp: async () => {},
+					}) as never,
+				encodeResponse: (message: YapYapMessage) =>
+					Buffer.from(JSON.stringify(message), "utf8") as unknown as Uint8Array,
+			},
+			{ transport: { reconnectAttempts: 0 } },
+		);
+
+		const deliveries = await router.sendToGroup({
+			id: "group-msg-2",
+			type: "data",
+			from: "peer-local",
+			to: "group-1",
+			groupId: "group-1",
+			payload: { text: "hello team" },
+			timestamp: Date.now(),
+		});
+
+		assert.deepStrictEqual(deliveries, [
+			{ peerId: PEER_A, messageId: `group-msg-2:${PEER_A}`, queued: false },
+			{
+				peerId: PEER_B,
+				messageId: `group-msg-2:${PEER_B}`,
+				queued: false,
+				error: "Peer is blocked",
+			},
+		]);
+		assert.deepStrictEqual(queued, [`group-msg-2:${PEER_A}`]);
+	});
+
+	test("receive applies read receipts only to messages sent to the reader", async () => {
+		const reads: Array<[string, string, string]> = [];
+		const db = Object.assign(createDbMock(), {
+			markMessageRead: (
+				messageId: string,
+				direction: string,
+				peerId: string,
+			): boolean => {
+				reads.push([messageId, direction, peerId]);
+				return messageId === "msg-1";
+			},
+		});
+		const events: YapYapEvent[] = [];
+		const router = new MessageRouter({
+			...createContext(db, events),
+			getLibp2p: () => undefined,
+			encodeResponse: () => new Uint8Array(),
+		});
+
+		const readAt = Date.now() - 1_000;
+		const receipt: ReadReceiptMessage = {
+			id: "read-1",
+			type: "read",
+			from: "peer-remote",
+			to: "peer-local",
+			payload: {},
+			timestamp: Date.now(),
+			originalMessageIds: ["msg-1", "msg-unknown"],
+			readAt,
+		};
+		await router.receive(receipt);
+
+		assert.deepStrictEqual(reads, [
+			["msg-1", "outbound", "peer-remote"],
+			["msg-unknown", "outbound", "peer-remote"],
+		]);
+		const readEvents = events.filter(
+			(event) => event.type === Events.Message.Read,
+		);
+		assert.deepStrictEqual(
+			readEvents.map((event) =>
+				event.type === Events.Message.Read
+					? [event.messageId, event.peer, event.readAt]
+					: [],
+			),
+			[["msg-1", "peer-remote", readAt]],
+		);
+		assert.deepStrictEqual(db.markProcessedCalls, []);
+	});
+
+	test("typing indicators skip the pending queue", async () => {
+		const db = createDbMock();
+		const queued: string[] = [];
+		db.queueMessage = (messageId: string) => {
+			queued.push(messageId);
+		};
+		const events: YapYapEvent[] = [];
+		const sent: YapYapMessage[] = [];
+		const router = new MessageRouter(
+			{
+				...createContext(db, events),
+				getLibp2p: () =>
+					({
+						dialProtocol: async () => ({
+							send: async (encoded: Uint8Array) => {
+								sent.push(
+									JSON.parse(Buffer.from(encoded).toString()) as YapYapMessage,
+								);
+							},
+							close: async () => {},
+						}),
+						hangUp: async () => {},
+					}) as never,
+				encodeResponse: (message: YapYapMessage) =>
+					Buffer.from(JSON.stringify(message), "utf8") as unknown as Uint8Array,
+			},
+			{ transport: { reconnectAttempts: 0 } },
+		);
+
+		await router.sendTyping(PEER_A, true);
+		assert.deepStrictEqual(queued, []);
+		assert.strictEqual(sent.length, 1);
+		assert.strictEqual(sent[0].type, "typing");
+		assert.strictEqual((sent[0] as TypingMessage).isTyping, true);
+
+		const indicator: TypingMessage = {
+			id: "typing-1",
+			type: "typing",
+			from: PEER_A,
+			to: "peer-local",
+			payload: {},
+			timestamp: Date.now(),
+			isTyping: false,
+		};
+		await router.receive(indicator);
+		assert.deepStrictEqual(db.markProcessedCalls, []);
+		assert.ok(
+			events.some(
+				(event) =>
+					event.type === Events.Message.Typing &&
+					event.peer === PEER_A &&
+					!event.isTyping,
+			),
+		);
+	});
+
+	test("enqueue persists a message without transmitting it", async () => {
+		const db = createDbMock();
+		const queued: string[] = [];
+		db.queueMessage = (messageId: string) => {
+			queued.push(messageId);
+		};
+		const events: YapYapEvent[] = [];
+		const router = new MessageRouter({
+			...createContext(db, events),
+			getLibp2p: () => {
+				throw new Error("enqueue must not touch the network");
+			},
+		});
+
+		const message: YapYapMessage = {
+			id: "offline-1",
+			type: "data",
+			from: "peer-local",
+			to: PEER_A,
+			payload: { content: "later" },
+			timestamp: Date.now(),
+		};
+		await router.enqueue(message);
+
+		assert.deepStrictEqual(queued, ["offline-1"]);
+		assert.strictEqual(typeof message.sequenceNumber, "number");
+		assert.ok(events.some((event) => event.type === Events.Message.Queued));
+	});
+
+	test("retry sends scheduled messages once due and fails blocked ones", async () => {
+		const db = createDbMock();
+		const queued: string[] = [];
+		const failed: string[] = [];
+		db.queueMessage = (messageId: string) => {
+			queued.push(messageId);
+		};
+		db.markPendingMessageFailed = (messageId: string) => {
+			failed.push(messageId);
+		};
+		const scheduledAt = Date.now() - 60_000;
+		db.getDueScheduledMessages = () =>
+			["reminder-1", "reminder-2"].map((id) => ({
+				message_id: id,
+				target_peer_id: id === "reminder-1" ? PEER_A : PEER_B,
+				message_data: JSON.stringify({
+					id,
+					type: "data",
+					from: "peer-local",
+					to: id === "reminder-1" ? PEER_A : PEER_B,
+					payload: { content: "reminder" },
+					timestamp: scheduledAt,
+				}),
+				status: "scheduled" as const,
+				attempts: 0,
+				next_retry_at: scheduledAt,
+				created_at: scheduledAt,
+				updated_at: scheduledAt,
+				deadline_at: Date.now() + 60_000,
+				priority: 0,
+			}));
+		let statusOfBlocked = "scheduled";
+		db.markMessageStatus = (messageId: string, status: string) => {
+			if (messageId === "reminder-2") statusOfBlocked = status;
+		};
+		db.getPendingMessage = ((messageId: string) =>
+			messageId === "reminder-2"
+				? { status: statusOfBlocked }
+				: null) as unknown as DbMock["getPendingMessage"];
+		const router = new MessageRouter({
+			...createContext(db),
+			getLibp2p: () => undefined,
+			getSendBlockReason: (peerId: string) =>
+				peerId === PEER_B ? "Peer is blocked" : null,
+		});
+
+		await router.retry();
+
+		assert.deepStrictEqual(queued, ["reminder-1"]);
+		assert.deepStrictEqual(failed, ["reminder-2"]);
+	});
+
+	test("enqueue carries the conversation expiry and starts the clock", async () => {
+		const db = createDbMock();
+		const expiries: Array<[string, string, number]> = [];
+		db.getConversation = (conversationId) =>
+			conversationId === `peer:${PEER_A}` ? { expire_after_ms: 60_000 } : null;
+		db.setMessageExpiry = (
+			messageId: string,
+			direction: string,
+			expiresAt: number,
+		) => {
+			expiries.push([messageId, direction, expiresAt]);
+		};
+		const router = new MessageRouter({
+			...createContext(db),
+			getLibp2p: () => undefined,
+		});
+		const message: YapYapMessage = {
+			id: "vanishing-1",
+			type: "data",
+			from: "peer-local",
+			to: PEER_A,
+			payload: { content: "gone soon" },
+			timestamp: Date.now(),
+			expireAfterMs: 120_000,
+		};
+		const before = Date.now();
+		await router.enqueue(message);
+
+		// The shorter of the message and conversation settings wins
+		assert.strictEqual(expiries.length, 1);
+		assert.deepStrictEqual(expiries[0].slice(0, 2), [
+			"vanishing-1",
+			"outbound",
+		]);
+		assert.ok(expiries[0][2] >= before + 60_000);
+		assert.ok(expiries[0][2] < before + 120_000);
+		assert.strictEqual(message.expireAfterMs, 120_000);
+	});
+
+	test("retry purges expired messages and emits an event", async () => {
+		const db = createDbMock();
+		const recorded: string[] = [];
+		db.expireMessages = () => [
+			{
+				message_id: "vanishing-2",
+				direction: "inbound",
+				peer_id: PEER_A,
+				group_id: null,
+				expires_at: 1_000,
+			},
+		];
+		db.recordMessageEvent = (messageId: string, event: string) => {
+			recorded.push(`${messageId}:${event}`);
+		};
+		const events: YapYapEvent[] = [];
+		const router = new MessageRouter({
+			...createContext(db, events),
+			getLibp2p: () => undefined,
+		});
+
+		await router.retry();
+
+		assert.deepStrictEqual(recorded, ["vanishing-2:expired"]);
+		const expired = events.find(
+			(event) => event.type === Events.Message.Expired,
+		);
+		assert.ok(expired && expired.type === Events.Message.Expired);
+		assert.strictEqual(expired.messageId, "vanishing-2");
+		assert.strictEqual(expired.peer, PEER_A);
+		assert.strictEqual(expired.expiredAt, 1_000);
+	});
+
+	test("retry encrypts messages queued as plaintext before sending them", async () => {
+		const queuedAt = Date.now() - 1_000;
+		const entry = {
+			message_id: "offline-1",
+			target_peer_id: VALID_PEER_ID,
+			message_data: JSON.stringify({
+				id: "offline-1",
+				type: "data",
+				from: "peer-local",
+				to: VALID_PEER_ID,
+				payload: { content: "queued while stopped" },
+				timestamp: queuedAt,
+			}),
+			status: "pending" as const,
+			attempts: 0,
+			next_retry_at: queuedAt,
+			created_at: queuedAt,
+			updated_at: queuedAt,
+			deadline_at: Date.now() + 60_000,
+		};
+		const stored: Array<Record<string, unknown>> = [];
+		const reasons: string[] = [];
+		const createDb = () => {
+			const db = createDbMock();
+			db.getRetryablePendingMessages = () => [entry];
+			db.updatePendingMessageData = (_messageId, message) => {
+				stored.push(message);
+			};
+			db.schedulePendingRetry = (_messageId, _nextRetryAt, reason) => {
+				reasons.push(reason ?? "");
+			};
+			return db;
+		};
+
+		const withoutKey = new MessageRouter({
+			...createContext(createDb()),
+			fetchRecipientPublicKey: async () => null,
+			getLibp2p: () => undefined,
+		});
+		await withoutKey.retry();
+		assert.deepStrictEqual(stored, []);
+		assert.ok(reasons[0].startsWith("encryption:"));
+
+		const router = new MessageRouter({
+			...createContext(createDb()),
+			getLibp2p: () => undefined,
+		});
+		await router.retry();
+		assert.strictEqual(stored.length, 1);
+		const payload = stored[0].payload as { encrypted?: boolean };
+		assert.strictEqual(payload.encrypted, true);
+		assert.ok(!JSON.stringify(stored[0]).includes("queued while stopped"));
+	});
+
+	test("forceRetry encrypts a plaintext pending entry before sending it", async () => {
+		const queuedAt = Date.now() - 1_000;
+		const entry = {
+			message_id: "offline-2",
+			target_peer_id: VALID_PEER_ID,
+			message_data: JSON.stringify({
+				id: "offline-2",
+				type: "data",
+				from: "peer-local",
+				to: VALID_PEER_ID,
+				payload: { content: "queued while stopped" },
+				timestamp: queuedAt,
+			}),
+			status: "failed" as const,
+			attempts: 5,
+			next_retry_at: queuedAt,
+			created_at: queuedAt,
+			updated_at: queuedAt,
+			deadline_at: Date.now() + 60_000,
+		};
+		const db = createDbMock();
+		db.resetPendingRetry = () => true;
+		db.getPendingMessage = () => entry;
+		const stored: Array<Record<string, unknown>> = [];
+		db.updatePendingMessageData = (_messageId, message) => {
+			stored.push(message);
+		};
+		const frames: string[] = [];
+		const router = new MessageRouter({
+			...createContext(db),
+			getLibp2p: () =>
+				({
+					dialProtocol: async () => ({
+						send: async (frame: Uint8Array) => {
+							frames.push(Buffer.from(frame).toString("utf8"));
+						},
+						close: async () => {},
+					}),
+				}) as never,
+			encodeResponse: (message) =>
+				Buffer.from(JSON.stringify(message), "utf8") as unknown as Uint8Array,
+		});
+
+		await router.forceRetry("offline-2");
+		assert.strictEqual(stored.length, 1);
+		assert.strictEqual(frames.length, 1);
+		const sent = JSON.parse(frames[0]) as YapYapMessage;
+		assert.strictEqual(
+			(sent.payload as { encrypted?: boolean }).encrypted,
+			true,
+		);
+		assert.ok(!frames[0].includes("queued while stopped"));
+	});
+
+	test("receive applies edits and retractions signed by the original sender", async () => {
+		const senderKey = await generateKeyPair("Ed25519");
+		const sender = peerIdFromPrivateKey(senderKey).toString();
+		const amendments: Array<[string, string, string, unknown]> = [];
+		const db = Object.assign(createDbMock(), {
+			editMessage: (
+				messageId: string,
+				direction: string,
+				peerId: string,
+				payload: unknown,
+			): boolean => {
+				amendments.push([messageId, direction, peerId, payload]);
+				return peerId === sender;
+			},
+			retractMessage: (
+				messageId: string,
+				direction: string,
+				peerId: string,
+			): boolean => {
+				amendments.push([messageId, direction, peerId, null]);
+				return peerId === sender;
+			},
+		});
+		const events: YapYapEvent[] = [];
+		const sent: YapYapMessage[] = [];
+		const router = new MessageRouter(
+			{
+				...createContext(db, events),
+				getLibp2p: () =>
+					({
+						dialProtocol: async () => ({
+							send: async (encoded: Uint8Array) => {
+								sent.push(
+									JSON.parse(Buffer.from(encoded).toString()) as YapYapMessage,
+								);
+							},
+							close: async () => {},
+						}),
+						hangUp: async () => {},
+					}) as never,
+				encodeResponse: (message: YapYapMessage) =>
+					Buffer.from(JSON.stringify(message), "utf8") as unknown as Uint8Array,
+				verifyPeerSignature: async (
+					peerId: string,
+					data: Uint8Array,
+					signature: string,
+				) =>
+					(await peerIdFromString(peerId).publicKey?.verify(
+						data,
+						Buffer.from(signature, "hex"),
+					)) === true,
+			},
+			{ transport: { reconnectAttempts: 0 } },
+		);
+		const sign = async (message: EditMessage | RetractMessage) =>
+			Buffer.from(
+				await senderKey.sign(amendmentSigningBytes(message)),
+			).toString("hex");
+
+		const edit: EditMessage = {
+			id: "edit-1",
+			type: "edit",
+			from: sender,
+			to: "peer-local",
+			payload: { content: "fixed" },
+			timestamp: Date.now(),
+			originalMessageId: "msg-1",
+			signature: "",
+		};
+		edit.signature = await sign(edit);
+		await router.receive(edit);
+
+		// Signed by a different peer than `from`: dropped without touching the DB
+		const forged: RetractMessage = {
+			id: "retract-forged",
+			type: "retract",
+			from: PEER_A,
+			to: "peer-local",
+			payload: {},
+			timestamp: Date.now(),
+			originalMessageId: "msg-2",
+			signature: "",
+		};
+		forged.signature = await sign(forged);
+		await router.receive(forged);
+
+		// Content swapped after signing, e.g. by a relay: dropped as well
+		const swapped: EditMessage = {
+			...edit,
+			id: "edit-swapped",
+			originalMessageId: "msg-3",
+			signature: "",
+		};
+		swapped.signature = await sign(swapped);
+		swapped.payload = { content: "injected" };
+		await router.receive(swapped);
+
+		const retract: RetractMessage = {
+			id: "retract-1",
+			type: "retract",
+			from: sender,
+			to: "peer-local",
+			payload: {},
+			timestamp: Date.now(),
+			originalMessageId: "msg-1",
+			signature: "",
+		};
+		retract.signature = await sign(retract);
+		await router.receive(retract);
+
+		assert.deepStrictEqual(amendments, [
+			["msg-1", "inbound", sender, { content: "fixed" }],
+			["msg-1", "inbound", sender, null],
+		]);
+		assert.deepStrictEqual(
+			events
+				.filter(
+					(event) =>
+						event.type === Events.Message.Edited ||
+						event.type === Events.Message.Retracted,
+				)
+				.map((event) => event.type),
+			[Events.Message.Edited, Events.Message.Retracted],
+		);
+		assert.deepStrictEqual(
+			sent
+				.filter((message) => message.type === "ack")
+				.map((message) => (message as AckMessage).originalMessageId),
+			["edit-1", "retract-1"],
+		);
+		assert.deepStrictEqual(db.markProcessedCalls, []);
+	});
+
+	test("sendEdit refuses to send without a peer signing key", async () => {
+		const db = createDbMock();
+		let edited = false;
+		Object.assign(db, {
+			editMessage: () => {
+				edited = true;
+				return true;
+			},
+		});
+		const router = new MessageRouter({
+			...createContext(db),
+			getLibp2p: () => undefined,
+			encodeResponse: () => new Uint8Array(),
+		});
+
+		await assert.rejects(
+			router.sendEdit(PEER_A, "msg-1", { content: "new" }),
+			/cannot sign/,
+		);
+		assert.strictEqual(edited, false);
+	});
 });
@@ -1,16 +1,40 @@
-import { createHash } from "node:crypto";
+import { createHash, randomUUID } from "node:crypto";
 import type { Libp2p, PeerId, Stream } from "@libp2p/interface";
 import { peerIdFromString } from "@libp2p/peer-id";
 import type { Multiaddr } from "@multiformats/multiaddr";
-import type {
-	DatabaseManager,
-	MessageReplicaEntry,
-	PendingMessageEntry,
-	RoutingCacheEntry,
+import {
+	conversationIdFor,
+	type DatabaseManager,
+	type MessageEventType,
+	type MessageReplicaEntry,
+	type PeerReputationAdjustment,
+	type PendingMessageEntry,
+	type RoutingCacheEntry,
 } from "../database/index.js";
-import { Events, type YapYapEvent } from "../events/event-types.js";
+import {
+	Events,
+	nextEventId,
+	type YapYapEvent,
+} from "../events/event-types.js";
+import {
+	type Counter,
+	type Histogram,
+	MetricsRegistry,
+} from "../metrics/index.js";
 import type { ConnectionHealthMonitor } from "../network/NetworkModule.js";
-import type { AckMessage, NakMessage, YapYapMessage } from "./message.js";
+import { decayReputation } from "../routing/index.js";
+import { isFileTransferPayload } from "./file-transfer.js";
+import {
+	type AckMessage,
+	amendmentSigningBytes,
+	type EditMessage,
+	type GroupMessage,
+	type NakMessage,
+	type ReadReceiptMessage,
+	type RetractMessage,
+	type TypingMessage,
+	type YapYapMessage,
+} from "./message.js";
 
 /**
  * Node context interface for MessageRouter with proper type safety
@@ -24,7 +48,11 @@ interface NodeContext {
 		privateKey: Buffer | undefined;
 		publicKey: Buffer | undefined;
 	};
-	encryptMessage: (payload: unknown, recipient: Uint8Array) => Promise<unknown>;
+	encryptMessage: (
+		payload: unknown,
+		recipient: Uint8Array,
+		peerId?: string,
+	) => Promise<unknown>;
 	encodeResponse: (message: YapYapMessage) => Uint8Array;
 	safeClose: (stream: Stream) => Promise<void>;
 	pendingAcks?: Map<string, { timeout: NodeJS.Timeout }>;
@@ -48,6 +76,29 @@ interface NodeContext {
 		signature: string,
 		signerPublicKey: string,
 	) => Promise<boolean>;
+	/**
+	 * Sign with this node's libp2p peer key, returning a hex signature (or
+	 * null if the key is unavailable)
+	 */
+	signAsPeer?: (data: Uint8Array) => Promise<string | null>;
+	verifyPeerSignature?: (
+		peerId: string,
+		data: Uint8Array,
+		signature: string,
+	) => Promise<boolean>;
+	/**
+	 * Payload to persist for an inbound message whose payload replaces
+	 * stored content (ratchet payloads can only be decrypted once)
+	 */
+	resolveStoredPayload?: (message: YapYapMessage) => Promise<unknown>;
+	onMessageEdited?: (
+		edit: EditMessage,
+		storedPayload: unknown,
+	) => Promise<void>;
+	/**
+	 * Why data messages to a peer must not be queued, or null if allowed
+	 */
+	getSendBlockReason?: (peerId: string) => string | null;
 	getBootstrapPeerIds?: () => string[];
 	getThrottleKeyForPeer?: (peerId: string) => string | undefined;
 	getDiscoveredPeers?: () => Array<{
@@ -56,6 +107,7 @@ interface NodeContext {
 		last_seen: number;
 	}>;
 	healthMonitor?: ConnectionHealthMonitor;
+	metrics?: MetricsRegistry;
 	waitForPeerPublicKey?: (
 		peerId: string,
 		timeoutMs?: number,
@@ -81,6 +133,19 @@ export interface MessageRouterOptions {
 		closeTimeoutMs?: number;
 		reconnectAttempts?: number;
 	};
+	retry?: {
+		maxAttempts?: number;
+		baseDelayMs?: number;
+		maxDelayMs?: number;
+	};
+	retention?: {
+		messageTtlMs?: number;
+		processedMessageMaxAgeMs?: number;
+	};
+	/** Drop data messages from peers that are not contacts */
+	contactsOnly?: boolean;
+	/** Time for a peer score to decay halfway back toward zero */
+	reputationHalfLifeMs?: number;
 }
 
 const DEFAULT_MESSAGE_TTL_MS = 86_400_000;
@@ -106,11 +171,17 @@ const DEFAULT_ORIGIN_RATE_LIMIT = {
 const PEER_SCORE_MIN = -100;
 const PEER_SCORE_MAX = 100;
 const PEER_SCORE_BLOCK_THRESHOLD = -40;
+/** Deltas at or below this are penalties worth persisting and announcing now */
+const PEER_SCORE_PENALTY = -2;
+const PEER_SCORE_FLUSH_DELAY_MS = 10_000;
 const DEFAULT_DIAL_TIMEOUT_MS = 5_000;
 const DEFAULT_SEND_TIMEOUT_MS = 5_000;
 const DEFAULT_CLOSE_TIMEOUT_MS = 2_000;
 const DEFAULT_RECONNECT_ATTEMPTS = 3;
 const RETRY_JITTER_MS = 500;
+const ACK_LATENCY_BUCKETS_SECONDS = [
+	0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 300, 1800, 3600,
+];
 
 interface RelayEnvelopePayload {
 	targetPeerId: string;
@@ -122,6 +193,18 @@ interface RelayEnvelopePayload {
 	signerPublicKey?: string;
 }
 
+export interface SendOptions {
+	/** Retry order among queued messages; higher goes first (default 0) */
+	priority?: number;
+}
+
+export interface GroupDeliveryResult {
+	peerId: string;
+	messageId: string;
+	queued: boolean;
+	error?: string;
+}
+
 export interface DeltaSyncPayload {
 	originPeerId: string;
 	sinceTimestamp: number;
@@ -154,31 +237,214 @@ export class MessageRouter {
 		{ tokens: number; lastRefillAt: number }
 	> = new Map();
 	private peerScores: Map<string, number> = new Map();
+	/** When each score in peerScores was set; decay is measured from here */
+	private peerScoreUpdatedAt: Map<string, number> = new Map();
+	/** Score changes not yet persisted, summed per peer and reason */
+	private pendingPeerScores: Map<string, PeerReputationAdjustment> = new Map();
+	private peerScoreFlushTimer: ReturnType<typeof setTimeout> | undefined;
 	private readonly options: MessageRouterOptions;
+	private readonly metrics: {
+		enqueued: Counter;
+		retries: Counter;
+		deliveryErrors: Counter;
+		naks: Counter;
+		failed: Counter;
+		inboundDropped: Counter;
+		ackLatency: Histogram;
+	};
 
 	constructor(nodeContext: NodeContext, options: MessageRouterOptions = {}) {
 		this.nodeContext = nodeContext;
 		this.options = options;
+		this.metrics = this.registerMetrics(
+			nodeContext.metrics ?? new MetricsRegistry(),
+		);
+		for (const entry of nodeContext.db.getPeerReputations()) {
+			this.peerScores.set(entry.peer_id, entry.score);
+			this.peerScoreUpdatedAt.set(entry.peer_id, entry.updated_at);
+		}
 	}
 
 	/**
 	 * Send a message: enqueue, persist, encrypt, and transmit
 	 */
-	async send(message: YapYapMessage): Promise<void> {
+	async send(message: YapYapMessage, options: SendOptions = {}): Promise<void> {
 		// 1. Persist to DB (queue for delivery)
+		await this.enqueue(message, options);
+
+		// 2. Encrypt payload (mandatory); retries send the stored ciphertext
+		if (await this.encryptPayload(message, true)) {
+			this.nodeContext.db.updatePendingMessageData(
+				message.id,
+				message as unknown as Record<string, unknown>,
+			);
+		}
+
+		// 3. Transmit message using libp2p
+		const libp2p = this.nodeContext.getLibp2p();
+		if (!libp2p) throw new Error("libp2p not initialized");
+
+		// Dial the message protocol on the target peer
+		try {
+			await this.transmit(message);
+			this.recordMessageEvent(message.id, "sent", { peerId: message.to });
+			await this.emitRouterEvent({
+				id: nextEventId(),
+				timestamp: Date.now(),
+				type: Events.Message.Sent,
+				message: {
+					id: message.id,
+					to: message.to,
+					content: this.getMessageContent(message),
+					timestamp: message.timestamp,
+				},
+			});
+		} catch (error) {
+			this.recordMessageEvent(message.id, "send-failed", {
+				peerId: message.to,
+				detail: String(error),
+			});
+			await this.emitRouterEvent({
+				id: nextEventId(),
+				timestamp: Date.now(),
+				type: Events.Message.Failed,
+				message: {
+					id: message.id,
+					to: message.to,
+					error: String(error),
+				},
+			});
+			throw error;
+		}
+	}
+
+	/**
+	 * Encrypt a plaintext payload for its recipient in place. Returns false
+	 * when there was nothing to encrypt. Without waitForKey it only uses a
+	 * key that is already known, so a retry pass never stalls on lookups.
+	 */
+	private async encryptPayload(
+		message: YapYapMessage,
+		waitForKey: boolean,
+	): Promise<boolean> {
+		if (
+			!message.payload ||
+			typeof message.payload !== "object" ||
+			(message.payload as { encrypted?: unknown }).encrypted === true
+		) {
+			return false;
+		}
+		let recipientPublicKey = await this.nodeContext.fetchRecipientPublicKey(
+			message.to,
+		);
+		if (!recipientPublicKey && waitForKey) {
+			await this.ensureRecipientPublicKey(message.to);
+			recipientPublicKey = await this.nodeContext.fetchRecipientPublicKey(
+				message.to,
+			);
+		}
+		const pendingKeyRefresh =
+			Boolean(recipientPublicKey) &&
+			Boolean(this.nodeContext.shouldRefreshPeerPublicKey?.(message.to));
+		if (
+			waitForKey &&
+			this.nodeContext.waitForPeerPublicKey &&
+			(!recipientPublicKey || pendingKeyRefresh)
+		) {
+			try {
+				await this.nodeContext.waitForPeerPublicKey(
+					message.to,
+					5_000,
+					pendingKeyRefresh,
+				);
+				recipientPublicKey = await this.nodeContext.fetchRecipientPublicKey(
+					message.to,
+				);
+			} catch {
+				recipientPublicKey = null;
+			}
+		}
+		const nodeKeyPair = this.nodeContext.getNodeKeyPair();
+
+		if (
+			!recipientPublicKey ||
+			!nodeKeyPair?.privateKey ||
+			!nodeKeyPair?.publicKey
+		) {
+			throw new Error(
+				"Encryption required but recipient public key or node key pair not available",
+			);
+		}
+
+		console.log(
+			`[message-router] encrypting for ${message.to} key=${recipientPublicKey.toString(
+				"hex",
+			)}`,
+		);
+
+		const encrypted = await this.nodeContext.encryptMessage(
+			message.payload,
+			recipientPublicKey,
+			message.to,
+		);
+		message.payload = encrypted;
+		return true;
+	}
+
+	/**
+	 * Queue a message for delivery without transmitting it; the retry
+	 * scheduler (or a later send) delivers it once the peer is reachable.
+	 */
+	async enqueue(
+		message: YapYapMessage,
+		options: SendOptions = {},
+	): Promise<void> {
 		const db = this.nodeContext.db;
+		if (message.type === "data") {
+			const blockReason = this.nodeContext.getSendBlockReason?.(message.to);
+			if (blockReason) {
+				throw new Error(blockReason);
+			}
+		}
+
 		const queueKey = message.to;
 		const now = Date.now();
+		if (message.type === "data" && message.expireAfterMs === undefined) {
+			// Carry the conversation's setting so the recipient honors it too
+			const conversation = db.getConversation(
+				conversationIdFor(message.to, message.groupId),
+			);
+			if (conversation?.expire_after_ms) {
+				message.expireAfterMs = conversation.expire_after_ms;
+			}
+		}
 		this.applyOutgoingVectorClock(message);
-		const deadlineAt = now + DEFAULT_MESSAGE_TTL_MS;
+		const deadlineAt = now + this.getMessageTtlMs();
 		db.queueMessage(
 			message.id,
 			message as unknown as Record<string, unknown>,
 			queueKey,
 			deadlineAt,
+			message.groupId,
+			options.priority,
 		);
+		if (message.type === "data") {
+			// File transfer frames are not conversation messages
+			if (!isFileTransferPayload(message.payload)) {
+				db.recordConversationMessage({
+					messageId: message.id,
+					direction: "outbound",
+					peerId: message.to,
+					groupId: message.groupId,
+					payload: message.payload,
+				});
+			}
+			this.applyMessageExpiry(message, "outbound", message.to);
+		}
+		this.recordMessageEvent(message.id, "queued", { peerId: message.to });
+		this.metrics.enqueued.inc({ type: message.type });
 		await this.emitRouterEvent({
-			id: `evt_${Date.now()}_${message.id}`,
+			id: nextEventId(),
 			timestamp: Date.now(),
 			type: Events.Message.Queued,
 			message: {
@@ -188,108 +454,335 @@ export class MessageRouter {
 				timestamp: message.timestamp,
 			},
 		});
+	}
 
-		// 2. Encrypt payload (mandatory)
-		if (message.payload && typeof message.payload === "object") {
-			let recipientPublicKey = await this.nodeContext.fetchRecipientPublicKey(
-				message.to,
-			);
-			if (!recipientPublicKey) {
-				await this.ensureRecipientPublicKey(message.to);
-				recipientPublicKey = await this.nodeContext.fetchRecipientPublicKey(
-					message.to,
-				);
-			}
-			const pendingKeyRefresh =
-				Boolean(recipientPublicKey) &&
-				Boolean(this.nodeContext.shouldRefreshPeerPublicKey?.(message.to));
-			if (
-				this.nodeContext.waitForPeerPublicKey &&
-				(!recipientPublicKey || pendingKeyRefresh)
-			) {
-				try {
-					await this.nodeContext.waitForPeerPublicKey(
-						message.to,
-						5_000,
-						pendingKeyRefresh,
-					);
-					recipientPublicKey = await this.nodeContext.fetchRecipientPublicKey(
-						message.to,
-					);
-				} catch {
-					recipientPublicKey = null;
-				}
+	/**
+	 * Hold a message until sendAt. The retry scheduler sends it once due,
+	 * so it is encrypted, sequenced and timestamped at send time.
+	 */
+	async schedule(
+		message: YapYapMessage,
+		sendAt: number,
+		options: SendOptions = {},
+	): Promise<void> {
+		if (message.type === "data") {
+			const blockReason = this.nodeContext.getSendBlockReason?.(message.to);
+			if (blockReason) {
+				throw new Error(blockReason);
 			}
-			const nodeKeyPair = this.nodeContext.getNodeKeyPair();
+		}
+		this.nodeContext.db.scheduleMessage(
+			message.id,
+			message as unknown as Record<string, unknown>,
+			message.to,
+			sendAt,
+			sendAt + this.getMessageTtlMs(),
+			message.groupId,
+			options.priority,
+		);
+		this.recordMessageEvent(message.id, "scheduled", {
+			peerId: message.to,
+			detail: new Date(sendAt).toISOString(),
+		});
+	}
+
+	/**
+	 * Stop retrying a queued message. Copies already handed to relays are
+	 * not recalled.
+	 */
+	async cancel(messageId: string): Promise<boolean> {
+		const db = this.nodeContext.db;
+		const entry = db.getPendingMessage(messageId);
+		if (!entry || !db.cancelPendingMessage(messageId)) {
+			return false;
+		}
+		this.recordMessageEvent(messageId, "cancelled", {
+			peerId: entry.target_peer_id,
+		});
+		await this.emitRouterEvent({
+			id: nextEventId(),
+			timestamp: Date.now(),
+			type: Events.Message.Failed,
+			message: {
+				id: messageId,
+				to: entry.target_peer_id,
+				error: "cancelled",
+			},
+		});
+		return true;
+	}
 
+	/**
+	 * Send a queued, failed or cancelled message now with its backoff and
+	 * attempt count cleared, re-queueing it from history if cleanup already
+	 * pruned it. Throws when the transmit fails, after scheduling a retry.
+	 */
+	async forceRetry(messageId: string): Promise<void> {
+		const db = this.nodeContext.db;
+		const deadlineAt = Date.now() + this.getMessageTtlMs();
+		if (!db.resetPendingRetry(messageId, deadlineAt)) {
+			const history = db.getMessageHistoryEntry(messageId, "outbound");
 			if (
-				!recipientPublicKey ||
-				!nodeKeyPair?.privateKey ||
-				!nodeKeyPair?.publicKey
+				!history?.message_data ||
+				history.status === "delivered" ||
+				history.status === "scheduled"
 			) {
-				throw new Error(
-					"Encryption required but recipient public key or node key pair not available",
-				);
+				throw new Error(`Message ${messageId} is not queued`);
 			}
-
-			console.log(
-				`[message-router] encrypting for ${message.to} key=${recipientPublicKey.toString(
-					"hex",
-				)}`,
-			);
-
-			const encrypted = await this.nodeContext.encryptMessage(
-				message.payload,
-				recipientPublicKey,
+			db.queueMessage(
+				messageId,
+				JSON.parse(history.message_data) as Record<string, unknown>,
+				history.peer_id,
+				deadlineAt,
+				history.group_id ?? undefined,
 			);
-			message.payload = encrypted;
+		}
+		const entry = db.getPendingMessage(messageId);
+		if (!entry) {
+			throw new Error(`Message ${messageId} is not queued`);
 		}
 
-		// 3. Transmit message using libp2p
-		const libp2p = this.nodeContext.getLibp2p();
-		if (!libp2p) throw new Error("libp2p not initialized");
-
-		// Dial the message protocol on the target peer
+		// Keep the retry scheduler from sending the same entry concurrently
+		db.markMessageStatus(messageId, "processing");
+		this.recordMessageEvent(messageId, "queued", {
+			peerId: entry.target_peer_id,
+			detail: "manual retry",
+		});
+		this.metrics.retries.inc();
+		const message = JSON.parse(entry.message_data) as YapYapMessage;
 		try {
+			// Offline-queued and history re-queued entries are still plaintext
+			if (await this.encryptPayload(message, false)) {
+				db.updatePendingMessageData(
+					messageId,
+					message as unknown as Record<string, unknown>,
+				);
+			}
 			await this.transmit(message);
-			await this.emitRouterEvent({
-				id: `evt_${Date.now()}_${message.id}`,
-				timestamp: Date.now(),
-				type: Events.Message.Sent,
-				message: {
-					id: message.id,
-					to: message.to,
-					content: this.getMessageContent(message),
-					timestamp: message.timestamp,
-				},
-			});
 		} catch (error) {
-			await this.emitRouterEvent({
-				id: `evt_${Date.now()}_${message.id}`,
-				timestamp: Date.now(),
-				type: Events.Message.Failed,
-				message: {
-					id: message.id,
-					to: message.to,
-					error: String(error),
-				},
+			const transportError = this.classifyTransportError(error);
+			this.metrics.deliveryErrors.inc({ reason: transportError });
+			const reason = `${transportError}:${String(error)}`;
+			db.schedulePendingRetry(
+				messageId,
+				Date.now() + this.calculateBackoffDelay(0),
+				reason,
+			);
+			this.recordMessageEvent(messageId, "retry-scheduled", {
+				peerId: entry.target_peer_id,
+				detail: reason,
 			});
 			throw error;
 		}
+		db.markPendingMessageDelivered(messageId);
+		this.recordMessageEvent(messageId, "sent", {
+			peerId: entry.target_peer_id,
+			detail: "manual retry",
+		});
+		await this.emitRouterEvent({
+			id: nextEventId(),
+			timestamp: Date.now(),
+			type: Events.Message.Delivered,
+			message: {
+				id: messageId,
+				to: entry.target_peer_id,
+				peer: entry.target_peer_id,
+			},
+		});
+	}
+
+	/**
+	 * Send a group message: fan out one copy per member. Each copy gets its
+	 * own message ID so queueing, retries and ACKs are tracked per member.
+	 * Members we refuse to send to are reported as not queued, with the reason.
+	 */
+	async sendToGroup(message: GroupMessage): Promise<GroupDeliveryResult[]> {
+		const db = this.nodeContext.db;
+		const selfPeerId = this.nodeContext.getPeerId();
+		const members = db
+			.getGroupMembers(message.groupId)
+			.map((member) => member.peer_id)
+			.filter((peerId) => peerId !== selfPeerId);
+
+		return Promise.all(
+			members.map(async (peerId): Promise<GroupDeliveryResult> => {
+				const copy: YapYapMessage = {
+					...message,
+					id: `${message.id}:${peerId}`,
+					to: peerId,
+				};
+				const blockReason = this.nodeContext.getSendBlockReason?.(peerId);
+				if (blockReason) {
+					return {
+						peerId,
+						messageId: copy.id,
+						queued: false,
+						error: blockReason,
+					};
+				}
+				try {
+					await this.send(copy);
+					return { peerId, messageId: copy.id, queued: false };
+				} catch (error) {
+					return {
+						peerId,
+						messageId: copy.id,
+						queued: true,
+						error: error instanceof Error ? error.message : String(error),
+					};
+				}
+			}),
+		);
+	}
+
+	/**
+	 * Mark received messages from a peer as read and send the peer a read
+	 * receipt. Receipts are queued like ACKs so they reach offline peers.
+	 */
+	async sendReadReceipt(
+		peerId: string,
+		messageIds: string[],
+		readAt = Date.now(),
+	): Promise<string[]> {
+		const db = this.nodeContext.db;
+		const newlyRead = messageIds.filter((messageId) =>
+			db.markMessageRead(messageId, "inbound", peerId, readAt),
+		);
+		if (newlyRead.length === 0) {
+			return newlyRead;
+		}
+		const receipt: ReadReceiptMessage = {
+			id: `read_${randomUUID()}`,
+			type: "read",
+			from: this.nodeContext.getPeerId(),
+			to: peerId,
+			payload: {},
+			timestamp: Date.now(),
+			originalMessageIds: newlyRead,
+			readAt,
+		};
+		await this.send(receipt);
+		return newlyRead;
+	}
+
+	/**
+	 * Send a typing indicator. Indicators are ephemeral: they skip the
+	 * pending queue and are dropped if the peer is unreachable.
+	 */
+	async sendTyping(peerId: string, isTyping: boolean): Promise<void> {
+		const indicator: TypingMessage = {
+			id: `typing_${randomUUID()}`,
+			type: "typing",
+			from: this.nodeContext.getPeerId(),
+			to: peerId,
+			payload: {},
+			timestamp: Date.now(),
+			isTyping,
+		};
+		await this.transmit(indicator);
+	}
+
+	/**
+	 * Edit a message we sent: update our copy and send the peer a signed
+	 * edit carrying the new payload
+	 */
+	async sendEdit(
+		peerId: string,
+		originalMessageId: string,
+		payload: unknown,
+	): Promise<EditMessage> {
+		const edit: EditMessage = {
+			id: `edit_${randomUUID()}`,
+			type: "edit",
+			from: this.nodeContext.getPeerId(),
+			to: peerId,
+			payload,
+			timestamp: Date.now(),
+			originalMessageId,
+			signature: "",
+		};
+		// Sign what goes on the wire, so encrypt first
+		await this.encryptPayload(edit, true);
+		edit.signature = await this.signAmendment(edit);
+		this.nodeContext.db.editMessage(
+			originalMessageId,
+			"outbound",
+			peerId,
+			payload,
+			edit.timestamp,
+		);
+		await this.send(edit);
+		return edit;
+	}
+
+	/**
+	 * Delete a message we sent for everyone: tombstone our copy and send the
+	 * peer a signed retraction
+	 */
+	async sendRetract(
+		peerId: string,
+		originalMessageId: string,
+	): Promise<RetractMessage> {
+		const retract: RetractMessage = {
+			id: `retract_${randomUUID()}`,
+			type: "retract",
+			from: this.nodeContext.getPeerId(),
+			to: peerId,
+			payload: {},
+			timestamp: Date.now(),
+			originalMessageId,
+			signature: "",
+		};
+		await this.encryptPayload(retract, true);
+		retract.signature = await this.signAmendment(retract);
+		this.nodeContext.db.retractMessage(
+			originalMessageId,
+			"outbound",
+			peerId,
+			retract.timestamp,
+		);
+		await this.send(retract);
+		return retract;
+	}
+
+	private async signAmendment(
+		message: EditMessage | RetractMessage,
+	): Promise<string> {
+		const signature = await this.nodeContext.signAsPeer?.(
+			amendmentSigningBytes(message),
+		);
+		if (!signature) {
+			throw new Error("Peer key unavailable: cannot sign message amendment");
+		}
+		return signature;
 	}
 
 	/**
 	 * Receive a message: deduplicate, persist, ACK, process
 	 */
 	async receive(message: YapYapMessage): Promise<void> {
+		if (this.isPeerBlocked(message.from)) {
+			this.metrics.inboundDropped.inc({ reason: "blocked" });
+			return;
+		}
+		if (
+			this.options.contactsOnly &&
+			message.type === "data" &&
+			!this.nodeContext.db.getContact(message.from)
+		) {
+			this.metrics.inboundDropped.inc({ reason: "not-contact" });
+			return;
+		}
 		const throttleKey =
 			this.nodeContext.getThrottleKeyForPeer?.(message.from) ?? message.from;
 		if (!this.allowInboundByOriginKey(throttleKey)) {
-			this.bumpPeerScore(message.from, -2);
+			this.metrics.inboundDropped.inc({ reason: "origin-rate-limit" });
+			this.bumpPeerScore(message.from, -2, "origin-rate-limit");
 			return;
 		}
 		if (!this.allowInboundFromPeer(message.from)) {
-			this.bumpPeerScore(message.from, -2);
+			this.metrics.inboundDropped.inc({ reason: "rate-limit" });
+			this.bumpPeerScore(message.from, -2, "rate-limit");
 			return;
 		}
 
@@ -310,7 +803,23 @@ export class MessageRouter {
 		}
 
 		if (!this.isTimestampValid(message.timestamp)) {
-			this.bumpPeerScore(message.from, -2);
+			this.metrics.inboundDropped.inc({ reason: "invalid-timestamp" });
+			this.bumpPeerScore(message.from, -2, "invalid-timestamp");
+			return;
+		}
+
+		if (message.type === "read") {
+			await this.handleReadReceipt(message as ReadReceiptMessage);
+			return;
+		}
+
+		if (message.type === "typing") {
+			await this.handleTyping(message as TypingMessage);
+			return;
+		}
+
+		if (message.type === "edit" || message.type === "retract") {
+			await this.handleAmendment(message as EditMessage | RetractMessage);
 			return;
 		}
 
@@ -318,7 +827,7 @@ export class MessageRouter {
 			message.type === "store-and-forward" &&
 			(await this.handleStoreAndForwardMessage(message))
 		) {
-			this.bumpPeerScore(message.from, 1);
+			this.bumpPeerScore(message.from, 1, "store-and-forward");
 			return;
 		}
 
@@ -330,7 +839,7 @@ export class MessageRouter {
 
 		if (isDuplicate) {
 			await this.emitRouterEvent({
-				id: `evt_${Date.now()}_${message.id}`,
+				id: nextEventId(),
 				timestamp: Date.now(),
 				type: Events.Message.Received,
 				message: {
@@ -342,7 +851,7 @@ export class MessageRouter {
 				},
 				wasDuplicate: true,
 			});
-			this.bumpPeerScore(message.from, -1);
+			this.bumpPeerScore(message.from, -1, "duplicate");
 			if (message.type === "data") {
 				await this.sendAck(message);
 			}
@@ -350,7 +859,7 @@ export class MessageRouter {
 		}
 
 		if (!this.isSequenceValid(message.from, message.sequenceNumber)) {
-			this.bumpPeerScore(message.from, -3);
+			this.bumpPeerScore(message.from, -3, "stale-sequence");
 			if (message.type === "data") {
 				await this.sendAck(message);
 			}
@@ -358,16 +867,16 @@ export class MessageRouter {
 		}
 		if (this.shouldBufferOutOfOrder(message)) {
 			this.bufferOutOfOrderMessage(message);
-			this.bumpPeerScore(message.from, -1);
+			this.bumpPeerScore(message.from, -1, "out-of-order");
 			return;
 		}
 		if (!this.isVectorClockValid(message)) {
-			this.bumpPeerScore(message.from, -3);
+			this.bumpPeerScore(message.from, -3, "stale-vector-clock");
 			return;
 		}
 
 		await this.processAcceptedIncomingMessage(message);
-		this.bumpPeerScore(message.from, 1);
+		this.bumpPeerScore(message.from, 1, "accepted");
 		await this.flushBufferedMessagesForPeer(message.from);
 	}
 
@@ -380,11 +889,19 @@ export class MessageRouter {
 		const now = Date.now();
 		for (const entry of pending) {
 			if (entry.next_retry_at > now) continue;
-			if (entry.attempts >= MAX_RETRY_ATTEMPTS) {
+			if (
+				entry.attempts >=
+				(this.options.retry?.maxAttempts ?? MAX_RETRY_ATTEMPTS)
+			) {
+				this.metrics.failed.inc({ reason: "max-retries-exceeded" });
 				db.markPendingMessageFailed(entry.message_id, "max-retries-exceeded");
 				db.markReplicatedMessageFailed(entry.message_id);
+				this.recordMessageEvent(entry.message_id, "failed", {
+					peerId: entry.target_peer_id,
+					detail: "max-retries-exceeded",
+				});
 				await this.emitRouterEvent({
-					id: `evt_${Date.now()}_${entry.message_id}`,
+					id: nextEventId(),
 					timestamp: Date.now(),
 					type: Events.Message.Failed,
 					message: {
@@ -396,12 +913,37 @@ export class MessageRouter {
 				continue;
 			}
 			const delay = this.calculateBackoffDelay(entry.attempts);
+			this.metrics.retries.inc();
+			const message = JSON.parse(entry.message_data) as YapYapMessage;
+			try {
+				// Queued without a node to encrypt it (e.g. --offline-queue)
+				if (await this.encryptPayload(message, false)) {
+					db.updatePendingMessageData(
+						message.id,
+						message as unknown as Record<string, unknown>,
+					);
+				}
+			} catch (error) {
+				db.schedulePendingRetry(
+					entry.message_id,
+					now + delay,
+					`encryption:${String(error)}`,
+				);
+				this.recordMessageEvent(entry.message_id, "retry-scheduled", {
+					peerId: entry.target_peer_id,
+					detail: `encryption:${String(error)}`,
+				});
+				continue;
+			}
 			try {
-				const message = JSON.parse(entry.message_data) as YapYapMessage;
 				await this.transmit(message);
 				db.markPendingMessageDelivered(entry.message_id);
+				this.recordMessageEvent(entry.message_id, "sent", {
+					peerId: entry.target_peer_id,
+					detail: `retry ${entry.attempts + 1}`,
+				});
 				await this.emitRouterEvent({
-					id: `evt_${Date.now()}_${entry.message_id}`,
+					id: nextEventId(),
 					timestamp: Date.now(),
 					type: Events.Message.Delivered,
 					message: {
@@ -412,20 +954,21 @@ export class MessageRouter {
 				});
 			} catch (error) {
 				const nextRetry = now + delay;
-				const message = JSON.parse(entry.message_data) as YapYapMessage;
 				const relayed = await this.tryFallbackRelayRoutes(
 					message,
 					entry.attempts,
 					String(error),
 				);
 				const transportError = this.classifyTransportError(error);
-				db.schedulePendingRetry(
-					entry.message_id,
-					nextRetry,
-					relayed
-						? `fallback-routed:${transportError}:${String(error)}`
-						: `${transportError}:${String(error)}`,
-				);
+				this.metrics.deliveryErrors.inc({ reason: transportError });
+				const reason = relayed
+					? `fallback-routed:${transportError}:${String(error)}`
+					: `${transportError}:${String(error)}`;
+				db.schedulePendingRetry(entry.message_id, nextRetry, reason);
+				this.recordMessageEvent(entry.message_id, "retry-scheduled", {
+					peerId: entry.target_peer_id,
+					detail: reason,
+				});
 			}
 		}
 
@@ -500,6 +1043,10 @@ export class MessageRouter {
 					try {
 						await this.transmit(relayMessage);
 						db.markReplicaStored(replicaEntry.message_id, newRelayPeerId);
+						this.recordMessageEvent(replicaEntry.message_id, "replicated", {
+							peerId: newRelayPeerId,
+							detail: "replica-ack-timeout-recovery",
+						});
 						db.updateReplicaAckExpected(
 							replicaEntry.message_id,
 							newRelayPeerId,
@@ -512,12 +1059,73 @@ export class MessageRouter {
 							newRelayPeerId,
 							"replica-ack-timeout-recovery",
 						);
+						this.recordMessageEvent(replicaEntry.message_id, "replica-failed", {
+							peerId: newRelayPeerId,
+							detail: "replica-ack-timeout-recovery",
+						});
 					}
 				}
 			}
 		}
 
-		db.cleanup();
+		for (const entry of db.getDueScheduledMessages(now)) {
+			await this.sendScheduled(entry);
+		}
+
+		for (const expired of db.expireMessages(now)) {
+			this.recordMessageEvent(expired.message_id, "expired", {
+				peerId: expired.peer_id,
+			});
+			await this.emitRouterEvent({
+				id: nextEventId(),
+				timestamp: Date.now(),
+				type: Events.Message.Expired,
+				messageId: expired.message_id,
+				peer: expired.peer_id,
+				direction: expired.direction,
+				expiredAt: expired.expires_at,
+			});
+		}
+
+		db.cleanup({
+			processedMessageMaxAgeMs:
+				this.options.retention?.processedMessageMaxAgeMs,
+		});
+	}
+
+	/**
+	 * Send a scheduled message that has come due. Once send() has queued it,
+	 * failures are left to the retry loop; if it never got that far (e.g. the
+	 * peer was blocked in the meantime) the message fails.
+	 */
+	private async sendScheduled(entry: PendingMessageEntry): Promise<void> {
+		const db = this.nodeContext.db;
+		// Keep an overlapping retry pass from sending it twice
+		db.markMessageStatus(entry.message_id, "processing");
+		const message = JSON.parse(entry.message_data) as YapYapMessage;
+		message.timestamp = Date.now();
+		try {
+			await this.send(message, { priority: entry.priority });
+		} catch (error) {
+			if (db.getPendingMessage(entry.message_id)?.status !== "processing") {
+				return;
+			}
+			db.markPendingMessageFailed(entry.message_id, String(error));
+			this.recordMessageEvent(entry.message_id, "failed", {
+				peerId: entry.target_peer_id,
+				detail: String(error),
+			});
+			await this.emitRouterEvent({
+				id: nextEventId(),
+				timestamp: Date.now(),
+				type: Events.Message.Failed,
+				message: {
+					id: entry.message_id,
+					to: entry.target_peer_id,
+					error: String(error),
+				},
+			});
+		}
 	}
 
 	startRetryScheduler(intervalMs = 5_000): void {
@@ -556,7 +1164,7 @@ export class MessageRouter {
 		}
 
 		await this.emitRouterEvent({
-			id: `evt_${Date.now()}_${ack.id}`,
+			id: nextEventId(),
 			timestamp: Date.now(),
 			type: Events.Message.AckReceived,
 			messageId: ack.originalMessageId,
@@ -572,11 +1180,21 @@ export class MessageRouter {
 				this.nodeContext.pendingAcks.delete(ack.originalMessageId);
 			}
 		}
+		const pending = db.getPendingMessage(ack.originalMessageId);
+		if (pending) {
+			this.metrics.ackLatency.observe(
+				Math.max(0, Date.now() - pending.created_at) / 1000,
+			);
+		}
 		// Update status in DB
 		db.markPendingMessageDelivered(ack.originalMessageId);
 		db.markReplicatedMessageDelivered(ack.originalMessageId);
+		this.recordMessageEvent(ack.originalMessageId, "delivered", {
+			peerId: ack.from,
+			...(ack.relayEnvelope ? { detail: "acknowledged by relay" } : {}),
+		});
 		await this.emitRouterEvent({
-			id: `evt_${Date.now()}_${ack.originalMessageId}`,
+			id: nextEventId(),
 			timestamp: Date.now(),
 			type: Events.Message.Delivered,
 			message: {
@@ -592,8 +1210,11 @@ export class MessageRouter {
 	 */
 	async handleNak(nak: NakMessage): Promise<void> {
 		const db = this.nodeContext.db;
+		this.metrics.naks.inc({
+			reason: this.classifyTransportError(nak.reason ?? "nak-received"),
+		});
 		await this.emitRouterEvent({
-			id: `evt_${Date.now()}_${nak.id}`,
+			id: nextEventId(),
 			timestamp: Date.now(),
 			type: Events.Message.NakReceived,
 			messageId: nak.originalMessageId,
@@ -604,6 +1225,10 @@ export class MessageRouter {
 		// Get the pending message from DB
 		const entry = db.getPendingMessage(nak.originalMessageId);
 		if (!entry) return;
+		this.recordMessageEvent(nak.originalMessageId, "nak", {
+			peerId: nak.from,
+			detail: nak.reason ?? "nak-received",
+		});
 
 		// Increment retry attempts and schedule next retry
 		const now = Date.now();
@@ -622,6 +1247,110 @@ export class MessageRouter {
 		);
 	}
 
+	/**
+	 * Handle a read receipt: stamp read_at on our outbound copies. Receipts
+	 * only apply to messages we sent to the receipt's sender.
+	 */
+	async handleReadReceipt(receipt: ReadReceiptMessage): Promise<void> {
+		if (!Array.isArray(receipt.originalMessageIds)) {
+			return;
+		}
+		const db = this.nodeContext.db;
+		const readAt =
+			typeof receipt.readAt === "number"
+				? Math.min(receipt.readAt, Date.now())
+				: Date.now();
+		for (const messageId of receipt.originalMessageIds) {
+			if (
+				typeof messageId !== "string" ||
+				!db.markMessageRead(messageId, "outbound", receipt.from, readAt)
+			) {
+				continue;
+			}
+			this.recordMessageEvent(messageId, "read", { peerId: receipt.from });
+			await this.emitRouterEvent({
+				id: nextEventId(),
+				timestamp: Date.now(),
+				type: Events.Message.Read,
+				messageId,
+				peer: receipt.from,
+				readAt,
+			});
+		}
+	}
+
+	/**
+	 * Handle an edit or retraction. It must be signed by the peer key of its
+	 * sender, and only applies to messages that sender sent us.
+	 */
+	async handleAmendment(message: EditMessage | RetractMessage): Promise<void> {
+		const verified =
+			typeof message.originalMessageId === "string" &&
+			typeof message.signature === "string" &&
+			(await this.nodeContext
+				.verifyPeerSignature?.(
+					message.from,
+					amendmentSigningBytes(message),
+					message.signature,
+				)
+				.catch(() => false));
+		if (!verified) {
+			this.metrics.inboundDropped.inc({ reason: "invalid-signature" });
+			this.bumpPeerScore(message.from, -3, "invalid-signature");
+			return;
+		}
+
+		const db = this.nodeContext.db;
+		const at = Math.min(message.timestamp, Date.now());
+		if (message.type === "edit") {
+			const payload = this.nodeContext.resolveStoredPayload
+				? await this.nodeContext.resolveStoredPayload(message)
+				: message.payload;
+			if (
+				db.editMessage(
+					message.originalMessageId,
+					"inbound",
+					message.from,
+					payload,
+					at,
+				)
+			) {
+				await this.nodeContext.onMessageEdited?.(message, payload);
+				await this.emitRouterEvent({
+					id: nextEventId(),
+					timestamp: Date.now(),
+					type: Events.Message.Edited,
+					messageId: message.originalMessageId,
+					peer: message.from,
+					editedAt: at,
+				});
+			}
+		} else if (
+			db.retractMessage(message.originalMessageId, "inbound", message.from, at)
+		) {
+			await this.emitRouterEvent({
+				id: nextEventId(),
+				timestamp: Date.now(),
+				type: Events.Message.Retracted,
+				messageId: message.originalMessageId,
+				peer: message.from,
+				retractedAt: at,
+			});
+		}
+		// ACK even when nothing changed so the sender stops retrying
+		await this.sendAck(message);
+	}
+
+	private async handleTyping(indicator: TypingMessage): Promise<void> {
+		await this.emitRouterEvent({
+			id: nextEventId(),
+			timestamp: Date.now(),
+			type: Events.Message.Typing,
+			peer: indicator.from,
+			isTyping: indicator.isTyping === true,
+		});
+	}
+
 	private async validateAck(ack: AckMessage): Promise<{
 		valid: boolean;
 		reason?: string;
@@ -771,7 +1500,7 @@ export class MessageRouter {
 			fromPeerId: message.from,
 			toPeerId: message.to,
 			messageData: message as unknown as Record<string, unknown>,
-			ttl: DEFAULT_MESSAGE_TTL_MS,
+			ttl: this.getMessageTtlMs(),
 			...(typeof message.sequenceNumber === "number"
 				? { sequenceNumber: message.sequenceNumber }
 				: {}),
@@ -785,8 +1514,12 @@ export class MessageRouter {
 			}
 			return;
 		}
+		if (message.type === "data") {
+			// The conversation is recorded by onMessage once it is decrypted
+			this.applyMessageExpiry(message, "inbound", message.from);
+		}
 		await this.emitRouterEvent({
-			id: `evt_${Date.now()}_${message.id}`,
+			id: nextEventId(),
 			timestamp: Date.now(),
 			type: Events.Message.Received,
 			message: {
@@ -874,6 +1607,46 @@ export class MessageRouter {
 		}
 	}
 
+	/**
+	 * Start the expiry clock on a stored data message. The shorter of the
+	 * message's own expireAfterMs and our conversation setting wins, so a
+	 * peer cannot make us keep content longer than we asked for.
+	 */
+	private applyMessageExpiry(
+		message: YapYapMessage,
+		direction: "inbound" | "outbound",
+		peerId: string,
+	): void {
+		const db = this.nodeContext.db;
+		const conversation = db.getConversation(
+			conversationIdFor(peerId, message.groupId),
+		);
+		const limits = [
+			message.expireAfterMs,
+			conversation?.expire_after_ms,
+		].filter((ms): ms is number => Number.isInteger(ms) && (ms as number) > 0);
+		if (limits.length === 0) {
+			return;
+		}
+		db.setMessageExpiry(
+			message.id,
+			direction,
+			Date.now() + Math.min(...limits),
+		);
+	}
+
+	/**
+	 * Append a step to a message's delivery timeline, served by
+	 * GET /api/messages/:id
+	 */
+	private recordMessageEvent(
+		messageId: string,
+		event: MessageEventType,
+		details: { peerId?: string; detail?: string } = {},
+	): void {
+		this.nodeContext.db.recordMessageEvent(messageId, event, details);
+	}
+
 	private async emitRouterEvent(event: YapYapEvent): Promise<void> {
 		if (!this.nodeContext.emitEvent) {
 			return;
@@ -885,6 +1658,92 @@ export class MessageRouter {
 		}
 	}
 
+	/**
+	 * Register router counters and scrape-time gauges for internal state
+	 */
+	private registerMetrics(registry: MetricsRegistry): MessageRouter["metrics"] {
+		registry.gauge(
+			"yapyap_router_out_of_order_buffered",
+			"Messages held in the out-of-order buffer",
+			() => [
+				{
+					labels: {},
+					value: [...this.outOfOrderBuffer.values()].reduce(
+						(total, buffer) => total + buffer.size,
+						0,
+					),
+				},
+			],
+		);
+		registry.gauge(
+			"yapyap_router_dedup_cache_entries",
+			"Message IDs held in the in-memory deduplication cache",
+			() => [{ labels: {}, value: this.processedIdsCache.size }],
+		);
+		registry.gauge(
+			"yapyap_router_scored_peers",
+			"Peers with a reputation score, split by whether they are blocked",
+			() => {
+				const blocked = [...this.peerScores.keys()].filter((peerId) =>
+					this.isPeerBlocked(peerId),
+				).length;
+				return [
+					{ labels: { blocked: "true" }, value: blocked },
+					{
+						labels: { blocked: "false" },
+						value: this.peerScores.size - blocked,
+					},
+				];
+			},
+		);
+		registry.gauge(
+			"yapyap_connection_health",
+			"Connections tracked by the health monitor, by health",
+			() => {
+				const healthMonitor = this.nodeContext?.healthMonitor;
+				if (!healthMonitor) {
+					return [];
+				}
+				const { healthy, unhealthy } = healthMonitor.getHealthSummary();
+				return [
+					{ labels: { state: "healthy" }, value: healthy },
+					{ labels: { state: "unhealthy" }, value: unhealthy },
+				];
+			},
+		);
+		return {
+			enqueued: registry.counter(
+				"yapyap_router_messages_enqueued_total",
+				"Outbound messages queued for delivery, by message type",
+			),
+			retries: registry.counter(
+				"yapyap_router_retries_total",
+				"Redelivery attempts made by the retry scheduler",
+			),
+			deliveryErrors: registry.counter(
+				"yapyap_router_delivery_errors_total",
+				"Failed redelivery attempts, by classified transport error",
+			),
+			naks: registry.counter(
+				"yapyap_router_naks_received_total",
+				"NAKs received from peers, by classified reason",
+			),
+			failed: registry.counter(
+				"yapyap_router_messages_failed_total",
+				"Outbound messages given up on, by reason",
+			),
+			inboundDropped: registry.counter(
+				"yapyap_router_inbound_dropped_total",
+				"Inbound messages dropped before processing, by reason",
+			),
+			ackLatency: registry.histogram(
+				"yapyap_router_ack_latency_seconds",
+				"Time from enqueueing a message to receiving its ACK",
+				ACK_LATENCY_BUCKETS_SECONDS,
+			),
+		};
+	}
+
 	private classifyTransportError(error: unknown): string {
 		const message = String(error).toLowerCase();
 		if (message.includes("stream-dial-timeout")) {
@@ -932,7 +1791,13 @@ export class MessageRouter {
 	}
 
 	private calculateBackoffDelay(attempts: number): number {
-		return Math.min(RETRY_BASE_DELAY_MS * 2 ** attempts, RETRY_MAX_DELAY_MS);
+		const baseDelayMs = this.options.retry?.baseDelayMs ?? RETRY_BASE_DELAY_MS;
+		const maxDelayMs = this.options.retry?.maxDelayMs ?? RETRY_MAX_DELAY_MS;
+		return Math.min(baseDelayMs * 2 ** attempts, maxDelayMs);
+	}
+
+	private getMessageTtlMs(): number {
+		return this.options.retention?.messageTtlMs ?? DEFAULT_MESSAGE_TTL_MS;
 	}
 
 	private allowInboundFromPeer(peerId: string): boolean {
@@ -1230,7 +2095,7 @@ export class MessageRouter {
 		}
 
 		const candidates = this.selectReplicaPeers(message.to, MAX_FALLBACK_RELAYS);
-		const deadlineAt = Date.now() + (message.ttl ?? DEFAULT_MESSAGE_TTL_MS);
+		const deadlineAt = Date.now() + (message.ttl ?? this.getMessageTtlMs());
 		this.nodeContext.db.upsertReplicatedMessage(
 			message.id,
 			message.to,
@@ -1288,11 +2153,18 @@ export class MessageRouter {
 					relayPeerId,
 					true,
 				);
-				this.bumpPeerScore(relayPeerId, 2);
+				this.recordMessageEvent(message.id, "replicated", {
+					peerId: relayPeerId,
+				});
+				this.bumpPeerScore(relayPeerId, 2, "relay-stored");
 				relayed = true;
 			} catch {
 				this.nodeContext.db.markReplicaFailed(message.id, relayPeerId, error);
-				this.bumpPeerScore(relayPeerId, -4);
+				this.recordMessageEvent(message.id, "replica-failed", {
+					peerId: relayPeerId,
+					detail: error,
+				});
+				this.bumpPeerScore(relayPeerId, -4, "relay-failed");
 				// Continue trying other candidates.
 			}
 		}
@@ -1312,19 +2184,26 @@ export class MessageRouter {
 			return false;
 		}
 		if (!(await this.isRelayEnvelopeValid(payload))) {
-			this.bumpPeerScore(message.from, -5);
+			this.bumpPeerScore(message.from, -5, "invalid-relay-envelope");
 			return true;
 		}
 
 		const db = this.nodeContext.db;
 		const original = payload.originalMessage;
+		if (
+			db.isPeerBlocked(original.from) ||
+			db.isPeerBlocked(payload.targetPeerId)
+		) {
+			// Neither deliver nor hold replicas for blocked peers
+			return true;
+		}
 
 		if (payload.targetPeerId === this.nodeContext.getPeerId()) {
 			await this.receive(original);
 			return true;
 		}
 
-		const deadlineAt = Date.now() + (original.ttl ?? DEFAULT_MESSAGE_TTL_MS);
+		const deadlineAt = Date.now() + (original.ttl ?? this.getMessageTtlMs());
 		db.upsertReplicatedMessage(
 			original.id,
 			payload.targetPeerId,
@@ -1344,6 +2223,10 @@ export class MessageRouter {
 			payload.targetPeerId,
 			deadlineAt,
 		);
+		this.recordMessageEvent(original.id, "queued", {
+			peerId: payload.targetPeerId,
+			detail: `stored for relay from ${message.from}`,
+		});
 		return true;
 	}
 
@@ -1455,7 +2338,7 @@ export class MessageRouter {
 			if (db.isMessageProcessed(message.id)) {
 				continue;
 			}
-			const deadlineAt = Date.now() + (message.ttl ?? DEFAULT_MESSAGE_TTL_MS);
+			const deadlineAt = Date.now() + (message.ttl ?? this.getMessageTtlMs());
 			db.queueMessage(
 				message.id,
 				message as unknown as Record<string, unknown>,
@@ -1474,6 +2357,10 @@ export class MessageRouter {
 				await this.transmit(message);
 				db.markPendingMessageDelivered(entry.message_id);
 				db.markReplicatedMessageDelivered(entry.message_id);
+				this.recordMessageEvent(entry.message_id, "sent", {
+					peerId,
+					detail: "handover",
+				});
 			} catch (error) {
 				const nextRetry =
 					Date.now() + this.calculateBackoffDelay(entry.attempts);
@@ -1482,6 +2369,10 @@ export class MessageRouter {
 					nextRetry,
 					`handover-failed:${String(error)}`,
 				);
+				this.recordMessageEvent(entry.message_id, "retry-scheduled", {
+					peerId,
+					detail: `handover-failed:${String(error)}`,
+				});
 			}
 		}
 	}
@@ -1569,20 +2460,92 @@ export class MessageRouter {
 		return 0;
 	}
 
+	/**
+	 * Current score for a peer, decayed toward zero since its last change
+	 */
 	getPeerScore(peerId: string): number {
-		return this.peerScores.get(peerId) ?? 0;
+		const score = this.peerScores.get(peerId) ?? 0;
+		const updatedAt = this.peerScoreUpdatedAt.get(peerId);
+		if (updatedAt === undefined) {
+			return score;
+		}
+		return decayReputation(
+			score,
+			Date.now() - updatedAt,
+			this.options.reputationHalfLifeMs,
+		);
 	}
 
-	private bumpPeerScore(peerId: string, delta: number): void {
+	/**
+	 * Adjust a peer's score. Routine changes (accepted messages, duplicates)
+	 * are persisted in batches; penalties and block threshold crossings are
+	 * persisted and announced right away.
+	 */
+	private bumpPeerScore(peerId: string, delta: number, reason: string): void {
+		const previous = this.getPeerScore(peerId);
 		const next = Math.max(
 			PEER_SCORE_MIN,
-			Math.min(PEER_SCORE_MAX, this.getPeerScore(peerId) + delta),
+			Math.min(PEER_SCORE_MAX, previous + delta),
 		);
+		const now = Date.now();
 		this.peerScores.set(peerId, next);
+		this.peerScoreUpdatedAt.set(peerId, now);
+
+		const key = `${peerId}\n${reason}`;
+		const pending = this.pendingPeerScores.get(key);
+		// Re-insert so the map stays in order of each entry's latest change
+		this.pendingPeerScores.delete(key);
+		this.pendingPeerScores.set(key, {
+			peerId,
+			score: next,
+			delta: (pending?.delta ?? 0) + delta,
+			reason,
+			at: now,
+		});
+
+		const crossedThreshold =
+			previous <= PEER_SCORE_BLOCK_THRESHOLD !==
+			next <= PEER_SCORE_BLOCK_THRESHOLD;
+		if (delta > PEER_SCORE_PENALTY && !crossedThreshold) {
+			this.peerScoreFlushTimer ??= setTimeout(
+				() => this.flushPeerScores(),
+				PEER_SCORE_FLUSH_DELAY_MS,
+			);
+			this.peerScoreFlushTimer.unref?.();
+			return;
+		}
+		this.flushPeerScores();
+		void this.emitRouterEvent({
+			id: nextEventId(),
+			timestamp: now,
+			type: Events.Routing.ReputationUpdated,
+			peer: peerId,
+			oldReputation: previous,
+			newReputation: next,
+			delta,
+			reason,
+		});
 	}
 
+	private flushPeerScores(): void {
+		clearTimeout(this.peerScoreFlushTimer);
+		this.peerScoreFlushTimer = undefined;
+		if (this.pendingPeerScores.size === 0) {
+			return;
+		}
+		const adjustments = [...this.pendingPeerScores.values()];
+		this.pendingPeerScores.clear();
+		this.nodeContext.db.recordPeerReputations(adjustments);
+	}
+
+	/**
+	 * Blocked by the user, or temporarily for misbehaving (low score)
+	 */
 	private isPeerBlocked(peerId: string): boolean {
-		return this.getPeerScore(peerId) <= PEER_SCORE_BLOCK_THRESHOLD;
+		return (
+			this.getPeerScore(peerId) <= PEER_SCORE_BLOCK_THRESHOLD ||
+			this.nodeContext.db.isPeerBlocked(peerId)
+		);
 	}
 
 	/**
@@ -1596,6 +2559,7 @@ export class MessageRouter {
 	 */
 	shutdown(): void {
 		this.stopRetryScheduler();
+		this.flushPeerScores();
 		// Clear any internal state
 		this.onMessage = undefined as unknown as (
 			message: YapYapMessage,
@@ -1605,6 +2569,7 @@ export class MessageRouter {
 		this.inboundBuckets.clear();
 		this.inboundOriginBuckets.clear();
 		this.peerScores.clear();
+		this.peerScoreUpdatedAt.clear();
 		this.nodeContext = undefined as unknown as NodeContext;
 	}
 }
@@ -2,6 +2,8 @@
  * Message types and interfaces for YapYap node communication
  */
 
+import { createHash } from "node:crypto";
+
 export interface YapYapMessage {
 	/**
 	 * Unique identifier for the message
@@ -9,9 +11,17 @@ export interface YapYapMessage {
 	id: string;
 
 	/**
-	 * Type of message (e.g., 'data', 'ack', 'nak', 'store-and-forward')
+	 * Type of message (e.g., 'data', 'ack', 'nak', 'store-and-forward', 'read', 'typing', 'edit', 'retract')
 	 */
-	type: "data" | "ack" | "nak" | "store-and-forward";
+	type:
+		| "data"
+		| "ack"
+		| "nak"
+		| "store-and-forward"
+		| "read"
+		| "typing"
+		| "edit"
+		| "retract";
 
 	/**
 	 * The sender's peer ID
@@ -57,6 +67,17 @@ export interface YapYapMessage {
 	 * Optional: Message signature for authenticity
 	 */
 	signature?: string;
+
+	/**
+	 * Optional: Group conversation this message belongs to
+	 */
+	groupId?: string;
+
+	/**
+	 * Optional: purge the content this many milliseconds after it is stored,
+	 * on the sender when sent and on the recipient when received
+	 */
+	expireAfterMs?: number;
 }
 
 export interface AckMessage extends YapYapMessage {
@@ -81,6 +102,84 @@ export interface NakMessage extends YapYapMessage {
 	reason?: string;
 }
 
+export interface ReadReceiptMessage extends YapYapMessage {
+	type: "read";
+	/**
+	 * IDs of the messages the recipient has read
+	 */
+	originalMessageIds: string[];
+	/**
+	 * When the recipient read the messages
+	 */
+	readAt: number;
+}
+
+export interface TypingMessage extends YapYapMessage {
+	type: "typing";
+	/**
+	 * Whether the sender started (true) or stopped (false) typing
+	 */
+	isTyping: boolean;
+}
+
+export interface EditMessage extends YapYapMessage {
+	type: "edit";
+	/**
+	 * The message being corrected; the payload is its new content and the
+	 * timestamp is the edit time
+	 */
+	originalMessageId: string;
+	/**
+	 * Sender's peer key signature over the edit, see `amendmentSigningBytes`
+	 */
+	signature: string;
+}
+
+export interface RetractMessage extends YapYapMessage {
+	type: "retract";
+	/**
+	 * The message being deleted for everyone
+	 */
+	originalMessageId: string;
+	/**
+	 * Sender's peer key signature over the retraction
+	 */
+	signature: string;
+}
+
+/**
+ * Bytes an edit or retraction is signed over. The payload is covered by its
+ * hash as sent, i.e. after encryption: the E2E scheme does not authenticate
+ * the sender, so otherwise a relay could swap in its own content.
+ */
+export function amendmentSigningBytes(
+	message: EditMessage | RetractMessage,
+): Uint8Array {
+	return Buffer.from(
+		JSON.stringify({
+			id: message.id,
+			type: message.type,
+			from: message.from,
+			to: message.to,
+			originalMessageId: message.originalMessageId,
+			timestamp: message.timestamp,
+			payloadHash: createHash("sha256")
+				.update(JSON.stringify(message.payload ?? null))
+				.digest("hex"),
+		}),
+		"utf8",
+	);
+}
+
+export interface GroupMessage extends YapYapMessage {
+	type: "data";
+	/**
+	 * The group the message is addressed to; the router fans it out as one
+	 * data message per member
+	 */
+	groupId: string;
+}
+
 export interface StoreAndForwardMessage extends YapYapMessage {
 	type: "store-and-forward";
 	/**
@@ -0,0 +1,193 @@
+/**
+ * Minimal Prometheus metrics registry rendering the text exposition format
+ * (version 0.0.4). Instruments are created once and updated in place;
+ * gauges may instead be read from a collect callback at scrape time.
+ */
+
+export const PROMETHEUS_CONTENT_TYPE =
+	"text/plain; version=0.0.4; charset=utf-8";
+
+export type MetricLabels = Record<string, string>;
+
+export interface MetricSample {
+	labels: MetricLabels;
+	value: number;
+}
+
+interface Metric {
+	name: string;
+	help: string;
+	type: "counter" | "gauge" | "histogram";
+	samples(): Array<MetricSample & { suffix?: string }>;
+}
+
+function labelKey(labels: MetricLabels): string {
+	return JSON.stringify(
+		Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)),
+	);
+}
+
+function escapeLabelValue(value: string): string {
+	return value
+		.replace(/\\/g, "\\\\")
+		.replace(/"/g, '\\"')
+		.replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: MetricLabels): string {
+	const entries = Object.entries(labels);
+	if (entries.length === 0) {
+		return "";
+	}
+	return `{${entries.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(",")}}`;
+}
+
+function formatValue(value: number): string {
+	if (value === Number.POSITIVE_INFINITY) return "+Inf";
+	if (value === Number.NEGATIVE_INFINITY) return "-Inf";
+	return String(value);
+}
+
+export class Counter implements Metric {
+	readonly type = "counter";
+	private readonly values = new Map<string, MetricSample>();
+
+	constructor(
+		readonly name: string,
+		readonly help: string,
+	) {}
+
+	inc(labels: MetricLabels = {}, value = 1): void {
+		const key = labelKey(labels);
+		const sample = this.values.get(key);
+		if (sample) {
+			sample.value += value;
+		} else {
+			this.values.set(key, { labels, value });
+		}
+	}
+
+	get(labels: MetricLabels = {}): number {
+		return this.values.get(labelKey(labels))?.value ?? 0;
+	}
+
+	samples(): MetricSample[] {
+		return [...this.values.values()];
+	}
+}
+
+export class Gauge implements Metric {
+	readonly type = "gauge";
+	private readonly values = new Map<string, MetricSample>();
+
+	constructor(
+		readonly name: string,
+		readonly help: string,
+		private readonly collect?: () => MetricSample[],
+	) {}
+
+	set(value: number, labels: MetricLabels = {}): void {
+		this.values.set(labelKey(labels), { labels, value });
+	}
+
+	samples(): MetricSample[] {
+		return this.collect ? this.collect() : [...this.values.values()];
+	}
+}
+
+export class Histogram implements Metric {
+	readonly type = "histogram";
+	private readonly series = new Map<
+		string,
+		{ labels: MetricLabels; counts: number[]; sum: number; count: number }
+	>();
+
+	constructor(
+		readonly name: string,
+		readonly help: string,
+		private readonly buckets: number[],
+	) {}
+
+	observe(value: number, labels: MetricLabels = {}): void {
+		const key = labelKey(labels);
+		let entry = this.series.get(key);
+		if (!entry) {
+			entry = {
+				labels,
+				counts: this.buckets.map(() => 0),
+				sum: 0,
+				count: 0,
+			};
+			this.series.set(key, entry);
+		}
+		this.buckets.forEach((bound, index) => {
+			if (value <= bound && entry) {
+				entry.counts[index] += 1;
+			}
+		});
+		entry.sum += value;
+		entry.count += 1;
+	}
+
+	samples(): Array<MetricSample & { suffix: string }> {
+		const samples: Array<MetricSample & { suffix: string }> = [];
+		for (const { labels, counts, sum, count } of this.series.values()) {
+			this.buckets.forEach((bound, index) => {
+				samples.push({
+					suffix: "_bucket",
+					labels: { ...labels, le: formatValue(bound) },
+					value: counts[index],
+				});
+			});
+			samples.push({
+				suffix: "_bucket",
+				labels: { ...labels, le: "+Inf" },
+				value: count,
+			});
+			samples.push({ suffix: "_sum", labels, value: sum });
+			samples.push({ suffix: "_count", labels, value: count });
+		}
+		return samples;
+	}
+}
+
+export class MetricsRegistry {
+	private readonly metrics = new Map<string, Metric>();
+
+	counter(name: string, help: string): Counter {
+		return this.register(new Counter(name, help));
+	}
+
+	gauge(name: string, help: string, collect?: () => MetricSample[]): Gauge {
+		return this.register(new Gauge(name, help, collect));
+	}
+
+	histogram(name: string, help: string, buckets: number[]): Histogram {
+		return this.register(new Histogram(name, help, buckets));
+	}
+
+	/**
+	 * Render every metric in the Prometheus text exposition format
+	 */
+	render(): string {
+		const lines: string[] = [];
+		for (const metric of this.metrics.values()) {
+			lines.push(`# HELP ${metric.name} ${metric.help}`);
+			lines.push(`# TYPE ${metric.name} ${metric.type}`);
+			for (const sample of metric.samples()) {
+				lines.push(
+					`${metric.name}${sample.suffix ?? ""}${formatLabels(sample.labels)} ${formatValue(sample.value)}`,
+				);
+			}
+		}
+		return `${lines.join("\n")}\n`;
+	}
+
+	private register<T extends Metric>(metric: T): T {
+		if (this.metrics.has(metric.name)) {
+			throw new Error(`Metric already registered: ${metric.name}`);
+		}
+		this.metrics.set(metric.name, metric);
+		return metric;
+	}
+}
@@ -0,0 +1,81 @@
+import assert from "node:assert";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, test } from "node:test";
+import { ApiModule } from "../api/index.js";
+import { YapYapNode } from "../core/node.js";
+import { DatabaseManager } from "../database/index.js";
+import { MetricsRegistry } from "./index.js";
+
+describe("Metrics", () => {
+	let tempDir: string;
+	let db: DatabaseManager;
+
+	beforeEach(() => {
+		tempDir = mkdtempSync(join(tmpdir(), "yapyap-metrics-"));
+		db = new DatabaseManager({ dataDir: tempDir });
+	});
+
+	afterEach(() => {
+		db.close();
+		rmSync(tempDir, { recursive: true, force: true });
+	});
+
+	test("renders counters, gauges and histograms in text format", () => {
+		const registry = new MetricsRegistry();
+		const errors = registry.counter("test_errors_total", "Errors by reason");
+		errors.inc({ reason: "dial-timeout" });
+		errors.inc({ reason: "dial-timeout" });
+		errors.inc({ reason: 'say "hi"\n' });
+		registry.gauge("test_queue", "Queue depth", () => [
+			{ labels: {}, value: 7 },
+		]);
+		const latency = registry.histogram(
+			"test_latency_seconds",
+			"Latency",
+			[0.1, 1],
+		);
+		latency.observe(0.05);
+		latency.observe(0.5);
+		latency.observe(3);
+
+		const lines = registry.render().split("\n");
+		assert.ok(lines.includes("# TYPE test_errors_total counter"));
+		assert.ok(lines.includes('test_errors_total{reason="dial-timeout"} 2'));
+		assert.ok(lines.includes('test_errors_total{reason="say \\"hi\\"\\n"} 1'));
+		assert.ok(lines.includes("test_queue 7"));
+		assert.ok(lines.includes('test_latency_seconds_bucket{le="0.1"} 1'));
+		assert.ok(lines.includes('test_latency_seconds_bucket{le="1"} 2'));
+		assert.ok(lines.includes('test_latency_seconds_bucket{le="+Inf"} 3'));
+		assert.ok(lines.includes("test_latency_seconds_sum 3.55"));
+		assert.ok(lines.includes("test_latency_seconds_count 3"));
+		assert.throws(
+			() => registry.counter("test_queue", "Duplicate"),
+			/already registered/,
+		);
+	});
+
+	test("GET /metrics exposes router and database metrics", async () => {
+		db.queueMessage(
+			"msg-1",
+			{ id: "msg-1" },
+			"12D3KooWSBUjBmLvcdnTmNLf6ozPZeBUmXiE3wrRA9RBTjcjqNFm",
+			Date.now() + 60_000,
+		);
+		const api = new ApiModule(new YapYapNode(db));
+		const response = await api.handleRequest(
+			new Request("http://localhost/metrics"),
+		);
+		assert.strictEqual(response.status, 200);
+		assert.match(
+			response.headers.get("content-type") ?? "",
+			/^text\/plain; version=0\.0\.4/,
+		);
+		const body = await response.text();
+		assert.match(body, /^yapyap_db_table_rows\{table="pending_messages"\} 1$/m);
+		assert.match(body, /^yapyap_db_size_bytes \d+$/m);
+		assert.match(body, /^# TYPE yapyap_router_ack_latency_seconds histogram$/m);
+		assert.match(body, /^yapyap_libp2p_connections\{direction="inbound"\} 0$/m);
+	});
+});
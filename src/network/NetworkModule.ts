@@ -207,6 +207,14 @@ export class ConnectionHealthMonitor {
 		return this.connectionStates.get(peerId.toString());
 	}
 
+	getHealthSummary(): { healthy: number; unhealthy: number } {
+		let healthy = 0;
+		for (const state of this.connectionStates.values()) {
+			if (state.isHealthy) healthy++;
+		}
+		return { healthy, unhealthy: this.connectionStates.size - healthy };
+	}
+
 	isConnectionHealthy(peerId: PeerId): boolean {
 		const state = this.connectionStates.get(peerId.toString());
 		return state?.isHealthy ?? false;
@@ -50,6 +50,11 @@ export interface HandshakeMessage {
 		encryption: string;
 		signature: string;
 	};
+	/** X25519 prekey (hex DER) signed with the peer ID key, to start ratchet sessions */
+	signedPrekey?: {
+		publicKey: string;
+		signature: string;
+	};
 }
 
 export interface HelloMessage extends HandshakeMessage {
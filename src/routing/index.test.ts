@@ -0,0 +1,31 @@
+import assert from "node:assert";
+import { describe, test } from "node:test";
+import {
+	DEFAULT_REPUTATION_HALF_LIFE_MS,
+	decayReputation,
+	RoutingModule,
+} from "./index.js";
+
+describe("RoutingModule reputation", () => {
+	test("decays scores toward zero by half-life", () => {
+		assert.strictEqual(decayReputation(-40, 0), -40);
+		assert.strictEqual(
+			decayReputation(-40, DEFAULT_REPUTATION_HALF_LIFE_MS),
+			-20,
+		);
+		assert.strictEqual(decayReputation(60, 2_000, 1_000), 15);
+		assert.strictEqual(decayReputation(-40, 5), -40);
+	});
+
+	test("sums adjustments and clamps scores to the allowed range", () => {
+		const routing = new RoutingModule("self");
+
+		routing.bumpReputation("peer-a", 3);
+		routing.penalizePeer("peer-a", 10);
+		assert.strictEqual(routing.getReputation("peer-a"), -7);
+
+		routing.penalizePeer("peer-b", 500);
+		assert.strictEqual(routing.getReputation("peer-b"), -100);
+		assert.strictEqual(routing.getReputation("peer-unknown"), 0);
+	});
+});
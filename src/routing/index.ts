@@ -13,6 +13,29 @@ export interface RoutingMetrics {
 const MAX_REPUTATION = 100;
 const MIN_REPUTATION = -100;
 
+/** Time for a reputation score to decay halfway back toward zero */
+export const DEFAULT_REPUTATION_HALF_LIFE_MS = 86_400_000;
+
+/**
+ * Decay a reputation score toward zero, halving it every halfLifeMs. The
+ * result is rounded to hundredths so a few milliseconds of decay cannot
+ * move a score across a threshold.
+ */
+export function decayReputation(
+	score: number,
+	elapsedMs: number,
+	halfLifeMs = DEFAULT_REPUTATION_HALF_LIFE_MS,
+): number {
+	if (elapsedMs <= 0 || halfLifeMs <= 0) {
+		return score;
+	}
+	return Math.round(score * 0.5 ** (elapsedMs / halfLifeMs) * 100) / 100;
+}
+
+export interface RoutingModuleOptions {
+	reputationHalfLifeMs?: number;
+}
+
 // Kademlia bucket structure for peer organization
 interface Bucket {
 	id: number; // The bucket ID (0-255)
@@ -20,7 +43,10 @@ interface Bucket {
 }
 
 export class RoutingModule {
-	constructor(private readonly selfId: string) {
+	constructor(
+		private readonly selfId: string,
+		private readonly options: RoutingModuleOptions = {},
+	) {
 		// Initialize 256 buckets for Kademlia
 		for (let i = 0; i < 256; i++) {
 			this.buckets[i] = { id: i, peers: new Map() };
@@ -49,8 +75,11 @@ export class RoutingModule {
 	getPeerLoad(peerId: string): number {
 		return this.peerLoad.get(peerId) || 0;
 	}
-	// Reputation scores: peerId -> score (higher is better)
-	private readonly reputation: Map<string, number> = new Map();
+	// Reputation scores (higher is better) and when each was last set
+	private readonly reputation: Map<
+		string,
+		{ score: number; updatedAt: number }
+	> = new Map();
 	private readonly routingTable = new Map<
 		string,
 		{ lastSeen: number; isAvailable: boolean }
@@ -73,10 +102,6 @@ export class RoutingModule {
 
 	onPeerDiscovery(peerInfo: PeerInfo) {
 		this.discoveredPeers.set(peerInfo.id.toString(), peerInfo.id);
-		// Initialize reputation if not present
-		if (!this.reputation.has(peerInfo.id.toString())) {
-			this.reputation.set(peerInfo.id.toString(), 0);
-		}
 	}
 
 	recordLookup(success: boolean) {
@@ -101,10 +126,10 @@ export class RoutingModule {
 	 * Bump reputation for a peer
 	 */
 	bumpReputation(peerId: string, delta: number) {
-		const prev = this.reputation.get(peerId) || 0;
-		this.reputation.set(
+		const previous = this.getReputation(peerId);
+		this.setReputation(
 			peerId,
-			Math.max(MIN_REPUTATION, Math.min(MAX_REPUTATION, prev + delta)),
+			Math.max(MIN_REPUTATION, Math.min(MAX_REPUTATION, previous + delta)),
 		);
 	}
 
@@ -112,14 +137,22 @@ export class RoutingModule {
 	 * Set reputation for a peer
 	 */
 	setReputation(peerId: string, score: number) {
-		this.reputation.set(peerId, score);
+		this.reputation.set(peerId, { score, updatedAt: Date.now() });
 	}
 
 	/**
-	 * Get reputation for a peer
+	 * Get reputation for a peer, decayed toward zero since its last change
 	 */
 	getReputation(peerId: string): number {
-		return this.reputation.get(peerId) || 0;
+		const entry = this.reputation.get(peerId);
+		if (!entry) {
+			return 0;
+		}
+		return decayReputation(
+			entry.score,
+			Date.now() - entry.updatedAt,
+			this.options.reputationHalfLifeMs,
+		);
 	}
 
 	onInboundConnection(peerId: PeerId) {
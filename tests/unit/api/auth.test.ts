@@ -0,0 +1,132 @@
+import assert from "node:assert";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, test } from "node:test";
+import { WebSocket } from "ws";
+import {
+	issueApiToken,
+	requiredScopeFor,
+	scopeSatisfies,
+} from "../../../src/api/auth.js";
+import { ApiModule } from "../../../src/api/index.js";
+import { YapYapNode } from "../../../src/core/node.js";
+import { DatabaseManager } from "../../../src/database/index.js";
+
+function openWebSocket(url: string): Promise<number | "open"> {
+	return new Promise((resolve) => {
+		const ws = new WebSocket(url);
+		ws.once("open", () => {
+			ws.close();
+			resolve("open");
+		});
+		ws.once("unexpected-response", (_req, res) => {
+			resolve(res.statusCode ?? 0);
+		});
+		ws.once("error", () => resolve(0));
+	});
+}
+
+describe("API - token authentication", () => {
+	let tempDir: string;
+	let db: DatabaseManager;
+	let api: ApiModule;
+
+	const request = (path: string, method = "GET", token?: string) =>
+		api.handleRequest(
+			new Request(`http://localhost${path}`, {
+				method,
+				headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+			}),
+		);
+
+	beforeEach(() => {
+		tempDir = mkdtempSync(join(tmpdir(), "yapyap-api-auth-"));
+		db = new DatabaseManager({ dataDir: tempDir });
+		api = new ApiModule(new YapYapNode(db));
+	});
+
+	afterEach(async () => {
+		await api.stop();
+		db.close();
+		rmSync(tempDir, { recursive: true, force: true });
+	});
+
+	test("scopes are ordered read < send < admin", () => {
+		assert.strictEqual(requiredScopeFor("GET", "/api/peers"), "read");
+		assert.strictEqual(requiredScopeFor("GET", "/api/contacts"), "read");
+		assert.strictEqual(requiredScopeFor("POST", "/api/messages/send"), "send");
+		assert.strictEqual(
+			requiredScopeFor("GET", "/api/database/contacts"),
+			"admin",
+		);
+		assert.strictEqual(requiredScopeFor("POST", "/api/blocks"), "admin");
+		assert.ok(scopeSatisfies(["admin"], "send"));
+		assert.ok(scopeSatisfies(["send"], "read"));
+		assert.ok(!scopeSatisfies(["read"], "send"));
+		assert.ok(!scopeSatisfies(["bogus"], "read"));
+	});
+
+	test("API stays open until a token exists", async () => {
+		const response = await request("/api/database/contacts");
+		assert.strictEqual(response.status, 200);
+	});
+
+	test("requires a valid token with a sufficient scope", async () => {
+		const { token: readToken } = issueApiToken(db, "reader", ["read"]);
+		const { token: adminToken, entry } = issueApiToken(db, "admin", ["admin"]);
+
+		assert.strictEqual((await request("/health")).status, 200);
+		assert.strictEqual((await request("/api/database/contacts")).status, 401);
+		assert.strictEqual(
+			(await request("/api/database/contacts", "GET", "yap_wrong")).status,
+			401,
+		);
+		assert.strictEqual(
+			(await request("/api/database/contacts", "GET", readToken)).status,
+			403,
+		);
+		assert.strictEqual(
+			(await request("/api/messages/send", "POST", readToken)).status,
+			403,
+		);
+		assert.strictEqual(
+			(await request("/api/database/contacts", "GET", adminToken)).status,
+			200,
+		);
+		assert.ok(
+			db.getApiTokens().find((t) => t.token_id === entry.token_id)
+				?.last_used_at,
+		);
+
+		db.revokeApiToken(entry.token_id);
+		assert.strictEqual(
+			(await request("/api/database/contacts", "GET", adminToken)).status,
+			401,
+		);
+	});
+
+	test("revoking the last token keeps the API locked", async () => {
+		const { token, entry } = issueApiToken(db, "admin", ["admin"]);
+		db.revokeApiToken(entry.token_id);
+
+		assert.strictEqual((await request("/api/database/contacts")).status, 401);
+		assert.strictEqual(
+			(await request("/api/database/contacts", "GET", token)).status,
+			401,
+		);
+		assert.strictEqual((await request("/api/blocks", "POST")).status, 401);
+	});
+
+	test("checks tokens on WebSocket upgrade", async () => {
+		const { token } = issueApiToken(db, "reader", ["read"]);
+		await api.init(0);
+		const baseUrl = `ws://127.0.0.1:${api.apiPort}`;
+
+		assert.strictEqual(await openWebSocket(baseUrl), 401);
+		assert.strictEqual(
+			await openWebSocket(`${baseUrl}/?access_token=${token}`),
+			"open",
+		);
+	});
+});
@@ -1,14 +1,25 @@
 import assert from "node:assert";
 import { afterEach, beforeEach, describe, test } from "node:test";
 import { ApiModule } from "../../../src/api/index.js";
+import {
+	checkDatabaseIntegrity,
+	checkRoutingTable,
+	summarizeDiagnostics,
+} from "../../../src/core/diagnostics.js";
 import type { YapYapNode } from "../../../src/core/node.js";
 import {
 	encryptE2EMessage,
 	generateEphemeralKeyPair,
 	generateIdentityKeyPair,
 } from "../../../src/crypto/index.js";
+import type {
+	ConversationEntry,
+	MessageEventEntry,
+	MessageReplicaEntry,
+} from "../../../src/database/index.js";
 import type {
 	EncryptedPayload,
+	GroupMessage,
 	YapYapMessage,
 } from "../../../src/message/message.js";
 
@@ -22,11 +33,18 @@ const SELF_PEER_ID = "12D3KooWSELFpeer12345678901234567890123456789012345";
 type PendingEntry = {
 	message_id: string;
 	target_peer_id: string;
-	status: "pending" | "processing" | "delivered" | "failed";
+	status:
+		| "scheduled"
+		| "pending"
+		| "processing"
+		| "delivered"
+		| "failed"
+		| "cancelled";
 	attempts: number;
 	created_at: number;
 	next_retry_at?: number;
 	message_data: string;
+	priority?: number;
 };
 
 type ProcessedEntry = {
@@ -48,6 +66,8 @@ type MessageHistoryRecord = {
 	processed_at?: number | null;
 	created_at: number;
 	updated_at: number;
+	edited_at?: number | null;
+	deleted_at?: number | null;
 };
 
 class MockDatabase {
@@ -64,6 +84,28 @@ class MockDatabase {
 	private queueEntries: PendingEntry[] = [];
 	private processedEntries: ProcessedEntry[] = [];
 	private historyEntries: MessageHistoryRecord[] = [];
+	private groups = new Map<
+		string,
+		{
+			group_id: string;
+			name: string;
+			owner_peer_id: string;
+			created_at: number;
+			updated_at: number;
+		}
+	>();
+	private groupMembers = new Map<string, Set<string>>();
+	public conversations = new Map<string, ConversationEntry>();
+	public messageEvents: MessageEventEntry[] = [];
+	public messageReplicas: MessageReplicaEntry[] = [];
+	public blockedPeers = new Map<
+		string,
+		{ peer_id: string; reason: string | null; blocked_at: number }
+	>();
+
+	hasIssuedApiTokens() {
+		return false;
+	}
 
 	getAllContacts() {
 		return Array.from(this.contacts.values());
@@ -87,6 +129,14 @@ class MockDatabase {
 		this.contacts.delete(peerId);
 	}
 
+	getBlockedPeers() {
+		return Array.from(this.blockedPeers.values());
+	}
+
+	unblockPeer(peerId: string) {
+		return this.blockedPeers.delete(peerId);
+	}
+
 	getRecentPendingMessages() {
 		return this.queueEntries;
 	}
@@ -115,6 +165,48 @@ class MockDatabase {
 		return entries.slice(offset, offset + limit);
 	}
 
+	createGroup(groupId: string, name: string, ownerPeerId: string) {
+		const group = {
+			group_id: groupId,
+			name,
+			owner_peer_id: ownerPeerId,
+			created_at: Date.now(),
+			updated_at: Date.now(),
+		};
+		this.groups.set(groupId, group);
+		this.groupMembers.set(groupId, new Set());
+		return group;
+	}
+
+	getGroup(groupId: string) {
+		return this.groups.get(groupId) ?? null;
+	}
+
+	getAllGroups() {
+		return Array.from(this.groups.values());
+	}
+
+	deleteGroup(groupId: string) {
+		this.groupMembers.delete(groupId);
+		return this.groups.delete(groupId) ? 1 : 0;
+	}
+
+	addGroupMember(groupId: string, peerId: string) {
+		this.groupMembers.get(groupId)?.add(peerId);
+	}
+
+	removeGroupMember(groupId: string, peerId: string) {
+		return this.groupMembers.get(groupId)?.delete(peerId) ? 1 : 0;
+	}
+
+	getGroupMembers(groupId: string) {
+		return Array.from(this.groupMembers.get(groupId) ?? []).map((peerId) => ({
+			group_id: groupId,
+			peer_id: peerId,
+			added_at: Date.now(),
+		}));
+	}
+
 	setQueueEntries(entries: PendingEntry[]) {
 		this.queueEntries = entries;
 	}
@@ -123,15 +215,142 @@ class MockDatabase {
 		this.processedEntries = entries;
 	}
 
+	getMessageHistoryEntry(messageId: string, direction: "inbound" | "outbound") {
+		const entry = this.historyEntries.find(
+			(candidate) =>
+				candidate.message_id === messageId && candidate.direction === direction,
+		);
+		return entry ? { edited_at: null, deleted_at: null, ...entry } : undefined;
+	}
+
 	setHistoryEntries(entries: MessageHistoryRecord[]) {
 		this.historyEntries = entries;
 	}
+
+	getPendingMessage(messageId: string) {
+		return (
+			this.queueEntries.find((entry) => entry.message_id === messageId) ?? null
+		);
+	}
+
+	getScheduledMessages() {
+		return this.queueEntries.filter((entry) => entry.status === "scheduled");
+	}
+
+	getQueuedMessages() {
+		return this.queueEntries
+			.filter((entry) => entry.status === "pending")
+			.sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0));
+	}
+
+	setPendingMessagePriority(messageId: string, priority: number) {
+		const entry = this.getPendingMessage(messageId);
+		if (entry?.status !== "pending") {
+			return false;
+		}
+		entry.priority = priority;
+		return true;
+	}
+
+	getReplicatedMessage(_messageId: string) {
+		return null;
+	}
+
+	getMessageReplicas(messageId: string) {
+		return this.messageReplicas.filter(
+			(replica) => replica.message_id === messageId,
+		);
+	}
+
+	getMessageEvents(messageId: string) {
+		return this.messageEvents.filter((event) => event.message_id === messageId);
+	}
+
+	getMessageRequests() {
+		const requests = this.historyEntries.filter(
+			(entry) => entry.status === "request",
+		);
+		return Array.from(new Set(requests.map((entry) => entry.peer_id))).map(
+			(peerId) => {
+				const fromPeer = requests.filter((entry) => entry.peer_id === peerId);
+				return {
+					peer_id: peerId,
+					message_count: fromPeer.length,
+					first_received_at: Math.min(...fromPeer.map((e) => e.created_at)),
+					last_received_at: Math.max(...fromPeer.map((e) => e.created_at)),
+				};
+			},
+		);
+	}
+
+	acceptMessageRequests(peerId: string) {
+		let accepted = 0;
+		for (const entry of this.historyEntries) {
+			if (
+				entry.peer_id === peerId &&
+				(entry.status === "request" || entry.status === "ignored")
+			) {
+				entry.status = "received";
+				accepted++;
+			}
+		}
+		return accepted;
+	}
+
+	getConversations(options: { archived?: boolean } = {}) {
+		return Array.from(this.conversations.values()).filter(
+			(entry) => entry.archived === Boolean(options.archived),
+		);
+	}
+
+	getConversation(conversationId: string) {
+		return this.conversations.get(conversationId) ?? null;
+	}
+
+	getUnreadConversationMessages(conversationId: string) {
+		return this.historyEntries.filter(
+			(entry) =>
+				entry.direction === "inbound" &&
+				entry.status === "received" &&
+				`peer:${entry.peer_id}` === conversationId,
+		);
+	}
+
+	markConversationRead(conversationId: string, readAt: number) {
+		const entry = this.conversations.get(conversationId);
+		if (entry) {
+			entry.unread_count = 0;
+			entry.last_read_message_id = entry.last_message_id;
+			entry.last_read_at = readAt;
+		}
+		return entry ?? null;
+	}
+
+	updateConversationFlags(
+		conversationId: string,
+		flags: Partial<
+			Pick<
+				ConversationEntry,
+				"muted" | "archived" | "pinned" | "expire_after_ms"
+			>
+		>,
+	) {
+		const entry = this.conversations.get(conversationId);
+		if (entry) {
+			Object.assign(entry, flags);
+		}
+		return entry ?? null;
+	}
 }
 
 class MockNode {
 	public db = new MockDatabase();
 	public failSend = false;
 	public sentMessages: YapYapMessage[] = [];
+	public retriedMessageIds: string[] = [];
+	public scheduledMessages: Array<{ message: YapYapMessage; sendAt: number }> =
+		[];
+	public readReceipts: Array<{ peerId: string; messageIds: string[] }> = [];
 	public bootstrapAddrs: string[] = [];
 	public bootstrapDialSuccessPeerIds: string[] = [];
 	public bootstrapDialSuccessAddrs: string[] = [];
@@ -181,6 +400,13 @@ class MockNode {
 		return this.bootstrapDialSuccessAddrs;
 	}
 
+	async runDiagnostics() {
+		return summarizeDiagnostics(
+			[checkRoutingTable(0), checkDatabaseIntegrity(["ok"])],
+			1_000,
+		);
+	}
+
 	getEncryptionPublicKeyHex(): string {
 		return Buffer.from(testRecipientKeyPair.publicKey).toString("hex");
 	}
@@ -207,6 +433,20 @@ class MockNode {
 		};
 	}
 
+	getSendBlockReason(_peerId: string): string | null {
+		return null;
+	}
+
+	async blockPeer(peerId: string, reason?: string) {
+		const entry = {
+			peer_id: peerId,
+			reason: reason ?? null,
+			blocked_at: Date.now(),
+		};
+		this.db.blockedPeers.set(peerId, entry);
+		return entry;
+	}
+
 	messageRouter = {
 		send: async (message: YapYapMessage) => {
 			if (this.failSend) {
@@ -214,6 +454,77 @@ class MockNode {
 			}
 			this.sentMessages.push(message);
 		},
+		sendReadReceipt: async (peerId: string, messageIds: string[]) => {
+			this.readReceipts.push({ peerId, messageIds });
+			return messageIds;
+		},
+		sendEdit: async (
+			peerId: string,
+			originalMessageId: string,
+			payload: unknown,
+		) => {
+			const edit = {
+				id: `edit_${originalMessageId}`,
+				type: "edit" as const,
+				from: SELF_PEER_ID,
+				to: peerId,
+				payload,
+				timestamp: Date.now(),
+				originalMessageId,
+				signature: "sig",
+			};
+			this.sentMessages.push(edit);
+			return edit;
+		},
+		sendRetract: async (peerId: string, originalMessageId: string) => {
+			const retract = {
+				id: `retract_${originalMessageId}`,
+				type: "retract" as const,
+				from: SELF_PEER_ID,
+				to: peerId,
+				payload: {},
+				timestamp: Date.now(),
+				originalMessageId,
+				signature: "sig",
+			};
+			this.sentMessages.push(retract);
+			return retract;
+		},
+		schedule: async (message: YapYapMessage, sendAt: number) => {
+			this.scheduledMessages.push({ message, sendAt });
+		},
+		cancel: async (messageId: string) => {
+			const entry = this.db.getPendingMessage(messageId);
+			if (entry?.status !== "pending") {
+				return false;
+			}
+			entry.status = "cancelled";
+			return true;
+		},
+		forceRetry: async (messageId: string) => {
+			if (this.failSend) {
+				throw new Error("Connection is not multiplexed");
+			}
+			this.retriedMessageIds.push(messageId);
+		},
+		sendToGroup: async (message: GroupMessage) =>
+			this.db.getGroupMembers(message.groupId).map((member) => {
+				const copy = {
+					...message,
+					id: `${message.id}:${member.peer_id}`,
+					to: member.peer_id,
+				};
+				if (this.failSend) {
+					return {
+						peerId: member.peer_id,
+						messageId: copy.id,
+						queued: true,
+						error: "Connection is not multiplexed",
+					};
+				}
+				this.sentMessages.push(copy);
+				return { peerId: member.peer_id, messageId: copy.id, queued: false };
+			}),
 	};
 }
 
@@ -317,6 +628,60 @@ describe("ApiModule", () => {
 		);
 	});
 
+	test("POST /api/messages/send with a future sendAt schedules the message", async () => {
+		const sendAt = Date.now() + 3_600_000;
+		const send = (body: Record<string, unknown>) =>
+			api.handleTestRequest(
+				new Request("http://localhost/api/messages/send", {
+					method: "POST",
+					headers: { "Content-Type": "application/json" },
+					body: JSON.stringify({
+						to: VALID_PEER_ID,
+						payload: { text: "reminder" },
+						...body,
+					}),
+				}),
+			);
+
+		const res = await send({ sendAt });
+		const body = await json(res);
+		assert.strictEqual(res.status, 202);
+		assert.strictEqual((body.data as { scheduled: boolean }).scheduled, true);
+		assert.strictEqual(node.sentMessages.length, 0);
+		assert.strictEqual(node.scheduledMessages[0].sendAt, sendAt);
+
+		assert.strictEqual((await send({ sendAt: "tomorrow" })).status, 400);
+		assert.strictEqual((await send({ sendAt: Date.now() - 1 })).status, 200);
+		assert.strictEqual(node.sentMessages.length, 1);
+
+		node.db.setQueueEntries([
+			{
+				message_id: node.scheduledMessages[0].message.id,
+				target_peer_id: VALID_PEER_ID,
+				status: "scheduled",
+				attempts: 0,
+				created_at: Date.now(),
+				next_retry_at: sendAt,
+				message_data: "{}",
+			},
+		]);
+		const listed = (
+			await json(
+				await api.handleTestRequest(
+					new Request("http://localhost/api/messages/scheduled"),
+				),
+			)
+		).data as { messages: Array<{ sendAt: number }> };
+		assert.strictEqual(listed.messages[0].sendAt, sendAt);
+		const retry = await api.handleTestRequest(
+			new Request(
+				`http://localhost/api/messages/${node.scheduledMessages[0].message.id}/retry`,
+				{ method: "POST" },
+			),
+		);
+		assert.strictEqual(retry.status, 409);
+	});
+
 	test("contacts CRUD endpoints persist and return data", async () => {
 		const createRes = await api.handleTestRequest(
 			new Request("http://localhost/api/database/contacts", {
@@ -346,6 +711,14 @@ describe("ApiModule", () => {
 		).contacts;
 		assert.strictEqual(contacts.length, 1);
 		assert.strictEqual(contacts[0].peer_id, VALID_PEER_ID);
+		assert.deepStrictEqual(
+			await json(
+				await api.handleTestRequest(
+					new Request("http://localhost/api/contacts"),
+				),
+			),
+			listBody,
+		);
 
 		const detailsRes = await api.handleTestRequest(
 			new Request(`http://localhost/api/database/contacts/${VALID_PEER_ID}`, {
@@ -366,6 +739,214 @@ describe("ApiModule", () => {
 		assert.strictEqual(deleteBody.success, true);
 	});
 
+	test("block list endpoints block, list and unblock peers", async () => {
+		const blockRes = await api.handleTestRequest(
+			new Request("http://localhost/api/blocks", {
+				method: "POST",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify({ peerId: VALID_PEER_ID, reason: "spam" }),
+			}),
+		);
+		assert.strictEqual(blockRes.status, 201);
+
+		const listBody = await json(
+			await api.handleTestRequest(new Request("http://localhost/api/blocks")),
+		);
+		assert.deepStrictEqual(
+			(
+				listBody.data as { blocks: Array<{ peerId: string; reason: string }> }
+			).blocks.map(({ peerId, reason }) => ({ peerId, reason })),
+			[{ peerId: VALID_PEER_ID, reason: "spam" }],
+		);
+
+		const invalidRes = await api.handleTestRequest(
+			new Request("http://localhost/api/blocks", {
+				method: "POST",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify({ peerId: "not-a-peer" }),
+			}),
+		);
+		assert.strictEqual(invalidRes.status, 400);
+
+		const unblock = () =>
+			api.handleTestRequest(
+				new Request(`http://localhost/api/blocks/${VALID_PEER_ID}`, {
+					method: "DELETE",
+				}),
+			);
+		assert.strictEqual((await unblock()).status, 200);
+		assert.strictEqual((await unblock()).status, 404);
+	});
+
+	test("message requests stay out of the inbox until accepted", async () => {
+		const now = Date.now();
+		node.db.setHistoryEntries([
+			{
+				message_id: "req-1",
+				direction: "inbound",
+				peer_id: VALID_PEER_ID,
+				status: "request",
+				attempts: 0,
+				created_at: now,
+				updated_at: now,
+			},
+		]);
+		node.db.setProcessedEntries([
+			{
+				message_id: "req-1",
+				from_peer_id: VALID_PEER_ID,
+				to_peer_id: SELF_PEER_ID,
+				message_data: JSON.stringify({
+					id: "req-1",
+					type: "data",
+					from: VALID_PEER_ID,
+					to: SELF_PEER_ID,
+					payload: { text: "hello?" },
+					timestamp: now,
+				}),
+				processed_at: now,
+			},
+		]);
+		const inboxIds = async () =>
+			(
+				(
+					await json(
+						await api.handleTestRequest(
+							new Request("http://localhost/api/messages/inbox"),
+						),
+					)
+				).data as { inbox: Array<{ messageId: string }> }
+			).inbox.map((entry) => entry.messageId);
+
+		assert.deepStrictEqual(await inboxIds(), []);
+		const listBody = await json(
+			await api.handleTestRequest(new Request("http://localhost/api/requests")),
+		);
+		assert.deepStrictEqual(
+			(listBody.data as { requests: Array<{ peerId: string }> }).requests.map(
+				(request) => request.peerId,
+			),
+			[VALID_PEER_ID],
+		);
+
+		const accept = () =>
+			api.handleTestRequest(
+				new Request(`http://localhost/api/requests/${VALID_PEER_ID}/accept`, {
+					method: "POST",
+					headers: { "Content-Type": "application/json" },
+					body: JSON.stringify({ alias: "new friend" }),
+				}),
+			);
+		assert.strictEqual((await accept()).status, 200);
+		assert.strictEqual(node.db.getContact(VALID_PEER_ID)?.alias, "new friend");
+		assert.deepStrictEqual(await inboxIds(), ["req-1"]);
+		assert.strictEqual((await accept()).status, 404);
+	});
+
+	test("conversations list unread counts and mark read with receipts", async () => {
+		const now = Date.now();
+		const conversationId = `peer:${VALID_PEER_ID}`;
+		node.db.conversations.set(conversationId, {
+			conversation_id: conversationId,
+			kind: "direct",
+			peer_id: VALID_PEER_ID,
+			group_id: null,
+			last_message_id: "msg-2",
+			last_message_preview: "see you soon",
+			last_message_at: now,
+			last_direction: "inbound",
+			unread_count: 2,
+			last_read_message_id: null,
+			last_read_at: null,
+			muted: false,
+			archived: false,
+			pinned: false,
+			expire_after_ms: null,
+			updated_at: now,
+		});
+		node.db.setHistoryEntries(
+			["msg-1", "msg-2"].map((messageId) => ({
+				message_id: messageId,
+				direction: "inbound" as const,
+				peer_id: VALID_PEER_ID,
+				status: "received",
+				attempts: 0,
+				created_at: now,
+				updated_at: now,
+			})),
+		);
+
+		const listBody = await json(
+			await api.handleTestRequest(
+				new Request("http://localhost/api/conversations"),
+			),
+		);
+		const [listed] = (
+			listBody.data as {
+				conversations: Array<{
+					unreadCount: number;
+					lastMessagePreview: string;
+				}>;
+			}
+		).conversations;
+		assert.strictEqual(listed.unreadCount, 2);
+		assert.strictEqual(listed.lastMessagePreview, "see you soon");
+
+		const readRes = await api.handleTestRequest(
+			new Request(`http://localhost/api/conversations/${conversationId}/read`, {
+				method: "POST",
+			}),
+		);
+		const readBody = await json(readRes);
+		assert.strictEqual(readRes.status, 200);
+		assert.deepStrictEqual(node.readReceipts, [
+			{ peerId: VALID_PEER_ID, messageIds: ["msg-1", "msg-2"] },
+		]);
+		const { conversation } = readBody.data as {
+			conversation: { unreadCount: number; lastReadMessageId: string };
+		};
+		assert.strictEqual(conversation.unreadCount, 0);
+		assert.strictEqual(conversation.lastReadMessageId, "msg-2");
+
+		const patchRes = await api.handleTestRequest(
+			new Request(`http://localhost/api/conversations/${conversationId}`, {
+				method: "PATCH",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify({ archived: "yes" }),
+			}),
+		);
+		assert.strictEqual(patchRes.status, 400);
+
+		const expiryRes = await api.handleTestRequest(
+			new Request(`http://localhost/api/conversations/${conversationId}`, {
+				method: "PATCH",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify({ expireAfterMs: 3_600_000 }),
+			}),
+		);
+		const expiryBody = await json(expiryRes);
+		assert.strictEqual(expiryRes.status, 200);
+		assert.strictEqual(
+			(expiryBody.data as { conversation: { expireAfterMs: number } })
+				.conversation.expireAfterMs,
+			3_600_000,
+		);
+		const badExpiry = await api.handleTestRequest(
+			new Request(`http://localhost/api/conversations/${conversationId}`, {
+				method: "PATCH",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify({ expireAfterMs: 0 }),
+			}),
+		);
+		assert.strictEqual(badExpiry.status, 400);
+		const missing = await api.handleTestRequest(
+			new Request("http://localhost/api/conversations/unknown/read", {
+				method: "POST",
+			}),
+		);
+		assert.strictEqual(missing.status, 404);
+	});
+
 	test("contacts endpoint rejects invalid publicKey", async () => {
 		const res = await api.handleTestRequest(
 			new Request("http://localhost/api/database/contacts", {
@@ -513,6 +1094,205 @@ describe("ApiModule", () => {
 		assert.strictEqual(data.messages[0].message.id, "m4");
 	});
 
+	test("GET /api/messages/:id returns delivery details and timeline", async () => {
+		const now = Date.now();
+		const relayPeerId = "12D3KooWRELAYpeer1234567890123456789012345678901234";
+		node.db.setQueueEntries([
+			{
+				message_id: "m7",
+				target_peer_id: VALID_PEER_ID,
+				status: "delivered",
+				attempts: 2,
+				created_at: now - 3000,
+				message_data: "{}",
+			},
+		]);
+		node.db.messageReplicas = [
+			{
+				id: 1,
+				message_id: "m7",
+				replica_peer_id: relayPeerId,
+				status: "stored",
+				assigned_at: now - 2000,
+				updated_at: now - 2000,
+				ack_expected: 1,
+				ack_received_at: null,
+			},
+		];
+		node.db.messageEvents = (
+			[
+				["queued", now - 3000, null],
+				["retry-scheduled", now - 2500, "dial-failed:timeout"],
+				["replicated", now - 2000, null],
+				["delivered", now - 1500, "acknowledged by relay"],
+				["delivered", now - 1000, null],
+			] as const
+		).map(([event, at, detail], index) => ({
+			id: index + 1,
+			message_id: "m7",
+			event,
+			peer_id: event === "replicated" ? relayPeerId : VALID_PEER_ID,
+			detail,
+			created_at: at,
+		}));
+
+		const res = await api.handleTestRequest(
+			new Request("http://localhost/api/messages/m7"),
+		);
+		const body = await json(res);
+		assert.strictEqual(res.status, 200);
+		const data = body.data as {
+			status: string;
+			attempts: number;
+			ackedAt: number | null;
+			relayAckedAt: number | null;
+			relays: string[];
+			timeline: Array<{ event: string; at: number; detail: string | null }>;
+		};
+		assert.strictEqual(data.status, "delivered");
+		assert.strictEqual(data.attempts, 2);
+		assert.strictEqual(data.ackedAt, now - 1000);
+		assert.strictEqual(data.relayAckedAt, now - 1500);
+		assert.deepStrictEqual(data.relays, [relayPeerId]);
+		assert.deepStrictEqual(
+			data.timeline.map((entry) => entry.event),
+			["queued", "retry-scheduled", "replicated", "delivered", "delivered"],
+		);
+		assert.strictEqual(data.timeline[1].detail, "dial-failed:timeout");
+
+		const missing = await api.handleTestRequest(
+			new Request("http://localhost/api/messages/unknown"),
+		);
+		assert.strictEqual(missing.status, 404);
+	});
+
+	test("queue endpoints cancel, reprioritize and retry queued messages", async () => {
+		const now = Date.now();
+		node.db.setQueueEntries(
+			["q1", "q2", "q3", "q4"].map((messageId) => ({
+				message_id: messageId,
+				target_peer_id: VALID_PEER_ID,
+				status: "pending" as const,
+				attempts: 3,
+				created_at: now,
+				message_data: "{}",
+			})),
+		);
+		const request = (method: string, path: string, body?: unknown) =>
+			api.handleTestRequest(
+				new Request(`http://localhost/api/messages/${path}`, {
+					method,
+					headers: { "Content-Type": "application/json" },
+					body: body === undefined ? undefined : JSON.stringify(body),
+				}),
+			);
+
+		assert.strictEqual(
+			(await request("POST", "q2/priority", { priority: 5 })).status,
+			200,
+		);
+		assert.strictEqual(
+			(await request("POST", "q2/priority", { priority: "high" })).status,
+			400,
+		);
+		const listed = (await json(await request("GET", "queue"))).data as {
+			messages: Array<{ messageId: string; priority: number }>;
+		};
+		assert.strictEqual(listed.messages[0].messageId, "q2");
+		assert.strictEqual(listed.messages[0].priority, 5);
+
+		const cancelled = await json(await request("DELETE", "q1"));
+		assert.strictEqual(
+			(cancelled.data as { cancelled: boolean }).cancelled,
+			true,
+		);
+		assert.strictEqual(node.sentMessages.length, 0);
+		assert.strictEqual((await request("DELETE", "q1/queue")).status, 404);
+		assert.strictEqual((await request("DELETE", "q3/queue")).status, 200);
+
+		// Sent but not ACKed yet: the retries stop and the message is retracted
+		node.db.setHistoryEntries([
+			{
+				message_id: "q4",
+				direction: "outbound",
+				peer_id: VALID_PEER_ID,
+				attempts: 3,
+				created_at: now,
+				updated_at: now,
+			},
+		]);
+		node.db.messageEvents = [
+			{
+				id: 1,
+				message_id: "q4",
+				event: "sent",
+				peer_id: VALID_PEER_ID,
+				detail: null,
+				created_at: now,
+			},
+		];
+		assert.strictEqual((await request("DELETE", "q4")).status, 200);
+		assert.strictEqual(node.db.getPendingMessage("q4")?.status, "cancelled");
+		assert.strictEqual(node.sentMessages[0]?.type, "retract");
+
+		assert.strictEqual((await request("POST", "q1/retry")).status, 200);
+		assert.deepStrictEqual(node.retriedMessageIds, ["q1"]);
+		node.failSend = true;
+		assert.strictEqual((await request("POST", "q2/retry")).status, 202);
+		assert.strictEqual((await request("POST", "missing/retry")).status, 404);
+	});
+
+	test("PATCH and DELETE /api/messages/:id amend sent messages", async () => {
+		const now = Date.now();
+		node.db.setHistoryEntries([
+			{
+				message_id: "m5",
+				direction: "outbound",
+				peer_id: VALID_PEER_ID,
+				attempts: 0,
+				created_at: now,
+				updated_at: now,
+			},
+			{
+				message_id: "m6",
+				direction: "outbound",
+				peer_id: VALID_PEER_ID,
+				attempts: 0,
+				created_at: now,
+				updated_at: now,
+				deleted_at: now,
+			},
+		]);
+		const request = (method: string, id: string, body?: unknown) =>
+			api.handleTestRequest(
+				new Request(`http://localhost/api/messages/${id}`, {
+					method,
+					headers: { "Content-Type": "application/json" },
+					body: body === undefined ? undefined : JSON.stringify(body),
+				}),
+			);
+
+		const edited = await request("PATCH", "m5", { payload: { text: "v2" } });
+		assert.strictEqual(edited.status, 200);
+		assert.strictEqual(
+			(node.sentMessages[0] as { originalMessageId?: string })
+				.originalMessageId,
+			"m5",
+		);
+		assert.deepStrictEqual(node.sentMessages[0].payload, { text: "v2" });
+
+		assert.strictEqual((await request("PATCH", "m5", {})).status, 400);
+		assert.strictEqual(
+			(await request("PATCH", "missing", { payload: {} })).status,
+			404,
+		);
+		assert.strictEqual((await request("DELETE", "m6")).status, 409);
+
+		const retracted = await request("DELETE", "m5");
+		assert.strictEqual(retracted.status, 200);
+		assert.strictEqual(node.sentMessages[1].type, "retract");
+	});
+
 	test("POST /api/node/stop is forbidden outside development", async () => {
 		const res = await api.handleTestRequest(
 			new Request("http://localhost/api/node/stop", { method: "POST" }),
@@ -604,6 +1384,27 @@ describe("ApiModule", () => {
 		);
 	});
 
+	test("GET /api/diagnostics returns the check report", async () => {
+		const res = await api.handleTestRequest(
+			new Request("http://localhost/api/diagnostics", { method: "GET" }),
+		);
+		const body = await json(res);
+		assert.strictEqual(res.status, 200);
+		const report = body.data as {
+			status: string;
+			checks: Array<{ id: string; status: string; fix?: string }>;
+		};
+		assert.strictEqual(report.status, "warn");
+		assert.deepStrictEqual(
+			report.checks.map((check) => [check.id, check.status]),
+			[
+				["dht", "warn"],
+				["database", "pass"],
+			],
+		);
+		assert.ok(report.checks[0].fix);
+	});
+
 	test("dialPeer uses cached multiaddrs from routing_cache", async () => {
 		// Add peer with multiaddrs
 		const peerId = "12D3KooWTestPeer";
@@ -618,4 +1419,94 @@ describe("ApiModule", () => {
 		// Should not error even if libp2p not initialized
 		assert.ok(res.status === 200 || res.status >= 400);
 	});
+
+	test("groups endpoints manage membership and fan out sends", async () => {
+		const createRes = await api.handleTestRequest(
+			new Request("http://localhost/api/groups", {
+				method: "POST",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify({
+					name: "team",
+					groupId: "group-1",
+					members: [VALID_PEER_ID],
+				}),
+			}),
+		);
+		const created = await json(createRes);
+		assert.strictEqual(createRes.status, 200);
+		assert.deepStrictEqual((created.data as { members: string[] }).members, [
+			VALID_PEER_ID,
+		]);
+
+		const duplicateRes = await api.handleTestRequest(
+			new Request("http://localhost/api/groups", {
+				method: "POST",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify({ name: "team", groupId: "group-1" }),
+			}),
+		);
+		assert.strictEqual(duplicateRes.status, 409);
+
+		const invalidMemberRes = await api.handleTestRequest(
+			new Request("http://localhost/api/groups/group-1/members", {
+				method: "POST",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify({ peerId: "not-a-peer" }),
+			}),
+		);
+		assert.strictEqual(invalidMemberRes.status, 400);
+
+		const sendRes = await api.handleTestRequest(
+			new Request("http://localhost/api/groups/group-1/send", {
+				method: "POST",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify({ payload: { text: "hello team" } }),
+			}),
+		);
+		const sent = await json(sendRes);
+		assert.strictEqual(sendRes.status, 200);
+		const deliveries = (
+			sent.data as { deliveries: Array<{ peerId: string; queued: boolean }> }
+		).deliveries;
+		assert.strictEqual(deliveries.length, 1);
+		assert.strictEqual(deliveries[0].peerId, VALID_PEER_ID);
+		assert.strictEqual(node.sentMessages[0].groupId, "group-1");
+
+		node.failSend = true;
+		const queuedRes = await api.handleTestRequest(
+			new Request("http://localhost/api/groups/group-1/send", {
+				method: "POST",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify({ payload: { text: "again" } }),
+			}),
+		);
+		assert.strictEqual(queuedRes.status, 202);
+
+		const removeRes = await api.handleTestRequest(
+			new Request(
+				`http://localhost/api/groups/group-1/members/${VALID_PEER_ID}`,
+				{ method: "DELETE" },
+			),
+		);
+		assert.strictEqual(removeRes.status, 200);
+
+		const emptySendRes = await api.handleTestRequest(
+			new Request("http://localhost/api/groups/group-1/send", {
+				method: "POST",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify({ payload: { text: "nobody" } }),
+			}),
+		);
+		assert.strictEqual(emptySendRes.status, 400);
+
+		const deleteRes = await api.handleTestRequest(
+			new Request("http://localhost/api/groups/group-1", { method: "DELETE" }),
+		);
+		assert.strictEqual(deleteRes.status, 200);
+
+		const missingRes = await api.handleTestRequest(
+			new Request("http://localhost/api/groups/group-1", { method: "GET" }),
+		);
+		assert.strictEqual(missingRes.status, 404);
+	});
 });
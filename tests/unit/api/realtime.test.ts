@@ -0,0 +1,200 @@
+import assert from "node:assert";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, test } from "node:test";
+import { WebSocket } from "ws";
+import { ApiModule } from "../../../src/api/index.js";
+import {
+	matchesSubscriptions,
+	parseSubscription,
+	type RealtimeEvent,
+	removeSubscription,
+} from "../../../src/api/realtime.js";
+import { YapYapNode } from "../../../src/core/node.js";
+import { DatabaseManager } from "../../../src/database/index.js";
+import { EventBus } from "../../../src/events/event-bus.js";
+import {
+	Events,
+	nextEventId,
+	type YapYapEvent,
+} from "../../../src/events/event-types.js";
+
+const PEER_A = "12D3KooWSBUjBmLvcdnTmNLf6ozPZeBUmXiE3wrRA9RBTjcjqNFm";
+const PEER_B = "12D3KooWB6urPZfyGZYtbGxVRhgGFbgsSFVjjEpuQgPd4X8S3LZE";
+
+function readEvent(id: string, peer: string): YapYapEvent {
+	return {
+		id,
+		type: Events.Message.Read,
+		timestamp: Date.now(),
+		messageId: `msg-${id}`,
+		peer,
+		readAt: Date.now(),
+	};
+}
+
+function emit(event: YapYapEvent): Promise<void> {
+	return EventBus.getInstance<Record<string, YapYapEvent>>().emit(event);
+}
+
+/**
+ * Collect SSE event IDs until `count` events arrived
+ */
+async function readSseIds(
+	response: Response,
+	count: number,
+	abort: AbortController,
+): Promise<string[]> {
+	const reader = response.body?.getReader();
+	assert.ok(reader);
+	const decoder = new TextDecoder();
+	let text = "";
+	const ids = () => [...text.matchAll(/^id: (.+)$/gm)].map((m) => m[1]);
+	while (ids().length < count) {
+		const { done, value } = await reader.read();
+		if (done) break;
+		text += decoder.decode(value);
+	}
+	abort.abort();
+	return ids();
+}
+
+describe("API - real-time subscriptions", () => {
+	let tempDir: string;
+	let db: DatabaseManager;
+	let api: ApiModule;
+
+	beforeEach(async () => {
+		tempDir = mkdtempSync(join(tmpdir(), "yapyap-api-realtime-"));
+		db = new DatabaseManager({ dataDir: tempDir });
+		api = new ApiModule(new YapYapNode(db));
+		await api.init(0);
+	});
+
+	afterEach(async () => {
+		await api.stop();
+		db.close();
+		rmSync(tempDir, { recursive: true, force: true });
+	});
+
+	test("subscriptions filter by event type and peer", () => {
+		const event: RealtimeEvent = {
+			id: "evt-1",
+			type: Events.Message.Received,
+			data: { message: { from: PEER_A, to: PEER_B } },
+			timestamp: Date.now(),
+		};
+		const received = parseSubscription([Events.Message.Received], PEER_A);
+		assert.ok(!("error" in received));
+		assert.ok(matchesSubscriptions(null, event));
+		assert.ok(matchesSubscriptions([received], event));
+		assert.ok(
+			!matchesSubscriptions(
+				[{ events: [Events.Message.Read], peerId: null }],
+				event,
+			),
+		);
+		assert.ok(
+			!matchesSubscriptions([{ events: null, peerId: "other" }], event),
+		);
+		assert.deepStrictEqual(parseSubscription(["bogus"], undefined), {
+			error: "Unknown event type: bogus",
+		});
+
+		const remaining = removeSubscription(null, {
+			events: [Events.Message.Received],
+			peerId: null,
+		});
+		assert.ok(!matchesSubscriptions(remaining, event));
+		assert.ok(
+			matchesSubscriptions(remaining, { ...event, type: Events.Message.Read }),
+		);
+	});
+
+	test("WebSocket clients receive only subscribed events", async () => {
+		const ws = new WebSocket(`ws://127.0.0.1:${api.apiPort}`);
+		const messages: Array<{ type: string; id?: string }> = [];
+		ws.on("message", (data) => messages.push(JSON.parse(data.toString())));
+		await new Promise((resolve) => ws.once("open", resolve));
+
+		ws.send(
+			JSON.stringify({
+				type: "subscribe",
+				events: [Events.Message.Read],
+				peerId: PEER_A,
+			}),
+		);
+		await new Promise((resolve) => ws.once("message", resolve));
+		assert.strictEqual(messages[0].type, "subscribed");
+
+		await emit(readEvent("ws-b", PEER_B));
+		await emit(readEvent("ws-a", PEER_A));
+		await new Promise((resolve) => setTimeout(resolve, 50));
+		ws.close();
+
+		assert.deepStrictEqual(
+			messages.slice(1).map((message) => message.id),
+			["ws-a"],
+		);
+	});
+
+	test("event IDs stay unique within one millisecond", () => {
+		const ids = Array.from({ length: 100 }, () => nextEventId());
+		assert.strictEqual(new Set(ids).size, ids.length);
+	});
+
+	test("SSE stream resumes after Last-Event-ID", async () => {
+		const url = `http://127.0.0.1:${api.apiPort}/api/events?events=${Events.Message.Read}`;
+		const first = new AbortController();
+		const live = await fetch(url, { signal: first.signal });
+		assert.strictEqual(live.status, 200);
+		assert.strictEqual(live.headers.get("content-type"), "text/event-stream");
+
+		await emit(readEvent("sse-1", PEER_A));
+		await emit(readEvent("sse-2", PEER_B));
+		await emit(readEvent("sse-3", PEER_A));
+		const seen = await readSseIds(live, 3, first);
+		assert.deepStrictEqual(seen.slice(-3), ["sse-1", "sse-2", "sse-3"]);
+
+		const second = new AbortController();
+		const resumed = await fetch(url, {
+			headers: { "Last-Event-ID": "sse-1" },
+			signal: second.signal,
+		});
+		assert.deepStrictEqual(await readSseIds(resumed, 2, second), [
+			"sse-2",
+			"sse-3",
+		]);
+
+		const third = new AbortController();
+		const expired = await fetch(url, {
+			headers: { "Last-Event-ID": "evt_gone" },
+			signal: third.signal,
+		});
+		const reader = expired.body?.getReader();
+		assert.ok(reader);
+		let text = "";
+		const readUntil = async (marker: string) => {
+			while (!text.includes(marker)) {
+				const { done, value } = await reader.read();
+				if (done) break;
+				text += new TextDecoder().decode(value);
+			}
+		};
+		await readUntil("event: reset");
+		await emit(readEvent("sse-4", PEER_A));
+		await readUntil("id: sse-4");
+		third.abort();
+		assert.match(text, /"lastEventId":"evt_gone"/);
+		assert.deepStrictEqual(
+			[...text.matchAll(/^id: (.+)$/gm)].map((m) => m[1]),
+			["sse-4"],
+		);
+
+		const invalid = await fetch(
+			`http://127.0.0.1:${api.apiPort}/api/events?events=bogus`,
+		);
+		assert.strictEqual(invalid.status, 400);
+	});
+});
@@ -0,0 +1,230 @@
+import assert from "node:assert";
+import { describe, test } from "node:test";
+import {
+	applyChatEvent,
+	buildChatMessages,
+	type ChatHistoryEntry,
+	createChatState,
+	findConversation,
+	messageStatus,
+	parseChatInput,
+	payloadText,
+	renderChat,
+	STATUS_ICONS,
+	stripControlChars,
+	wrapText,
+} from "../../../src/cli/chat.js";
+
+const SELF = "12D3KooWSelfSelfSelfSelfSelfSelfSelfSelfSelf";
+const ALICE = "12D3KooWAliceAliceAliceAliceAliceAliceAlice";
+const BOB = "12D3KooWBobBobBobBobBobBobBobBobBobBobBob";
+
+function historyEntry(
+	overrides: Partial<ChatHistoryEntry> & { messageId: string },
+): ChatHistoryEntry {
+	return {
+		direction: "outbound",
+		peerId: ALICE,
+		status: "pending",
+		createdAt: 1_000,
+		groupId: null,
+		readAt: null,
+		retractedAt: null,
+		message: { payload: { content: "hello" } },
+		...overrides,
+	};
+}
+
+describe("CLI chat", () => {
+	test("parses messages and slash commands", () => {
+		assert.deepStrictEqual(parseChatInput("  hi there "), {
+			type: "message",
+			text: "hi there",
+		});
+		assert.deepStrictEqual(parseChatInput("/Open alice smith"), {
+			type: "command",
+			command: "open",
+			args: ["alice", "smith"],
+		});
+		assert.deepStrictEqual(parseChatInput("//shrug"), {
+			type: "message",
+			text: "/shrug",
+		});
+		assert.deepStrictEqual(parseChatInput("   "), { type: "empty" });
+	});
+
+	test("advances delivery status from ACK, NAK and read events", () => {
+		const state = createChatState(SELF);
+		const message = {
+			id: "m1",
+			direction: "outbound" as const,
+			peerId: SELF,
+			text: "hello",
+			timestamp: 1_000,
+			statusIds: ["m1"],
+		};
+
+		applyChatEvent(state, {
+			type: "database.message.queued",
+			data: { message: { id: "m1" } },
+		});
+		assert.strictEqual(messageStatus(state, message), "queued");
+		applyChatEvent(state, { type: "nak.received", data: { messageId: "m1" } });
+		assert.strictEqual(messageStatus(state, message), "retrying");
+		applyChatEvent(state, { type: "ack.received", data: { messageId: "m1" } });
+		// A late send event must not hide the ACK
+		applyChatEvent(state, {
+			type: "message.sent",
+			data: { message: { id: "m1" } },
+		});
+		assert.strictEqual(messageStatus(state, message), "delivered");
+		applyChatEvent(state, { type: "message.read", data: { messageId: "m1" } });
+		assert.strictEqual(messageStatus(state, message), "read");
+
+		assert.strictEqual(
+			applyChatEvent(state, {
+				type: "message.received",
+				data: { message: { id: "m2", from: ALICE } },
+			}),
+			true,
+		);
+	});
+
+	test("folds group copies into one line showing the weakest status", () => {
+		const state = createChatState(SELF);
+		const group = {
+			id: "group-1",
+			kind: "group" as const,
+			unreadCount: 0,
+			lastMessageAt: null,
+		};
+		const messages = buildChatMessages(state, group, [
+			historyEntry({
+				messageId: `g1:${ALICE}`,
+				groupId: "group-1",
+				status: "delivered",
+				createdAt: 2_000,
+			}),
+			historyEntry({
+				messageId: `g1:${BOB}`,
+				peerId: BOB,
+				groupId: "group-1",
+				createdAt: 2_000,
+			}),
+			historyEntry({
+				messageId: "in-1",
+				direction: "inbound",
+				groupId: "group-1",
+				status: "received",
+				createdAt: 1_000,
+				message: { payload: "first" },
+			}),
+			historyEntry({ messageId: "direct-1" }),
+		]);
+
+		assert.deepStrictEqual(
+			messages.map((message) => [message.id, message.text]),
+			[
+				["in-1", "first"],
+				["g1", "hello"],
+			],
+		);
+		assert.strictEqual(messageStatus(state, messages[1]), "queued");
+		applyChatEvent(state, {
+			type: "ack.received",
+			data: { messageId: `g1:${BOB}` },
+		});
+		assert.strictEqual(messageStatus(state, messages[1]), "delivered");
+	});
+
+	test("finds conversations by number, ID or alias", () => {
+		const state = createChatState(SELF);
+		state.names.set(ALICE, "Alice");
+		state.conversations = [
+			{ id: ALICE, kind: "direct", unreadCount: 0, lastMessageAt: null },
+			{ id: BOB, kind: "direct", unreadCount: 0, lastMessageAt: null },
+		];
+
+		assert.strictEqual(findConversation(state, "2")?.id, BOB);
+		assert.strictEqual(findConversation(state, "alice")?.id, ALICE);
+		assert.strictEqual(findConversation(state, BOB)?.id, BOB);
+		assert.strictEqual(findConversation(state, "carol"), null);
+	});
+
+	test("renders the conversation list, messages and input line", () => {
+		const state = createChatState(SELF);
+		state.connected = true;
+		state.names.set(ALICE, "Alice");
+		state.conversations = [
+			{ id: ALICE, kind: "direct", unreadCount: 0, lastMessageAt: 1_000 },
+			{ id: BOB, kind: "direct", unreadCount: 3, lastMessageAt: 900 },
+		];
+		state.activeId = ALICE;
+		state.messages = [
+			{
+				id: "in-1",
+				direction: "inbound",
+				peerId: ALICE,
+				text: "hi!",
+				timestamp: 1_000,
+				statusIds: ["in-1"],
+			},
+			{
+				id: "out-1",
+				direction: "outbound",
+				peerId: SELF,
+				text: "hello Alice",
+				timestamp: 2_000,
+				statusIds: ["out-1"],
+			},
+		];
+		state.statuses.set("out-1", "delivered");
+		state.typing.set(ALICE, 10_000);
+		state.input = "draft";
+
+		const lines = renderChat(state, { columns: 80, rows: 10 }, 5_000);
+
+		assert.strictEqual(lines.length, 10);
+		assert.ok(lines[0].includes("live"));
+		assert.ok(lines[1].startsWith(">1 Alice"));
+		assert.ok(lines[2].includes("(3)"));
+		const pane = lines.slice(1, 8).join("\n");
+		assert.ok(pane.includes("Alice: hi!"));
+		assert.ok(pane.includes(`you: hello Alice ${STATUS_ICONS.delivered}`));
+		assert.strictEqual(lines[8].trim(), "Alice is typing…");
+		assert.strictEqual(lines[9], "> draft");
+		for (const line of lines) {
+			assert.ok(line.length <= 80);
+		}
+	});
+
+	test("strips terminal control characters from peer text and names", () => {
+		assert.strictEqual(
+			stripControlChars(
+				"hi\u001b]0;pwned\u0007\u001b[2J\u009b31m\tthere\nnext",
+			),
+			"hi]0;pwned[2J31m there\nnext",
+		);
+		assert.strictEqual(stripControlChars("a\nb", true), "a b");
+		assert.strictEqual(
+			payloadText({ content: "\u001b[31mred\u001b[0m" }),
+			"[31mred[0m",
+		);
+
+		const state = createChatState(SELF);
+		state.names.set(ALICE, "Al\u001b[8mice\n");
+		state.conversations = [
+			{ id: ALICE, kind: "direct", unreadCount: 0, lastMessageAt: 1_000 },
+		];
+		state.activeId = ALICE;
+		const lines = renderChat(state, { columns: 80, rows: 6 }, 5_000);
+		assert.ok(lines[1].startsWith(">1 Al[8mice"));
+		assert.ok(lines.every((line) => !line.includes("\u001b")));
+	});
+
+	test("wraps long lines and words to the pane width", () => {
+		assert.deepStrictEqual(wrapText("one two three", 7), ["one two", "three"]);
+		assert.deepStrictEqual(wrapText("abcdefghij", 4), ["abcd", "efgh", "ij"]);
+		assert.deepStrictEqual(wrapText("a\nb", 10), ["a", "b"]);
+	});
+});
@@ -0,0 +1,51 @@
+import assert from "node:assert";
+import { existsSync, mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, test } from "node:test";
+import {
+	DAEMON_FILE,
+	readDaemonInfo,
+	removeDaemonInfo,
+	writeDaemonInfo,
+} from "../../../src/cli/daemon.js";
+
+describe("CLI daemon discovery", () => {
+	let tempDir: string;
+
+	beforeEach(() => {
+		tempDir = mkdtempSync(join(tmpdir(), "yapyap-daemon-"));
+	});
+
+	afterEach(() => {
+		rmSync(tempDir, { recursive: true, force: true });
+	});
+
+	test("finds a live daemon and removes its file on shutdown", () => {
+		assert.strictEqual(readDaemonInfo(tempDir), null);
+		const info = {
+			pid: process.pid,
+			apiPort: 4321,
+			peerId: "12D3KooWSBUjBmLvcdnTmNLf6ozPZeBUmXiE3wrRA9RBTjcjqNFm",
+			startedAt: Date.now(),
+		};
+		writeDaemonInfo(tempDir, info);
+		assert.deepStrictEqual(readDaemonInfo(tempDir), info);
+
+		removeDaemonInfo(tempDir, process.pid + 1);
+		assert.ok(existsSync(join(tempDir, DAEMON_FILE)));
+		removeDaemonInfo(tempDir);
+		assert.strictEqual(readDaemonInfo(tempDir), null);
+	});
+
+	test("ignores and clears a file left by an exited process", () => {
+		writeDaemonInfo(tempDir, {
+			pid: 2 ** 22 + 1,
+			apiPort: 4321,
+			peerId: "stale",
+			startedAt: Date.now(),
+		});
+		assert.strictEqual(readDaemonInfo(tempDir), null);
+		assert.ok(!existsSync(join(tempDir, DAEMON_FILE)));
+	});
+});
@@ -0,0 +1,165 @@
+import assert from "node:assert";
+import { describe, test } from "node:test";
+import {
+	checkBootstrapDials,
+	checkClockSkew,
+	checkDatabaseIntegrity,
+	checkListenAddresses,
+	checkPendingBacklog,
+	checkPublicAddresses,
+	checkRelayReservations,
+	isPublicAddress,
+	summarizeDiagnostics,
+} from "../../../src/core/diagnostics.js";
+
+describe("core/diagnostics", () => {
+	test("isPublicAddress only accepts public IPs", () => {
+		assert.strictEqual(isPublicAddress("/ip4/203.0.113.7/tcp/4001"), true);
+		assert.strictEqual(isPublicAddress("/ip6/2001:db8::1/tcp/4001"), true);
+		for (const addr of [
+			"/dns4/node.example.org/tcp/4001",
+			"/ip4/127.0.0.1/tcp/4001",
+			"/ip4/10.1.2.3/tcp/4001",
+			"/ip4/172.20.0.5/tcp/4001",
+			"/ip4/192.168.1.10/tcp/4001",
+			"/ip4/100.64.0.1/tcp/4001",
+			"/ip6/::1/tcp/4001",
+			"/ip6/fd00::1/tcp/4001",
+			"/ip4/203.0.113.7/tcp/4001/p2p/12D3KooWRelay/p2p-circuit",
+		]) {
+			assert.strictEqual(isPublicAddress(addr), false, addr);
+		}
+	});
+
+	test("public address check never passes without verified reachability", () => {
+		const bound = checkPublicAddresses([
+			"/ip4/192.168.1.10/tcp/4001",
+			"/ip4/203.0.113.7/tcp/4001",
+		]);
+		assert.strictEqual(bound.status, "warn");
+		assert.ok(bound.message.includes("/ip4/203.0.113.7/tcp/4001"));
+		assert.ok(bound.fix);
+
+		const none = checkPublicAddresses(["/dns4/node.example.org/tcp/4001"]);
+		assert.strictEqual(none.status, "warn");
+		assert.ok(none.message.startsWith("No public IP address"));
+	});
+
+	test("listen check fails for configured ports that were not bound", () => {
+		const bound = checkListenAddresses(
+			["/ip4/0.0.0.0/tcp/4001", "/ip4/0.0.0.0/tcp/0"],
+			["/ip4/127.0.0.1/tcp/4001", "/ip4/127.0.0.1/tcp/53121"],
+		);
+		assert.strictEqual(bound.status, "pass");
+
+		const unbound = checkListenAddresses(
+			["/ip4/0.0.0.0/tcp/4001"],
+			["/ip4/127.0.0.1/tcp/4002"],
+		);
+		assert.strictEqual(unbound.status, "fail");
+		assert.ok(unbound.message.includes("/ip4/0.0.0.0/tcp/4001"));
+		assert.ok(unbound.fix);
+
+		assert.strictEqual(checkListenAddresses([], []).status, "fail");
+	});
+
+	test("reports one check per bootstrap dial", () => {
+		const checks = checkBootstrapDials([
+			{ addr: "/dns4/a.example.org/tcp/4001", latencyMs: 42 },
+			{ addr: "/dns4/b.example.org/tcp/4001", error: "connection refused" },
+		]);
+		assert.deepStrictEqual(
+			checks.map((check) => [check.id, check.status]),
+			[
+				["bootstrap:/dns4/a.example.org/tcp/4001", "pass"],
+				["bootstrap:/dns4/b.example.org/tcp/4001", "fail"],
+			],
+		);
+		assert.ok(checks[1].message.includes("connection refused"));
+		assert.strictEqual(checkBootstrapDials([])[0].status, "warn");
+	});
+
+	test("relay check passes with a reservation or a public address", () => {
+		assert.strictEqual(
+			checkRelayReservations(
+				["/ip4/203.0.113.7/tcp/4001/p2p/12D3KooWRelay/p2p-circuit"],
+				null,
+			).status,
+			"pass",
+		);
+		assert.strictEqual(
+			checkRelayReservations(["/ip4/203.0.113.7/tcp/4001"], 2).status,
+			"pass",
+		);
+		assert.strictEqual(
+			checkRelayReservations(["/ip4/192.168.1.10/tcp/4001"], 0).status,
+			"warn",
+		);
+	});
+
+	test("database integrity passes only on a lone ok row", () => {
+		assert.strictEqual(checkDatabaseIntegrity(["ok"]).status, "pass");
+		const corrupt = checkDatabaseIntegrity([
+			"row 3 missing from index idx_messages_timestamp",
+		]);
+		assert.strictEqual(corrupt.status, "fail");
+		assert.ok(corrupt.fix);
+	});
+
+	test("clock skew uses the median offset of connected peers", () => {
+		assert.strictEqual(checkClockSkew([]).status, "warn");
+		// One peer with a broken clock does not make ours look wrong
+		assert.strictEqual(checkClockSkew([500, -800, 600_000]).status, "pass");
+		assert.strictEqual(checkClockSkew([45_000, 50_000]).status, "warn");
+		const skewed = checkClockSkew([-300_000, -290_000, -310_000]);
+		assert.strictEqual(skewed.status, "fail");
+		assert.ok(skewed.message.includes("300s"));
+	});
+
+	test("backlog warns on large or stale queues and failed messages", () => {
+		const now = 10_000_000;
+		assert.strictEqual(
+			checkPendingBacklog({ counts: {}, oldestPendingAt: null }, now).status,
+			"pass",
+		);
+		assert.strictEqual(
+			checkPendingBacklog(
+				{ counts: { pending: 3 }, oldestPendingAt: now - 60_000 },
+				now,
+			).status,
+			"pass",
+		);
+		assert.strictEqual(
+			checkPendingBacklog(
+				{ counts: { pending: 3 }, oldestPendingAt: now - 2 * 60 * 60 * 1000 },
+				now,
+			).status,
+			"warn",
+		);
+		assert.strictEqual(
+			checkPendingBacklog(
+				{ counts: { pending: 400, processing: 100 }, oldestPendingAt: now },
+				now,
+			).status,
+			"warn",
+		);
+		assert.strictEqual(
+			checkPendingBacklog({ counts: { failed: 1 }, oldestPendingAt: null }, now)
+				.status,
+			"warn",
+		);
+	});
+
+	test("the report takes the worst check status", () => {
+		const pass = checkDatabaseIntegrity(["ok"]);
+		const warn = checkClockSkew([]);
+		const fail = checkDatabaseIntegrity(["broken"]);
+		assert.strictEqual(summarizeDiagnostics([pass], 1).status, "pass");
+		assert.strictEqual(summarizeDiagnostics([pass, warn], 1).status, "warn");
+		assert.strictEqual(
+			summarizeDiagnostics([fail, warn, pass], 1).status,
+			"fail",
+		);
+		assert.strictEqual(summarizeDiagnostics([], 1).status, "pass");
+	});
+});
@@ -1,9 +1,19 @@
 import assert from "node:assert";
 import { afterEach, beforeEach, describe, test } from "node:test";
+import { generateKeyPair } from "@libp2p/crypto/keys";
 import type { Libp2p } from "@libp2p/interface";
+import { peerIdFromPrivateKey } from "@libp2p/peer-id";
+import { DEFAULT_CONFIG } from "../../../src/config/index.js";
+import { decodeInvite, encodeInvite } from "../../../src/core/invite.js";
 import { YapYapNode } from "../../../src/core/node.js";
 import { DatabaseManager } from "../../../src/database/index.js";
-import { cleanupTempDir, createTempDir } from "../../helpers/test-utils.js";
+import { Events, type YapYapEvent } from "../../../src/events/event-types.js";
+import type { YapYapMessage } from "../../../src/message/message.js";
+import {
+	cleanupTempDir,
+	createTempDir,
+	sleep,
+} from "../../helpers/test-utils.js";
 
 describe("YapYapNode", () => {
 	let dataDir: string;
@@ -49,4 +59,267 @@ describe("YapYapNode", () => {
 
 		await node.shutdown();
 	});
+
+	test("a key change unverifies the contact and can block sends", async () => {
+		const node = new YapYapNode(db, {
+			...DEFAULT_CONFIG,
+			security: { ...DEFAULT_CONFIG.security, blockSendOnKeyChange: true },
+		});
+		await node.init({
+			peerId: { toString: () => "12D3KooWNodePeerId12345678901234567890123" },
+			handle: () => {},
+			addEventListener: () => {},
+			getConnections: () => [],
+		} as unknown as Libp2p);
+		const peerId = "12D3KooWSBUjBmLvcdnTmNLf6ozPZeBUmXiE3wrRA9RBTjcjqNFm";
+		const keyChanges: YapYapEvent[] = [];
+		const unsubscribe = node.onEvent(Events.Crypto.PeerKeyChanged, (event) => {
+			if (
+				event.type === Events.Crypto.PeerKeyChanged &&
+				event.peer === peerId
+			) {
+				keyChanges.push(event);
+			}
+		});
+
+		await node.updatePeerPublicKey(peerId, "aa".repeat(44));
+		const before = await node.getSafetyNumber(peerId);
+		assert.match(before?.safetyNumber ?? "", /^(\d{5} ){11}\d{5}$/);
+		db.verifyContact(peerId, "aa".repeat(44), Date.now());
+		assert.strictEqual(node.getSendBlockReason(peerId), null);
+
+		await node.updatePeerPublicKey(peerId, "bb".repeat(44));
+		unsubscribe();
+		const after = await node.getSafetyNumber(peerId);
+		assert.notStrictEqual(after?.safetyNumber, before?.safetyNumber);
+		assert.strictEqual(db.getContactVerification(peerId)?.verified_key, null);
+		assert.strictEqual(db.getContact(peerId)?.is_trusted, false);
+		assert.deepStrictEqual(
+			keyChanges.map((event) =>
+				event.type === Events.Crypto.PeerKeyChanged ? event.wasVerified : null,
+			),
+			[true],
+		);
+		assert.match(node.getSendBlockReason(peerId) ?? "", /changed/);
+		await assert.rejects(
+			node.messageRouter.enqueue({
+				id: "blocked-1",
+				type: "data",
+				from: node.getPeerId(),
+				to: peerId,
+				payload: { content: "hi" },
+				timestamp: Date.now(),
+			}),
+			/verify the contact/,
+		);
+
+		db.verifyContact(peerId, "bb".repeat(44), Date.now());
+		assert.strictEqual(node.getSendBlockReason(peerId), null);
+		await node.shutdown();
+	});
+
+	test("file transfer frames do not count as conversation messages", async () => {
+		const node = new YapYapNode(db);
+		const handleIncomingMessage = (
+			node as unknown as {
+				handleIncomingMessage: (message: YapYapMessage) => Promise<void>;
+			}
+		).handleIncomingMessage;
+		db.saveContact({
+			peer_id: "peer-remote",
+			alias: "remote",
+			metadata: "{}",
+			is_trusted: false,
+		});
+		const messages: YapYapMessage[] = [
+			{
+				id: "text-1",
+				type: "data",
+				from: "peer-remote",
+				to: "peer-local",
+				payload: { content: "hello" },
+				timestamp: Date.now(),
+			},
+			{
+				id: "chunk-1",
+				type: "data",
+				from: "peer-remote",
+				to: "peer-local",
+				payload: {
+					kind: "file-chunk",
+					fileId: "file-1",
+					manifestHash: "00",
+					index: 0,
+					hash: "00",
+					data: "",
+				},
+				timestamp: Date.now() + 1,
+			},
+		];
+		for (const message of messages) {
+			db.persistIncomingMessageAtomically({
+				messageId: message.id,
+				fromPeerId: message.from,
+				toPeerId: message.to,
+				messageData: message as unknown as Record<string, unknown>,
+				ttl: 60_000,
+			});
+			await handleIncomingMessage(message);
+		}
+
+		const conversation = db.getConversation("peer:peer-remote");
+		assert.strictEqual(conversation?.unread_count, 1);
+		assert.strictEqual(conversation?.last_message_id, "text-1");
+		assert.deepStrictEqual(
+			db
+				.getUnreadConversationMessages("peer:peer-remote")
+				.map((entry) => entry.message_id),
+			["text-1"],
+		);
+		await node.shutdown();
+	});
+
+	test("ratchet sessions start from the peer's signed prekey", async () => {
+		const startNode = async (nodeDb: DatabaseManager) => {
+			const key = await generateKeyPair("Ed25519");
+			nodeDb.saveNodeKey(
+				Buffer.from(key.publicKey.raw).toString("hex"),
+				Buffer.from(key.raw).toString("hex"),
+			);
+			const peerId = peerIdFromPrivateKey(key);
+			const node = new YapYapNode(nodeDb);
+			await node.init({
+				peerId,
+				handle: () => {},
+				addEventListener: () => {},
+				getConnections: () => [],
+				getMultiaddrs: () => [],
+			} as unknown as Libp2p);
+			return { node, peerId };
+		};
+		type Internals = {
+			currentSignedPrekey: () => Promise<{
+				publicKey: string;
+				signature: string;
+			} | null>;
+			processHandshake: (msg: unknown, peer: unknown) => Promise<unknown>;
+		};
+		const hello = async (from: YapYapNode) => ({
+			type: "hello",
+			version: "1.0.0",
+			capabilities: ["e2e", "double-ratchet"],
+			timestamp: Date.now(),
+			publicKey: Buffer.from(from.getEncryptionPublicKeyHex() ?? "", "hex"),
+			signedPrekey: await (from as unknown as Internals).currentSignedPrekey(),
+		});
+
+		const otherDir = await createTempDir("yapyap-node-bob-");
+		const otherDb = new DatabaseManager({ dataDir: otherDir });
+		const alice = await startNode(db);
+		const bob = await startNode(otherDb);
+		try {
+			const bobHello = await hello(bob.node);
+			assert.ok(bobHello.signedPrekey);
+			const aliceInternals = alice.node as unknown as Internals;
+
+			// A prekey signed by someone else is ignored
+			await aliceInternals.processHandshake(
+				{
+					...bobHello,
+					signedPrekey: {
+						...bobHello.signedPrekey,
+						signature: "00".repeat(64),
+					},
+				},
+				bob.peerId,
+			);
+			assert.strictEqual(
+				db.getPeerMetadata(bob.peerId.toString(), "signedPrekey"),
+				null,
+			);
+
+			await aliceInternals.processHandshake(bobHello, bob.peerId);
+			await (bob.node as unknown as Internals).processHandshake(
+				await hello(alice.node),
+				alice.peerId,
+			);
+			const payload = (await alice.node.encryptMessage(
+				{ content: "first" },
+				Buffer.from(bob.node.getEncryptionPublicKeyHex() ?? "", "hex"),
+				bob.peerId.toString(),
+			)) as { scheme?: string; prekey?: string };
+			assert.strictEqual(payload.scheme, "double-ratchet");
+			assert.strictEqual(payload.prekey, bobHello.signedPrekey?.publicKey);
+
+			const decrypted = await bob.node.decryptMessage({
+				id: "ratchet-1",
+				type: "data",
+				from: alice.peerId.toString(),
+				to: bob.peerId.toString(),
+				payload,
+				timestamp: Date.now(),
+			});
+			assert.deepStrictEqual(decrypted, { content: "first" });
+		} finally {
+			await alice.node.shutdown();
+			await bob.node.shutdown();
+			otherDb.close();
+			await cleanupTempDir(otherDir);
+		}
+	});
+
+	test("invites carry a signed key and address that another node imports", async () => {
+		const key = await generateKeyPair("Ed25519");
+		db.saveNodeKey(
+			Buffer.from(key.publicKey.raw).toString("hex"),
+			Buffer.from(key.raw).toString("hex"),
+		);
+		const inviterPeerId = peerIdFromPrivateKey(key).toString();
+		const address = `/ip4/192.0.2.1/tcp/4001/p2p/${inviterPeerId}`;
+		const inviter = new YapYapNode(db);
+		await inviter.init({
+			peerId: { toString: () => inviterPeerId },
+			handle: () => {},
+			addEventListener: () => {},
+			getConnections: () => [],
+			getMultiaddrs: () => [{ toString: () => address }],
+		} as unknown as Libp2p);
+
+		const otherDir = await createTempDir("yapyap-node-invitee-");
+		const otherDb = new DatabaseManager({ dataDir: otherDir });
+		const invitee = new YapYapNode(otherDb);
+		try {
+			const uri = await inviter.createInvite({
+				alias: "alice",
+				expiresInMs: 60_000,
+			});
+			assert.match(uri, /^yapyap:\/\/invite\/[A-Za-z0-9_-]+$/);
+
+			const tampered = encodeInvite({
+				...decodeInvite(uri),
+				publicKey: "bb".repeat(44),
+			});
+			await assert.rejects(invitee.importInvite(tampered), /signature/);
+
+			await invitee.importInvite(uri);
+			assert.strictEqual(otherDb.getContact(inviterPeerId)?.alias, "alice");
+			assert.deepStrictEqual(
+				otherDb.getRoutingEntry(inviterPeerId)?.multiaddrs,
+				[address],
+			);
+			assert.strictEqual(
+				await invitee.getPeerPublicKey(inviterPeerId),
+				inviter.getEncryptionPublicKeyHex(),
+			);
+
+			const shortLived = await inviter.createInvite({ expiresInMs: 1 });
+			await sleep(5);
+			await assert.rejects(invitee.importInvite(shortLived), /expired/);
+		} finally {
+			await invitee.shutdown();
+			await inviter.shutdown();
+			otherDb.close();
+			await cleanupTempDir(otherDir);
+		}
+	});
 });